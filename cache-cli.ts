@@ -6,62 +6,345 @@
  * Usage:
  *   npm run cache:stats  - Show cache statistics
  *   npm run cache:clear  - Clear all cached responses
+ *   npm run cache -- <command> [options]  - Any command below
+ *
+ * Commands:
+ *   stats                                  Show cache statistics
+ *   clear                                  Clear all cached responses
+ *   list [--json]                          List entries: URL, params, age and size
+ *   inspect <url-pattern> [--full]         Show matching entries with their data
+ *   prune [--older-than 7d] [--max-size 100MB]
+ *                                          Evict entries, oldest first
+ *   invalidate [--org o] [--project p] [--repo r]
+ *                                          Remove entries for an org/project/repo
+ *   export <file>                          Bundle all entries (.gz to compress)
+ *   import <file> [--overwrite]            Load a bundle into the cache
  */
 
+import { parseArgs } from "util";
 import {
   clearCache,
+  closeCache,
   getCacheStats,
-  isCacheEnabled,
 } from "./src/lib/azure-devops/cache";
+import {
+  exportCache,
+  importCache,
+  inspectCacheEntries,
+  invalidateCache,
+  listCacheEntries,
+  pruneCache,
+} from "./src/lib/azure-devops/cacheManagement";
 
-const command = process.argv[2];
-
-switch (command) {
-  case "stats":
-    {
-      const stats = getCacheStats();
-      console.log("\n📊 ADO Cache Statistics");
-      console.log("=".repeat(50));
-      console.log(`Caching Enabled: ${stats.enabled ? "Yes" : "No"}`);
-      console.log(`Directory: ${stats.directory}`);
-      console.log(`Entries: ${stats.entries}`);
-      console.log(
-        `Total Size: ${(stats.totalSize / 1024).toFixed(2)} KB (${(
-          stats.totalSize /
-          1024 /
-          1024
-        ).toFixed(2)} MB)`
-      );
-      console.log("=".repeat(50));
-      console.log();
-      if (!stats.enabled) {
+// Characters of response data shown by inspect without --full
+const INSPECT_PREVIEW_LENGTH = 2000;
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+  gb: 1024 * 1024 * 1024,
+};
+
+const [command, ...args] = process.argv.slice(2);
+
+/**
+ * Parse a duration like "30m", "12h", "7d" or "2w" into milliseconds
+ */
+function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([mhdw])$/i);
+  if (!match) {
+    throw new Error(
+      `Invalid duration "${value}" (expected e.g. 30m, 12h, 7d or 2w)`
+    );
+  }
+  return parseFloat(match[1]) * DURATION_UNITS_MS[match[2].toLowerCase()];
+}
+
+/**
+ * Parse a size like "500KB", "100MB" or "1GB" (bytes when there's no unit)
+ */
+function parseSize(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i);
+  if (!match) {
+    throw new Error(`Invalid size "${value}" (expected e.g. 500KB or 100MB)`);
+  }
+  return Math.floor(
+    parseFloat(match[1]) * SIZE_UNITS[(match[2] || "b").toLowerCase()]
+  );
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+function formatAge(timestamp?: string): string {
+  if (!timestamp) return "?";
+  const minutes = Math.floor((Date.now() - Date.parse(timestamp)) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h`;
+  return `${Math.floor(minutes / 60 / 24)}d`;
+}
+
+function formatParams(params?: Record<string, any>): string {
+  const entries = Object.entries(params || {}).filter(
+    ([key]) => key !== "api-version" && key !== "_body"
+  );
+  const text = entries
+    .map(([key, value]) => `${key}=${JSON.stringify(value)}`)
+    .join(" ");
+  return params?._body ? `${text} (+ body)`.trim() : text;
+}
+
+async function main() {
+  switch (command) {
+    case "stats":
+      {
+        const stats = await getCacheStats();
+        console.log("\n📊 ADO Cache Statistics");
+        console.log("=".repeat(50));
+        console.log(`Caching Enabled: ${stats.enabled ? "Yes" : "No"}`);
+        console.log(`Store: ${stats.store}`);
+        console.log(`Location: ${stats.location}`);
+        console.log(`Entries: ${stats.entries}`);
         console.log(
-          "💡 Tip: Set ADO_CACHE_ENABLED=true to enable disk caching"
+          `Total Size: ${(stats.totalSize / 1024).toFixed(2)} KB (${(
+            stats.totalSize /
+            1024 /
+            1024
+          ).toFixed(2)} MB)`
         );
-        console.log("   (recommended for local development only)");
+        console.log("=".repeat(50));
         console.log();
+        if (!stats.enabled) {
+          console.log("💡 Tip: Set ADO_CACHE_ENABLED=true to enable caching");
+          console.log("   (recommended for local development only)");
+          console.log();
+        }
       }
-    }
-    break;
-
-  case "clear":
-    {
-      console.log("\n🗑️  Clearing ADO cache...");
-      clearCache();
-      console.log("✓ Cache cleared successfully\n");
-    }
-    break;
-
-  default:
-    console.log("\n📦 ADO Cache Manager");
-    console.log("\nUsage:");
-    console.log("  npm run cache:stats  - Show cache statistics");
-    console.log("  npm run cache:clear  - Clear disk cache files");
-    console.log("\nEnvironment Variables:");
-    console.log(
-      "  ADO_CACHE_ENABLED=true  - Enable file-based caching (for development)"
-    );
-    console.log("  ADO_CACHE_ENABLED=false - Disable caching (default)");
-    console.log();
-    process.exit(1);
+      break;
+
+    case "clear":
+      {
+        console.log("\n🗑️  Clearing ADO cache...");
+        await clearCache();
+        console.log("✓ Cache cleared successfully\n");
+      }
+      break;
+
+    case "list":
+      {
+        const { values } = parseArgs({
+          args,
+          options: { json: { type: "boolean" } },
+        });
+        const entries = await listCacheEntries();
+        if (values.json) {
+          console.log(JSON.stringify(entries, null, 2));
+          break;
+        }
+
+        console.log(`\n📋 ${entries.length} cache entries (oldest first)\n`);
+        for (const entry of entries) {
+          console.log(
+            `${formatAge(entry.timestamp).padStart(5)}  ${formatSize(
+              entry.size
+            ).padStart(9)}  ${entry.url}`
+          );
+          const params = formatParams(entry.params);
+          const details = [
+            entry.organization && `org=${entry.organization}`,
+            entry.project && `project=${entry.project}`,
+            entry.repository && `repo=${entry.repository}`,
+            entry.rule && `rule=${entry.rule}`,
+            params,
+          ].filter(Boolean);
+          if (details.length > 0) {
+            console.log(`${" ".repeat(18)}${details.join(" ")}`);
+          }
+        }
+        const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+        console.log(`\nTotal: ${formatSize(totalSize)}\n`);
+      }
+      break;
+
+    case "inspect":
+      {
+        const { values, positionals } = parseArgs({
+          args,
+          allowPositionals: true,
+          options: { full: { type: "boolean" } },
+        });
+        const pattern = positionals[0];
+        if (!pattern) {
+          throw new Error("Usage: inspect <url-pattern> [--full]");
+        }
+
+        const matches = await inspectCacheEntries(pattern);
+        console.log(`\n🔍 ${matches.length} entries matching "${pattern}"`);
+        for (const { data, ...entry } of matches) {
+          console.log(`\n${"=".repeat(50)}`);
+          console.log(`URL: ${entry.url}`);
+          console.log(`Key: ${entry.key}`);
+          if (entry.organization) {
+            console.log(`Organization: ${entry.organization}`);
+          }
+          if (entry.project || entry.repository) {
+            console.log(
+              `About: ${[entry.project, entry.repository]
+                .filter(Boolean)
+                .join(" / ")}`
+            );
+          }
+          console.log(`Params: ${JSON.stringify(entry.params || {}, null, 2)}`);
+          console.log(
+            `Cached: ${entry.timestamp} (${formatAge(entry.timestamp)} ago)`
+          );
+          console.log(`Expires: ${entry.expiresAt || "never"}`);
+          if (entry.staleUntil) {
+            console.log(`Stale Until: ${entry.staleUntil}`);
+          }
+          if (entry.rule) {
+            console.log(`Rule: ${entry.rule}`);
+          }
+          console.log(`Size: ${formatSize(entry.size)}`);
+
+          const json = JSON.stringify(data, null, 2) || "";
+          const preview =
+            values.full || json.length <= INSPECT_PREVIEW_LENGTH
+              ? json
+              : `${json.slice(0, INSPECT_PREVIEW_LENGTH)}\n… (${
+                  json.length - INSPECT_PREVIEW_LENGTH
+                } more characters, use --full)`;
+          console.log(`Data:\n${preview}`);
+        }
+        console.log();
+      }
+      break;
+
+    case "prune":
+      {
+        const { values } = parseArgs({
+          args,
+          options: {
+            "older-than": { type: "string" },
+            "max-size": { type: "string" },
+          },
+        });
+        if (!values["older-than"] && !values["max-size"]) {
+          throw new Error(
+            "Usage: prune [--older-than 7d] [--max-size 100MB] (at least one)"
+          );
+        }
+
+        const { removed, freedBytes } = await pruneCache({
+          olderThanMs: values["older-than"]
+            ? parseDuration(values["older-than"])
+            : undefined,
+          maxBytes: values["max-size"]
+            ? parseSize(values["max-size"])
+            : undefined,
+        });
+        console.log(
+          `\n✂️  Pruned ${removed} entries (${formatSize(freedBytes)} freed)\n`
+        );
+      }
+      break;
+
+    case "invalidate":
+      {
+        const { values } = parseArgs({
+          args,
+          options: {
+            org: { type: "string" },
+            project: { type: "string" },
+            repo: { type: "string" },
+          },
+        });
+        const removed = await invalidateCache({
+          organization: values.org,
+          project: values.project,
+          repository: values.repo,
+        });
+        console.log(`\n🗑️  Invalidated ${removed} entries\n`);
+      }
+      break;
+
+    case "export":
+      {
+        const file = args[0];
+        if (!file) {
+          throw new Error("Usage: export <file> (e.g. ado-cache.json.gz)");
+        }
+        const count = await exportCache(file);
+        console.log(`\n📦 Exported ${count} entries to ${file}\n`);
+      }
+      break;
+
+    case "import":
+      {
+        const { values, positionals } = parseArgs({
+          args,
+          allowPositionals: true,
+          options: { overwrite: { type: "boolean" } },
+        });
+        const file = positionals[0];
+        if (!file) {
+          throw new Error("Usage: import <file> [--overwrite]");
+        }
+        const { imported, skipped } = await importCache(file, {
+          overwrite: values.overwrite,
+        });
+        console.log(
+          `\n📥 Imported ${imported} entries from ${file}${
+            skipped > 0
+              ? ` (${skipped} skipped: the cached copy is as new or newer)`
+              : ""
+          }\n`
+        );
+      }
+      break;
+
+    default:
+      console.log("\n📦 ADO Cache Manager");
+      console.log("\nUsage:");
+      console.log("  npm run cache:stats  - Show cache statistics");
+      console.log("  npm run cache:clear  - Clear cached responses");
+      console.log("  npm run cache -- list [--json]");
+      console.log("  npm run cache -- inspect <url-pattern> [--full]");
+      console.log(
+        "  npm run cache -- prune [--older-than 7d] [--max-size 100MB]"
+      );
+      console.log(
+        "  npm run cache -- invalidate [--org o] [--project p] [--repo r]"
+      );
+      console.log("  npm run cache -- export <file>");
+      console.log("  npm run cache -- import <file> [--overwrite]");
+      console.log("\nEnvironment Variables:");
+      console.log(
+        "  ADO_CACHE_ENABLED=true  - Enable caching (for development)"
+      );
+      console.log("  ADO_CACHE_ENABLED=false - Disable caching (default)");
+      console.log(
+        "  ADO_CACHE_STORE=file|memory|sqlite|redis - Where entries are kept (default: file)"
+      );
+      console.log();
+      process.exit(1);
+  }
 }
+
+main()
+  .catch((error) => {
+    console.error("❌ Cache command failed:", error.message || error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeCache());
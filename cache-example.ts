@@ -11,6 +11,7 @@ import {
   AzureDevOpsClient,
   getCacheStats,
   clearCache,
+  closeCache,
 } from "./src/lib/azure-devops";
 import * as dotenv from "dotenv";
 
@@ -47,7 +48,7 @@ async function demonstrateCaching() {
   }
 
   console.log("📊 Initial Cache Stats:");
-  let stats = getCacheStats();
+  let stats = await getCacheStats();
   console.log(
     `   Entries: ${stats.entries}, Size: ${(stats.totalSize / 1024).toFixed(
       2
@@ -56,7 +57,7 @@ async function demonstrateCaching() {
 
   // Clear cache for clean test
   console.log("🧹 Clearing cache for clean test...\n");
-  clearCache();
+  await clearCache();
 
   // Create client with caching enabled
   const client = new AzureDevOpsClient({
@@ -92,14 +93,19 @@ async function demonstrateCaching() {
     console.log(`   Speed up:       ${improvement}% faster\n`);
 
     // Show cache stats
-    stats = getCacheStats();
+    stats = await getCacheStats();
     console.log("📊 Final Cache Stats:");
     console.log(`   Entries: ${stats.entries}`);
     console.log(`   Size: ${(stats.totalSize / 1024).toFixed(2)} KB`);
-    console.log(`   Location: ${stats.directory}\n`);
+    console.log(`   Location: ${stats.location} (${stats.store})`);
+    console.log(
+      `   Hits: ${stats.counters.hits}, Misses: ${stats.counters.misses}, Stale: ${stats.counters.staleHits}, Expired: ${stats.counters.expired}\n`
+    );
   } catch (error: any) {
     console.error("❌ Error:", error.message);
     process.exit(1);
+  } finally {
+    await closeCache();
   }
 }
 
@@ -0,0 +1,143 @@
+#!/usr/bin/env node
+
+/**
+ * Mock Azure DevOps server
+ *
+ * Serves a seeded demo organization over the REST endpoints the fetchers
+ * call, so the app and test-api.ts can run without a real organization or PAT.
+ *
+ * Usage:
+ *   npm run mock:ado -- [options]
+ *
+ * Options:
+ *   --port 4010                   Port to listen on
+ *   --persona nightOwl            Demo persona (nightOwl, weekendWarrior, nineToFive)
+ *   --volume typical              Activity volume (light, typical, heavy)
+ *   --seed 42                     Same seed, same organization
+ *   --year 2025                   Year the activity falls in (last year by default)
+ *   --dataset <file>              Serve a JSON dataset (MockAdoDataset) instead
+ *   --pat <pat>                   Only accept this PAT (any by default)
+ *   --throttle-every 10           Answer every Nth request with a 429
+ *   --retry-after 1               Retry-After seconds for 429s and 503s
+ *   --fail <path>=<status>[x<n>]  Fail requests whose path contains <path>
+ *                                 (n times, or always); repeatable
+ */
+
+import fs from "fs";
+import { parseArgs } from "util";
+import {
+  parseDemoOptions,
+  validateDemoOptions,
+} from "./src/lib/azure-devops/demoData";
+import {
+  MockAdoDataset,
+  MockErrorRule,
+  createMockDataset,
+  startMockAdoServer,
+} from "./src/lib/azure-devops/mockServer";
+
+const DEFAULT_PORT = 4010;
+
+const { values } = parseArgs({
+  options: {
+    port: { type: "string", default: `${DEFAULT_PORT}` },
+    persona: { type: "string" },
+    volume: { type: "string" },
+    seed: { type: "string" },
+    year: { type: "string" },
+    dataset: { type: "string" },
+    pat: { type: "string" },
+    "throttle-every": { type: "string" },
+    "retry-after": { type: "string" },
+    fail: { type: "string", multiple: true },
+  },
+});
+
+/**
+ * Parse "--fail <path>=<status>[x<times>]", e.g. "/_apis/wit/wiql=500" or
+ * "/_apis/identities=503x2"
+ */
+function parseErrorRule(value: string): MockErrorRule {
+  const match = value.match(/^(.+)=(\d{3})(?:x(\d+))?$/);
+  if (!match) {
+    throw new Error(
+      `Invalid --fail "${value}": expected <path>=<status>, optionally followed by x<times>`
+    );
+  }
+  return {
+    path: match[1],
+    status: parseInt(match[2]),
+    times: match[3] ? parseInt(match[3]) : undefined,
+  };
+}
+
+function loadDataset(): MockAdoDataset {
+  if (values.dataset) {
+    console.log(`📂 Loading dataset from ${values.dataset}`);
+    return JSON.parse(fs.readFileSync(values.dataset, "utf-8"));
+  }
+
+  const options = parseDemoOptions(
+    new URLSearchParams(
+      Object.entries({
+        persona: values.persona,
+        volume: values.volume,
+        seed: values.seed,
+        year: values.year,
+      }).filter((entry): entry is [string, string] => !!entry[1])
+    )
+  );
+  const error = validateDemoOptions(options);
+  if (error) {
+    throw new Error(error);
+  }
+  console.log(
+    `🎭 Generating ${options.persona} organization: ${options.volume} volume, seed ${options.seed}, ${options.year}`
+  );
+  return createMockDataset(options);
+}
+
+async function main() {
+  const dataset = loadDataset();
+  const server = await startMockAdoServer({
+    dataset,
+    port: parseInt(values.port!),
+    pat: values.pat,
+    throttleEvery: parseInt(values["throttle-every"] || "0"),
+    retryAfterSeconds: parseInt(values["retry-after"] || "0"),
+    errors: (values.fail || []).map(parseErrorRule),
+  });
+
+  const user = dataset.identities.find((identity) =>
+    Object.values(dataset.commits).some((commits) =>
+      commits.some((commit) => commit.author.email === identity.uniqueName)
+    )
+  );
+  console.log(`\n🧩 Mock Azure DevOps listening on ${server.url}`);
+  console.log(`\nPoint the app at it with:`);
+  console.log(`   ADO_BASE_URL=${server.url}`);
+  console.log(`   ADO_ORGANIZATION=${dataset.organization}`);
+  console.log(`   ADO_PAT=${values.pat || "anything"}`);
+  console.log(
+    `   ADO_REPOSITORIES=${dataset.repositories
+      .map((repository) => `${repository.project?.name}/${repository.name}`)
+      .join(",")}`
+  );
+  if (user) {
+    console.log(`   ADO_USER_EMAIL=${user.uniqueName}`);
+  }
+  console.log(`\nPress Ctrl+C to stop.`);
+
+  const stop = async () => {
+    console.log(`\n👋 Stopping (${server.requests.length} requests served)`);
+    await server.close();
+    process.exit(0);
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+}
+
+main().catch((error) => {
+  console.error("❌ Error:", error.message);
+  process.exitCode = 1;
+});
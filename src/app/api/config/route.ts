@@ -25,6 +25,11 @@ export async function GET() {
             repositories: config.repositories,
             year: config.year,
             userEmail: config.userEmail,
+            teamMembers: config.teamMembers,
+            aliases: config.aliases,
+            compareYears: config.compareYears,
+            includeBuilds: config.includeBuilds,
+            dateRange: config.dateRange,
           }
         : null,
       errors: validation.errors,
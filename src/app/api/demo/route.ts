@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createDemoStats,
+  parseDemoOptions,
+  validateDemoOptions,
+} from "@/lib/azure-devops/demoData";
+import { filterStatsForClient } from "@/lib/azure-devops/statsCollector";
+
+/**
+ * GET /api/demo?persona=nightOwl&volume=typical&seed=42
+ * Returns a Wrapped built from synthetic data (no PAT or Azure DevOps access)
+ */
+export async function GET(request: NextRequest) {
+  const options = parseDemoOptions(request.nextUrl.searchParams);
+  const optionsError = validateDemoOptions(options);
+  if (optionsError) {
+    console.error(`❌ Invalid demo options: ${optionsError}`);
+    return NextResponse.json(
+      { error: "Invalid demo options", details: optionsError },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(filterStatsForClient(createDemoStats(options)));
+  } catch (error: any) {
+    console.error("❌ Demo API error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to generate demo stats" },
+      { status: 500 }
+    );
+  }
+}
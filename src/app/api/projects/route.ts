@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/azure-devops/client";
+import { getCredentialFromHeader } from "@/lib/azure-devops/credentials";
 import { fetchProjects } from "@/lib/azure-devops/projects";
 
 export async function GET(request: NextRequest) {
@@ -7,25 +8,28 @@ export async function GET(request: NextRequest) {
   console.log(`\n[${requestId}] 🏢 Projects API Request started`);
 
   try {
-    // Get PAT from Authorization header
-    const authHeader = request.headers.get("authorization");
-    const pat = authHeader?.replace("Bearer ", "");
+    // Get the PAT or Entra ID access token from the Authorization header
+    const credential = getCredentialFromHeader(
+      request.headers.get("authorization")
+    );
 
     // Get organization from query params
     const searchParams = request.nextUrl.searchParams;
     const organization = searchParams.get("organization");
 
-    console.log(`[${requestId}] 🔑 PAT present: ${!!pat}`);
+    console.log(
+      `[${requestId}] 🔑 Credential: ${credential ? credential.type : "(none)"}`
+    );
     console.log(`[${requestId}] 📋 Organization: ${organization}`);
 
     // Validate required parameters
-    if (!pat) {
-      console.error(`[${requestId}] ❌ Missing PAT`);
+    if (!credential) {
+      console.error(`[${requestId}] ❌ Missing PAT or access token`);
       return NextResponse.json(
         {
-          error: "Authorization header with PAT is required",
+          error: "Authorization header with a PAT or access token is required",
           code: "MISSING_PAT",
-          required: ["Authorization header (Bearer token)"],
+          required: ["Authorization header (Bearer PAT or Entra ID token)"],
         },
         { status: 401 }
       );
@@ -44,7 +48,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Create client and fetch projects
-    const client = createClient({ organization, pat });
+    const client = createClient({ organization, credential });
     const projects = await fetchProjects(client);
 
     console.log(`[${requestId}] ✅ Returning ${projects.length} projects`);
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteSnapshot, getSnapshot } from "@/lib/azure-devops/snapshots";
+
+/**
+ * GET /api/snapshots/{id}
+ * Returns a saved Wrapped ({ id, createdAt, expiresAt, selfReported, stats });
+ * no PAT needed
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const snapshot = await getSnapshot(params.id);
+    if (!snapshot) {
+      return NextResponse.json(
+        {
+          error: "Snapshot not found",
+          details: "It may have expired or been deleted",
+        },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(snapshot);
+  } catch (error: any) {
+    console.error("❌ Snapshot API error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to load snapshot" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/snapshots/{id}
+ * Deletes a snapshot; needs the deleteToken returned when it was created,
+ * as "Authorization: Bearer <deleteToken>"
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const [scheme, token] = (request.headers.get("authorization") || "")
+    .trim()
+    .split(/\s+/, 2);
+  if (scheme.toLowerCase() !== "bearer" || !token) {
+    return NextResponse.json(
+      {
+        error: "Missing delete token",
+        details: "Send the snapshot's deleteToken as a Bearer token",
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    switch (await deleteSnapshot(params.id, token)) {
+      case "notFound":
+        return NextResponse.json(
+          { error: "Snapshot not found" },
+          { status: 404 }
+        );
+      case "forbidden":
+        return NextResponse.json(
+          { error: "Wrong delete token for this snapshot" },
+          { status: 403 }
+        );
+      default:
+        return new NextResponse(null, { status: 204 });
+    }
+  } catch (error: any) {
+    console.error("❌ Snapshot API error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to delete snapshot" },
+      { status: 500 }
+    );
+  }
+}
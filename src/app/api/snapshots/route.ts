@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  checkSnapshotRateLimit,
+  createSnapshot,
+  isSharingEnabled,
+  validateSnapshotRequest,
+} from "@/lib/azure-devops/snapshots";
+import { MAX_SNAPSHOT_BYTES } from "@/lib/constants";
+
+/**
+ * POST /api/snapshots with { stats, expiresInDays? }
+ * Saves a Wrapped as an immutable snapshot viewable at /wrapped/s/{id}
+ * without a PAT. The response's deleteToken is the only way to delete it.
+ * The stats are the sharer's own and aren't checked against Azure DevOps,
+ * so snapshots are marked self-reported.
+ * Each client may save ADO_SNAPSHOT_RATE_LIMIT snapshots an hour (0 turns
+ * sharing off).
+ */
+export async function POST(request: NextRequest) {
+  if (!isSharingEnabled()) {
+    return NextResponse.json(
+      {
+        error: "Sharing is turned off",
+        details: "Set ADO_SNAPSHOT_RATE_LIMIT above 0 to allow share links",
+      },
+      { status: 403 }
+    );
+  }
+
+  // Turn away large bodies before reading them; the length is checked again
+  // after reading, for bodies sent without one
+  const contentLength = Number(request.headers.get("content-length"));
+  if (contentLength > MAX_SNAPSHOT_BYTES) {
+    return snapshotTooLarge();
+  }
+
+  const retryAfter = checkSnapshotRateLimit(getClientAddress(request));
+  if (retryAfter !== null) {
+    return NextResponse.json(
+      {
+        error: "Too many snapshots",
+        details: `Try again in ${Math.ceil(retryAfter / 60)} minutes`,
+      },
+      { status: 429, headers: { "Retry-After": String(retryAfter) } }
+    );
+  }
+
+  const text = await request.text();
+  if (Buffer.byteLength(text) > MAX_SNAPSHOT_BYTES) {
+    return snapshotTooLarge();
+  }
+
+  let body: any;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid snapshot", details: "The body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  const requestError = validateSnapshotRequest(body);
+  if (requestError) {
+    console.error(`❌ Invalid snapshot: ${requestError}`);
+    return NextResponse.json(
+      { error: "Invalid snapshot", details: requestError },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const snapshot = await createSnapshot(body.stats, body.expiresInDays);
+    return NextResponse.json(
+      {
+        id: snapshot.id,
+        url: `/wrapped/s/${snapshot.id}`,
+        createdAt: snapshot.createdAt,
+        expiresAt: snapshot.expiresAt,
+        deleteToken: snapshot.deleteToken,
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error("❌ Snapshot API error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to save snapshot" },
+      { status: 500 }
+    );
+  }
+}
+
+function snapshotTooLarge() {
+  return NextResponse.json(
+    {
+      error: "Snapshot too large",
+      details: `A snapshot can be at most ${
+        MAX_SNAPSHOT_BYTES / 1024 / 1024
+      } MB`,
+    },
+    { status: 413 }
+  );
+}
+
+// The connection's address, else the last X-Forwarded-For hop: the one our
+// proxy appended (earlier hops are whatever the client sent)
+function getClientAddress(request: NextRequest): string {
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  return request.ip || forwardedFor?.split(",").pop()?.trim() || "unknown";
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  collectStats,
+  collectTeamStats,
+  parseStatsRequest,
+} from "@/lib/azure-devops/statsCollector";
+import type { StatsProgressEvent } from "@/types";
+
+// Streaming responses must never be statically optimized or cached
+export const dynamic = "force-dynamic";
+
+/**
+ * Same parameters as /api/stats, but streams progress as Server-Sent Events
+ * (one event per repo start/page/completion/failure) and finishes with a
+ * `complete` event carrying the stats, or an `error` event. With
+ * `teamMembers`, repo events are tagged with their member and the stream
+ * finishes with a `team-complete` event instead.
+ *
+ * Parameter errors are returned as plain JSON before the stream opens.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = Date.now();
+  console.log(`\n[${requestId}] 🚀 Streaming API Request started`);
+
+  const parsed = parseStatsRequest(
+    request.nextUrl.searchParams,
+    request.headers.get("authorization"),
+    requestId
+  );
+  if (!parsed.ok) {
+    return NextResponse.json(parsed.body, { status: parsed.status });
+  }
+
+  const encoder = new TextEncoder();
+  // Set once the stream is closed, by us or by the client cancelling it
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: StatsProgressEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(
+            encoder.encode(
+              `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+            )
+          );
+        } catch {
+          // Client disconnected - keep collecting but stop writing
+          closed = true;
+        }
+      };
+
+      try {
+        // Team mode when a roster of members was given
+        const result =
+          parsed.value.teamMembers.length > 0
+            ? await collectTeamStats(parsed.value, requestId, send)
+            : await collectStats(parsed.value, requestId, send);
+
+        if (result.ok) {
+          send(
+            "rollup" in result.value
+              ? { type: "team-complete", team: result.value }
+              : { type: "complete", stats: result.value }
+          );
+          console.log(
+            `[${requestId}] 🎉 Streaming request completed successfully in ${
+              Date.now() - requestId
+            }ms`
+          );
+        } else {
+          send({
+            type: "error",
+            status: result.status,
+            error: result.body.error,
+            details: result.body.details,
+          });
+        }
+      } catch (error: any) {
+        console.error(`[${requestId}] ❌ Streaming stats API error:`, {
+          message: error.message,
+          name: error.name,
+          stack: error.stack,
+        });
+        send({
+          type: "error",
+          status: 500,
+          error: error.message || "Internal server error",
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      // Client disconnected - keep collecting but stop writing
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
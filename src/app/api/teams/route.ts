@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/azure-devops/client";
+import { getCredentialFromHeader } from "@/lib/azure-devops/credentials";
+import { fetchTeamsWithMembers } from "@/lib/azure-devops/teams";
+
+/**
+ * GET /api/teams
+ * Lists the teams of the selected projects with their members, so a team's
+ * roster can be picked for Team Wrapped instead of typing every email
+ */
+export async function GET(request: NextRequest) {
+  const requestId = Date.now();
+  console.log(`\n[${requestId}] 👥 Teams API Request started`);
+
+  try {
+    // Get the PAT or Entra ID access token from the Authorization header
+    const credential = getCredentialFromHeader(
+      request.headers.get("authorization")
+    );
+
+    // Get parameters from query params
+    const searchParams = request.nextUrl.searchParams;
+    const organization = searchParams.get("organization");
+    const projectsParam = searchParams.get("projects");
+
+    // Parse projects from comma-separated string
+    const projects = projectsParam
+      ? projectsParam
+          .split(",")
+          .map((p) => p.trim())
+          .filter(Boolean)
+      : [];
+
+    console.log(
+      `[${requestId}] 🔑 Credential: ${credential ? credential.type : "(none)"}`
+    );
+    console.log(`[${requestId}] 📋 Organization: ${organization}`);
+    console.log(`[${requestId}] 📋 Projects: ${projects.join(", ")}`);
+
+    // Validate required parameters
+    if (!credential) {
+      console.error(`[${requestId}] ❌ Missing PAT or access token`);
+      return NextResponse.json(
+        {
+          error: "Authorization header with a PAT or access token is required",
+          code: "MISSING_PAT",
+          required: ["Authorization header (Bearer PAT or Entra ID token)"],
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!organization) {
+      console.error(`[${requestId}] ❌ Missing organization`);
+      return NextResponse.json(
+        {
+          error: "Organization query parameter is required",
+          code: "MISSING_ORGANIZATION",
+          required: ["organization"],
+        },
+        { status: 400 }
+      );
+    }
+
+    if (projects.length === 0) {
+      console.error(`[${requestId}] ❌ Missing projects`);
+      return NextResponse.json(
+        {
+          error: "Projects query parameter is required",
+          code: "MISSING_PROJECTS",
+          required: ["projects (comma-separated)"],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Create client and fetch teams (with members) from all projects
+    const client = createClient({ organization, credential });
+    const teams = await fetchTeamsWithMembers(client, projects);
+
+    console.log(
+      `[${requestId}] ✅ Returning ${teams.length} teams from ${projects.length} project(s)`
+    );
+
+    return NextResponse.json({
+      count: teams.length,
+      teams,
+    });
+  } catch (error: any) {
+    console.error(`[${requestId}] ❌ Teams API error:`, {
+      message: error.message,
+      name: error.name,
+    });
+
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to fetch teams",
+        code: "TEAMS_FETCH_ERROR",
+        details:
+          process.env.NODE_ENV === "development" ? error.stack : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
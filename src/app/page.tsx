@@ -3,7 +3,9 @@
 import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { ConfigForm, type WrappedConfig } from "@/components/ConfigForm";
+import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { DEMO_PERSONAS } from "@/lib/constants";
 
 export default function Home() {
   const router = useRouter();
@@ -13,6 +15,8 @@ export default function Home() {
   const [envConfig, setEnvConfig] = useState<Partial<WrappedConfig> | null>(
     null
   );
+  const [demoPersona, setDemoPersona] =
+    useState<keyof typeof DEMO_PERSONAS>("nightOwl");
   const hasCheckedConfig = useRef(false);
 
   // Check for server-side config on mount to pre-populate form
@@ -69,6 +73,11 @@ export default function Home() {
     }
   };
 
+  // The demo needs no PAT: the wrapped page builds it from synthetic data
+  const handleTryDemo = () => {
+    router.push(`/wrapped?demo=true&persona=${demoPersona}`);
+  };
+
   // Show loading state while checking config
   if (!isReady) {
     return (
@@ -100,6 +109,36 @@ export default function Home() {
           </p>
         </div>
 
+        {/* Demo */}
+        <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
+          <span className="text-slate-400 text-sm">
+            No PAT handy? See a sample Wrapped:
+          </span>
+          <select
+            aria-label="Demo persona"
+            value={demoPersona}
+            onChange={(e) =>
+              setDemoPersona(e.target.value as keyof typeof DEMO_PERSONAS)
+            }
+            disabled={loading}
+            className="flex h-10 rounded-md border px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 bg-slate-900/50 border-slate-600 text-white"
+          >
+            {Object.entries(DEMO_PERSONAS).map(([persona, label]) => (
+              <option key={persona} value={persona}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            onClick={handleTryDemo}
+            disabled={loading}
+            className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+          >
+            Try demo
+          </Button>
+        </div>
+
         {/* Configuration Form */}
         <div className="flex justify-center">
           <ConfigForm
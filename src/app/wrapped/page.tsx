@@ -5,19 +5,52 @@ import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { exportToJSON, exportToMarkdown } from "@/lib/export";
-import type { ClientWrappedStats } from "@/types";
+import { describeSizeMergeCorrelation } from "@/lib/utils";
+import { getMonthsInRange } from "@/lib/dateRange";
+import { formatIdentityAliases } from "@/lib/identity";
+import { detectTimeZone } from "@/lib/timezone";
+import { saveSnapshotDeleteToken } from "@/lib/snapshotTokens";
+import type {
+  ClientWrappedStats,
+  ClientTeamWrappedStats,
+  StatsProgressEvent,
+} from "@/types";
 import type { WrappedConfig } from "@/components/ConfigForm";
-import { Download, FileJson, FileText, Check, Loader2 } from "lucide-react";
+import { StoryViewer } from "@/components/StoryViewer";
+import { YearDelta } from "@/components/YearDelta";
+import {
+  Download,
+  FileJson,
+  FileText,
+  Check,
+  Loader2,
+  Share2,
+  X,
+} from "lucide-react";
+
+// Per-repository fetch status shown while the stats stream is open
+interface RepoProgress {
+  member?: string; // Team mode: the member this repository is fetched for
+  project: string;
+  repository: string;
+  status: "pending" | "fetching" | "done" | "failed";
+  items: number; // Items fetched so far (commits, PRs, reviews, work items, builds)
+  error?: string;
+}
 
 // Loading step indicator component
 function LoadingStepIndicator({
   step,
   isComplete,
   isActive,
+  isFailed = false,
+  detail,
 }: {
   step: string;
   isComplete: boolean;
   isActive: boolean;
+  isFailed?: boolean;
+  detail?: string;
 }) {
   return (
     <div className="flex items-center gap-3">
@@ -25,7 +58,9 @@ function LoadingStepIndicator({
         className={`
         w-6 h-6 rounded-full flex items-center justify-center text-xs font-medium transition-all duration-300
         ${
-          isComplete
+          isFailed
+            ? "bg-red-500 text-white"
+            : isComplete
             ? "bg-green-500 text-white"
             : isActive
             ? "bg-blue-500 text-white animate-pulse"
@@ -33,7 +68,9 @@ function LoadingStepIndicator({
         }
       `}
       >
-        {isComplete ? (
+        {isFailed ? (
+          <X className="w-4 h-4" />
+        ) : isComplete ? (
           <Check className="w-4 h-4" />
         ) : isActive ? (
           <Loader2 className="w-4 h-4 animate-spin" />
@@ -42,20 +79,68 @@ function LoadingStepIndicator({
         )}
       </div>
       <span
-        className={`text-sm transition-colors duration-300 ${
-          isComplete
+        className={`text-sm transition-colors duration-300 truncate ${
+          isFailed
+            ? "text-red-400"
+            : isComplete
             ? "text-green-400"
             : isActive
             ? "text-white"
             : "text-slate-500"
         }`}
+        title={step}
       >
         {step}
       </span>
+      {detail && (
+        <span
+          className="ml-auto text-xs text-slate-500 shrink-0 max-w-[45%] truncate"
+          title={detail}
+        >
+          {detail}
+        </span>
+      )}
     </div>
   );
 }
 
+/**
+ * Read a Server-Sent Events response body, calling onEvent for each message.
+ * We use fetch instead of EventSource because EventSource can't send the
+ * Authorization header carrying the PAT.
+ */
+async function readEventStream(
+  response: Response,
+  onEvent: (event: StatsProgressEvent) => void
+): Promise<void> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Messages are separated by a blank line
+    let separatorIndex;
+    while ((separatorIndex = buffer.indexOf("\n\n")) !== -1) {
+      const message = buffer.slice(0, separatorIndex);
+      buffer = buffer.slice(separatorIndex + 2);
+
+      const data = message
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trim())
+        .join("\n");
+      if (data) {
+        onEvent(JSON.parse(data));
+      }
+    }
+  }
+}
+
 // Format hour to 12-hour format with AM/PM
 function formatHour(hour: number): string {
   if (hour === 0) return "12 AM";
@@ -83,30 +168,70 @@ export default function WrappedPage() {
   const router = useRouter();
   const { toast } = useToast();
   const [stats, setStats] = useState<ClientWrappedStats | null>(null);
+  // Team mode: the team's stats; `stats` then holds the member being viewed
+  const [teamStats, setTeamStats] = useState<ClientTeamWrappedStats | null>(
+    null
+  );
+  // Demo mode: stats built from synthetic data (see /api/demo)
+  const [isDemo, setIsDemo] = useState(false);
+  // Saving a snapshot for a share link
+  const [sharing, setSharing] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [loadingStep, setLoadingStep] = useState<string>("Initializing...");
   const [loadingProgress, setLoadingProgress] = useState(0);
+  const [repoProgress, setRepoProgress] = useState<RepoProgress[]>([]);
+  const [phase, setPhase] = useState<
+    "config" | "fetching" | "aggregating" | "done"
+  >("config");
 
   useEffect(() => {
-    // Helper to ensure minimum time on each step so users can see progress
-    const delay = (ms: number) =>
-      new Promise((resolve) => setTimeout(resolve, ms));
-
-    // Update step with minimum display time (default 500ms for consistency)
-    const updateStep = async (
-      step: string,
-      progress: number,
-      minDelayMs: number = 500
-    ) => {
-      setLoadingStep(step);
-      setLoadingProgress(progress);
-      await delay(minDelayMs);
-    };
+    const updateRepo = (
+      member: string | undefined,
+      project: string,
+      repository: string,
+      update: (repo: RepoProgress) => RepoProgress
+    ) =>
+      setRepoProgress((repos) =>
+        repos.map((repo) =>
+          repo.member === member &&
+          repo.project === project &&
+          repo.repository === repository
+            ? update(repo)
+            : repo
+        )
+      );
 
     const fetchStats = async () => {
       try {
-        await updateStep("Loading configuration...", 10);
+        setLoadingStep("Loading configuration...");
+        setLoadingProgress(5);
+
+        // "Try demo" needs no configuration or PAT: the server generates the
+        // data for the persona in the query string and aggregates it
+        const search = new URLSearchParams(window.location.search);
+        if (search.has("demo")) {
+          setPhase("aggregating");
+          setLoadingStep("Generating demo data...");
+          setLoadingProgress(50);
+
+          const response = await fetch(`/api/demo?${search.toString()}`);
+          const data = await response.json();
+          if (!response.ok) {
+            console.error("❌ API Error:", data);
+            throw new Error(
+              data.details || data.error || "Failed to load demo"
+            );
+          }
+
+          setPhase("done");
+          setLoadingStep("Ready! 🎉");
+          setLoadingProgress(100);
+          setIsDemo(true);
+          setStats(data);
+          setLoading(false);
+          return;
+        }
 
         // Get config from sessionStorage
         const configStr = sessionStorage.getItem("ado-wrapped-config");
@@ -131,7 +256,20 @@ export default function WrappedPage() {
           return;
         }
 
-        await updateStep("Preparing API request...", 20);
+        // Team mode fetches every repository once per member
+        const teamMembers = config.teamMembers || [];
+        const members = teamMembers.length > 0 ? teamMembers : [undefined];
+        setRepoProgress(
+          members.flatMap((member) =>
+            config.repositories.map(({ project, repository }) => ({
+              member,
+              project,
+              repository,
+              status: "pending" as const,
+              items: 0,
+            }))
+          )
+        );
 
         // Build API URL with query parameters
         // Use 'repositories' param as JSON array of {project, repository} objects
@@ -142,44 +280,176 @@ export default function WrappedPage() {
           projects: config.projects.join(","),
           repositories: repositoriesJson,
           year: config.year.toString(),
+          // Hours, weekdays and dates are counted in the user's timezone
+          timeZone: config.timeZone || detectTimeZone(),
         });
 
         if (config.userEmail) {
           params.append("userEmail", config.userEmail);
         }
+        if (teamMembers.length > 0) {
+          params.append("teamMembers", teamMembers.join(","));
+        }
+        if (config.aliases && Object.keys(config.aliases).length > 0) {
+          params.append("aliases", formatIdentityAliases(config.aliases));
+        }
+        if (config.compareYears) {
+          params.append("compareYears", config.compareYears.toString());
+        }
+        if (config.includeBuilds) {
+          params.append("includeBuilds", "true");
+        }
+        if (config.dateRange) {
+          const { preset, fiscalYearStartMonth, quarter, days } =
+            config.dateRange;
+          params.append("dateRange", preset);
+          if (fiscalYearStartMonth) {
+            params.append(
+              "fiscalYearStartMonth",
+              fiscalYearStartMonth.toString()
+            );
+          }
+          if (quarter) params.append("quarter", quarter.toString());
+          if (days) params.append("days", days.toString());
+          if (config.dateRange.startDate) {
+            params.append("startDate", config.dateRange.startDate);
+          }
+          if (config.dateRange.endDate) {
+            params.append("endDate", config.dateRange.endDate);
+          }
+        }
 
         // Fetch stats from API with user's PAT
         const headers: HeadersInit = {
           Authorization: `Bearer ${config.pat}`,
         };
 
-        const url = `/api/stats?${params.toString()}`;
+        // The stream endpoint reports real progress as each repository loads
+        const url = `/api/stats/stream?${params.toString()}`;
 
-        await updateStep(
-          `Fetching data from ${config.repositories.length} repository(ies) across ${config.projects.length} project(s)...`,
-          40
+        setPhase("fetching");
+        setLoadingStep(
+          `Fetching data from ${config.repositories.length} repository(ies) across ${config.projects.length} project(s)...`
         );
+        setLoadingProgress(10);
 
         const response = await fetch(url, { headers });
 
-        await updateStep("Processing response...", 70);
-
+        // Parameter errors come back as JSON before the stream opens
         if (!response.ok) {
           const errorData = await response.json();
           console.error("❌ API Error:", errorData);
           throw new Error(errorData.error || "Failed to fetch stats");
         }
 
-        await updateStep("Analyzing your activity...", 80);
+        let totalRepos = config.repositories.length * members.length;
+        let finishedRepos = 0;
+        // Assigned inside the event callback, so declare without narrowing
+        let data = null as ClientWrappedStats | null;
+        let teamData = null as ClientTeamWrappedStats | null;
+        let streamError = null as string | null;
+
+        // Fetching covers 10-85% of the bar, split evenly across repositories
+        const markRepoFinished = () => {
+          finishedRepos++;
+          setLoadingProgress(
+            10 + Math.round((finishedRepos / Math.max(totalRepos, 1)) * 75)
+          );
+          setLoadingStep(
+            `Fetched ${finishedRepos} of ${totalRepos} repository(ies)...`
+          );
+        };
 
-        const data: ClientWrappedStats = await response.json();
+        await readEventStream(response, (event) => {
+          switch (event.type) {
+            case "start":
+              totalRepos = event.totalRepos;
+              break;
+            case "repo-start":
+              updateRepo(
+                event.member,
+                event.project,
+                event.repository,
+                (repo) => ({
+                  ...repo,
+                  status: "fetching",
+                })
+              );
+              break;
+            case "page":
+              updateRepo(
+                event.member,
+                event.project,
+                event.repository,
+                (repo) => ({
+                  ...repo,
+                  items: repo.items + event.items,
+                })
+              );
+              break;
+            case "repo-done":
+              updateRepo(
+                event.member,
+                event.project,
+                event.repository,
+                (repo) => ({
+                  ...repo,
+                  // Keep a failure from an individual data source visible
+                  status: repo.error ? "failed" : "done",
+                })
+              );
+              markRepoFinished();
+              break;
+            case "repo-failed":
+              updateRepo(
+                event.member,
+                event.project,
+                event.repository,
+                (repo) => ({
+                  ...repo,
+                  error: event.resource
+                    ? `${event.resource}: ${event.error}`
+                    : event.error,
+                  status: event.resource ? repo.status : "failed",
+                })
+              );
+              // Without a resource the whole repository failed and won't send repo-done
+              if (!event.resource) {
+                markRepoFinished();
+              }
+              break;
+            case "aggregating":
+              setPhase("aggregating");
+              setLoadingStep("Analyzing your activity...");
+              setLoadingProgress(90);
+              break;
+            case "comparing":
+              setLoadingStep(`Comparing with ${event.periods.join(", ")}...`);
+              setLoadingProgress(93);
+              break;
+            case "complete":
+              data = event.stats;
+              break;
+            case "team-complete":
+              teamData = event.team;
+              break;
+            case "error":
+              console.error("❌ API Error:", event);
+              streamError = event.error;
+              break;
+          }
+        });
 
-        await updateStep("Generating your Wrapped...", 90);
+        if (streamError || (!data && !teamData)) {
+          throw new Error(streamError || "Failed to fetch stats");
+        }
 
-        // Final step - show completion briefly before transitioning
-        await updateStep("Ready! 🎉", 100);
+        setPhase("done");
+        setLoadingStep("Ready! 🎉");
+        setLoadingProgress(100);
 
         setStats(data);
+        setTeamStats(teamData);
         setLoading(false);
       } catch (err: any) {
         console.error("Error fetching stats:", err);
@@ -209,7 +479,9 @@ export default function WrappedPage() {
 
           {/* Title */}
           <h2 className="text-2xl font-bold text-white text-center">
-            Building Your Wrapped
+            {repoProgress.some((repo) => repo.member)
+              ? "Building Your Team Wrapped"
+              : "Building Your Wrapped"}
           </h2>
 
           {/* Progress bar */}
@@ -230,23 +502,43 @@ export default function WrappedPage() {
           <div className="space-y-3 pt-4">
             <LoadingStepIndicator
               step="Configuration"
-              isComplete={loadingProgress >= 20}
-              isActive={loadingProgress >= 10 && loadingProgress < 20}
+              isComplete={phase !== "config"}
+              isActive={phase === "config"}
             />
             <LoadingStepIndicator
-              step="Fetching commits"
-              isComplete={loadingProgress >= 70}
-              isActive={loadingProgress >= 20 && loadingProgress < 70}
+              step="Fetching repositories"
+              isComplete={phase === "aggregating" || phase === "done"}
+              isActive={phase === "fetching"}
             />
+            {/* Per-repository status */}
+            {repoProgress.length > 0 && (
+              <div className="space-y-2 pl-9 max-h-48 overflow-y-auto">
+                {repoProgress.map((repo) => (
+                  <LoadingStepIndicator
+                    key={`${repo.member || ""}:${repo.project}/${
+                      repo.repository
+                    }`}
+                    step={`${repo.member ? `${repo.member} · ` : ""}${
+                      repo.project
+                    }/${repo.repository}`}
+                    isComplete={repo.status === "done"}
+                    isActive={repo.status === "fetching"}
+                    isFailed={repo.status === "failed"}
+                    detail={
+                      repo.status === "failed"
+                        ? repo.error
+                        : repo.items > 0
+                        ? `${repo.items.toLocaleString()} items`
+                        : undefined
+                    }
+                  />
+                ))}
+              </div>
+            )}
             <LoadingStepIndicator
               step="Analyzing data"
-              isComplete={loadingProgress >= 90}
-              isActive={loadingProgress >= 70 && loadingProgress < 90}
-            />
-            <LoadingStepIndicator
-              step="Generating insights"
-              isComplete={loadingProgress >= 100}
-              isActive={loadingProgress >= 90 && loadingProgress < 100}
+              isComplete={phase === "done"}
+              isActive={phase === "aggregating"}
             />
           </div>
 
@@ -258,6 +550,35 @@ export default function WrappedPage() {
     );
   }
 
+  // Team mode: the team's story, with each member's Wrapped one click away
+  if (!error && teamStats && !stats) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
+        <StoryViewer team={teamStats} />
+        <div className="max-w-2xl mx-auto px-4 pb-12 space-y-4">
+          <h2 className="text-xl font-semibold text-white text-center">
+            Member Wrapped
+          </h2>
+          <div className="flex gap-2 justify-center flex-wrap">
+            {teamStats.members.map((member) => (
+              <Button
+                key={member.email}
+                variant="outline"
+                size="sm"
+                className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                disabled={!member.stats}
+                title={member.error}
+                onClick={() => member.stats && setStats(member.stats)}
+              >
+                {member.email}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (error || !stats) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 flex flex-col items-center justify-center p-6">
@@ -286,6 +607,49 @@ export default function WrappedPage() {
     );
   }
 
+  // Tiles compare against the same period a year earlier, when requested
+  const comparison = stats.comparisons?.[0];
+
+  // Save the Wrapped as a snapshot and copy its link; this browser keeps the
+  // delete token, so the owner can delete it from the snapshot page
+  const shareStats = async () => {
+    setSharing(true);
+    try {
+      const response = await fetch("/api/snapshots", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ stats }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to share");
+      }
+      saveSnapshotDeleteToken(data.id, data.deleteToken);
+
+      const link = `${window.location.origin}${data.url}`;
+      const until = data.expiresAt
+        ? ` until ${new Date(data.expiresAt).toLocaleDateString()}`
+        : "";
+      try {
+        await navigator.clipboard.writeText(link);
+        toast({
+          title: "Link copied!",
+          description: `Anyone with the link can view this Wrapped${until} (your email and aliases aren't shared)`,
+        });
+      } catch {
+        toast({ title: "Share link", description: link });
+      }
+    } catch (err: any) {
+      toast({
+        title: "Couldn't share",
+        description: err.message,
+        variant: "destructive",
+      });
+    } finally {
+      setSharing(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 p-4 sm:p-6">
       <div className="max-w-6xl mx-auto">
@@ -293,7 +657,7 @@ export default function WrappedPage() {
         <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-8">
           <div className="text-center sm:text-left">
             <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-emerald-400 via-cyan-400 to-blue-500 bg-clip-text text-transparent">
-              Your {stats.meta.year} Wrapped
+              Your {stats.meta.dateRange.label} Wrapped
             </h1>
             <p className="text-slate-400 mt-2 text-sm sm:text-base">
               {stats.meta.organization} /{" "}
@@ -305,6 +669,27 @@ export default function WrappedPage() {
                 ? stats.meta.repositories[0]
                 : `${stats.meta.repositories.length} repos`}
             </p>
+            {isDemo && (
+              <p className="text-amber-400 mt-1 text-sm">
+                Demo data: a made-up developer, not real Azure DevOps activity
+              </p>
+            )}
+            {teamStats && stats.meta.userEmail && (
+              <p className="text-slate-400 mt-1 text-sm">
+                Team member: {stats.meta.userEmail}
+              </p>
+            )}
+            {stats.meta.aliases && (
+              <p className="text-slate-500 mt-1 text-xs">
+                Including {stats.meta.aliases.join(", ")}
+              </p>
+            )}
+            {stats.meta.dateRange.preset !== "calendarYear" && (
+              <p className="text-slate-500 mt-1 text-xs">
+                Period: {stats.meta.dateRange.startDate} to{" "}
+                {stats.meta.dateRange.endDate}
+              </p>
+            )}
             {stats.meta.projects.length > 1 && (
               <p className="text-slate-500 mt-1 text-xs">
                 Projects: {stats.meta.projects.join(", ")}
@@ -317,6 +702,16 @@ export default function WrappedPage() {
             )}
           </div>
           <div className="flex gap-2 justify-center sm:justify-end flex-wrap">
+            {teamStats && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                onClick={() => setStats(null)}
+              >
+                Team
+              </Button>
+            )}
             <Button
               variant="outline"
               size="sm"
@@ -347,6 +742,20 @@ export default function WrappedPage() {
               <FileText className="h-4 w-4 mr-1 sm:mr-2" />
               <span className="hidden xs:inline">Markdown</span>
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+              disabled={sharing}
+              onClick={shareStats}
+            >
+              {sharing ? (
+                <Loader2 className="h-4 w-4 mr-1 sm:mr-2 animate-spin" />
+              ) : (
+                <Share2 className="h-4 w-4 mr-1 sm:mr-2" />
+              )}
+              <span className="hidden xs:inline">Share</span>
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -370,6 +779,11 @@ export default function WrappedPage() {
                 <p className="text-slate-300 text-sm sm:text-base">
                   Total Commits
                 </p>
+                <YearDelta
+                  delta={comparison?.commits}
+                  period={comparison?.label}
+                  className="mt-1"
+                />
               </div>
 
               {/* File Change Stats */}
@@ -380,7 +794,8 @@ export default function WrappedPage() {
                       +{stats.commits.additions.toLocaleString()}
                     </h3>
                     <p className="text-emerald-300 text-sm sm:text-base">
-                      Lines Added
+                      {stats.commits.changeUnit === "lines" ? "Lines" : "Files"}{" "}
+                      Added
                     </p>
                   </div>
 
@@ -389,7 +804,8 @@ export default function WrappedPage() {
                       -{stats.commits.deletions.toLocaleString()}
                     </h3>
                     <p className="text-rose-300 text-sm sm:text-base">
-                      Lines Deleted
+                      {stats.commits.changeUnit === "lines" ? "Lines" : "Files"}{" "}
+                      Deleted
                     </p>
                   </div>
                 </>
@@ -436,7 +852,22 @@ export default function WrappedPage() {
                 <p className="text-amber-300 text-sm sm:text-base">
                   Favorite Coding Hour
                 </p>
+                <p className="text-amber-300/70 text-xs mt-1">
+                  {stats.meta.timeZone}
+                </p>
               </div>
+
+              {stats.insights.languages.length > 0 && (
+                <div className="p-4 sm:p-6 rounded-2xl bg-gradient-to-br from-indigo-500/20 to-violet-600/20 border border-indigo-500/30 backdrop-blur-sm">
+                  <h3 className="text-2xl sm:text-3xl font-bold mb-1 text-indigo-400">
+                    🧑‍💻 {stats.insights.languages[0].language}
+                  </h3>
+                  <p className="text-indigo-300 text-sm sm:text-base">
+                    Top Language ({stats.insights.languages[0].percentage}% of
+                    files touched)
+                  </p>
+                </div>
+              )}
             </>
           )}
         </div>
@@ -467,6 +898,11 @@ export default function WrappedPage() {
               <p className="text-emerald-300 text-sm sm:text-base">
                 PRs Merged
               </p>
+              <YearDelta
+                delta={comparison?.pullRequestsMerged}
+                period={comparison?.label}
+                className="mt-1"
+              />
             </div>
 
             <div className="p-4 sm:p-6 rounded-2xl bg-gradient-to-br from-cyan-500/20 to-sky-600/20 border border-cyan-500/30 backdrop-blur-sm">
@@ -476,6 +912,12 @@ export default function WrappedPage() {
               <p className="text-cyan-300 text-sm sm:text-base">
                 Avg Time to Merge
               </p>
+              <YearDelta
+                delta={comparison?.avgDaysToMerge}
+                period={comparison?.label}
+                lowerIsBetter
+                className="mt-1"
+              />
             </div>
 
             {/* PR Reviewer Stats */}
@@ -554,20 +996,7 @@ export default function WrappedPage() {
               <p className="text-slate-400 text-sm mb-2">PRs by Month</p>
               {(() => {
                 const byMonth = stats.pullRequests.byMonth || {};
-                const months = [
-                  "Jan",
-                  "Feb",
-                  "Mar",
-                  "Apr",
-                  "May",
-                  "Jun",
-                  "Jul",
-                  "Aug",
-                  "Sep",
-                  "Oct",
-                  "Nov",
-                  "Dec",
-                ];
+                const months = getMonthsInRange(stats.meta.dateRange);
                 const values = months.map((m) => byMonth[m] || 0);
                 const maxCount = Math.max(...values, 1);
                 // Use percentage-based heights with a fixed max container height
@@ -711,10 +1140,207 @@ export default function WrappedPage() {
             </p>
             <p className="text-xs text-amber-300/60 mt-1">
               {stats.pullRequests.largestPR.filesChanged} files changed
+              {stats.pullRequests.largestPR.linesAdded !== undefined &&
+                ` · +${stats.pullRequests.largestPR.linesAdded} −${stats.pullRequests.largestPR.linesDeleted} lines`}
             </p>
           </div>
         )}
 
+        {/* PR Size Distribution */}
+        {stats.pullRequests.sizes &&
+          stats.pullRequests.sizes.buckets.some((b) => b.count > 0) && (
+            <div className="mt-6 sm:mt-8 p-4 sm:p-6 rounded-2xl bg-gradient-to-br from-slate-800/50 to-slate-900/50 border border-slate-700/50 backdrop-blur-sm">
+              <h3 className="text-lg font-semibold mb-4 text-white">
+                📏 PR Sizes
+              </h3>
+              <div className="grid grid-cols-5 gap-2 sm:gap-4 text-center">
+                {stats.pullRequests.sizes.buckets.map((bucket, idx) => (
+                  <div key={bucket.label}>
+                    <p className="text-2xl font-bold text-blue-400">
+                      {bucket.count}
+                    </p>
+                    <p className="text-sm text-white">{bucket.label}</p>
+                    <p className="text-xs text-slate-500">
+                      {bucket.maxFiles === null
+                        ? `${
+                            (stats.pullRequests.sizes.buckets[idx - 1]
+                              ?.maxFiles ?? 0) + 1
+                          }+ files`
+                        : `≤ ${bucket.maxFiles} files`}
+                    </p>
+                    <p className="text-xs text-slate-400 mt-1">
+                      {bucket.avgHoursToMerge !== null
+                        ? bucket.avgHoursToMerge < 24
+                          ? `${Math.round(bucket.avgHoursToMerge)}h to merge`
+                          : `${
+                              Math.round((bucket.avgHoursToMerge / 24) * 10) /
+                              10
+                            }d to merge`
+                        : "—"}
+                    </p>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-4 text-sm text-slate-400 text-center">
+                {describeSizeMergeCorrelation(
+                  stats.pullRequests.sizes.sizeMergeCorrelation
+                )}
+                {stats.pullRequests.sizes.sizeMergeCorrelation !== null &&
+                  ` (r = ${stats.pullRequests.sizes.sizeMergeCorrelation})`}
+              </p>
+            </div>
+          )}
+
+        {/* PR Discussion */}
+        {stats.pullRequests.comments &&
+          stats.pullRequests.comments.total > 0 && (
+            <div className="mt-6 sm:mt-8 p-4 sm:p-6 rounded-2xl bg-gradient-to-br from-slate-800/50 to-slate-900/50 border border-slate-700/50 backdrop-blur-sm">
+              <h3 className="text-lg font-semibold mb-4 text-white">
+                💬 PR Discussion
+              </h3>
+              <div className="grid gap-4 grid-cols-2 lg:grid-cols-4 text-center">
+                <div>
+                  <p className="text-2xl font-bold text-cyan-400">
+                    {stats.pullRequests.comments.written}
+                  </p>
+                  <p className="text-slate-400 text-sm">Comments Written</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-blue-400">
+                    {stats.pullRequests.comments.received}
+                  </p>
+                  <p className="text-slate-400 text-sm">Comments Received</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-emerald-400">
+                    {stats.pullRequests.comments.threadsResolved}
+                    <span className="text-slate-500 text-base font-normal">
+                      {" "}
+                      / {stats.pullRequests.comments.threadsActive}
+                    </span>
+                  </p>
+                  <p className="text-slate-400 text-sm">
+                    Threads Resolved / Active
+                  </p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-purple-400">
+                    {stats.pullRequests.comments.avgCommentsPerPR.toFixed(1)}
+                  </p>
+                  <p className="text-slate-400 text-sm">Avg Comments per PR</p>
+                </div>
+              </div>
+              {stats.pullRequests.comments.mostDiscussedPR && (
+                <p
+                  className="mt-4 text-sm text-slate-400 truncate text-center"
+                  title={stats.pullRequests.comments.mostDiscussedPR.title}
+                >
+                  🔥 Most discussed:{" "}
+                  <span className="text-white">
+                    {stats.pullRequests.comments.mostDiscussedPR.title}
+                  </span>{" "}
+                  ({stats.pullRequests.comments.mostDiscussedPR.comments}{" "}
+                  comments)
+                </p>
+              )}
+            </div>
+          )}
+
+        {/* ==================== CODE REVIEWS SECTION ==================== */}
+        {stats.reviews && stats.reviews.total > 0 && (
+          <div className="mt-8 sm:mt-10">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="h-px flex-1 bg-gradient-to-r from-transparent via-amber-500/50 to-transparent" />
+              <h2 className="text-xl sm:text-2xl font-bold text-amber-400 flex items-center gap-2">
+                <span>👀</span> Code Reviews
+              </h2>
+              <div className="h-px flex-1 bg-gradient-to-r from-transparent via-amber-500/50 to-transparent" />
+            </div>
+
+            <div className="grid gap-4 sm:gap-6 grid-cols-2 lg:grid-cols-4 mb-6">
+              <div className="p-4 sm:p-6 rounded-2xl bg-gradient-to-br from-emerald-500/20 to-green-600/20 border border-emerald-500/30 backdrop-blur-sm">
+                <h3 className="text-2xl sm:text-3xl font-bold mb-1 text-emerald-400">
+                  ✅ {stats.reviews.votes.approved}
+                </h3>
+                <p className="text-emerald-300 text-sm sm:text-base">
+                  Approved
+                </p>
+              </div>
+
+              <div className="p-4 sm:p-6 rounded-2xl bg-gradient-to-br from-lime-500/20 to-green-600/20 border border-lime-500/30 backdrop-blur-sm">
+                <h3 className="text-2xl sm:text-3xl font-bold mb-1 text-lime-400">
+                  💡 {stats.reviews.votes.approvedWithSuggestions}
+                </h3>
+                <p className="text-lime-300 text-sm sm:text-base">
+                  With Suggestions
+                </p>
+              </div>
+
+              <div className="p-4 sm:p-6 rounded-2xl bg-gradient-to-br from-amber-500/20 to-orange-600/20 border border-amber-500/30 backdrop-blur-sm">
+                <h3 className="text-2xl sm:text-3xl font-bold mb-1 text-amber-400">
+                  ⏳ {stats.reviews.votes.waitingForAuthor}
+                </h3>
+                <p className="text-amber-300 text-sm sm:text-base">
+                  Waiting for Author
+                </p>
+              </div>
+
+              <div className="p-4 sm:p-6 rounded-2xl bg-gradient-to-br from-red-500/20 to-pink-600/20 border border-red-500/30 backdrop-blur-sm">
+                <h3 className="text-2xl sm:text-3xl font-bold mb-1 text-red-400">
+                  ❌ {stats.reviews.votes.rejected}
+                </h3>
+                <p className="text-red-300 text-sm sm:text-base">Rejected</p>
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:gap-6 sm:grid-cols-2">
+              <div className="p-4 sm:p-6 rounded-2xl bg-gradient-to-br from-sky-500/20 to-blue-600/20 border border-sky-500/30 backdrop-blur-sm">
+                <h3 className="text-2xl sm:text-3xl font-bold mb-1 text-sky-400">
+                  ⏱️{" "}
+                  {stats.reviews.medianHoursToFirstVote === null
+                    ? "N/A"
+                    : stats.reviews.medianHoursToFirstVote < 24
+                    ? `${Math.round(stats.reviews.medianHoursToFirstVote)}h`
+                    : `${
+                        Math.round(
+                          (stats.reviews.medianHoursToFirstVote / 24) * 10
+                        ) / 10
+                      }d`}
+                </h3>
+                <p className="text-sky-300 text-sm sm:text-base">
+                  Median Time to First Vote
+                </p>
+              </div>
+
+              {stats.reviews.topAuthors.length > 0 && (
+                <div className="p-4 sm:p-6 rounded-2xl bg-gradient-to-br from-slate-800/50 to-slate-900/50 border border-slate-700/50 backdrop-blur-sm">
+                  <h3 className="text-lg font-semibold mb-4 text-white">
+                    🤝 You Reviewed Most For
+                  </h3>
+                  <div className="space-y-3">
+                    {stats.reviews.topAuthors.map((author) => (
+                      <div
+                        key={author.name}
+                        className="flex items-center gap-3"
+                      >
+                        <span
+                          className="text-sm text-slate-300 flex-1 truncate"
+                          title={author.name}
+                        >
+                          {author.name}
+                        </span>
+                        <span className="text-sm text-slate-400">
+                          {author.count} PRs
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* ==================== WORK ITEMS SECTION ==================== */}
         {stats.workItems && stats.workItems.total > 0 && (
           <div className="mt-8 sm:mt-10">
@@ -735,6 +1361,11 @@ export default function WrappedPage() {
                 <p className="text-teal-300 text-sm sm:text-base">
                   Work Items Resolved
                 </p>
+                <YearDelta
+                  delta={comparison?.workItemsResolved}
+                  period={comparison?.label}
+                  className="mt-1"
+                />
               </div>
 
               {stats.workItems.bugsFixed > 0 && (
@@ -1004,20 +1635,7 @@ export default function WrappedPage() {
                 </h3>
                 {(() => {
                   const byMonth = stats.workItems.byMonth || {};
-                  const months = [
-                    "Jan",
-                    "Feb",
-                    "Mar",
-                    "Apr",
-                    "May",
-                    "Jun",
-                    "Jul",
-                    "Aug",
-                    "Sep",
-                    "Oct",
-                    "Nov",
-                    "Dec",
-                  ];
+                  const months = getMonthsInRange(stats.meta.dateRange);
                   const values = months.map((m) => byMonth[m] || 0);
                   const maxCount = Math.max(...values, 1);
                   const maxBarHeight = 120;
@@ -1072,6 +1690,88 @@ export default function WrappedPage() {
           </div>
         )}
 
+        {/* ==================== BUILDS SECTION ==================== */}
+        {stats.builds && stats.builds.total > 0 && (
+          <div className="mt-8 sm:mt-10">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="h-px flex-1 bg-gradient-to-r from-transparent via-violet-500/50 to-transparent" />
+              <h2 className="text-xl sm:text-2xl font-bold text-violet-400 flex items-center gap-2">
+                <span>🏗️</span> Builds
+              </h2>
+              <div className="h-px flex-1 bg-gradient-to-r from-transparent via-violet-500/50 to-transparent" />
+            </div>
+
+            <div className="grid gap-4 sm:gap-6 grid-cols-2 lg:grid-cols-4 mb-6">
+              <div className="p-4 sm:p-6 rounded-2xl bg-gradient-to-br from-violet-500/20 to-purple-600/20 border border-violet-500/30 backdrop-blur-sm">
+                <h3 className="text-2xl sm:text-3xl font-bold mb-1 text-white">
+                  {stats.builds.total}
+                </h3>
+                <p className="text-violet-300 text-sm sm:text-base">
+                  Builds Run
+                </p>
+              </div>
+
+              <div className="p-4 sm:p-6 rounded-2xl bg-gradient-to-br from-emerald-500/20 to-green-600/20 border border-emerald-500/30 backdrop-blur-sm">
+                <h3 className="text-2xl sm:text-3xl font-bold mb-1 text-emerald-400">
+                  ✅ {stats.builds.successRate.toFixed(0)}%
+                </h3>
+                <p className="text-emerald-300 text-sm sm:text-base">
+                  Success Rate
+                </p>
+              </div>
+
+              <div className="p-4 sm:p-6 rounded-2xl bg-gradient-to-br from-sky-500/20 to-blue-600/20 border border-sky-500/30 backdrop-blur-sm">
+                <h3 className="text-2xl sm:text-3xl font-bold mb-1 text-sky-400">
+                  ⏱️ {stats.builds.avgDurationMinutes.toFixed(1)}m
+                </h3>
+                <p className="text-sky-300 text-sm sm:text-base">
+                  Avg Build Duration
+                </p>
+              </div>
+
+              {stats.builds.longestFailureStreak > 0 && (
+                <div className="p-4 sm:p-6 rounded-2xl bg-gradient-to-br from-red-500/20 to-pink-600/20 border border-red-500/30 backdrop-blur-sm">
+                  <h3 className="text-2xl sm:text-3xl font-bold mb-1 text-red-400">
+                    💥 {stats.builds.longestFailureStreak}
+                  </h3>
+                  <p className="text-red-300 text-sm sm:text-base">
+                    Failures in a Row
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {stats.builds.topPipelines.length > 0 && (
+              <div className="p-4 sm:p-6 rounded-2xl bg-gradient-to-br from-slate-800/50 to-slate-900/50 border border-slate-700/50 backdrop-blur-sm">
+                <h3 className="text-lg font-semibold mb-4 text-white">
+                  🔧 Top Pipelines
+                </h3>
+                <div className="space-y-3">
+                  {stats.builds.topPipelines.map((pipeline) => (
+                    <div
+                      key={pipeline.definitionId}
+                      className="flex items-center gap-3"
+                    >
+                      <span
+                        className="text-sm text-slate-300 flex-1 truncate"
+                        title={pipeline.name}
+                      >
+                        {pipeline.name}
+                      </span>
+                      <span className="text-sm text-slate-400">
+                        {pipeline.count} builds
+                      </span>
+                      <span className="text-sm font-medium text-emerald-400 w-12 text-right">
+                        {pipeline.successRate.toFixed(0)}%
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Streak Info - only show if we have commit data */}
         {stats.commits.total > 0 && stats.commits.longestStreak > 0 && (
           <div className="mt-6 sm:mt-8 p-6 sm:p-8 rounded-2xl bg-gradient-to-br from-orange-500/20 to-red-600/20 border border-orange-500/30 backdrop-blur-sm text-center">
@@ -1080,6 +1780,11 @@ export default function WrappedPage() {
               {stats.commits.longestStreak} Days
             </h3>
             <p className="text-orange-300 mt-2">Longest Commit Streak</p>
+            <YearDelta
+              delta={comparison?.longestStreak}
+              period={comparison?.label}
+              className="mt-1"
+            />
           </div>
         )}
       </div>
@@ -0,0 +1,134 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { StoryViewer } from "@/components/StoryViewer";
+import {
+  forgetSnapshotDeleteToken,
+  getSnapshotDeleteToken,
+} from "@/lib/snapshotTokens";
+import type { WrappedSnapshot } from "@/lib/azure-devops/snapshots";
+import { Loader2, Trash2 } from "lucide-react";
+
+/**
+ * A shared Wrapped: the snapshot's stories, viewable by anyone with the link
+ * (no PAT or configuration). The stats are labelled self-reported, since the
+ * sharer posted them. The browser that created it can delete it.
+ */
+export default function SnapshotPage({ params }: { params: { id: string } }) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [snapshot, setSnapshot] = useState<WrappedSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [deleteToken, setDeleteToken] = useState<string | undefined>();
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    const fetchSnapshot = async () => {
+      try {
+        const response = await fetch(`/api/snapshots/${params.id}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.details || data.error || "Failed to load");
+        }
+        setSnapshot(data);
+        setDeleteToken(getSnapshotDeleteToken(params.id));
+      } catch (err: any) {
+        console.error("❌ Failed to load snapshot:", err);
+        setError(err.message);
+      }
+    };
+    fetchSnapshot();
+  }, [params.id]);
+
+  const handleDelete = async () => {
+    if (!deleteToken) return;
+    setDeleting(true);
+    try {
+      const response = await fetch(`/api/snapshots/${params.id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${deleteToken}` },
+      });
+      if (!response.ok && response.status !== 404) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete");
+      }
+      forgetSnapshotDeleteToken(params.id);
+      toast({
+        title: "Deleted",
+        description: "The link no longer works",
+      });
+      router.push("/");
+    } catch (err: any) {
+      toast({
+        title: "Couldn't delete the snapshot",
+        description: err.message,
+        variant: "destructive",
+      });
+      setDeleting(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 flex flex-col items-center justify-center p-6">
+        <div className="w-full max-w-2xl space-y-6 text-center">
+          <h1 className="text-3xl font-bold text-white">
+            This Wrapped isn&apos;t available
+          </h1>
+          <p className="text-slate-400">{error}</p>
+          <Button
+            onClick={() => router.push("/")}
+            className="bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-500 hover:to-cyan-500 text-white border-0"
+          >
+            Create your own
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!snapshot) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 text-cyan-400 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
+      <StoryViewer stats={snapshot.stats} />
+      <div className="max-w-2xl mx-auto px-4 pb-12 flex flex-col items-center gap-3 text-center">
+        <p className="text-slate-500 text-sm">
+          {snapshot.selfReported &&
+            "Self-reported, not verified by this site · "}
+          Shared {new Date(snapshot.createdAt).toLocaleDateString()}
+          {snapshot.expiresAt
+            ? ` · available until ${new Date(
+                snapshot.expiresAt
+              ).toLocaleDateString()}`
+            : ""}
+        </p>
+        {deleteToken && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+            disabled={deleting}
+            onClick={handleDelete}
+          >
+            {deleting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Trash2 className="h-4 w-4 mr-2" />
+            )}
+            Delete snapshot
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,14 @@
 
 import { motion } from "framer-motion";
 import type { BuildStats as BuildStatsType } from "@/types";
-import { CheckCircle2, XCircle, Clock, TrendingUp } from "lucide-react";
+import {
+  CheckCircle2,
+  XCircle,
+  Clock,
+  TrendingUp,
+  Flame,
+  Workflow,
+} from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 
 interface BuildStatsProps {
@@ -119,8 +126,51 @@ export function BuildStats({ builds }: BuildStatsProps) {
             {builds.avgDurationMinutes.toFixed(1)} min
           </span>
         </div>
+
+        {builds.longestFailureStreak > 0 && (
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+              <Flame className="w-4 h-4" />
+              <span className="text-sm">Longest Failure Streak</span>
+            </div>
+            <span className="font-semibold text-gray-900 dark:text-gray-100">
+              {builds.longestFailureStreak} in a row
+            </span>
+          </div>
+        )}
       </motion.div>
 
+      {/* Top pipelines */}
+      {builds.topPipelines.length > 0 && (
+        <motion.div
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ delay: 0.45 }}
+          className="space-y-2"
+        >
+          <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+            <Workflow className="w-4 h-4" />
+            <span>Top Pipelines</span>
+          </div>
+          {builds.topPipelines.map((pipeline) => (
+            <div
+              key={pipeline.definitionId}
+              className="flex items-center justify-between text-sm"
+            >
+              <span
+                className="truncate text-gray-700 dark:text-gray-300"
+                title={pipeline.name}
+              >
+                {pipeline.name}
+              </span>
+              <span className="shrink-0 ml-2 text-gray-600 dark:text-gray-400">
+                {pipeline.count} builds · {pipeline.successRate.toFixed(0)}%
+              </span>
+            </div>
+          ))}
+        </motion.div>
+      )}
+
       {/* Progress bar visualization */}
       <motion.div
         initial={{ scale: 0.95, opacity: 0 }}
@@ -1,19 +1,21 @@
 "use client";
 
 import { useMemo } from "react";
-import type { ClientCommitStats } from "@/types";
+import type { ClientCommitStats, DateRange } from "@/types";
+import { getMonthsInRange } from "@/lib/dateRange";
 
 interface CommitHeatmapProps {
   commits: ClientCommitStats;
-  year: number;
+  dateRange: DateRange;
 }
 
-export function CommitHeatmap({ commits, year }: CommitHeatmapProps) {
-  // Generate heatmap data - 52 weeks x 7 days
+export function CommitHeatmap({ commits, dateRange }: CommitHeatmapProps) {
+  // Generate heatmap data - one cell per day of the date range (up to 53 weeks x 7 days)
   const heatmapData = useMemo(() => {
     const data: { date: Date; count: number }[] = [];
-    const startDate = new Date(year, 0, 1);
-    const endDate = new Date(year, 11, 31);
+    // Dates are walked in UTC so YYYY-MM-DD keys match the commit dates
+    const startDate = new Date(`${dateRange.startDate}T00:00:00.000Z`);
+    const endDate = new Date(`${dateRange.endDate}T00:00:00.000Z`);
 
     // Count commits per date from actual commit data
     const commitsByDate: Record<string, number> = {};
@@ -22,7 +24,7 @@ export function CommitHeatmap({ commits, year }: CommitHeatmapProps) {
     for (
       let d = new Date(startDate);
       d <= endDate;
-      d.setDate(d.getDate() + 1)
+      d.setUTCDate(d.getUTCDate() + 1)
     ) {
       const dateStr = d.toISOString().split("T")[0];
       commitsByDate[dateStr] = 0;
@@ -31,7 +33,7 @@ export function CommitHeatmap({ commits, year }: CommitHeatmapProps) {
     // Count actual commits per date from real data
     if (commits.commitDates && commits.commitDates.length > 0) {
       for (const dateStr of commits.commitDates) {
-        // Only count dates within the year
+        // Only count dates within the date range
         if (dateStr in commitsByDate) {
           commitsByDate[dateStr]++;
         }
@@ -42,7 +44,7 @@ export function CommitHeatmap({ commits, year }: CommitHeatmapProps) {
     for (
       let d = new Date(startDate);
       d <= endDate;
-      d.setDate(d.getDate() + 1)
+      d.setUTCDate(d.getUTCDate() + 1)
     ) {
       const dateStr = d.toISOString().split("T")[0];
       data.push({
@@ -52,7 +54,7 @@ export function CommitHeatmap({ commits, year }: CommitHeatmapProps) {
     }
 
     return data;
-  }, [commits, year]);
+  }, [commits, dateRange.startDate, dateRange.endDate]);
 
   // Calculate max count for color scaling
   const maxCount = useMemo(() => {
@@ -78,9 +80,9 @@ export function CommitHeatmap({ commits, year }: CommitHeatmapProps) {
     const result: Array<Array<{ date: Date; count: number }>> = [];
     let currentWeek: Array<{ date: Date; count: number }> = [];
 
-    // Start from first day of the year
+    // Start from first day of the date range
     const firstDay = heatmapData[0];
-    const startDayOfWeek = firstDay.date.getDay();
+    const startDayOfWeek = firstDay.date.getUTCDay();
 
     // Add empty cells for days before the first day
     for (let i = 0; i < startDayOfWeek; i++) {
@@ -106,20 +108,7 @@ export function CommitHeatmap({ commits, year }: CommitHeatmapProps) {
     return result;
   }, [heatmapData]);
 
-  const monthLabels = [
-    "Jan",
-    "Feb",
-    "Mar",
-    "Apr",
-    "May",
-    "Jun",
-    "Jul",
-    "Aug",
-    "Sep",
-    "Oct",
-    "Nov",
-    "Dec",
-  ];
+  const monthLabels = getMonthsInRange(dateRange);
   const dayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
   return (
@@ -131,7 +120,7 @@ export function CommitHeatmap({ commits, year }: CommitHeatmapProps) {
             <div
               key={month}
               className="text-xs text-gray-600 dark:text-gray-400"
-              style={{ width: `${100 / 12}%` }}
+              style={{ width: `${100 / monthLabels.length}%` }}
             >
               {month}
             </div>
@@ -164,9 +153,9 @@ export function CommitHeatmap({ commits, year }: CommitHeatmapProps) {
                       className={`h-3 rounded-sm ${getColor(
                         day.count
                       )} transition-all hover:ring-2 hover:ring-blue-400 cursor-pointer`}
-                      title={`${day.date.toLocaleDateString()}: ${
-                        day.count
-                      } commits`}
+                      title={`${day.date.toLocaleDateString(undefined, {
+                        timeZone: "UTC",
+                      })}: ${day.count} commits`}
                     />
                   );
                 })}
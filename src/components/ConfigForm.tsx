@@ -15,7 +15,20 @@ import { Button } from "@/components/ui/button";
 import { MultiSelect, MultiSelectOption } from "@/components/ui/multi-select";
 import { useToast } from "@/hooks/use-toast";
 import { X } from "lucide-react";
-import type { WrappedConfig, ProjectRepository } from "@/types";
+import { LAST_N_DAYS_OPTIONS, MONTH_NAMES } from "@/lib/constants";
+import { resolveDateRange, validateDateRangeOptions } from "@/lib/dateRange";
+import {
+  formatIdentityAliases,
+  parseIdentityAliases,
+  validateIdentityAliases,
+} from "@/lib/identity";
+import { detectTimeZone, isValidTimeZone } from "@/lib/timezone";
+import type {
+  DateRangeOptions,
+  DateRangePreset,
+  WrappedConfig,
+  ProjectRepository,
+} from "@/types";
 
 export type { WrappedConfig } from "@/types";
 
@@ -38,6 +51,13 @@ interface RepositoryInfo {
   defaultBranch?: string;
 }
 
+interface TeamInfo {
+  id: string;
+  name: string;
+  project: string; // Parent project name
+  members: Array<{ id: string; displayName: string; uniqueName: string }>;
+}
+
 export function ConfigForm({
   onSubmit,
   loading = false,
@@ -52,6 +72,12 @@ export function ConfigForm({
       repositories: [],
       year: new Date().getFullYear(), // Default to current year
       userEmail: "",
+      teamMembers: [],
+      aliases: {},
+      compareYears: 0,
+      includeBuilds: false,
+      dateRange: { preset: "calendarYear" },
+      timeZone: "", // Empty = detect from the browser
     };
 
     // Check localStorage for saved config with version handling
@@ -74,6 +100,12 @@ export function ConfigForm({
               repositories: parsed.repositories || defaults.repositories,
               year: parsed.year || defaults.year,
               userEmail: parsed.userEmail || defaults.userEmail,
+              teamMembers: parsed.teamMembers || defaults.teamMembers,
+              aliases: parsed.aliases || defaults.aliases,
+              compareYears: parsed.compareYears || defaults.compareYears,
+              includeBuilds: parsed.includeBuilds || defaults.includeBuilds,
+              dateRange: parsed.dateRange || defaults.dateRange,
+              timeZone: parsed.timeZone || defaults.timeZone,
               // PAT is never saved/loaded from localStorage
             };
           }
@@ -99,6 +131,37 @@ export function ConfigForm({
   const [reposLoading, setReposLoading] = useState(false);
   const [reposError, setReposError] = useState<string | null>(null);
 
+  // Raw text of the extra branch inputs, keyed by "project/repo"
+  // (kept separately so commas and spaces survive while typing)
+  const [branchInputs, setBranchInputs] = useState<Record<string, string>>({});
+
+  // State for available teams from API (for picking a team's roster)
+  const [availableTeams, setAvailableTeams] = useState<TeamInfo[]>([]);
+  const [teamsLoading, setTeamsLoading] = useState(false);
+  const [teamsError, setTeamsError] = useState<string | null>(null);
+  const [selectedTeamId, setSelectedTeamId] = useState("");
+
+  // Browser timezone (used unless overridden) and the zones to suggest,
+  // detected after mount so server and client renders match
+  const [detectedTimeZone, setDetectedTimeZone] = useState("");
+  const [timeZoneOptions, setTimeZoneOptions] = useState<string[]>([]);
+  useEffect(() => {
+    setDetectedTimeZone(detectTimeZone());
+    if (typeof Intl.supportedValuesOf === "function") {
+      setTimeZoneOptions(Intl.supportedValuesOf("timeZone"));
+    }
+  }, []);
+
+  // Raw text of the team members input (comma-separated emails)
+  const [teamInput, setTeamInput] = useState(() =>
+    (config.teamMembers || []).join(", ")
+  );
+
+  // Raw text of the aliases input ("email=alias|alias;email=alias")
+  const [aliasInput, setAliasInput] = useState(() =>
+    formatIdentityAliases(config.aliases || {})
+  );
+
   // Apply initialConfig from server (env variables) when provided
   useEffect(() => {
     if (initialConfig) {
@@ -109,6 +172,12 @@ export function ConfigForm({
         // Never override PAT from server for security
         pat: prev.pat,
       }));
+      if (initialConfig.teamMembers?.length) {
+        setTeamInput(initialConfig.teamMembers.join(", "));
+      }
+      if (initialConfig.aliases && Object.keys(initialConfig.aliases).length) {
+        setAliasInput(formatIdentityAliases(initialConfig.aliases));
+      }
     }
   }, [initialConfig]);
 
@@ -198,6 +267,52 @@ export function ConfigForm({
     []
   );
 
+  // Fetch teams (with members) when projects change
+  const fetchTeams = useCallback(
+    async (organization: string, pat: string, projects: string[]) => {
+      if (!organization.trim() || !pat.trim() || projects.length === 0) {
+        setAvailableTeams([]);
+        return;
+      }
+
+      setTeamsLoading(true);
+      setTeamsError(null);
+
+      try {
+        const response = await fetch(
+          `/api/teams?organization=${encodeURIComponent(
+            organization
+          )}&projects=${encodeURIComponent(projects.join(","))}`,
+          {
+            headers: {
+              Authorization: `Bearer ${pat}`,
+            },
+          }
+        );
+
+        if (!response.ok) {
+          const error = await response.json();
+          throw new Error(error.error || "Failed to fetch teams");
+        }
+
+        const data = await response.json();
+        setAvailableTeams(data.teams || []);
+        console.log(
+          `👥 Loaded ${data.teams?.length || 0} teams from ${
+            projects.length
+          } project(s)`
+        );
+      } catch (error: any) {
+        console.error("Failed to fetch teams:", error);
+        setTeamsError(error.message);
+        setAvailableTeams([]);
+      } finally {
+        setTeamsLoading(false);
+      }
+    },
+    []
+  );
+
   // Debounced fetch when org or PAT changes
   // Only fetch when PAT looks complete (Azure DevOps PATs are 52+ chars)
   // and organization has no spaces (likely complete)
@@ -223,6 +338,7 @@ export function ConfigForm({
   useEffect(() => {
     if (config.projects.length === 0) {
       setAvailableRepositories([]);
+      setAvailableTeams([]);
       // Clear selected repositories that no longer belong to selected projects
       if (config.repositories.length > 0) {
         setConfig((prev) => ({ ...prev, repositories: [] }));
@@ -241,10 +357,17 @@ export function ConfigForm({
 
     const timeoutId = setTimeout(() => {
       fetchRepositories(config.organization, config.pat, config.projects);
+      fetchTeams(config.organization, config.pat, config.projects);
     }, 300);
 
     return () => clearTimeout(timeoutId);
-  }, [config.organization, config.pat, config.projects, fetchRepositories]);
+  }, [
+    config.organization,
+    config.pat,
+    config.projects,
+    fetchRepositories,
+    fetchTeams,
+  ]);
 
   // When projects change, filter out repositories that no longer belong to selected projects
   useEffect(() => {
@@ -258,6 +381,16 @@ export function ConfigForm({
     }
   }, [config.projects]);
 
+  // Resolved reporting period, shown under the picker and in comparisons
+  const dateRange: DateRangeOptions = config.dateRange || {
+    preset: "calendarYear",
+  };
+  const dateRangeError = validateDateRangeOptions(dateRange);
+  const periodLabel = (yearsBack: number) =>
+    dateRangeError
+      ? `${config.year - yearsBack}`
+      : resolveDateRange(dateRange, config.year, yearsBack).label;
+
   const [errors, setErrors] = useState<
     Partial<Record<keyof WrappedConfig, string>>
   >({});
@@ -284,6 +417,17 @@ export function ConfigForm({
     ) {
       newErrors.year = "Please enter a valid year";
     }
+    if (dateRangeError) {
+      newErrors.dateRange = dateRangeError;
+    }
+    if (config.timeZone && !isValidTimeZone(config.timeZone)) {
+      newErrors.timeZone =
+        "Please enter an IANA timezone, e.g. America/Los_Angeles";
+    }
+    const aliasesError = validateIdentityAliases(config.aliases || {});
+    if (aliasesError) {
+      newErrors.aliases = aliasesError;
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -308,6 +452,12 @@ export function ConfigForm({
       repositories: config.repositories,
       year: config.year,
       userEmail: config.userEmail,
+      teamMembers: config.teamMembers,
+      aliases: config.aliases,
+      compareYears: config.compareYears,
+      includeBuilds: config.includeBuilds,
+      dateRange: config.dateRange,
+      timeZone: config.timeZone,
       version: 2, // Version flag for future migrations
     };
     console.log("💾 Saving config to localStorage:", configToSave);
@@ -318,7 +468,7 @@ export function ConfigForm({
 
   const handleChange = (
     field: keyof WrappedConfig,
-    value: string | number | string[] | ProjectRepository[]
+    value: string | number | boolean | string[] | ProjectRepository[]
   ) => {
     setConfig((prev) => ({ ...prev, [field]: value }));
     // Clear error when user starts typing
@@ -327,17 +477,92 @@ export function ConfigForm({
     }
   };
 
+  // Picking a team fills in its members' emails (unique names that aren't
+  // emails, e.g. DOMAIN\user on Azure DevOps Server, can't be reported on)
+  const handleTeamChange = (teamId: string) => {
+    setSelectedTeamId(teamId);
+    const team = availableTeams.find((t) => t.id === teamId);
+    if (team) {
+      updateTeamMembers(
+        team.members
+          .map((m) => m.uniqueName)
+          .filter((name) => name.includes("@"))
+          .join(", ")
+      );
+    }
+  };
+
+  // Reporting period: switching presets keeps the other presets' settings
+  const handleDateRangeChange = (update: Partial<DateRangeOptions>) => {
+    setConfig((prev) => ({
+      ...prev,
+      dateRange: { ...(prev.dateRange || dateRange), ...update },
+    }));
+    if (errors.dateRange) {
+      setErrors((prev) => ({ ...prev, dateRange: undefined }));
+    }
+  };
+
+  // Typing emails by hand detaches the form from the picked team
+  const handleTeamMembersChange = (value: string) => {
+    setSelectedTeamId("");
+    updateTeamMembers(value);
+  };
+
+  // Team members: keep the raw text, store the parsed email list
+  const updateTeamMembers = (value: string) => {
+    setTeamInput(value);
+    const members = value
+      .split(",")
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean);
+    setConfig((prev) => ({
+      ...prev,
+      teamMembers: Array.from(new Set(members)),
+    }));
+  };
+
+  // Aliases: keep the raw text, store the parsed aliases per person
+  const handleAliasesChange = (value: string) => {
+    setAliasInput(value);
+    setConfig((prev) => ({ ...prev, aliases: parseIdentityAliases(value) }));
+  };
+
   // Handle repository selection - convert selected keys to ProjectRepository array
   const handleRepositoryChange = (selectedKeys: string[]) => {
     const repositories: ProjectRepository[] = selectedKeys.map((key) => {
+      // Keep extra branches of repos that were already selected
+      const existing = config.repositories.find(
+        (r) => `${r.project}/${r.repository}` === key
+      );
+      if (existing) return existing;
+
       // Key format is "project/repo"
       const [project, ...repoParts] = key.split("/");
       const repository = repoParts.join("/"); // Handle repos with / in name
-      return { project, repository };
+      const info = availableRepositories.find(
+        (r) => r.project === project && r.name === repository
+      );
+      return { project, repository, defaultBranch: info?.defaultBranch };
     });
     handleChange("repositories", repositories);
   };
 
+  // Handle extra target branches for one repository (comma-separated input)
+  const handleExtraBranchesChange = (key: string, value: string) => {
+    setBranchInputs((prev) => ({ ...prev, [key]: value }));
+    const extraBranches = value
+      .split(",")
+      .map((b) => b.trim())
+      .filter(Boolean);
+    handleChange(
+      "repositories",
+      config.repositories.map((r) =>
+        `${r.project}/${r.repository}` === key ? { ...r, extraBranches } : r
+      )
+    );
+  };
+
   // Convert projects to MultiSelect options
   const projectOptions: MultiSelectOption[] = availableProjects.map((p) => ({
     value: p.name,
@@ -390,6 +615,7 @@ export function ConfigForm({
             )}
             <p className="text-xs text-slate-500">
               Your PAT is used only to fetch data and is not stored permanently.
+              A Microsoft Entra ID access token for Azure DevOps works too.
             </p>
             <p className="text-xs text-slate-500">
               Requires <span className="text-cyan-400">Read</span> permissions
@@ -519,8 +745,44 @@ export function ConfigForm({
                 ))}
               </div>
             )}
+            {/* Extra target branches per selected repository */}
+            {config.repositories.length > 0 && (
+              <div className="space-y-2 pt-2">
+                <p className="text-xs text-slate-400">
+                  Extra target branches (optional, comma-separated)
+                </p>
+                {config.repositories.map((repo) => {
+                  const key = `${repo.project}/${repo.repository}`;
+                  return (
+                    <div key={key} className="flex items-center gap-2">
+                      <span
+                        className="w-1/3 truncate text-xs text-slate-300"
+                        title={key}
+                      >
+                        {repo.repository}
+                      </span>
+                      <Input
+                        placeholder="e.g., release/2024, release/2025"
+                        value={
+                          branchInputs[key] ??
+                          repo.extraBranches?.join(", ") ??
+                          ""
+                        }
+                        onChange={(e) =>
+                          handleExtraBranchesChange(key, e.target.value)
+                        }
+                        disabled={loading}
+                        className="h-8 text-xs bg-slate-900/50 border-slate-600 text-white placeholder:text-slate-500"
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
             <p className="text-xs text-slate-500">
-              Select one or more repositories to analyze.
+              Select one or more repositories to analyze. Commits and PRs are
+              read from each repository&apos;s default branch plus any extra
+              branches listed above.
             </p>
           </div>
 
@@ -556,6 +818,250 @@ export function ConfigForm({
               )}
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="dateRange" className="text-slate-200">
+                Date Range
+              </Label>
+              <select
+                id="dateRange"
+                value={dateRange.preset}
+                onChange={(e) => {
+                  const preset = e.target.value as DateRangePreset;
+                  handleDateRangeChange({
+                    preset,
+                    ...(preset === "quarter" && {
+                      quarter: dateRange.quarter || 1,
+                    }),
+                    ...(preset === "lastNDays" && {
+                      days: dateRange.days || LAST_N_DAYS_OPTIONS[1],
+                    }),
+                  });
+                }}
+                disabled={loading}
+                className={`flex h-10 w-full rounded-md border px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 bg-slate-900/50 border-slate-600 text-white ${
+                  errors.dateRange ? "border-destructive" : ""
+                }`}
+              >
+                <option
+                  value="calendarYear"
+                  className="bg-slate-900 text-white"
+                >
+                  Calendar year
+                </option>
+                <option value="fiscalYear" className="bg-slate-900 text-white">
+                  Fiscal year
+                </option>
+                <option value="quarter" className="bg-slate-900 text-white">
+                  Quarter
+                </option>
+                <option value="lastNDays" className="bg-slate-900 text-white">
+                  Last N days
+                </option>
+                <option value="custom" className="bg-slate-900 text-white">
+                  Custom dates
+                </option>
+              </select>
+
+              {(dateRange.preset === "fiscalYear" ||
+                dateRange.preset === "quarter") && (
+                <div className="flex gap-2">
+                  <select
+                    aria-label="Fiscal year starts in"
+                    value={dateRange.fiscalYearStartMonth || 1}
+                    onChange={(e) =>
+                      handleDateRangeChange({
+                        fiscalYearStartMonth: parseInt(e.target.value),
+                      })
+                    }
+                    disabled={loading}
+                    className="flex h-8 w-full rounded-md border px-2 text-xs bg-slate-900/50 border-slate-600 text-white"
+                  >
+                    {MONTH_NAMES.map((month, i) => (
+                      <option
+                        key={month}
+                        value={i + 1}
+                        className="bg-slate-900 text-white"
+                      >
+                        FY starts in {month}
+                      </option>
+                    ))}
+                  </select>
+                  {dateRange.preset === "quarter" && (
+                    <select
+                      aria-label="Quarter"
+                      value={dateRange.quarter || 1}
+                      onChange={(e) =>
+                        handleDateRangeChange({
+                          quarter: parseInt(e.target.value),
+                        })
+                      }
+                      disabled={loading}
+                      className="flex h-8 w-24 rounded-md border px-2 text-xs bg-slate-900/50 border-slate-600 text-white"
+                    >
+                      {[1, 2, 3, 4].map((q) => (
+                        <option
+                          key={q}
+                          value={q}
+                          className="bg-slate-900 text-white"
+                        >
+                          Q{q}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              )}
+
+              {dateRange.preset === "lastNDays" && (
+                <select
+                  aria-label="Number of days"
+                  value={dateRange.days || LAST_N_DAYS_OPTIONS[1]}
+                  onChange={(e) =>
+                    handleDateRangeChange({ days: parseInt(e.target.value) })
+                  }
+                  disabled={loading}
+                  className="flex h-8 w-full rounded-md border px-2 text-xs bg-slate-900/50 border-slate-600 text-white"
+                >
+                  {LAST_N_DAYS_OPTIONS.map((days) => (
+                    <option
+                      key={days}
+                      value={days}
+                      className="bg-slate-900 text-white"
+                    >
+                      Last {days} days
+                    </option>
+                  ))}
+                </select>
+              )}
+
+              {dateRange.preset === "custom" && (
+                <div className="flex gap-2">
+                  <Input
+                    type="date"
+                    aria-label="Start date"
+                    value={dateRange.startDate || ""}
+                    onChange={(e) =>
+                      handleDateRangeChange({ startDate: e.target.value })
+                    }
+                    disabled={loading}
+                    className="h-8 text-xs bg-slate-900/50 border-slate-600 text-white"
+                  />
+                  <Input
+                    type="date"
+                    aria-label="End date"
+                    value={dateRange.endDate || ""}
+                    onChange={(e) =>
+                      handleDateRangeChange({ endDate: e.target.value })
+                    }
+                    disabled={loading}
+                    className="h-8 text-xs bg-slate-900/50 border-slate-600 text-white"
+                  />
+                </div>
+              )}
+
+              {errors.dateRange ? (
+                <p className="text-sm text-destructive">{errors.dateRange}</p>
+              ) : (
+                !dateRangeError && (
+                  <p className="text-xs text-slate-500">
+                    {(() => {
+                      const range = resolveDateRange(dateRange, config.year);
+                      return `${range.label}: ${range.startDate} to ${range.endDate}`;
+                    })()}
+                  </p>
+                )
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="compareYears" className="text-slate-200">
+                Compare With (Optional)
+              </Label>
+              <select
+                id="compareYears"
+                value={config.compareYears || 0}
+                onChange={(e) =>
+                  handleChange("compareYears", parseInt(e.target.value))
+                }
+                disabled={loading}
+                className="flex h-10 w-full rounded-md border px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 bg-slate-900/50 border-slate-600 text-white"
+              >
+                {[0, 1, 2, 3].map((n) => (
+                  <option key={n} value={n} className="bg-slate-900 text-white">
+                    {n === 0
+                      ? "No comparison"
+                      : n === 1
+                      ? periodLabel(1)
+                      : `${periodLabel(n)} to ${periodLabel(1)}`}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-500">
+                Show &quot;+23% vs last year&quot; style changes against the
+                same period in prior years. Each prior period is fetched in
+                full, so this takes longer.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  id="includeBuilds"
+                  type="checkbox"
+                  checked={!!config.includeBuilds}
+                  onChange={(e) =>
+                    handleChange("includeBuilds", e.target.checked)
+                  }
+                  disabled={loading}
+                  className="h-4 w-4 rounded border-slate-600 bg-slate-900/50 accent-emerald-500 disabled:cursor-not-allowed disabled:opacity-50"
+                />
+                <Label htmlFor="includeBuilds" className="text-slate-200">
+                  Include Builds (Optional)
+                </Label>
+              </div>
+              <p className="text-xs text-slate-500">
+                Add stories about the pipeline runs you requested: success rate,
+                build times and your busiest pipelines. Needs the Build (Read)
+                scope on your PAT.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="timeZone" className="text-slate-200">
+                Time Zone (Optional)
+              </Label>
+              <Input
+                id="timeZone"
+                list="timeZoneOptions"
+                placeholder={
+                  detectedTimeZone
+                    ? `${detectedTimeZone} (detected)`
+                    : "Detected from your browser"
+                }
+                value={config.timeZone || ""}
+                onChange={(e) =>
+                  handleChange("timeZone", e.target.value.trim())
+                }
+                disabled={loading}
+                className={`bg-slate-900/50 border-slate-600 text-white placeholder:text-slate-500 ${
+                  errors.timeZone ? "border-destructive" : ""
+                }`}
+              />
+              <datalist id="timeZoneOptions">
+                {timeZoneOptions.map((zone) => (
+                  <option key={zone} value={zone} />
+                ))}
+              </datalist>
+              {errors.timeZone ? (
+                <p className="text-sm text-destructive">{errors.timeZone}</p>
+              ) : (
+                <p className="text-xs text-slate-500">
+                  Hours, weekdays and the contribution calendar use this
+                  timezone. Leave empty to use your browser&apos;s.
+                </p>
+              )}
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="userEmail" className="text-slate-200">
                 User Email (Optional)
@@ -573,6 +1079,86 @@ export function ConfigForm({
                 Filter commits and PRs by a specific user email.
               </p>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="team" className="text-slate-200">
+                Team (Optional)
+              </Label>
+              <select
+                id="team"
+                value={selectedTeamId}
+                onChange={(e) => handleTeamChange(e.target.value)}
+                disabled={
+                  loading || teamsLoading || availableTeams.length === 0
+                }
+                className="flex h-10 w-full rounded-md border px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 bg-slate-900/50 border-slate-600 text-white"
+              >
+                <option value="" className="bg-slate-900 text-white">
+                  {teamsLoading
+                    ? "Loading teams..."
+                    : availableTeams.length === 0
+                    ? "Select projects to load teams"
+                    : "Pick a team to fill in its members..."}
+                </option>
+                {availableTeams.map((team) => (
+                  <option
+                    key={team.id}
+                    value={team.id}
+                    className="bg-slate-900 text-white"
+                  >
+                    {team.project} / {team.name} ({team.members.length})
+                  </option>
+                ))}
+              </select>
+              {teamsError && (
+                <p className="text-sm text-destructive">{teamsError}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="teamMembers" className="text-slate-200">
+                Team Members (Optional)
+              </Label>
+              <Input
+                id="teamMembers"
+                type="text"
+                placeholder="alice@example.com, bob@example.com"
+                value={teamInput}
+                onChange={(e) => handleTeamMembersChange(e.target.value)}
+                disabled={loading}
+                className="bg-slate-900/50 border-slate-600 text-white placeholder:text-slate-500"
+              />
+              <p className="text-xs text-slate-500">
+                Comma-separated emails. Generates a Team Wrapped with stats for
+                each member instead of a single user.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="aliases" className="text-slate-200">
+                Aliases (Optional)
+              </Label>
+              <Input
+                id="aliases"
+                type="text"
+                placeholder="you@example.com=you@old.com|Your Name"
+                value={aliasInput}
+                onChange={(e) => handleAliasesChange(e.target.value)}
+                disabled={loading}
+                className={`bg-slate-900/50 border-slate-600 text-white placeholder:text-slate-500 ${
+                  errors.aliases ? "border-destructive" : ""
+                }`}
+              />
+              {errors.aliases ? (
+                <p className="text-sm text-destructive">{errors.aliases}</p>
+              ) : (
+                <p className="text-xs text-slate-500">
+                  Other emails, git author names or DOMAIN\user names someone
+                  commits with, after their email and separated by |. Separate
+                  people with semicolons.
+                </p>
+              )}
+            </div>
           </div>
         </CardContent>
         <CardFooter>
@@ -581,7 +1167,11 @@ export function ConfigForm({
             className="w-full bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-500 hover:to-cyan-500 text-white border-0"
             disabled={loading || config.repositories.length === 0}
           >
-            {loading ? "Generating..." : "Generate My Wrapped"}
+            {loading
+              ? "Generating..."
+              : config.teamMembers?.length
+              ? "Generate Team Wrapped"
+              : "Generate My Wrapped"}
           </Button>
         </CardFooter>
       </form>
@@ -3,15 +3,21 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Download, FileJson, FileText } from "lucide-react";
-import { exportToJSON, exportToMarkdown } from "@/lib/export";
-import type { ClientWrappedStats } from "@/types";
+import {
+  exportToJSON,
+  exportToMarkdown,
+  exportTeamToJSON,
+  exportTeamToMarkdown,
+} from "@/lib/export";
+import type { ClientWrappedStats, ClientTeamWrappedStats } from "@/types";
 import { useToast } from "@/hooks/use-toast";
 
-interface ExportButtonProps {
-  stats: ClientWrappedStats;
-}
+// Exports either one user's stats or a team's stats
+type ExportButtonProps =
+  | { stats: ClientWrappedStats; team?: undefined }
+  | { team: ClientTeamWrappedStats; stats?: undefined };
 
-export function ExportButton({ stats }: ExportButtonProps) {
+export function ExportButton({ stats, team }: ExportButtonProps) {
   const { toast } = useToast();
   const [isExporting, setIsExporting] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
@@ -21,13 +27,21 @@ export function ExportButton({ stats }: ExportButtonProps) {
     setShowMenu(false);
     try {
       if (format === "json") {
-        exportToJSON(stats);
+        if (team) {
+          exportTeamToJSON(team);
+        } else {
+          exportToJSON(stats);
+        }
         toast({
           title: "Exported as JSON",
           description: "Your stats have been downloaded",
         });
       } else {
-        exportToMarkdown(stats);
+        if (team) {
+          exportTeamToMarkdown(team);
+        } else {
+          exportToMarkdown(stats);
+        }
         toast({
           title: "Exported as Markdown",
           description: "Your stats have been downloaded",
@@ -9,7 +9,7 @@ interface InsightsCardProps {
   insights: Insights;
 }
 
-const personalityEmojis: Record<string, string> = {
+export const personalityEmojis: Record<string, string> = {
   "Night Owl": "🦉",
   "Early Bird": "🌅",
   "Nine-to-Fiver": "💼",
@@ -80,7 +80,7 @@ export function InsightsCard({ insights }: InsightsCardProps) {
           </motion.div>
 
           {/* Top Languages */}
-          {insights.topFileExtensions.length > 0 && (
+          {insights.languages.length > 0 && (
             <motion.div
               initial={{ y: 20, opacity: 0 }}
               animate={{ y: 0, opacity: 1 }}
@@ -92,12 +92,12 @@ export function InsightsCard({ insights }: InsightsCardProps) {
                 <h4 className="font-semibold">Top Languages</h4>
               </div>
               <div className="flex flex-wrap gap-2">
-                {insights.topFileExtensions.slice(0, 5).map((ext) => (
+                {insights.languages.slice(0, 5).map((lang) => (
                   <div
-                    key={ext.ext}
+                    key={lang.language}
                     className="bg-white/20 px-3 py-1 rounded-full text-sm"
                   >
-                    {ext.ext} ({ext.count})
+                    {lang.language} ({lang.percentage}%)
                   </div>
                 ))}
               </div>
@@ -8,9 +8,11 @@ import {
   Legend,
   Tooltip,
 } from "recharts";
+import type { Insights } from "@/types";
+import { LANGUAGE_CHART_LIMIT } from "@/lib/constants";
 
 interface LanguageChartProps {
-  extensions: Array<{ ext: string; count: number }>;
+  languages: Insights["languages"];
 }
 
 const COLORS = [
@@ -26,17 +28,28 @@ const COLORS = [
   "#22d3ee", // light cyan
 ];
 
-export function LanguageChart({ extensions }: LanguageChartProps) {
-  // Take top 10 extensions
-  const data = extensions.slice(0, 10).map((ext) => ({
-    name: ext.ext || "unknown",
-    value: ext.count,
+export function LanguageChart({ languages }: LanguageChartProps) {
+  // Take the top languages and group the rest as "Other"
+  const data = languages.slice(0, LANGUAGE_CHART_LIMIT).map((lang) => ({
+    name: lang.language,
+    value: lang.files,
   }));
+  const restFiles = languages
+    .slice(LANGUAGE_CHART_LIMIT)
+    .reduce((sum, lang) => sum + lang.files, 0);
+  if (restFiles > 0) {
+    const other = data.find((entry) => entry.name === "Other");
+    if (other) {
+      other.value += restFiles;
+    } else {
+      data.push({ name: "Other", value: restFiles });
+    }
+  }
 
   if (data.length === 0) {
     return (
       <div className="text-center text-gray-500 dark:text-gray-400 py-8">
-        No file extensions data available
+        No language data available
       </div>
     );
   }
@@ -74,6 +87,7 @@ export function LanguageChart({ extensions }: LanguageChartProps) {
               padding: "8px 12px",
               color: "var(--tooltip-text, #1f2937)",
             }}
+            formatter={(value) => [`${value} files`, "Touched"]}
             wrapperClassName="[--tooltip-bg:rgba(255,255,255,0.95)] dark:[--tooltip-bg:rgba(30,41,59,0.95)] [--tooltip-border:#e5e7eb] dark:[--tooltip-border:#475569] [--tooltip-text:#1f2937] dark:[--tooltip-text:#f1f5f9]"
           />
           <Legend
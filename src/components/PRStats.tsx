@@ -2,13 +2,26 @@
 
 import { motion } from "framer-motion";
 import type { ClientPullRequestStats } from "@/types";
-import { GitPullRequest, GitMerge, MessageSquare, Clock } from "lucide-react";
+import {
+  GitPullRequest,
+  GitMerge,
+  MessageSquare,
+  Clock,
+  MessagesSquare,
+  CheckCircle2,
+  Flame,
+  Ruler,
+} from "lucide-react";
+import { describeSizeMergeCorrelation } from "@/lib/utils";
 
 interface PRStatsProps {
   pullRequests: ClientPullRequestStats;
 }
 
 export function PRStats({ pullRequests }: PRStatsProps) {
+  const { comments, sizes } = pullRequests;
+  const sizedPRs = sizes.buckets.reduce((sum, b) => sum + b.count, 0);
+  const maxBucketCount = Math.max(...sizes.buckets.map((b) => b.count), 1);
   const stats = [
     {
       icon: <GitPullRequest className="w-8 h-8" />,
@@ -65,6 +78,54 @@ export function PRStats({ pullRequests }: PRStatsProps) {
           </span>
         </div>
 
+        {comments.total > 0 && (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                <MessagesSquare className="w-4 h-4" />
+                <span className="text-sm">Comments Written / Received</span>
+              </div>
+              <span className="font-semibold text-gray-900 dark:text-gray-100">
+                {comments.written} / {comments.received}
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                <CheckCircle2 className="w-4 h-4" />
+                <span className="text-sm">Threads Resolved / Active</span>
+              </div>
+              <span className="font-semibold text-gray-900 dark:text-gray-100">
+                {comments.threadsResolved} / {comments.threadsActive}
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                <MessageSquare className="w-4 h-4" />
+                <span className="text-sm">Avg. Comments per PR</span>
+              </div>
+              <span className="font-semibold text-gray-900 dark:text-gray-100">
+                {comments.avgCommentsPerPR.toFixed(1)}
+              </span>
+            </div>
+          </>
+        )}
+
+        {comments.mostDiscussedPR && (
+          <div className="p-3 bg-cyan-50 dark:bg-cyan-900/20 rounded-lg">
+            <p className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400 mb-1">
+              <Flame className="w-3 h-3" /> Most Discussed PR
+            </p>
+            <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+              {comments.mostDiscussedPR.title}
+            </p>
+            <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+              {comments.mostDiscussedPR.comments} comments
+            </p>
+          </div>
+        )}
+
         {pullRequests.largestPR && (
           <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
             <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">
@@ -75,6 +136,44 @@ export function PRStats({ pullRequests }: PRStatsProps) {
             </p>
             <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
               {pullRequests.largestPR.filesChanged} files changed
+              {pullRequests.largestPR.linesAdded !== undefined &&
+                ` · +${pullRequests.largestPR.linesAdded} −${pullRequests.largestPR.linesDeleted} lines`}
+            </p>
+          </div>
+        )}
+
+        {sizedPRs > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+              <Ruler className="w-4 h-4" />
+              <span>PR Size (files changed)</span>
+            </div>
+            <div className="flex items-end gap-2 h-16">
+              {sizes.buckets.map((bucket) => (
+                <div
+                  key={bucket.label}
+                  className="flex-1 flex flex-col items-center gap-1"
+                  title={`${bucket.label}: ${bucket.count} PRs${
+                    bucket.avgHoursToMerge !== null
+                      ? `, ${bucket.avgHoursToMerge}h avg to merge`
+                      : ""
+                  }`}
+                >
+                  <div
+                    className="w-full bg-blue-500 dark:bg-blue-400 rounded-t"
+                    style={{
+                      height: `${(bucket.count / maxBucketCount) * 100}%`,
+                      minHeight: bucket.count > 0 ? "4px" : "0",
+                    }}
+                  />
+                  <span className="text-xs text-gray-600 dark:text-gray-400">
+                    {bucket.label}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              {describeSizeMergeCorrelation(sizes.sizeMergeCorrelation)}
             </p>
           </div>
         )}
@@ -0,0 +1,154 @@
+"use client";
+
+import { motion } from "framer-motion";
+import type { ReviewStats as ReviewStatsType } from "@/types";
+import {
+  CheckCircle2,
+  MessageSquarePlus,
+  Hourglass,
+  XCircle,
+  Timer,
+  Users,
+} from "lucide-react";
+
+interface ReviewStatsProps {
+  reviews: ReviewStatsType;
+}
+
+// Format a duration in hours as "X hours" or "X.Y days"
+function formatHours(hours: number): string {
+  if (hours < 1) {
+    const minutes = Math.round(hours * 60);
+    return `${minutes} min`;
+  }
+  if (hours < 24) {
+    const rounded = Math.round(hours);
+    return `${rounded} hour${rounded !== 1 ? "s" : ""}`;
+  }
+  const days = Math.round((hours / 24) * 10) / 10;
+  return `${days} day${days !== 1 ? "s" : ""}`;
+}
+
+export function ReviewStats({ reviews }: ReviewStatsProps) {
+  const votes = [
+    {
+      icon: <CheckCircle2 className="w-6 h-6" />,
+      label: "Approved",
+      value: reviews.votes.approved,
+      color: "text-green-600 dark:text-green-400",
+      bg: "bg-green-50 dark:bg-green-900/20",
+    },
+    {
+      icon: <MessageSquarePlus className="w-6 h-6" />,
+      label: "With Suggestions",
+      value: reviews.votes.approvedWithSuggestions,
+      color: "text-lime-600 dark:text-lime-400",
+      bg: "bg-lime-50 dark:bg-lime-900/20",
+    },
+    {
+      icon: <Hourglass className="w-6 h-6" />,
+      label: "Waiting for Author",
+      value: reviews.votes.waitingForAuthor,
+      color: "text-amber-600 dark:text-amber-400",
+      bg: "bg-amber-50 dark:bg-amber-900/20",
+    },
+    {
+      icon: <XCircle className="w-6 h-6" />,
+      label: "Rejected",
+      value: reviews.votes.rejected,
+      color: "text-red-600 dark:text-red-400",
+      bg: "bg-red-50 dark:bg-red-900/20",
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Total reviewed */}
+      <motion.div
+        initial={{ scale: 0 }}
+        animate={{ scale: 1 }}
+        transition={{ delay: 0.2, type: "spring", stiffness: 200 }}
+        className="text-center"
+      >
+        <div className="text-5xl font-bold text-gray-900 dark:text-gray-100">
+          {reviews.total}
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          pull requests reviewed
+        </p>
+      </motion.div>
+
+      {/* Votes by type */}
+      <div className="grid grid-cols-2 gap-4">
+        {votes.map((vote, index) => (
+          <motion.div
+            key={vote.label}
+            initial={{ y: 20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ delay: 0.3 + index * 0.05 }}
+            className={`flex flex-col items-center p-4 rounded-lg ${vote.bg}`}
+          >
+            <div className={`${vote.color} mb-2`}>{vote.icon}</div>
+            <div className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+              {vote.value}
+            </div>
+            <div className="text-xs text-gray-600 dark:text-gray-400">
+              {vote.label}
+            </div>
+          </motion.div>
+        ))}
+      </div>
+
+      {/* Turnaround */}
+      <motion.div
+        initial={{ y: 20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        transition={{ delay: 0.5 }}
+        className="space-y-3 pt-4 border-t border-gray-200 dark:border-gray-700"
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+            <Timer className="w-4 h-4" />
+            <span className="text-sm">Median Time to First Vote</span>
+          </div>
+          <span className="font-semibold text-gray-900 dark:text-gray-100">
+            {reviews.medianHoursToFirstVote !== null
+              ? formatHours(reviews.medianHoursToFirstVote)
+              : "N/A"}
+          </span>
+        </div>
+      </motion.div>
+
+      {/* Top authors reviewed */}
+      {reviews.topAuthors.length > 0 && (
+        <motion.div
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ delay: 0.55 }}
+          className="space-y-2"
+        >
+          <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+            <Users className="w-4 h-4" />
+            <span>You Reviewed Most For</span>
+          </div>
+          {reviews.topAuthors.map((author) => (
+            <div
+              key={author.name}
+              className="flex items-center justify-between text-sm"
+            >
+              <span
+                className="truncate text-gray-700 dark:text-gray-300"
+                title={author.name}
+              >
+                {author.name}
+              </span>
+              <span className="shrink-0 ml-2 text-gray-600 dark:text-gray-400">
+                {author.count} PR{author.count !== 1 ? "s" : ""}
+              </span>
+            </div>
+          ))}
+        </motion.div>
+      )}
+    </div>
+  );
+}
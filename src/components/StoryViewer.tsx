@@ -5,54 +5,46 @@ import { motion, AnimatePresence } from "framer-motion";
 import { ChevronLeft, ChevronRight, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useRouter } from "next/navigation";
-import type { ClientWrappedStats } from "@/types";
-import type { StoryCardType } from "@/lib/constants";
+import type {
+  ClientWrappedStats,
+  ClientTeamWrappedStats,
+  DateRange,
+} from "@/types";
+import type { StoryCardType, TeamStoryCardType } from "@/lib/constants";
 import { StatsCard } from "@/components/StatsCard";
 import { CommitHeatmap } from "@/components/CommitHeatmap";
 import { LanguageChart } from "@/components/LanguageChart";
 import { TimeDistributionChart } from "@/components/TimeDistributionChart";
 import { PRStats } from "@/components/PRStats";
-import { InsightsCard } from "@/components/InsightsCard";
+import { InsightsCard, personalityEmojis } from "@/components/InsightsCard";
 import { ExportButton } from "@/components/ExportButton";
 import { WorkItemStatsDisplay } from "@/components/WorkItemStats";
 import { WorkItemTypeChart } from "@/components/WorkItemTypeChart";
 import { BugStats } from "@/components/BugStats";
 import { TopTagsChart } from "@/components/TopTagsChart";
 import { TopAreasChart } from "@/components/TopAreasChart";
+import { BuildStats } from "@/components/BuildStats";
+import { ReviewStats } from "@/components/ReviewStats";
+import { TeamLeaderboard } from "@/components/TeamLeaderboard";
+import { YearDelta } from "@/components/YearDelta";
 
-interface StoryCard {
-  type: StoryCardType;
-  data: ClientWrappedStats;
-}
+type StoryCard =
+  | { type: StoryCardType; data: ClientWrappedStats }
+  | { type: TeamStoryCardType; team: ClientTeamWrappedStats };
 
-interface StoryViewerProps {
-  stats: ClientWrappedStats;
-}
+// One user's Wrapped, or a team's Wrapped (team mode)
+type StoryViewerProps =
+  | { stats: ClientWrappedStats; team?: undefined }
+  | { team: ClientTeamWrappedStats; stats?: undefined };
 
-export function StoryViewer({ stats }: StoryViewerProps) {
+export function StoryViewer(props: StoryViewerProps) {
   const router = useRouter();
   const [currentIndex, setCurrentIndex] = useState(0);
   const [direction, setDirection] = useState(0);
 
-  // Define all the story cards with type safety
-  const cards: StoryCard[] = [
-    { type: "welcome", data: stats },
-    { type: "commits-total", data: stats },
-    { type: "lines-of-code", data: stats },
-    { type: "heatmap", data: stats },
-    { type: "time-distribution", data: stats },
-    { type: "languages", data: stats },
-    { type: "streak", data: stats },
-    { type: "pull-requests", data: stats },
-    { type: "work-items-total", data: stats },
-    { type: "work-items-types", data: stats },
-    { type: "bugs-fixed", data: stats },
-    { type: "resolution-speed", data: stats },
-    { type: "top-tags", data: stats },
-    { type: "top-areas", data: stats },
-    { type: "insights", data: stats },
-    { type: "finale", data: stats },
-  ];
+  const cards: StoryCard[] = props.team
+    ? getTeamCards(props.team)
+    : getCards(props.stats);
 
   const totalCards = cards.length;
 
@@ -159,7 +151,9 @@ export function StoryViewer({ stats }: StoryViewerProps) {
             }}
             className="w-full"
           >
-            {renderCard(currentCard)}
+            {"team" in currentCard
+              ? renderTeamCard(currentCard)
+              : renderCard(currentCard)}
           </motion.div>
         </AnimatePresence>
       </div>
@@ -191,7 +185,7 @@ export function StoryViewer({ stats }: StoryViewerProps) {
       {/* Export button on final card */}
       {currentIndex === totalCards - 1 && (
         <div className="absolute bottom-24 left-1/2 -translate-x-1/2">
-          <ExportButton stats={stats} />
+          <ExportButton {...props} />
         </div>
       )}
 
@@ -208,12 +202,64 @@ export function StoryViewer({ stats }: StoryViewerProps) {
   );
 }
 
+// Define all the story cards with type safety
+function getCards(stats: ClientWrappedStats): StoryCard[] {
+  return [
+    { type: "welcome", data: stats },
+    { type: "commits-total", data: stats },
+    { type: "lines-of-code", data: stats },
+    { type: "heatmap", data: stats },
+    { type: "time-distribution", data: stats },
+    { type: "languages", data: stats },
+    { type: "streak", data: stats },
+    { type: "pull-requests", data: stats },
+    // Only show the reviews card if the user reviewed anything
+    ...(stats.reviews.total > 0
+      ? [{ type: "reviews" as const, data: stats }]
+      : []),
+    { type: "work-items-total", data: stats },
+    { type: "work-items-types", data: stats },
+    { type: "bugs-fixed", data: stats },
+    { type: "resolution-speed", data: stats },
+    { type: "top-tags", data: stats },
+    { type: "top-areas", data: stats },
+    // Builds are opt-in, so only show the card when we have data
+    ...(stats.builds.total > 0
+      ? [{ type: "builds" as const, data: stats }]
+      : []),
+    { type: "insights", data: stats },
+    { type: "finale", data: stats },
+  ];
+}
+
+// Define the team story cards with type safety
+function getTeamCards(team: ClientTeamWrappedStats): StoryCard[] {
+  return [
+    { type: "team-welcome", team },
+    { type: "team-totals", team },
+    { type: "team-contributors", team },
+    // Personalities need members with commits or PRs
+    ...(Object.keys(team.rollup.personalities).length > 0
+      ? [{ type: "team-personalities" as const, team }]
+      : []),
+    { type: "team-finale", team },
+  ];
+}
+
+// "2024", "Q3 FY2025" or "last 90 days", to finish "Thank you for an amazing ..."
+function describePeriod(range: DateRange): string {
+  return range.preset === "lastNDays" ? range.label.toLowerCase() : range.label;
+}
+
 function renderCard(card: { type: string; data: ClientWrappedStats }) {
+  // Cards compare against the same period a year earlier, when requested
+  const comparison = card.data.comparisons?.[0];
+
   switch (card.type) {
     case "welcome":
       return (
         <StatsCard
-          title={`Your ${card.data.meta.year} Wrapped`}
+          title={`Your ${card.data.meta.dateRange.label} Wrapped`}
           subtitle={`${card.data.meta.organization} / ${
             card.data.meta.projects.length === 1
               ? card.data.meta.projects[0]
@@ -259,12 +305,25 @@ function renderCard(card: { type: string; data: ClientWrappedStats }) {
               ? "Great work this year! 💪"
               : "Every commit counts! 👍"}
           </p>
+          <YearDelta
+            delta={comparison?.commits}
+            period={comparison?.label}
+            className="text-center mt-2"
+          />
         </StatsCard>
       );
 
     case "lines-of-code":
       return (
-        <StatsCard title="Lines of Code" icon="💻" variant="green">
+        <StatsCard
+          title={
+            card.data.commits.changeUnit === "lines"
+              ? "Lines of Code"
+              : "Files Changed"
+          }
+          icon="💻"
+          variant="green"
+        >
           <div className="text-center space-y-4">
             <div className="grid grid-cols-2 gap-4">
               <div>
@@ -301,14 +360,18 @@ function renderCard(card: { type: string; data: ClientWrappedStats }) {
         <StatsCard title="Your Contribution Calendar" variant="white">
           <CommitHeatmap
             commits={card.data.commits}
-            year={card.data.meta.year}
+            dateRange={card.data.meta.dateRange}
           />
         </StatsCard>
       );
 
     case "time-distribution":
       return (
-        <StatsCard title="When You Code" variant="white">
+        <StatsCard
+          title="When You Code"
+          subtitle={`Times in ${card.data.meta.timeZone}`}
+          variant="white"
+        >
           <TimeDistributionChart commits={card.data.commits} />
         </StatsCard>
       );
@@ -316,7 +379,10 @@ function renderCard(card: { type: string; data: ClientWrappedStats }) {
     case "languages":
       return (
         <StatsCard title="Top Languages" variant="white">
-          <LanguageChart extensions={card.data.insights.topFileExtensions} />
+          <LanguageChart languages={card.data.insights.languages} />
+          <p className="text-center text-sm text-gray-600 dark:text-gray-400">
+            By files touched
+          </p>
         </StatsCard>
       );
 
@@ -335,6 +401,11 @@ function renderCard(card: { type: string; data: ClientWrappedStats }) {
               ? "Consistency is key! 🌟"
               : "Keep building that streak! 💪"}
           </p>
+          <YearDelta
+            delta={comparison?.longestStreak}
+            period={comparison?.label}
+            className="text-center mt-2"
+          />
         </StatsCard>
       );
 
@@ -342,6 +413,28 @@ function renderCard(card: { type: string; data: ClientWrappedStats }) {
       return (
         <StatsCard title="Pull Requests" variant="white">
           <PRStats pullRequests={card.data.pullRequests} />
+          {comparison && (
+            <div className="flex justify-center gap-4 mt-4">
+              <YearDelta
+                label="Merged"
+                delta={comparison.pullRequestsMerged}
+                period={comparison.label}
+              />
+              <YearDelta
+                label="Avg time to merge"
+                delta={comparison.avgDaysToMerge}
+                period={comparison.label}
+                lowerIsBetter
+              />
+            </div>
+          )}
+        </StatsCard>
+      );
+
+    case "reviews":
+      return (
+        <StatsCard title="Code Reviews" variant="white">
+          <ReviewStats reviews={card.data.reviews} />
         </StatsCard>
       );
 
@@ -349,6 +442,11 @@ function renderCard(card: { type: string; data: ClientWrappedStats }) {
       return (
         <StatsCard title="Work Items Resolved" variant="white">
           <WorkItemStatsDisplay workItems={card.data.workItems} />
+          <YearDelta
+            delta={comparison?.workItemsResolved}
+            period={comparison?.label}
+            className="text-center mt-4"
+          />
         </StatsCard>
       );
 
@@ -424,6 +522,13 @@ function renderCard(card: { type: string; data: ClientWrappedStats }) {
         </StatsCard>
       );
 
+    case "builds":
+      return (
+        <StatsCard title="Build Pipelines" variant="white">
+          <BuildStats builds={card.data.builds} />
+        </StatsCard>
+      );
+
     case "insights":
       return <InsightsCard insights={card.data.insights} />;
 
@@ -431,7 +536,9 @@ function renderCard(card: { type: string; data: ClientWrappedStats }) {
       return (
         <StatsCard
           title="That's a Wrap!"
-          subtitle={`Thank you for an amazing ${card.data.meta.year}! 🎉`}
+          subtitle={`Thank you for an amazing ${describePeriod(
+            card.data.meta.dateRange
+          )}! 🎉`}
           variant="gradient"
         >
           <div className="text-center space-y-4">
@@ -449,3 +556,120 @@ function renderCard(card: { type: string; data: ClientWrappedStats }) {
       return null;
   }
 }
+
+function renderTeamCard(card: {
+  type: TeamStoryCardType;
+  team: ClientTeamWrappedStats;
+}) {
+  const { meta, rollup } = card.team;
+
+  switch (card.type) {
+    case "team-welcome":
+      return (
+        <StatsCard
+          title={`Team ${meta.dateRange.label} Wrapped`}
+          subtitle={`${meta.organization} / ${
+            meta.projects.length === 1
+              ? meta.projects[0]
+              : `${meta.projects.length} projects`
+          }`}
+          variant="gradient"
+        >
+          <div className="text-center space-y-4">
+            <p className="text-lg text-gray-700 dark:text-gray-300">
+              Let&apos;s see what {meta.members.length} of you built together!
+              🚀
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Members: {meta.members.join(", ")}
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Swipe, click arrows, or use keyboard to navigate →
+            </p>
+          </div>
+        </StatsCard>
+      );
+
+    case "team-totals": {
+      const totals = [
+        { label: "Commits", value: rollup.commits, icon: "📝" },
+        { label: "PRs Merged", value: rollup.pullRequestsMerged, icon: "🔀" },
+        {
+          label: "Work Items Resolved",
+          value: rollup.workItemsResolved,
+          icon: "✅",
+        },
+        { label: "PRs Reviewed", value: rollup.reviews, icon: "👀" },
+      ];
+      return (
+        <StatsCard title="Together You Shipped" variant="white">
+          <div className="grid grid-cols-2 gap-4">
+            {totals.map((total) => (
+              <div
+                key={total.label}
+                className="flex flex-col items-center p-4 rounded-lg bg-blue-50 dark:bg-blue-900/20"
+              >
+                <div className="text-2xl mb-1">{total.icon}</div>
+                <div className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+                  {total.value.toLocaleString()}
+                </div>
+                <div className="text-xs text-gray-600 dark:text-gray-400">
+                  {total.label}
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-center text-sm text-gray-600 dark:text-gray-400 mt-4">
+            {rollup.activeMembers} of {meta.members.length} members active
+          </p>
+        </StatsCard>
+      );
+    }
+
+    case "team-contributors":
+      return (
+        <StatsCard title="Busiest Contributors" variant="white">
+          <TeamLeaderboard contributors={rollup.busiestContributors} />
+        </StatsCard>
+      );
+
+    case "team-personalities":
+      return (
+        <StatsCard title="Team Personalities" icon="🎭" variant="purple">
+          <div className="space-y-2 text-center">
+            {Object.entries(rollup.personalities)
+              .sort(([, a], [, b]) => b - a)
+              .map(([personality, count]) => (
+                <p key={personality} className="text-lg">
+                  {personalityEmojis[personality] || "✨"} {personality}:{" "}
+                  <span className="font-semibold">{count}</span>
+                </p>
+              ))}
+          </div>
+        </StatsCard>
+      );
+
+    case "team-finale":
+      return (
+        <StatsCard
+          title="That's a Wrap, Team!"
+          subtitle={`Thank you for an amazing ${describePeriod(
+            meta.dateRange
+          )}! 🎉`}
+          variant="gradient"
+        >
+          <div className="text-center space-y-4">
+            <p className="text-lg text-gray-700 dark:text-gray-300">
+              Here&apos;s to another year of shipping together! 🚀
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Download the team stats below to share them!
+            </p>
+          </div>
+        </StatsCard>
+      );
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { motion } from "framer-motion";
+import type { TeamContributor } from "@/types";
+
+interface TeamLeaderboardProps {
+  contributors: TeamContributor[];
+  limit?: number;
+}
+
+const MEDALS = ["🥇", "🥈", "🥉"];
+
+export function TeamLeaderboard({
+  contributors,
+  limit = 5,
+}: TeamLeaderboardProps) {
+  const top = contributors.filter((c) => c.total > 0).slice(0, limit);
+  const maxTotal = Math.max(...top.map((c) => c.total), 1);
+
+  if (top.length === 0) {
+    return (
+      <p className="text-center text-gray-500 dark:text-gray-400">
+        No team activity found
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {top.map((contributor, index) => (
+        <motion.div
+          key={contributor.email}
+          initial={{ x: -20, opacity: 0 }}
+          animate={{ x: 0, opacity: 1 }}
+          transition={{ delay: 0.2 + index * 0.1 }}
+          className="space-y-1"
+        >
+          <div className="flex items-center justify-between gap-2">
+            <span
+              className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate"
+              title={contributor.email}
+            >
+              {MEDALS[index] || `${index + 1}.`} {contributor.email}
+            </span>
+            <span className="text-sm font-semibold text-gray-900 dark:text-gray-100 shrink-0">
+              {contributor.total.toLocaleString()}
+            </span>
+          </div>
+          <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+            <motion.div
+              initial={{ width: 0 }}
+              animate={{ width: `${(contributor.total / maxTotal) * 100}%` }}
+              transition={{ delay: 0.3 + index * 0.1, duration: 0.6 }}
+              className="h-full bg-gradient-to-r from-blue-500 to-cyan-500 rounded-full"
+            />
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {contributor.commits} commits · {contributor.pullRequestsMerged} PRs
+            merged · {contributor.workItemsResolved} work items ·{" "}
+            {contributor.reviews} reviews
+          </p>
+        </motion.div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import type { StatDelta } from "@/types";
+import { cn, formatYearDelta } from "@/lib/utils";
+
+interface YearDeltaProps {
+  delta?: StatDelta;
+  period?: string; // Label of the prior period compared against, e.g. "2024"
+  lowerIsBetter?: boolean; // e.g. time to merge
+  label?: string; // Prefix, e.g. "Merged"
+  className?: string;
+}
+
+// "+23% vs 2024", green when better and red when worse than the prior period
+export function YearDelta({
+  delta,
+  period,
+  lowerIsBetter = false,
+  label,
+  className,
+}: YearDeltaProps) {
+  if (!delta || period === undefined) {
+    return null;
+  }
+
+  const improved = lowerIsBetter ? delta.change < 0 : delta.change > 0;
+  return (
+    <p
+      className={cn(
+        "text-xs font-medium",
+        delta.change === 0
+          ? "text-slate-400"
+          : improved
+          ? "text-emerald-500"
+          : "text-rose-500",
+        className
+      )}
+    >
+      {label && `${label}: `}
+      {formatYearDelta(delta, period)}
+    </p>
+  );
+}
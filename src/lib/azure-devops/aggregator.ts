@@ -3,46 +3,81 @@ import {
   parseISO,
   differenceInDays,
   differenceInHours,
-  getDay,
-  getHours,
-  getMonth,
 } from "date-fns";
 import { GitCommit } from "./types";
-import { GitPullRequest } from "./types";
+import { GitPullRequest, GitPullRequestCommentThread } from "./types";
 import { WorkItem } from "./types";
 import {
   WrappedStats,
   CommitStats,
   PullRequestStats,
+  PRCommentStats,
+  PRSizeStats,
+  ReviewStats,
   WorkItemStats,
+  BuildStats,
   Insights,
+  TeamRollup,
+  TeamContributor,
+  DateRange,
+  StatDelta,
+  YearComparison,
+  AzureDevOpsAPI,
 } from "../../types";
 import {
   groupCommitsByDate,
   calculateTotalChanges,
-  extractFileExtensions,
+  calculateTotalLineChanges,
+  CommitLineCounts,
 } from "./commits";
+import {
+  ChangedFile,
+  isExcludedPath,
+  getFileExtension,
+  getLanguageForPath,
+} from "./languages";
+import { getMonthLabel, getMonthsInRange } from "../dateRange";
+import { createIdentityMatcher } from "../identity";
+import { getZonedParts, isInZonedRange, ZonedDateParts } from "../timezone";
+import { DEFAULT_TIME_ZONE } from "../constants";
 import {
   calculateAvgDaysToMerge,
   getPRStatsByStatus,
   findLargestPR,
+  ReviewedPullRequest,
+  PullRequestSize,
 } from "./pullRequests";
+import { getBuildDurationMinutes } from "./builds";
 import {
   DAY_NAMES,
-  MONTH_NAMES,
   COMMIT_MESSAGE_STOP_WORDS,
+  PR_VOTES,
+  PR_SIZE_BUCKETS,
 } from "../constants";
 
+// Insights derived from activity timestamps (file breakdown is computed separately)
+type ActivityInsights = Omit<Insights, "topFileExtensions" | "languages">;
+
 export interface AggregatorInput {
   commits: GitCommit[];
+  commitLineCounts?: Record<string, CommitLineCounts>; // Line counts by commit ID (line diff mode only)
   pullRequests: GitPullRequest[];
+  reviewedPullRequests?: ReviewedPullRequest[]; // PRs the user reviewed (not authored)
+  pullRequestThreads?: Record<number, GitPullRequestCommentThread[]>; // Threads on authored PRs, by PR ID
+  pullRequestSizes?: Record<number, PullRequestSize>; // Sizes of authored PRs, by PR ID
   workItems: WorkItem[];
+  builds?: AzureDevOpsAPI.Build[]; // Optional: only fetched when includeBuilds is enabled
+  changedFiles?: ChangedFile[]; // Files changed by commits or PRs (see LanguageSource)
   config: {
     organization: string;
     projects: string[]; // Array of project names
     repositories: string[]; // Array of repository names
     year: number;
+    dateRange: DateRange; // Period the data was fetched for
+    timeZone?: string; // IANA timezone for hours, weekdays and dates (default UTC)
     userEmail?: string;
+    aliases?: string[]; // Other identities of userEmail, attributed to it
+    excludePaths?: string[]; // Globs left out of the language breakdown
   };
 }
 
@@ -50,14 +85,43 @@ export interface AggregatorInput {
  * Aggregate raw Azure DevOps data into wrapped statistics
  */
 export function aggregateStats(input: AggregatorInput): WrappedStats {
-  const { commits, pullRequests, workItems, config } = input;
+  const {
+    commitLineCounts,
+    pullRequestThreads = {},
+    pullRequestSizes = {},
+    builds = [],
+    changedFiles = [],
+    config,
+  } = input;
+
+  // Hours, weekdays, months and calendar dates are counted in the user's timezone
+  const timeZone = config.timeZone || DEFAULT_TIME_ZONE;
+  // Only activity dated within the range there counts (work items are
+  // fetched for whole UTC days, so some can fall just outside it)
+  const inRange = (date: string | undefined) =>
+    !date || isInZonedRange(date, config.dateRange, timeZone);
+  const commits = input.commits.filter((commit) => inRange(commit.author.date));
+  const pullRequests = input.pullRequests.filter((pr) =>
+    inRange(pr.creationDate)
+  );
+  const reviewedPullRequests = input.reviewedPullRequests?.filter((review) =>
+    inRange(review.pullRequest.creationDate)
+  );
+  const workItems = input.workItems.filter((item) =>
+    inRange(getResolvedDate(item))
+  );
 
-  console.log(`\n📊 Aggregating stats for ${config.year}...`);
+  console.log(`\n📊 Aggregating stats for ${config.dateRange.label}...`);
   console.log(`   Projects: ${config.projects.join(", ")}`);
   console.log(`   Repositories: ${config.repositories.join(", ")}`);
   console.log(`   Commits: ${commits.length}`);
   console.log(`   Pull Requests: ${pullRequests.length}`);
+  console.log(`   Reviewed PRs: ${reviewedPullRequests?.length ?? 0}`);
   console.log(`   Work Items: ${workItems.length}`);
+  console.log(`   Builds: ${builds.length}`);
+
+  // Monthly distributions list the range's months in order (Jul-Jun for a July fiscal year)
+  const months = getMonthsInRange(config.dateRange);
 
   return {
     meta: {
@@ -65,33 +129,150 @@ export function aggregateStats(input: AggregatorInput): WrappedStats {
       projects: config.projects,
       repositories: config.repositories,
       year: config.year,
+      dateRange: config.dateRange,
+      timeZone,
       generatedAt: new Date().toISOString(),
       userEmail: config.userEmail,
+      ...(config.aliases?.length && { aliases: config.aliases }),
     },
-    commits: aggregateCommitStats(commits),
-    pullRequests: aggregatePRStats(pullRequests, config.userEmail),
-    workItems: aggregateWorkItemStats(workItems),
-    builds: {
-      total: 0,
-      succeeded: 0,
-      failed: 0,
-      successRate: 0,
-      avgDurationMinutes: 0,
+    commits: aggregateCommitStats(commits, months, timeZone, commitLineCounts),
+    pullRequests: aggregatePRStats(pullRequests, config.userEmail, {
+      aliases: config.aliases,
+      months,
+      timeZone,
+      reviewedCount: reviewedPullRequests?.length,
+      comments: aggregatePRCommentStats(
+        pullRequests,
+        pullRequestThreads,
+        reviewedPullRequests || [],
+        config.userEmail,
+        config.aliases
+      ),
+      sizes: pullRequestSizes,
+    }),
+    reviews: aggregateReviewStats(reviewedPullRequests || []),
+    workItems: aggregateWorkItemStats(workItems, months, timeZone),
+    builds: aggregateBuildStats(builds),
+    insights: {
+      ...generateInsights(commits, pullRequests, months, timeZone),
+      ...aggregateFileBreakdown(changedFiles, config.excludePaths),
     },
-    insights: generateInsights(commits, pullRequests),
+  };
+}
+
+/**
+ * Roll per-member stats up into team totals and a contributor leaderboard.
+ * Members without stats (nothing could be fetched) count as inactive.
+ */
+export function aggregateTeamRollup(
+  members: Array<{ email: string; stats: WrappedStats | null }>
+): TeamRollup {
+  const contributors: TeamContributor[] = members.map(({ email, stats }) => {
+    const commits = stats?.commits.total ?? 0;
+    const pullRequestsMerged = stats?.pullRequests.merged ?? 0;
+    const workItemsResolved = stats?.workItems.total ?? 0;
+    const reviews = stats?.reviews.total ?? 0;
+    return {
+      email,
+      commits,
+      pullRequestsMerged,
+      workItemsResolved,
+      reviews,
+      total: commits + pullRequestsMerged + workItemsResolved + reviews,
+    };
+  });
+
+  const personalities: Record<string, number> = {};
+  for (const { stats } of members) {
+    if (stats && stats.commits.total + stats.pullRequests.created > 0) {
+      const personality = stats.insights.personality;
+      personalities[personality] = (personalities[personality] || 0) + 1;
+    }
+  }
+
+  const sum = (pick: (c: TeamContributor) => number) =>
+    contributors.reduce((total, c) => total + pick(c), 0);
+
+  return {
+    commits: sum((c) => c.commits),
+    pullRequestsMerged: sum((c) => c.pullRequestsMerged),
+    workItemsResolved: sum((c) => c.workItemsResolved),
+    reviews: sum((c) => c.reviews),
+    activeMembers: contributors.filter((c) => c.total > 0).length,
+    personalities,
+    busiestContributors: [...contributors].sort(
+      (a, b) => b.total - a.total || a.email.localeCompare(b.email)
+    ),
+  };
+}
+
+/**
+ * Compare this period's stats with the same period in a prior year (`label`
+ * names that period, e.g. "Q3 2023"). A prior period without any data
+ * (`previous` is null) compares against zeros.
+ */
+export function compareWithYear(
+  current: WrappedStats,
+  previous: WrappedStats | null,
+  year: number,
+  label: string
+): YearComparison {
+  return {
+    year,
+    label,
+    commits: calculateDelta(
+      current.commits.total,
+      previous?.commits.total ?? 0
+    ),
+    pullRequestsMerged: calculateDelta(
+      current.pullRequests.merged,
+      previous?.pullRequests.merged ?? 0
+    ),
+    // Days to merge are compared at one decimal, as they're displayed
+    avgDaysToMerge: calculateDelta(
+      Math.round(current.pullRequests.avgDaysToMerge * 10) / 10,
+      Math.round((previous?.pullRequests.avgDaysToMerge ?? 0) * 10) / 10
+    ),
+    workItemsResolved: calculateDelta(
+      current.workItems.total,
+      previous?.workItems.total ?? 0
+    ),
+    longestStreak: calculateDelta(
+      current.commits.longestStreak,
+      previous?.commits.longestStreak ?? 0
+    ),
+  };
+}
+
+/**
+ * Change from a previous value, with a rounded percentage when it's nonzero
+ */
+function calculateDelta(current: number, previous: number): StatDelta {
+  return {
+    previous,
+    change: Math.round((current - previous) * 10) / 10,
+    percentChange:
+      previous !== 0
+        ? Math.round(((current - previous) / previous) * 100)
+        : null,
   };
 }
 
 /**
  * Aggregate commit statistics
  */
-function aggregateCommitStats(commits: GitCommit[]): CommitStats {
+function aggregateCommitStats(
+  commits: GitCommit[],
+  months: string[],
+  timeZone: string,
+  lineCounts?: Record<string, CommitLineCounts>
+): CommitStats {
   const byMonth: Record<string, number> = {};
   const byDayOfWeek: Record<string, number> = {};
   const byHour: Record<number, number> = {};
 
-  // Initialize from constants
-  MONTH_NAMES.forEach((month) => (byMonth[month] = 0));
+  // Initialize from the date range and constants
+  months.forEach((month) => (byMonth[month] = 0));
   DAY_NAMES.forEach((day) => (byDayOfWeek[day] = 0));
   for (let i = 0; i < 24; i++) {
     byHour[i] = 0;
@@ -103,10 +284,10 @@ function aggregateCommitStats(commits: GitCommit[]): CommitStats {
   const commitDates: string[] = []; // Collect all commit dates for heatmap
 
   for (const commit of commits) {
-    const date = parseISO(commit.author.date);
+    const date = getZonedParts(commit.author.date, timeZone);
 
-    // Collect date for heatmap (YYYY-MM-DD format)
-    commitDates.push(commit.author.date.split("T")[0]);
+    // Collect date for heatmap (YYYY-MM-DD format, in the user's timezone)
+    commitDates.push(date.date);
 
     // Track first and last commit
     if (!firstCommitDate || commit.author.date < firstCommitDate) {
@@ -116,17 +297,16 @@ function aggregateCommitStats(commits: GitCommit[]): CommitStats {
       lastCommitDate = commit.author.date;
     }
 
-    // By month
-    const month = MONTH_NAMES[getMonth(date)];
-    byMonth[month]++;
+    // By month (only the range's months are counted)
+    const month = getMonthLabel(months, date.date);
+    if (month in byMonth) byMonth[month]++;
 
     // By day of week
-    const dayOfWeek = DAY_NAMES[getDay(date)];
+    const dayOfWeek = DAY_NAMES[date.dayOfWeek];
     byDayOfWeek[dayOfWeek]++;
 
     // By hour
-    const hour = getHours(date);
-    byHour[hour]++;
+    byHour[date.hour]++;
 
     // Collect commit messages for word analysis
     if (commit.comment) {
@@ -134,11 +314,13 @@ function aggregateCommitStats(commits: GitCommit[]): CommitStats {
     }
   }
 
-  // Calculate change counts
-  const changes = calculateTotalChanges(commits);
+  // Calculate change counts (lines when line diffs were fetched, files otherwise)
+  const changes = lineCounts
+    ? calculateTotalLineChanges(commits, lineCounts)
+    : calculateTotalChanges(commits);
 
   // Calculate longest streak
-  const longestStreak = calculateLongestStreak(commits);
+  const longestStreak = calculateLongestStreak(commits, timeZone);
 
   // Extract top commit message words
   const topCommitMessages = extractTopWords(commitMessages);
@@ -148,6 +330,7 @@ function aggregateCommitStats(commits: GitCommit[]): CommitStats {
     additions: changes.additions,
     edits: changes.edits,
     deletions: changes.deletions,
+    changeUnit: lineCounts ? "lines" : "files",
     byMonth,
     byDayOfWeek,
     byHour,
@@ -164,19 +347,28 @@ function aggregateCommitStats(commits: GitCommit[]): CommitStats {
  */
 function aggregatePRStats(
   prs: GitPullRequest[],
-  userEmail?: string
+  userEmail: string | undefined,
+  extras: {
+    aliases?: string[]; // Other identities of userEmail
+    months: string[]; // Months of the date range, in order
+    timeZone: string; // IANA timezone for months, weekdays and hours
+    reviewedCount?: number; // From fetched reviewer PRs; overrides the count derived from `prs`
+    comments: PRCommentStats;
+    sizes: Record<number, PullRequestSize>;
+  }
 ): PullRequestStats {
-  const stats = getPRStatsByStatus(prs, userEmail);
+  const { aliases, months, timeZone, reviewedCount, comments, sizes } = extras;
+  const stats = getPRStatsByStatus(prs, userEmail, aliases);
   const avgDaysToMerge = calculateAvgDaysToMerge(prs);
-  const largestPR = findLargestPR(prs);
+  const largestPR = findLargestPR(prs, sizes);
 
   // Time-based distributions for PRs
   const byMonth: Record<string, number> = {};
   const byDayOfWeek: Record<string, number> = {};
   const byHour: Record<number, number> = {};
 
-  // Initialize from constants
-  MONTH_NAMES.forEach((month) => (byMonth[month] = 0));
+  // Initialize from the date range and constants
+  months.forEach((month) => (byMonth[month] = 0));
   DAY_NAMES.forEach((day) => (byDayOfWeek[day] = 0));
   for (let i = 0; i < 24; i++) {
     byHour[i] = 0;
@@ -184,13 +376,12 @@ function aggregatePRStats(
 
   let firstPRDate = "";
   let lastPRDate = "";
-  let totalComments = 0;
 
   // Track merge times for fastest/slowest
   const mergeTimes: Array<{ id: number; title: string; hours: number }> = [];
 
   for (const pr of prs) {
-    const date = parseISO(pr.creationDate);
+    const date = getZonedParts(pr.creationDate, timeZone);
 
     // Track first and last PR
     if (!firstPRDate || pr.creationDate < firstPRDate) {
@@ -200,22 +391,16 @@ function aggregatePRStats(
       lastPRDate = pr.creationDate;
     }
 
-    // By month
-    const month = MONTH_NAMES[getMonth(date)];
-    byMonth[month]++;
+    // By month (only the range's months are counted)
+    const month = getMonthLabel(months, date.date);
+    if (month in byMonth) byMonth[month]++;
 
     // By day of week
-    const dayOfWeek = DAY_NAMES[getDay(date)];
+    const dayOfWeek = DAY_NAMES[date.dayOfWeek];
     byDayOfWeek[dayOfWeek]++;
 
     // By hour
-    const hour = getHours(date);
-    byHour[hour]++;
-
-    // Count comments from reviewers (vote count as proxy)
-    if (pr.reviewers) {
-      totalComments += pr.reviewers.length;
-    }
+    byHour[date.hour]++;
 
     // Calculate merge time for completed PRs
     if (pr.status === "completed" && pr.closedDate) {
@@ -263,7 +448,7 @@ function aggregatePRStats(
     created: stats.created,
     merged: stats.merged,
     abandoned: stats.abandoned,
-    reviewed: stats.reviewed,
+    reviewed: reviewedCount ?? stats.reviewed,
     avgDaysToMerge: Math.round(avgDaysToMerge * 10) / 10,
     avgDaysToMergeFormatted,
     largestPR,
@@ -272,19 +457,211 @@ function aggregatePRStats(
     byHour,
     firstPRDate,
     lastPRDate,
-    totalComments,
+    totalComments: comments.total,
     fastestMerge,
     slowestMerge,
+    comments,
+    sizes: aggregatePRSizeStats(prs, sizes),
+  };
+}
+
+/**
+ * Bucket PRs by files changed and relate size to time-to-merge
+ */
+function aggregatePRSizeStats(
+  prs: GitPullRequest[],
+  sizes: Record<number, PullRequestSize>
+): PRSizeStats {
+  const buckets = PR_SIZE_BUCKETS.map((bucket) => ({
+    label: bucket.label as string,
+    maxFiles: bucket.maxFiles as number | null,
+    count: 0,
+    totalHours: 0,
+    merged: 0,
+  }));
+
+  // (files changed, hours to merge) pairs for merged PRs
+  const points: Array<[number, number]> = [];
+
+  for (const pr of prs) {
+    const size = sizes[pr.pullRequestId];
+    if (!size) continue;
+
+    const bucket =
+      buckets.find(
+        (b) => b.maxFiles === null || size.filesChanged <= b.maxFiles
+      ) || buckets[buckets.length - 1];
+    bucket.count++;
+
+    if (pr.status === "completed" && pr.closedDate) {
+      const created = new Date(pr.creationDate);
+      const closed = new Date(pr.closedDate);
+      const hours = (closed.getTime() - created.getTime()) / (1000 * 60 * 60);
+      bucket.totalHours += hours;
+      bucket.merged++;
+      points.push([size.filesChanged, hours]);
+    }
+  }
+
+  return {
+    buckets: buckets.map(({ label, maxFiles, count, totalHours, merged }) => ({
+      label,
+      maxFiles,
+      count,
+      avgHoursToMerge:
+        merged > 0 ? Math.round((totalHours / merged) * 10) / 10 : null,
+    })),
+    sizeMergeCorrelation: calculatePearsonCorrelation(points),
   };
 }
 
 /**
- * Calculate longest commit streak in days
+ * Pearson correlation coefficient, rounded to two decimals.
+ * Null with fewer than 3 points or when either variable is constant.
  */
-function calculateLongestStreak(commits: GitCommit[]): number {
+function calculatePearsonCorrelation(
+  points: Array<[number, number]>
+): number | null {
+  const n = points.length;
+  if (n < 3) return null;
+
+  const meanX = points.reduce((sum, [x]) => sum + x, 0) / n;
+  const meanY = points.reduce((sum, [, y]) => sum + y, 0) / n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (const [x, y] of points) {
+    covariance += (x - meanX) * (y - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (y - meanY) ** 2;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+
+  const r = covariance / Math.sqrt(varianceX * varianceY);
+  return Math.round(r * 100) / 100;
+}
+
+/**
+ * Aggregate discussion stats from comment threads on the user's PRs
+ * and the PRs they reviewed. System comments (votes, pushes) are ignored.
+ */
+function aggregatePRCommentStats(
+  prs: GitPullRequest[],
+  threadsByPR: Record<number, GitPullRequestCommentThread[]>,
+  reviewed: ReviewedPullRequest[],
+  userEmail?: string,
+  aliases: string[] = []
+): PRCommentStats {
+  // Identify the user by identity ID where we know it, falling back to email
+  // or one of their aliases
+  const userIds = new Set<string>([
+    ...prs.map((pr) => pr.createdBy.id),
+    ...reviewed.map((r) => r.reviewerId),
+  ]);
+  const isUserName = createIdentityMatcher(userEmail, aliases);
+  const isUser = (author: { id: string; uniqueName: string }) =>
+    userIds.has(author.id) || (!!userEmail && isUserName(author.uniqueName));
+
+  const stats = getEmptyPRCommentStats();
+  let prsWithThreads = 0;
+
+  const discussions: Array<{
+    pr: GitPullRequest;
+    threads: GitPullRequestCommentThread[];
+    isOwn: boolean;
+  }> = [
+    ...prs
+      .filter((pr) => threadsByPR[pr.pullRequestId])
+      .map((pr) => ({
+        pr,
+        threads: threadsByPR[pr.pullRequestId],
+        isOwn: true,
+      })),
+    ...reviewed.map((r) => ({
+      pr: r.pullRequest,
+      threads: r.threads,
+      isOwn: false,
+    })),
+  ];
+
+  for (const { pr, threads, isOwn } of discussions) {
+    prsWithThreads++;
+    let prComments = 0;
+
+    for (const thread of threads) {
+      if (thread.isDeleted) continue;
+
+      const comments = (thread.comments || []).filter(
+        (c) => !c.isDeleted && c.commentType !== "system"
+      );
+      if (comments.length === 0) continue;
+
+      if (thread.status === "active" || thread.status === "pending") {
+        stats.threadsActive++;
+      } else if (
+        thread.status === "fixed" ||
+        thread.status === "wontFix" ||
+        thread.status === "closed" ||
+        thread.status === "byDesign"
+      ) {
+        stats.threadsResolved++;
+      }
+
+      for (const comment of comments) {
+        prComments++;
+        if (isUser(comment.author)) {
+          stats.written++;
+        } else if (isOwn) {
+          stats.received++;
+        }
+      }
+    }
+
+    stats.total += prComments;
+    if (
+      prComments > 0 &&
+      (!stats.mostDiscussedPR || prComments > stats.mostDiscussedPR.comments)
+    ) {
+      stats.mostDiscussedPR = {
+        id: pr.pullRequestId,
+        title: pr.title,
+        comments: prComments,
+      };
+    }
+  }
+
+  stats.avgCommentsPerPR =
+    prsWithThreads > 0
+      ? Math.round((stats.total / prsWithThreads) * 10) / 10
+      : 0;
+
+  return stats;
+}
+
+function getEmptyPRCommentStats(): PRCommentStats {
+  return {
+    total: 0,
+    written: 0,
+    received: 0,
+    threadsResolved: 0,
+    threadsActive: 0,
+    avgCommentsPerPR: 0,
+    mostDiscussedPR: null,
+  };
+}
+
+/**
+ * Calculate longest commit streak in days (calendar days in the timezone)
+ */
+function calculateLongestStreak(
+  commits: GitCommit[],
+  timeZone: string
+): number {
   if (commits.length === 0) return 0;
 
-  const commitsByDate = groupCommitsByDate(commits);
+  const commitsByDate = groupCommitsByDate(commits, timeZone);
   const sortedDates = Array.from(commitsByDate.keys()).sort();
 
   let longestStreak = 1;
@@ -332,22 +709,67 @@ function extractTopWords(messages: string[], topN: number = 10): string[] {
     .map(([word]) => word);
 }
 
+/**
+ * Count distinct files touched by extension and by language,
+ * leaving out generated and excluded paths
+ */
+function aggregateFileBreakdown(
+  changedFiles: ChangedFile[],
+  excludePaths: string[] = []
+): Pick<Insights, "topFileExtensions" | "languages"> {
+  const seen = new Set<string>();
+  const extensionCounts = new Map<string, number>();
+  const languageCounts = new Map<string, number>();
+
+  for (const file of changedFiles) {
+    const key = `${file.repository}:${file.path.toLowerCase()}`;
+    if (seen.has(key) || isExcludedPath(file.path, excludePaths)) {
+      continue;
+    }
+    seen.add(key);
+
+    const ext = getFileExtension(file.path);
+    if (ext) {
+      extensionCounts.set(ext, (extensionCounts.get(ext) || 0) + 1);
+    }
+    const language = getLanguageForPath(file.path) || "Other";
+    languageCounts.set(language, (languageCounts.get(language) || 0) + 1);
+  }
+
+  const topFileExtensions = Array.from(extensionCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([ext, count]) => ({ ext, count }));
+
+  const languages = Array.from(languageCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([language, files]) => ({
+      language,
+      files,
+      percentage: Math.round((files / seen.size) * 1000) / 10,
+    }));
+
+  return { topFileExtensions, languages };
+}
+
 /**
  * Generate fun insights from the data
  * Uses commits as primary source, falls back to PRs if no commits
  */
 function generateInsights(
   commits: GitCommit[],
-  prs: GitPullRequest[]
-): Insights {
+  prs: GitPullRequest[],
+  months: string[],
+  timeZone: string
+): ActivityInsights {
   // If we have commits, use them for insights
   if (commits.length > 0) {
-    return generateInsightsFromCommits(commits);
+    return generateInsightsFromCommits(commits, months, timeZone);
   }
 
   // Fall back to PR data if no commits
   if (prs.length > 0) {
-    return generateInsightsFromPRs(prs);
+    return generateInsightsFromPRs(prs, months, timeZone);
   }
 
   // No data at all - return defaults
@@ -356,23 +778,27 @@ function generateInsights(
     busiestMonth: "Unknown",
     busiestDay: "Unknown",
     favoriteCommitHour: 12,
-    topFileExtensions: [],
   };
 }
 
 /**
  * Generate insights from commit data
  */
-function generateInsightsFromCommits(commits: GitCommit[]): Insights {
+function generateInsightsFromCommits(
+  commits: GitCommit[],
+  months: string[],
+  timeZone: string
+): ActivityInsights {
+  // Commit times in the user's timezone
+  const dates = commits.map((c) => getZonedParts(c.author.date, timeZone));
+
   // Determine personality type based on commit hours
-  const personality = determinePersonalityFromDates(
-    commits.map((c) => parseISO(c.author.date))
-  );
+  const personality = determinePersonalityFromDates(dates);
 
   // Find busiest month
   const monthCounts = new Map<string, number>();
-  for (const commit of commits) {
-    const month = MONTH_NAMES[getMonth(parseISO(commit.author.date))];
+  for (const date of dates) {
+    const month = getMonthLabel(months, date.date);
     monthCounts.set(month, (monthCounts.get(month) || 0) + 1);
   }
   const busiestMonth =
@@ -381,8 +807,8 @@ function generateInsightsFromCommits(commits: GitCommit[]): Insights {
 
   // Find busiest day
   const dayCounts = new Map<string, number>();
-  for (const commit of commits) {
-    const day = DAY_NAMES[getDay(parseISO(commit.author.date))];
+  for (const date of dates) {
+    const day = DAY_NAMES[date.dayOfWeek];
     dayCounts.set(day, (dayCounts.get(day) || 0) + 1);
   }
   const busiestDay =
@@ -391,35 +817,30 @@ function generateInsightsFromCommits(commits: GitCommit[]): Insights {
 
   // Find favorite commit hour
   const hourCounts = new Map<number, number>();
-  for (const commit of commits) {
-    const hour = getHours(parseISO(commit.author.date));
+  for (const { hour } of dates) {
     hourCounts.set(hour, (hourCounts.get(hour) || 0) + 1);
   }
   const favoriteCommitHour =
     Array.from(hourCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? 12;
 
-  // Extract top file extensions
-  const extensions = extractFileExtensions(commits);
-  const topFileExtensions = Array.from(extensions.entries())
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 5)
-    .map(([ext, count]) => ({ ext, count }));
-
   return {
     personality,
     busiestMonth,
     busiestDay,
     favoriteCommitHour,
-    topFileExtensions,
   };
 }
 
 /**
  * Generate insights from PR data when commits are not available
  */
-function generateInsightsFromPRs(prs: GitPullRequest[]): Insights {
-  // Parse all PR creation dates
-  const dates = prs.map((pr) => parseISO(pr.creationDate));
+function generateInsightsFromPRs(
+  prs: GitPullRequest[],
+  months: string[],
+  timeZone: string
+): ActivityInsights {
+  // PR creation times in the user's timezone
+  const dates = prs.map((pr) => getZonedParts(pr.creationDate, timeZone));
 
   // Determine personality type based on PR creation hours
   const personality = determinePersonalityFromDates(dates);
@@ -427,7 +848,7 @@ function generateInsightsFromPRs(prs: GitPullRequest[]): Insights {
   // Find busiest month
   const monthCounts = new Map<string, number>();
   for (const date of dates) {
-    const month = MONTH_NAMES[getMonth(date)];
+    const month = getMonthLabel(months, date.date);
     monthCounts.set(month, (monthCounts.get(month) || 0) + 1);
   }
   const busiestMonth =
@@ -437,7 +858,7 @@ function generateInsightsFromPRs(prs: GitPullRequest[]): Insights {
   // Find busiest day
   const dayCounts = new Map<string, number>();
   for (const date of dates) {
-    const day = DAY_NAMES[getDay(date)];
+    const day = DAY_NAMES[date.dayOfWeek];
     dayCounts.set(day, (dayCounts.get(day) || 0) + 1);
   }
   const busiestDay =
@@ -446,8 +867,7 @@ function generateInsightsFromPRs(prs: GitPullRequest[]): Insights {
 
   // Find favorite hour
   const hourCounts = new Map<number, number>();
-  for (const date of dates) {
-    const hour = getHours(date);
+  for (const { hour } of dates) {
     hourCounts.set(hour, (hourCounts.get(hour) || 0) + 1);
   }
   const favoriteCommitHour =
@@ -458,25 +878,21 @@ function generateInsightsFromPRs(prs: GitPullRequest[]): Insights {
     busiestMonth,
     busiestDay,
     favoriteCommitHour,
-    topFileExtensions: [], // No file extensions from PRs
   };
 }
 
 /**
- * Determine personality type based on activity dates
+ * Determine personality type based on activity times (in the user's timezone)
  */
 function determinePersonalityFromDates(
-  dates: Date[]
+  dates: ZonedDateParts[]
 ): "Night Owl" | "Early Bird" | "Nine-to-Fiver" | "Weekend Warrior" {
   if (dates.length === 0) return "Nine-to-Fiver";
 
   const hourCounts = new Map<number, number>();
   const dayCounts = new Map<number, number>();
 
-  for (const date of dates) {
-    const hour = getHours(date);
-    const day = getDay(date);
-
+  for (const { hour, dayOfWeek: day } of dates) {
     hourCounts.set(hour, (hourCounts.get(hour) || 0) + 1);
     dayCounts.set(day, (dayCounts.get(day) || 0) + 1);
   }
@@ -522,9 +938,13 @@ function determinePersonalityFromDates(
 /**
  * Aggregate work item statistics
  */
-function aggregateWorkItemStats(workItems: WorkItem[]): WorkItemStats {
+function aggregateWorkItemStats(
+  workItems: WorkItem[],
+  months: string[],
+  timeZone: string
+): WorkItemStats {
   if (workItems.length === 0) {
-    return getEmptyWorkItemStats();
+    return getEmptyWorkItemStats(months);
   }
 
   const byType: Record<string, number> = {};
@@ -535,7 +955,7 @@ function aggregateWorkItemStats(workItems: WorkItem[]): WorkItemStats {
   const areaCounts: Map<string, number> = new Map();
 
   // Initialize months
-  MONTH_NAMES.forEach((month) => (byMonth[month] = 0));
+  months.forEach((month) => (byMonth[month] = 0));
 
   let bugsFixed = 0;
   let firstResolvedDate = "";
@@ -548,13 +968,7 @@ function aggregateWorkItemStats(workItems: WorkItem[]): WorkItemStats {
   for (const item of workItems) {
     const fields = item.fields;
     const workItemType = fields["System.WorkItemType"];
-    // Use ResolvedDate or ClosedDate if available, fall back to ChangedDate
-    // Note: These fields use Microsoft.VSTS.Common namespace, not System
-    // They may not exist in all Azure DevOps process templates (e.g., Basic process)
-    const resolvedDate =
-      fields["Microsoft.VSTS.Common.ResolvedDate"] ||
-      fields["Microsoft.VSTS.Common.ClosedDate"] ||
-      fields["System.ChangedDate"];
+    const resolvedDate = getResolvedDate(item);
     const createdDate = fields["System.CreatedDate"];
 
     // Count by type
@@ -577,9 +991,11 @@ function aggregateWorkItemStats(workItems: WorkItem[]): WorkItemStats {
 
     // Track resolved date for month distribution and timeline
     if (resolvedDate) {
-      const date = parseISO(resolvedDate);
-      const month = MONTH_NAMES[getMonth(date)];
-      byMonth[month]++;
+      const month = getMonthLabel(
+        months,
+        getZonedParts(resolvedDate, timeZone).date
+      );
+      if (month in byMonth) byMonth[month]++;
 
       // Track first/last resolved dates
       if (!firstResolvedDate || resolvedDate < firstResolvedDate) {
@@ -663,12 +1079,26 @@ function aggregateWorkItemStats(workItems: WorkItem[]): WorkItemStats {
   };
 }
 
+/**
+ * When a work item was resolved: ResolvedDate or ClosedDate if available,
+ * falling back to ChangedDate. The first two use the Microsoft.VSTS.Common
+ * namespace and may not exist in all process templates (e.g. Basic).
+ */
+function getResolvedDate(item: WorkItem): string | undefined {
+  const fields = item.fields;
+  return (
+    fields["Microsoft.VSTS.Common.ResolvedDate"] ||
+    fields["Microsoft.VSTS.Common.ClosedDate"] ||
+    fields["System.ChangedDate"]
+  );
+}
+
 /**
  * Return empty work item stats when no data
  */
-function getEmptyWorkItemStats(): WorkItemStats {
+function getEmptyWorkItemStats(months: string[]): WorkItemStats {
   const byMonth: Record<string, number> = {};
-  MONTH_NAMES.forEach((month) => (byMonth[month] = 0));
+  months.forEach((month) => (byMonth[month] = 0));
 
   return {
     total: 0,
@@ -685,3 +1115,186 @@ function getEmptyWorkItemStats(): WorkItemStats {
     topAreas: [],
   };
 }
+
+// ============================================
+// Review Aggregation
+// ============================================
+
+/**
+ * Aggregate code review statistics from PRs the user reviewed
+ */
+function aggregateReviewStats(reviewed: ReviewedPullRequest[]): ReviewStats {
+  const votes = {
+    approved: 0,
+    approvedWithSuggestions: 0,
+    waitingForAuthor: 0,
+    rejected: 0,
+    noVote: 0,
+  };
+  const hoursToFirstVote: number[] = [];
+  const authorCounts = new Map<string, { name: string; count: number }>();
+
+  for (const { pullRequest, vote, firstVoteDate } of reviewed) {
+    if (vote === PR_VOTES.APPROVED) {
+      votes.approved++;
+    } else if (vote === PR_VOTES.APPROVED_WITH_SUGGESTIONS) {
+      votes.approvedWithSuggestions++;
+    } else if (vote === PR_VOTES.WAITING_FOR_AUTHOR) {
+      votes.waitingForAuthor++;
+    } else if (vote === PR_VOTES.REJECTED) {
+      votes.rejected++;
+    } else {
+      votes.noVote++;
+    }
+
+    if (firstVoteDate) {
+      const created = new Date(pullRequest.creationDate);
+      const voted = new Date(firstVoteDate);
+      const hours = (voted.getTime() - created.getTime()) / (1000 * 60 * 60);
+      hoursToFirstVote.push(Math.max(0, hours));
+    }
+
+    // Group by author ID so display name changes don't split counts
+    const author = pullRequest.createdBy;
+    const entry = authorCounts.get(author.id) || {
+      name: author.displayName,
+      count: 0,
+    };
+    entry.count++;
+    authorCounts.set(author.id, entry);
+  }
+
+  const topAuthors = Array.from(authorCounts.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 5);
+
+  return {
+    total: reviewed.length,
+    votes,
+    medianHoursToFirstVote: calculateMedian(hoursToFirstVote),
+    topAuthors,
+  };
+}
+
+/**
+ * Median of a list of numbers (null when empty), rounded to one decimal
+ */
+function calculateMedian(values: number[]): number | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const median =
+    sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+
+  return Math.round(median * 10) / 10;
+}
+
+// ============================================
+// Build Aggregation
+// ============================================
+
+/**
+ * Aggregate build pipeline statistics
+ */
+function aggregateBuildStats(builds: AzureDevOpsAPI.Build[]): BuildStats {
+  let succeeded = 0;
+  let failed = 0;
+  let canceled = 0;
+  let totalDurationMinutes = 0;
+  let durationCount = 0;
+
+  const pipelineCounts = new Map<
+    number,
+    { name: string; count: number; succeeded: number; finished: number }
+  >();
+
+  for (const build of builds) {
+    if (build.result === "succeeded") {
+      succeeded++;
+    } else if (build.result === "failed") {
+      failed++;
+    } else if (build.result === "canceled") {
+      canceled++;
+    }
+
+    const duration = getBuildDurationMinutes(build);
+    if (duration > 0) {
+      totalDurationMinutes += duration;
+      durationCount++;
+    }
+
+    // Group by pipeline definition
+    const definitionId = build.definition.id;
+    const pipeline = pipelineCounts.get(definitionId) || {
+      name: build.definition.name,
+      count: 0,
+      succeeded: 0,
+      finished: 0,
+    };
+    pipeline.count++;
+    if (build.result !== "canceled") {
+      pipeline.finished++;
+      if (build.result === "succeeded") {
+        pipeline.succeeded++;
+      }
+    }
+    pipelineCounts.set(definitionId, pipeline);
+  }
+
+  // Canceled builds never ran to completion, so they don't count against the rate
+  const finished = builds.length - canceled;
+  const successRate = finished > 0 ? (succeeded / finished) * 100 : 0;
+  const avgDurationMinutes =
+    durationCount > 0 ? totalDurationMinutes / durationCount : 0;
+
+  const topPipelines = Array.from(pipelineCounts.entries())
+    .sort((a, b) => b[1].count - a[1].count)
+    .slice(0, 5)
+    .map(([definitionId, pipeline]) => ({
+      definitionId,
+      name: pipeline.name,
+      count: pipeline.count,
+      successRate:
+        pipeline.finished > 0
+          ? Math.round((pipeline.succeeded / pipeline.finished) * 1000) / 10
+          : 0,
+    }));
+
+  return {
+    total: builds.length,
+    succeeded,
+    failed,
+    canceled,
+    successRate: Math.round(successRate * 10) / 10,
+    avgDurationMinutes: Math.round(avgDurationMinutes * 10) / 10,
+    longestFailureStreak: calculateLongestFailureStreak(builds),
+    topPipelines,
+  };
+}
+
+/**
+ * Calculate the most consecutive failed builds, ordered by finish time.
+ * Canceled builds don't break a streak.
+ */
+function calculateLongestFailureStreak(builds: AzureDevOpsAPI.Build[]): number {
+  const sorted = [...builds]
+    .filter((build) => build.result !== "canceled")
+    .sort((a, b) =>
+      (a.finishTime || a.queueTime).localeCompare(b.finishTime || b.queueTime)
+    );
+
+  let longestStreak = 0;
+  let currentStreak = 0;
+
+  for (const build of sorted) {
+    if (build.result === "failed") {
+      currentStreak++;
+      longestStreak = Math.max(longestStreak, currentStreak);
+    } else {
+      currentStreak = 0;
+    }
+  }
+
+  return longestStreak;
+}
@@ -0,0 +1,116 @@
+import { AzureDevOpsClient } from "./client";
+import type { AzureDevOpsAPI } from "../../types";
+import { PAGINATION_PAGE_SIZE } from "../constants";
+import { toBoundInstant } from "../dateRange";
+
+export interface FetchBuildsOptions {
+  project: string;
+  fromDate: string; // ISO 8601: YYYY-MM-DD (UTC day) or an instant
+  toDate: string; // ISO 8601: YYYY-MM-DD (UTC day, inclusive) or an instant
+  userEmail?: string;
+  onPageFetched?: (page: number, items: number) => void; // Progress hook per page
+}
+
+/**
+ * Fetch completed builds requested for the user during the specified date range.
+ * Uses the Build API: GET /{project}/_apis/build/builds
+ *
+ * The Builds API pages with a continuation token returned in a response header,
+ * which our client doesn't expose. Instead we order by finish time and advance
+ * `minTime` to the last finish time seen, de-duplicating by build ID.
+ */
+export async function fetchBuilds(
+  client: AzureDevOpsClient,
+  options: FetchBuildsOptions
+): Promise<AzureDevOpsAPI.Build[]> {
+  const { project, fromDate, toDate, userEmail, onPageFetched } = options;
+
+  console.log(
+    `\n🏗️ fetchBuilds: Starting for ${project}, ${fromDate} to ${toDate}`
+  );
+
+  if (!userEmail) {
+    console.log(`⚠️ No userEmail provided, skipping builds fetch`);
+    return [];
+  }
+
+  const maxTime = toBoundInstant(toDate, true);
+  let minTime = toBoundInstant(fromDate, false);
+
+  const builds: AzureDevOpsAPI.Build[] = [];
+  const seenBuildIds = new Set<number>();
+  const top = PAGINATION_PAGE_SIZE;
+  let pageCount = 0;
+
+  try {
+    while (true) {
+      pageCount++;
+      console.log(
+        `📊 Fetching builds page ${pageCount} (minTime: ${minTime})...`
+      );
+
+      const response = await client.get<AzureDevOpsAPI.BuildResponse>(
+        `/${project}/_apis/build/builds`,
+        {
+          requestedFor: userEmail,
+          statusFilter: "completed",
+          queryOrder: "finishTimeAscending",
+          minTime,
+          maxTime,
+          $top: top,
+        }
+      );
+
+      const page = response.value || [];
+      if (page.length === 0) {
+        console.log(`✅ No more builds found (page ${pageCount})`);
+        break;
+      }
+
+      let added = 0;
+      for (const build of page) {
+        if (!seenBuildIds.has(build.id)) {
+          seenBuildIds.add(build.id);
+          builds.push(build);
+          added++;
+        }
+      }
+
+      console.log(`✅ Fetched ${added} new builds on page ${pageCount}`);
+      onPageFetched?.(pageCount, added);
+
+      // Last page, or a page made entirely of builds we've already seen
+      // (many builds sharing one finish time) - stop to avoid looping forever
+      if (page.length < top || added === 0) {
+        break;
+      }
+
+      const lastFinishTime = page[page.length - 1].finishTime;
+      if (!lastFinishTime) {
+        break;
+      }
+      minTime = lastFinishTime;
+    }
+
+    console.log(
+      `🎉 ✓ Fetched total of ${builds.length} builds for ${project} in ${pageCount} pages`
+    );
+    return builds;
+  } catch (error) {
+    console.error(`❌ Error fetching builds for ${project}:`, error);
+    // Return empty array instead of failing - builds are optional
+    return [];
+  }
+}
+
+/**
+ * Calculate build duration in minutes (0 if start/finish times are missing)
+ */
+export function getBuildDurationMinutes(build: AzureDevOpsAPI.Build): number {
+  if (!build.startTime || !build.finishTime) {
+    return 0;
+  }
+  const start = new Date(build.startTime).getTime();
+  const finish = new Date(build.finishTime).getTime();
+  return Math.max(0, (finish - start) / (1000 * 60));
+}
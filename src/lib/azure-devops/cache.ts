@@ -1,41 +1,107 @@
-import * as fs from "fs";
-import * as path from "path";
 import * as crypto from "crypto";
 import { DEFAULT_CACHE_TTL_HOURS } from "../constants";
-
-const CACHE_DIR = path.join(process.cwd(), ".ado-cache");
+import { CacheTtlRule, getCachePolicy } from "./cachePolicy";
+import {
+  CacheStore,
+  CacheStoreOptions,
+  CacheStoreType,
+  FileCacheStore,
+  MemoryCacheStore,
+  parseCacheStoreOptions,
+  validateCacheStoreOptions,
+} from "./cacheStore";
+import { RedisCacheStore } from "./redisCacheStore";
+import { SqliteCacheStore } from "./sqliteCacheStore";
 
 /**
- * Check if disk caching is enabled via environment variable.
+ * Check if caching is enabled via environment variable.
  *
  * Caching is DISABLED by default to avoid:
  * - Memory pressure from in-memory caches (risk of OOM crashes)
  * - Disk storage accumulation in production (Vercel/serverless)
  *
- * Set ADO_CACHE_ENABLED=true to enable file-based caching (recommended for local development only)
+ * Set ADO_CACHE_ENABLED=true to enable caching (recommended for local development only).
+ * ADO_CACHE_STORE picks where entries go: file (default, .ado-cache/), memory,
+ * sqlite or redis.
  */
 export function isCacheEnabled(): boolean {
   const envValue = process.env.ADO_CACHE_ENABLED?.toLowerCase();
   return envValue === "true" || envValue === "1";
 }
 
+/**
+ * What a cached response is about, recorded on its entry so it can be
+ * invalidated by project or repository. Not part of the cache key.
+ */
+export interface CacheSubject {
+  project?: string; // Project name
+  repository?: string; // Repository name (or ID when the name isn't known)
+}
+
+/**
+ * Who a cached response belongs to. Scoped entries are only served to
+ * requests for the same server and organization with the same credential,
+ * so a shared store never hands one caller's data to another.
+ */
+export interface CacheScope extends CacheSubject {
+  organization: string;
+  baseUrl: string; // Organization (or collection) URL
+  credential: string; // CredentialProvider.cacheScope (a hash)
+}
+
 /**
  * Cache entry structure with optional expiration
  */
-interface CacheEntry<T> {
+export interface CacheEntry<T> {
   url: string;
   params?: Record<string, any>;
+  organization?: string; // Organization (or collection) the response came from
+  baseUrl?: string; // Its organization (or collection) URL
+  project?: string; // Project it's about, when it's about one
+  repository?: string; // Repository it's about, when it's about one
   timestamp: string;
-  expiresAt?: string;
+  expiresAt?: string; // Stale from here on
+  staleUntil?: string; // Served while revalidating until here, then expired
+  rule?: CacheTtlRule; // TTL rule the expiry came from
   data: T;
 }
 
 /**
- * Generate a deterministic cache key based on request parameters
+ * Cache lookups since the process started
+ */
+export interface CacheCounters {
+  hits: number;
+  staleHits: number; // Stale entries served while they were refreshed
+  misses: number;
+  expired: number; // Entries found past their stale window (and deleted)
+  writes: number;
+  revalidations: number; // Stale entries refreshed in the background
+  revalidationErrors: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const counters: CacheCounters = {
+  hits: 0,
+  staleHits: 0,
+  misses: 0,
+  expired: 0,
+  writes: 0,
+  revalidations: 0,
+  revalidationErrors: 0,
+};
+
+// Keys of entries being refreshed in the background
+const revalidating = new Set<string>();
+
+/**
+ * Generate a deterministic cache key based on request parameters and, for
+ * scoped entries, the server, organization and credential
  */
 function generateCacheKey(
   url: string,
-  params: Record<string, any> = {}
+  params: Record<string, any> = {},
+  scope?: CacheScope
 ): string {
   const sortedParams = Object.keys(params)
     .sort()
@@ -47,6 +113,11 @@ function generateCacheKey(
   const cacheKeyData = {
     url,
     params: sortedParams,
+    scope: scope && {
+      organization: scope.organization.toLowerCase(),
+      baseUrl: scope.baseUrl.toLowerCase(),
+      credential: scope.credential,
+    },
   };
 
   const hash = crypto
@@ -57,13 +128,6 @@ function generateCacheKey(
   return hash;
 }
 
-/**
- * Get file path for cache entry
- */
-function getCacheFilePath(cacheKey: string): string {
-  return path.join(CACHE_DIR, `${cacheKey}.json`);
-}
-
 /**
  * Check if a cache entry has expired
  */
@@ -72,56 +136,119 @@ function isExpired(expiresAt?: string): boolean {
   return new Date(expiresAt) < new Date();
 }
 
+// The configured store, created on first use and shared by all clients
+let cacheStore: CacheStore | null = null;
+
 /**
- * Ensure cache directory exists
+ * Create a cache store from settings (see parseCacheStoreOptions)
  */
-function ensureCacheDir(): void {
-  if (!fs.existsSync(CACHE_DIR)) {
-    fs.mkdirSync(CACHE_DIR, { recursive: true });
+export function createCacheStore(options: CacheStoreOptions): CacheStore {
+  const error = validateCacheStoreOptions(options);
+  if (error) {
+    throw new Error(`Invalid cache settings: ${error}`);
+  }
+  switch (options.type) {
+    case "memory":
+      return new MemoryCacheStore(options.maxBytes);
+    case "sqlite":
+      return new SqliteCacheStore(options.sqlitePath);
+    case "redis":
+      return new RedisCacheStore(options.redisUrl, options.redisKeyPrefix);
+    default:
+      return new FileCacheStore(options.directory);
   }
 }
 
 /**
- * Read from disk cache with optional TTL check
- * @param url - The URL that was cached
- * @param params - The request parameters
- * @param ttlHours - Time-to-live in hours (default: 24). Set to 0 to ignore expiration.
+ * Get the cache store selected by ADO_CACHE_STORE (default: file)
+ */
+export function getCacheStore(): CacheStore {
+  if (!cacheStore) {
+    cacheStore = createCacheStore(parseCacheStoreOptions());
+  }
+  return cacheStore;
+}
+
+/**
+ * Use a different cache store (e.g. an in-memory one for scripts), closing
+ * the current one
+ */
+export async function setCacheStore(store: CacheStore): Promise<void> {
+  if (cacheStore && cacheStore !== store) {
+    await cacheStore.close();
+  }
+  cacheStore = store;
+}
+
+/**
+ * Close the cache store's connections, so scripts can exit
  */
-export function readCache<T>(
+export async function closeCache(): Promise<void> {
+  if (cacheStore) {
+    await cacheStore.close();
+    cacheStore = null;
+  }
+}
+
+/**
+ * Look up a cache entry. Entries past their expiry are stale: with
+ * `allowStale` they're returned (flagged) until their stale window ends too,
+ * otherwise they count as misses. Entries past the stale window are deleted.
+ */
+async function lookupCache<T>(
   url: string,
-  params?: Record<string, any>,
-  ttlHours: number = DEFAULT_CACHE_TTL_HOURS
-): T | null {
+  params: Record<string, any> | undefined,
+  scope: CacheScope | undefined,
+  options: { ignoreExpiry: boolean; allowStale: boolean }
+): Promise<{ data: T; stale: boolean } | null> {
   // Caching disabled by default
   if (!isCacheEnabled()) {
     return null;
   }
 
   try {
-    const cacheKey = generateCacheKey(url, params);
-    const filePath = getCacheFilePath(cacheKey);
+    const store = getCacheStore();
+    const cacheKey = generateCacheKey(url, params, scope);
+    const content = await store.get(cacheKey);
 
-    if (!fs.existsSync(filePath)) {
+    if (content === null) {
+      counters.misses++;
       console.log(`⚪ Cache MISS for ${url}`);
       return null;
     }
 
-    const content = fs.readFileSync(filePath, "utf-8");
     const cached: CacheEntry<T> = JSON.parse(content);
 
-    // Check expiration if TTL is set
-    if (ttlHours > 0 && isExpired(cached.expiresAt)) {
-      console.log(`⏰ Cache EXPIRED for ${url} (expired: ${cached.expiresAt})`);
+    if (!options.ignoreExpiry && isExpired(cached.expiresAt)) {
+      if (cached.staleUntil && !isExpired(cached.staleUntil)) {
+        if (options.allowStale) {
+          counters.staleHits++;
+          console.log(
+            `🟡 Cache STALE for ${url} (expired: ${cached.expiresAt}), serving while refreshing`
+          );
+          return { data: cached.data, stale: true };
+        }
+        counters.misses++;
+        return null;
+      }
+
+      counters.expired++;
+      console.log(
+        `⏰ Cache EXPIRED for ${url} (expired: ${
+          cached.staleUntil || cached.expiresAt
+        })`
+      );
       try {
-        fs.unlinkSync(filePath);
+        await store.delete(cacheKey);
       } catch {
         // Ignore deletion errors
       }
       return null;
     }
 
+    counters.hits++;
     console.log(`✅ Cache HIT for ${url} (cached: ${cached.timestamp})`);
-    return cached.data;
+    return { data: cached.data, stale: false };
   } catch (error) {
     console.error(`❌ Cache read error for ${url}:`, error);
     return null;
@@ -129,103 +256,227 @@ export function readCache<T>(
 }
 
 /**
- * Write to disk cache with optional TTL
+ * Read from the cache with optional TTL check (stale entries are misses)
+ * @param url - The URL that was cached
+ * @param params - The request parameters
+ * @param ttlHours - Any positive number checks expiration (default). Set to 0 to ignore expiration.
+ * @param scope - Who the entry belongs to (see CacheScope)
+ */
+export async function readCache<T>(
+  url: string,
+  params?: Record<string, any>,
+  ttlHours: number = DEFAULT_CACHE_TTL_HOURS,
+  scope?: CacheScope
+): Promise<T | null> {
+  const cached = await lookupCache<T>(url, params, scope, {
+    ignoreExpiry: ttlHours <= 0,
+    allowStale: false,
+  });
+  return cached ? cached.data : null;
+}
+
+/**
+ * Read from the cache, serving stale entries too (for stale-while-revalidate:
+ * call revalidateCache when `stale` is set)
+ */
+export async function readCacheEntry<T>(
+  url: string,
+  params?: Record<string, any>,
+  scope?: CacheScope
+): Promise<{ data: T; stale: boolean } | null> {
+  return lookupCache<T>(url, params, scope, {
+    ignoreExpiry: false,
+    allowStale: true,
+  });
+}
+
+/**
+ * Write to the cache with optional TTL
  * @param url - The URL being cached
  * @param params - The request parameters
  * @param data - The data to cache
- * @param ttlHours - Time-to-live in hours (default: 24). Set to 0 for no expiration.
+ * @param ttlHours - Time-to-live in hours (default: from the TTL rules, see
+ *   getCachePolicy). Set to 0 for no expiration.
+ * @param scope - Who the entry belongs to (see CacheScope); its organization
+ *   is recorded for invalidation
  */
-export function writeCache<T>(
+export async function writeCache<T>(
   url: string,
   params: Record<string, any> | undefined,
   data: T,
-  ttlHours: number = DEFAULT_CACHE_TTL_HOURS
-): void {
+  ttlHours?: number,
+  scope?: CacheScope
+): Promise<void> {
   // Caching disabled by default
   if (!isCacheEnabled()) {
     return;
   }
 
   try {
-    ensureCacheDir();
-
-    const cacheKey = generateCacheKey(url, params);
-    const filePath = getCacheFilePath(cacheKey);
+    const cacheKey = generateCacheKey(url, params, scope);
+    const policy = getCachePolicy(url, params);
+    const ttl = ttlHours ?? policy.ttlHours;
 
     const now = new Date();
     const expiresAt =
-      ttlHours > 0
-        ? new Date(now.getTime() + ttlHours * 60 * 60 * 1000).toISOString()
+      ttl > 0 ? new Date(now.getTime() + ttl * HOUR_MS) : undefined;
+    const staleUntil =
+      expiresAt && policy.staleHours > 0
+        ? new Date(expiresAt.getTime() + policy.staleHours * HOUR_MS)
         : undefined;
 
+    const urlSubject = getCacheSubjectFromUrl(url);
     const cacheEntry: CacheEntry<T> = {
       url,
       params,
+      organization: scope?.organization,
+      baseUrl: scope?.baseUrl,
+      project: scope?.project ?? urlSubject.project,
+      repository: scope?.repository ?? urlSubject.repository,
       timestamp: now.toISOString(),
-      expiresAt,
+      expiresAt: expiresAt?.toISOString(),
+      staleUntil: staleUntil?.toISOString(),
+      rule: ttlHours === undefined ? policy.rule : undefined,
       data,
     };
 
-    const jsonStr = JSON.stringify(cacheEntry, null, 2);
-    fs.writeFileSync(filePath, jsonStr, "utf-8");
-    const sizeKB = (jsonStr.length / 1024).toFixed(2);
-    console.log(`💾 Cache WRITE for ${url} (${sizeKB} KB)`);
+    const jsonStr = JSON.stringify(cacheEntry);
+    await getCacheStore().set(cacheKey, jsonStr);
+    counters.writes++;
+    const sizeKB = (Buffer.byteLength(jsonStr) / 1024).toFixed(2);
+    const lifetime = ttl > 0 ? `${ttl}h` : "no expiry";
+    console.log(
+      `💾 Cache WRITE for ${url} (${sizeKB} KB, ${
+        cacheEntry.rule ? `${cacheEntry.rule}: ` : ""
+      }${lifetime})`
+    );
   } catch (error) {
     console.error(`❌ Cache write error for ${url}:`, error);
   }
 }
 
 /**
- * Clear all disk cache files
+ * The project and repository in an API URL: the segment before "_apis" (or
+ * after "_apis/projects") and the one after "repositories"
  */
-export function clearCache(): void {
-  try {
-    if (fs.existsSync(CACHE_DIR)) {
-      const files = fs.readdirSync(CACHE_DIR);
-      for (const file of files) {
-        fs.unlinkSync(path.join(CACHE_DIR, file));
+export function getCacheSubjectFromUrl(url: string): CacheSubject {
+  const segments = url
+    .split("?")[0]
+    .split("/")
+    .map((segment) => {
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        return segment;
       }
-      console.log(`✓ Cleared ${files.length} cache entries`);
-    } else {
-      console.log(`✓ Cache directory does not exist, nothing to clear`);
-    }
+    });
+  // "/{project}/_apis/...", but not "vssps:/_apis/..."
+  const apis = segments.indexOf("_apis");
+  const project =
+    apis > 1 && segments[apis - 1]
+      ? segments[apis - 1]
+      : segments[apis + 1] === "projects"
+      ? segments[apis + 2]
+      : undefined;
+  const repositories = segments.indexOf("repositories");
+  return {
+    project: project || undefined,
+    repository:
+      repositories >= 0 ? segments[repositories + 1] || undefined : undefined,
+  };
+}
+
+/**
+ * Refresh a stale entry in the background: the request runs without being
+ * awaited and its response replaces the entry. Concurrent refreshes of the
+ * same entry are skipped; failures are logged and the stale entry kept.
+ */
+export function revalidateCache<T>(
+  url: string,
+  params: Record<string, any> | undefined,
+  request: () => Promise<T>,
+  scope?: CacheScope
+): void {
+  const cacheKey = generateCacheKey(url, params, scope);
+  if (revalidating.has(cacheKey)) return;
+  revalidating.add(cacheKey);
+
+  console.log(`🔄 Cache REVALIDATE for ${url}`);
+  request()
+    .then(async (data) => {
+      await writeCache(url, params, data, undefined, scope);
+      counters.revalidations++;
+    })
+    .catch((error) => {
+      counters.revalidationErrors++;
+      console.warn(
+        `⚠️ Cache revalidation failed for ${url}, keeping the stale entry:`,
+        error?.message || error
+      );
+    })
+    .finally(() => revalidating.delete(cacheKey));
+}
+
+/**
+ * Clear all cached responses
+ */
+export async function clearCache(): Promise<void> {
+  try {
+    const store = getCacheStore();
+    const count = await store.clear();
+    console.log(`✓ Cleared ${count} cache entries from ${store.location}`);
   } catch (error) {
     console.warn("Failed to clear cache:", error);
   }
 }
 
 /**
- * Get cache statistics
+ * Reset the hit/miss counters (e.g. between runs in one process)
+ */
+export function resetCacheCounters(): void {
+  (Object.keys(counters) as (keyof CacheCounters)[]).forEach(
+    (key) => (counters[key] = 0)
+  );
+}
+
+/**
+ * Get cache statistics, including hit/miss counters for this process
  */
-export function getCacheStats(): {
+export async function getCacheStats(): Promise<{
   enabled: boolean;
+  store: CacheStoreType;
   entries: number;
   totalSize: number;
-  directory: string;
-} {
+  location: string;
+  counters: CacheCounters;
+}> {
   const enabled = isCacheEnabled();
+  const options = parseCacheStoreOptions();
+  let store: CacheStoreType = options.type;
+  let location = options.directory;
 
   try {
-    if (!fs.existsSync(CACHE_DIR)) {
-      return { enabled, entries: 0, totalSize: 0, directory: CACHE_DIR };
-    }
-
-    const files = fs.readdirSync(CACHE_DIR);
-    let totalSize = 0;
-
-    for (const file of files) {
-      const stats = fs.statSync(path.join(CACHE_DIR, file));
-      totalSize += stats.size;
-    }
-
+    const cache = getCacheStore();
+    store = cache.type;
+    location = cache.location;
+    const { entries, totalSize } = await cache.stats();
     return {
       enabled,
-      entries: files.length,
+      store,
+      entries,
       totalSize,
-      directory: CACHE_DIR,
+      location,
+      counters: { ...counters },
     };
   } catch (error) {
     console.warn("Failed to get cache stats:", error);
-    return { enabled, entries: 0, totalSize: 0, directory: CACHE_DIR };
+    return {
+      enabled,
+      store,
+      entries: 0,
+      totalSize: 0,
+      location,
+      counters: { ...counters },
+    };
   }
 }
@@ -0,0 +1,268 @@
+import { promises as fs } from "fs";
+import { promisify } from "util";
+import * as zlib from "zlib";
+import { CacheEntry, getCacheStore, getCacheSubjectFromUrl } from "./cache";
+import type { CacheStoreType } from "./cacheStore";
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+// Bumped when the bundle layout changes
+const CACHE_BUNDLE_VERSION = 1;
+
+/**
+ * A cache entry without its response data, for listing
+ */
+export interface CacheEntryInfo extends Omit<
+  CacheEntry<unknown>,
+  "data" | "timestamp"
+> {
+  key: string;
+  timestamp?: string; // Missing for unreadable entries
+  size: number; // Bytes in the store
+}
+
+/**
+ * Which entries to invalidate; given filters must all match
+ */
+export interface CacheInvalidationFilter {
+  organization?: string; // Only entries written with the organization recorded
+  project?: string; // Name or ID, as recorded on the entry (or in its URL or params)
+  repository?: string; // Name or ID, as recorded on the entry (or in its URL or params)
+}
+
+/**
+ * Portable snapshot of a cache, for sharing between machines or stores
+ */
+export interface CacheBundle {
+  version: number;
+  exportedAt: string;
+  store: CacheStoreType;
+  entries: { key: string; value: string }[];
+}
+
+/**
+ * List every cache entry, oldest first. Entries that can't be parsed are
+ * listed as "(unreadable)" with no timestamp, so pruning removes them first.
+ */
+export async function listCacheEntries(): Promise<CacheEntryInfo[]> {
+  const store = getCacheStore();
+  const entries: CacheEntryInfo[] = [];
+
+  for (const key of await store.keys()) {
+    const value = await store.get(key);
+    if (value === null) continue; // Evicted or deleted meanwhile
+    entries.push(toEntryInfo(key, value));
+  }
+
+  return entries.sort((a, b) =>
+    (a.timestamp || "").localeCompare(b.timestamp || "")
+  );
+}
+
+/**
+ * Cache entries (with their data) whose URL matches a pattern: a
+ * case-insensitive substring, where `*` matches anything
+ */
+export async function inspectCacheEntries(
+  urlPattern: string
+): Promise<(CacheEntryInfo & { data: unknown })[]> {
+  const pattern = urlPatternToRegExp(urlPattern);
+  const store = getCacheStore();
+  const matches: (CacheEntryInfo & { data: unknown })[] = [];
+
+  for (const info of await listCacheEntries()) {
+    if (!pattern.test(info.url)) continue;
+    const value = await store.get(info.key);
+    if (value === null) continue;
+    matches.push({ ...info, data: parseEntry(value)?.data });
+  }
+  return matches;
+}
+
+/**
+ * Remove entries older than a maximum age, then the oldest remaining ones
+ * until the cache fits in a size budget
+ */
+export async function pruneCache(options: {
+  olderThanMs?: number;
+  maxBytes?: number;
+}): Promise<{ removed: number; freedBytes: number }> {
+  const store = getCacheStore();
+  const entries = await listCacheEntries();
+  const cutoff =
+    options.olderThanMs !== undefined
+      ? Date.now() - options.olderThanMs
+      : undefined;
+  let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+  let removed = 0;
+  let freedBytes = 0;
+
+  for (const entry of entries) {
+    const written = entry.timestamp ? Date.parse(entry.timestamp) : 0;
+    const tooOld = cutoff !== undefined && written < cutoff;
+    const overBudget =
+      options.maxBytes !== undefined && totalSize > options.maxBytes;
+    // Entries are oldest first, so once neither applies, none of the rest do
+    if (!tooOld && !overBudget) break;
+
+    await store.delete(entry.key);
+    totalSize -= entry.size;
+    freedBytes += entry.size;
+    removed++;
+  }
+
+  return { removed, freedBytes };
+}
+
+/**
+ * Remove the entries for an organization, project and/or repository
+ */
+export async function invalidateCache(
+  filter: CacheInvalidationFilter
+): Promise<number> {
+  if (!filter.organization && !filter.project && !filter.repository) {
+    throw new Error(
+      "Pass an organization, project or repository to invalidate"
+    );
+  }
+
+  const store = getCacheStore();
+  let removed = 0;
+  for (const entry of await listCacheEntries()) {
+    if (matchesFilter(entry, filter)) {
+      await store.delete(entry.key);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Write every cache entry to a bundle file (gzipped when it ends in .gz)
+ */
+export async function exportCache(filePath: string): Promise<number> {
+  const store = getCacheStore();
+  const bundle: CacheBundle = {
+    version: CACHE_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    store: store.type,
+    entries: [],
+  };
+  for (const key of await store.keys()) {
+    const value = await store.get(key);
+    if (value !== null) {
+      bundle.entries.push({ key, value });
+    }
+  }
+
+  const json = JSON.stringify(bundle);
+  await fs.writeFile(
+    filePath,
+    filePath.endsWith(".gz") ? await gzip(json) : json
+  );
+  return bundle.entries.length;
+}
+
+/**
+ * Load entries from a bundle file into the current store. Entries already
+ * cached are only replaced by newer ones, unless `overwrite` is set.
+ */
+export async function importCache(
+  filePath: string,
+  options: { overwrite?: boolean } = {}
+): Promise<{ imported: number; skipped: number }> {
+  const content = await fs.readFile(filePath);
+  const json = (
+    filePath.endsWith(".gz") ? await gunzip(content) : content
+  ).toString("utf-8");
+  const bundle: CacheBundle = JSON.parse(json);
+  if (
+    bundle.version !== CACHE_BUNDLE_VERSION ||
+    !Array.isArray(bundle.entries)
+  ) {
+    throw new Error(
+      `${filePath} is not a cache bundle (expected version ${CACHE_BUNDLE_VERSION})`
+    );
+  }
+
+  const store = getCacheStore();
+  let imported = 0;
+  let skipped = 0;
+  for (const { key, value } of bundle.entries) {
+    if (!options.overwrite) {
+      const existing = await store.get(key);
+      const existingTime = existing && parseEntry(existing)?.timestamp;
+      const importedTime = parseEntry(value)?.timestamp;
+      if (existingTime && (!importedTime || existingTime >= importedTime)) {
+        skipped++;
+        continue;
+      }
+    }
+    await store.set(key, value);
+    imported++;
+  }
+  return { imported, skipped };
+}
+
+function parseEntry(value: string): CacheEntry<unknown> | null {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function toEntryInfo(key: string, value: string): CacheEntryInfo {
+  const size = Buffer.byteLength(value);
+  const entry = parseEntry(value);
+  if (!entry) {
+    return { key, url: "(unreadable)", size };
+  }
+  const { data, ...info } = entry;
+  return { ...info, key, size };
+}
+
+function urlPatternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(source, "i");
+}
+
+// Entries record their organization, project and repository when written.
+// Entries written before they did fall back to the URL and request params.
+function matchesFilter(
+  entry: CacheEntryInfo,
+  filter: CacheInvalidationFilter
+): boolean {
+  const same = (a: unknown, b: string) =>
+    typeof a === "string" && a.toLowerCase() === b.toLowerCase();
+  const fromUrl = getCacheSubjectFromUrl(entry.url);
+  const params = entry.params || {};
+
+  if (filter.organization && !same(entry.organization, filter.organization)) {
+    return false;
+  }
+  if (
+    filter.project &&
+    ![entry.project, fromUrl.project, params.project].some((value) =>
+      same(value, filter.project!)
+    )
+  ) {
+    return false;
+  }
+  if (
+    filter.repository &&
+    ![
+      entry.repository,
+      fromUrl.repository,
+      params.repository,
+      params.repositoryId,
+    ].some((value) => same(value, filter.repository!))
+  ) {
+    return false;
+  }
+  return true;
+}
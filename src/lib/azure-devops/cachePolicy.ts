@@ -0,0 +1,157 @@
+import { CACHE_TTL_RULE_HOURS, DEFAULT_CACHE_STALE_HOURS } from "../constants";
+
+/**
+ * Named TTL rules, picked per request (see getCacheRule)
+ */
+export type CacheTtlRule = keyof typeof CACHE_TTL_RULE_HOURS;
+
+export const CACHE_TTL_RULES = Object.keys(
+  CACHE_TTL_RULE_HOURS
+) as CacheTtlRule[];
+
+/**
+ * TTLs per rule and the stale-while-revalidate window,
+ * from ADO_CACHE_TTL_HOURS and ADO_CACHE_STALE_HOURS
+ */
+export interface CachePolicySettings {
+  ttlHours: Record<CacheTtlRule, number>; // 0 = never stale
+  staleHours: number; // 0 = no stale-while-revalidate
+}
+
+/**
+ * How long one response stays fresh, and then stale
+ */
+export interface CachePolicy {
+  rule: CacheTtlRule;
+  ttlHours: number;
+  staleHours: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /\d{4}-\d{2}-\d{2}/g;
+
+// PR list statuses that never include open PRs; any other status (active,
+// all, or none given, which means active) can
+const CLOSED_PR_STATUSES = ["completed", "abandoned"];
+
+/**
+ * Read cache policy settings from environment variables.
+ * ADO_CACHE_TTL_HOURS overrides rules by name:
+ * "activePullRequests=0.5,default=12" (unknown names and bad numbers are kept
+ * so validation can report them)
+ */
+export function parseCachePolicySettings(
+  env: NodeJS.ProcessEnv = process.env
+): CachePolicySettings {
+  const ttlHours: Record<string, number> = { ...CACHE_TTL_RULE_HOURS };
+  for (const pair of (env.ADO_CACHE_TTL_HOURS || "").split(",")) {
+    const [rule, value] = pair.split("=").map((part) => part.trim());
+    if (rule) {
+      ttlHours[rule] = parseFloat(value);
+    }
+  }
+  return {
+    ttlHours: ttlHours as Record<CacheTtlRule, number>,
+    staleHours: parseFloat(
+      env.ADO_CACHE_STALE_HOURS || `${DEFAULT_CACHE_STALE_HOURS}`
+    ),
+  };
+}
+
+/**
+ * Validate cache policy settings, returning an error message or null when valid
+ */
+export function validateCachePolicySettings(
+  settings: CachePolicySettings
+): string | null {
+  for (const [rule, hours] of Object.entries(settings.ttlHours)) {
+    if (!CACHE_TTL_RULES.includes(rule as CacheTtlRule)) {
+      return `Unknown cache TTL rule "${rule}" in ADO_CACHE_TTL_HOURS (expected one of: ${CACHE_TTL_RULES.join(
+        ", "
+      )})`;
+    }
+    if (isNaN(hours) || hours < 0) {
+      return `ADO_CACHE_TTL_HOURS: ${rule} must be a number of hours (0 = never stale)`;
+    }
+  }
+  if (isNaN(settings.staleHours) || settings.staleHours < 0) {
+    return "ADO_CACHE_STALE_HOURS must be a number of hours (0 = off)";
+  }
+  return null;
+}
+
+/**
+ * Pick the TTL rule for a request.
+ *
+ * A date range that ended before yesterday (commit, build and WIQL queries)
+ * can't gain new history, so it's cached for good; the day of slack covers
+ * timezones and late pushes. PR lists that can include open PRs (status
+ * active or all) change constantly, unless their range has ended. Everything
+ * else (completed PR lists, work item fields, identities) uses the default.
+ */
+export function getCacheRule(
+  url: string,
+  params: Record<string, any> = {},
+  now: Date = new Date()
+): CacheTtlRule {
+  const endDate = getQueryEndDate(params);
+  const rangeEnded = !!endDate && endDate.getTime() < now.getTime() - DAY_MS;
+
+  if (
+    /\/pullrequests$/i.test(url) &&
+    !CLOSED_PR_STATUSES.includes(params["searchCriteria.status"]) &&
+    !rangeEnded
+  ) {
+    return "activePullRequests";
+  }
+
+  if (rangeEnded) {
+    return "pastDateRange";
+  }
+  return "default";
+}
+
+/**
+ * The TTL and stale window for a request
+ */
+export function getCachePolicy(
+  url: string,
+  params?: Record<string, any>,
+  settings: CachePolicySettings = parseCachePolicySettings()
+): CachePolicy {
+  const rule = getCacheRule(url, params);
+  return {
+    rule,
+    ttlHours: settings.ttlHours[rule],
+    staleHours: settings.staleHours,
+  };
+}
+
+/**
+ * The end of the date range a query covers: searchCriteria.toDate for
+ * commits, searchCriteria.maxTime for PR lists, maxTime for builds, or the
+ * latest date in a WIQL query
+ */
+function getQueryEndDate(params: Record<string, any>): Date | null {
+  const toDate =
+    params["searchCriteria.toDate"] ||
+    params["searchCriteria.maxTime"] ||
+    params.maxTime;
+  if (typeof toDate === "string") {
+    // A plain date includes the whole day
+    const date = new Date(
+      /^\d{4}-\d{2}-\d{2}$/.test(toDate) ? `${toDate}T23:59:59.999Z` : toDate
+    );
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const query = params._body?.query;
+  if (typeof query === "string") {
+    const dates = query.match(DATE_PATTERN);
+    if (dates) {
+      const latest = new Date(`${dates.sort().pop()}T23:59:59.999Z`);
+      return isNaN(latest.getTime()) ? null : latest;
+    }
+  }
+  return null;
+}
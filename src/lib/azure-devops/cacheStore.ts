@@ -0,0 +1,229 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import {
+  DEFAULT_CACHE_MAX_BYTES,
+  DEFAULT_CACHE_SQLITE_PATH,
+  DEFAULT_REDIS_URL,
+  REDIS_KEY_PREFIX,
+} from "../constants";
+
+/**
+ * Where cached API responses are kept
+ */
+export type CacheStoreType = "file" | "memory" | "sqlite" | "redis";
+
+export const CACHE_STORE_TYPES: CacheStoreType[] = [
+  "file",
+  "memory",
+  "sqlite",
+  "redis",
+];
+
+/**
+ * Key-value storage for serialized cache entries. Keys are request hashes and
+ * values JSON strings; expiry is handled by the cache on top of the store.
+ */
+export interface CacheStore {
+  readonly type: CacheStoreType;
+  readonly location: string; // Directory, file or server, for stats and logs
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+  clear(): Promise<number>; // Number of entries removed
+  stats(): Promise<{ entries: number; totalSize: number }>; // Size in bytes
+  close(): Promise<void>; // Release connections and file handles
+}
+
+/**
+ * Cache store settings, from ADO_CACHE_STORE and friends
+ */
+export interface CacheStoreOptions {
+  type: CacheStoreType;
+  directory: string; // file: directory of JSON files
+  maxBytes: number; // memory: budget before least recently used entries are evicted
+  sqlitePath: string; // sqlite: database file
+  redisUrl: string; // redis: redis[s]://[user:password@]host[:port][/db]
+  redisKeyPrefix: string; // redis: prefix keeping these keys apart from others
+}
+
+/**
+ * Read cache store settings from environment variables
+ * (unknown store types are kept so validation can report them)
+ */
+export function parseCacheStoreOptions(
+  env: NodeJS.ProcessEnv = process.env
+): CacheStoreOptions {
+  return {
+    type: (env.ADO_CACHE_STORE?.trim() || "file") as CacheStoreType,
+    directory: path.join(process.cwd(), ".ado-cache"),
+    maxBytes: parseInt(env.ADO_CACHE_MAX_BYTES || `${DEFAULT_CACHE_MAX_BYTES}`),
+    sqlitePath: path.resolve(
+      process.cwd(),
+      env.ADO_CACHE_SQLITE_PATH || DEFAULT_CACHE_SQLITE_PATH
+    ),
+    redisUrl: env.ADO_REDIS_URL || DEFAULT_REDIS_URL,
+    redisKeyPrefix: REDIS_KEY_PREFIX,
+  };
+}
+
+/**
+ * Validate cache store settings, returning an error message or null when valid
+ */
+export function validateCacheStoreOptions(
+  options: CacheStoreOptions
+): string | null {
+  if (!CACHE_STORE_TYPES.includes(options.type)) {
+    return `ADO_CACHE_STORE must be one of: ${CACHE_STORE_TYPES.join(", ")}`;
+  }
+  if (
+    options.type === "memory" &&
+    (isNaN(options.maxBytes) || options.maxBytes < 1)
+  ) {
+    return "ADO_CACHE_MAX_BYTES must be a positive number of bytes";
+  }
+  if (options.type === "redis") {
+    try {
+      const { protocol } = new URL(options.redisUrl);
+      if (protocol !== "redis:" && protocol !== "rediss:") {
+        throw new Error(protocol);
+      }
+    } catch {
+      return "ADO_REDIS_URL must be a redis:// or rediss:// URL";
+    }
+  }
+  return null;
+}
+
+/**
+ * One JSON file per entry in a directory (the original .ado-cache layout)
+ */
+export class FileCacheStore implements CacheStore {
+  readonly type = "file";
+
+  constructor(readonly location: string) {}
+
+  async get(key: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.getFilePath(key), "utf-8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await fs.mkdir(this.location, { recursive: true });
+    await fs.writeFile(this.getFilePath(key), value, "utf-8");
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.getFilePath(key), { force: true });
+  }
+
+  async keys(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.location);
+      return files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => file.slice(0, -".json".length));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  async clear(): Promise<number> {
+    const keys = await this.keys();
+    await Promise.all(keys.map((key) => this.delete(key)));
+    return keys.length;
+  }
+
+  async stats(): Promise<{ entries: number; totalSize: number }> {
+    const keys = await this.keys();
+    let totalSize = 0;
+    for (const key of keys) {
+      totalSize += (await fs.stat(this.getFilePath(key))).size;
+    }
+    return { entries: keys.length, totalSize };
+  }
+
+  async close(): Promise<void> {
+    // Nothing held open
+  }
+
+  private getFilePath(key: string): string {
+    return path.join(this.location, `${key}.json`);
+  }
+}
+
+/**
+ * In-process LRU cache with a byte budget: once the entries exceed it, the
+ * least recently used ones are evicted. Entries are lost on restart.
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly type = "memory";
+  // Map iteration follows insertion order, so re-inserting on access keeps
+  // the least recently used entry first
+  private readonly entries = new Map<string, string>();
+  private totalSize = 0;
+
+  constructor(private readonly maxBytes: number) {}
+
+  get location(): string {
+    return `memory (${(this.maxBytes / 1024 / 1024).toFixed(1)} MB budget)`;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = this.entries.get(key);
+    if (value === undefined) return null;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.delete(key);
+    const size = Buffer.byteLength(value);
+    if (size > this.maxBytes) {
+      console.warn(
+        `⚠️ Cache entry of ${size} bytes exceeds the memory budget, not cached`
+      );
+      return;
+    }
+
+    this.entries.set(key, value);
+    this.totalSize += size;
+    while (this.totalSize > this.maxBytes) {
+      const oldestKey = this.entries.keys().next().value as string;
+      await this.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.totalSize -= Buffer.byteLength(value);
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.entries.keys());
+  }
+
+  async clear(): Promise<number> {
+    const count = this.entries.size;
+    this.entries.clear();
+    this.totalSize = 0;
+    return count;
+  }
+
+  async stats(): Promise<{ entries: number; totalSize: number }> {
+    return { entries: this.entries.size, totalSize: this.totalSize };
+  }
+
+  async close(): Promise<void> {
+    // Entries live as long as the process
+  }
+}
@@ -1,35 +1,110 @@
-import axios, { AxiosInstance, AxiosError } from "axios";
-import { readCache, writeCache } from "./cache";
+import axios, { AxiosInstance, AxiosError, AxiosResponse } from "axios";
+import {
+  CacheScope,
+  CacheSubject,
+  readCacheEntry,
+  revalidateCache,
+  writeCache,
+} from "./cache";
+import { RequestPool, getRequestPool } from "./concurrency";
+import { CredentialProvider, PatCredential } from "./credentials";
+import {
+  FixtureOptions,
+  FixtureRequest,
+  getFixtureBundle,
+  parseFixtureOptions,
+} from "./fixtures";
+import {
+  applyNegotiatedApiVersion,
+  getApiVersionKey,
+  getServerUrls,
+  getSupportedApiVersion,
+  rememberApiVersion,
+} from "./server";
+import {
+  API_VERSION,
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_MAX_RETRY_DELAY_MS,
+  RETRY_BASE_DELAY_MS,
+  RETRYABLE_STATUS_CODES,
+  VSSPS_API_VERSION,
+} from "../constants";
 
 export interface AzureDevOpsClientConfig {
   organization: string;
-  pat: string;
-  apiVersion?: string;
-  enableCache?: boolean; // Enable response caching
+  pat?: string; // Personal Access Token (Basic auth), unless a credential is given
+  credential?: CredentialProvider; // PAT, bearer token or service principal (see credentials.ts)
+  apiVersion?: string; // Default: ADO_API_VERSION or 7.0 (lowered per endpoint if the server is older)
+  baseUrl?: string; // Server root (default: ADO_BASE_URL or https://dev.azure.com)
+  identityUrl?: string; // Identities server root (default: ADO_IDENTITY_URL, see getServerUrls)
+  enableCache?: boolean; // Enable response caching (always off while recording or replaying)
+  fixtures?: FixtureOptions; // Record/replay fixtures (default: from ADO_FIXTURE_MODE, see fixtures.ts)
+  maxRetries?: number; // Retries for 429/5xx responses (default: ADO_MAX_RETRIES or 3)
+  maxRetryDelayMs?: number; // Cap on a single retry wait (default: 60s)
+  maxConcurrentRequests?: number; // Shared per-organization limit (default: from env or 8)
 }
 
+/**
+ * Read the retry cap from the environment, falling back to the default
+ */
+function getDefaultMaxRetries(): number {
+  const envValue = parseInt(process.env.ADO_MAX_RETRIES || "", 10);
+  return isNaN(envValue) || envValue < 0 ? DEFAULT_MAX_RETRIES : envValue;
+}
+
+// Identity URLs that turned out not to exist (Azure DevOps Server without a
+// separate identities service); their requests go to the collection instead
+const missingIdentityUrls = new Set<string>();
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
 export class AzureDevOpsClient {
   private axiosInstance: AxiosInstance;
   private vsspsAxiosInstance: AxiosInstance; // For Identity APIs (vssps.dev.azure.com)
   private organization: string;
+  private baseUrl: string;
+  private identityUrl: string;
+  private credential: CredentialProvider;
   private apiVersion: string;
   private enableCache: boolean;
+  private fixtures: FixtureOptions;
+  private maxRetries: number;
+  private maxRetryDelayMs: number;
+  private requestPool: RequestPool; // Shared by all clients for this organization
 
   constructor(config: AzureDevOpsClientConfig) {
+    const { baseUrl, identityUrl } = getServerUrls(config.organization, {
+      baseUrl: config.baseUrl,
+      identityUrl: config.identityUrl,
+    });
     this.organization = config.organization;
-    this.apiVersion = config.apiVersion || "7.0";
-    this.enableCache = config.enableCache ?? true; // Cache enabled by default
+    this.baseUrl = baseUrl;
+    this.identityUrl = identityUrl;
+    this.apiVersion =
+      config.apiVersion || process.env.ADO_API_VERSION || API_VERSION;
+    this.fixtures = config.fixtures ?? parseFixtureOptions();
+    // Cache enabled by default; a recording must see every request, and a
+    // replay must only serve the bundle
+    this.enableCache =
+      this.fixtures.mode === "off" && (config.enableCache ?? true);
+    this.maxRetries = config.maxRetries ?? getDefaultMaxRetries();
+    this.maxRetryDelayMs = config.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS;
+    this.requestPool = getRequestPool(
+      config.organization,
+      config.maxConcurrentRequests
+    );
 
-    const authHeader = `Basic ${Buffer.from(`:${config.pat}`).toString(
-      "base64"
-    )}`;
+    if (!config.credential && !config.pat) {
+      throw new Error("A PAT or credential is required to call Azure DevOps");
+    }
+    this.credential = config.credential ?? new PatCredential(config.pat!);
 
-    // Create axios instance with base configuration for dev.azure.com
+    // Create axios instance for the organization (dev.azure.com) or collection (on-prem)
     this.axiosInstance = axios.create({
-      baseURL: `https://dev.azure.com/${config.organization}`,
+      baseURL: baseUrl,
       headers: {
         "Content-Type": "application/json",
-        Authorization: authHeader,
       },
       timeout: 30000, // 30 second timeout
     });
@@ -37,33 +112,38 @@ export class AzureDevOpsClient {
     // Create axios instance for vssps.dev.azure.com (Identity APIs)
     // The Identities API uses a different base URL: https://vssps.dev.azure.com/{organization}
     this.vsspsAxiosInstance = axios.create({
-      baseURL: `https://vssps.dev.azure.com/${config.organization}`,
+      baseURL: identityUrl,
       headers: {
         "Content-Type": "application/json",
-        Authorization: authHeader,
       },
       timeout: 30000,
     });
 
-    // Add response interceptor for error handling (both instances)
-    this.axiosInstance.interceptors.response.use(
-      (response) => response,
-      (error: AxiosError) => {
-        return this.handleError(error);
-      }
-    );
-    this.vsspsAxiosInstance.interceptors.response.use(
-      (response) => response,
-      (error: AxiosError) => {
-        return this.handleError(error);
-      }
-    );
+    // The Authorization header is set per request, so expiring tokens are
+    // refreshed by the credential as needed
+    for (const instance of [this.axiosInstance, this.vsspsAxiosInstance]) {
+      instance.interceptors.request.use(async (request) => {
+        request.headers.Authorization =
+          await this.credential.getAuthorizationHeader();
+        return request;
+      });
+    }
+
+    // Note: errors are translated by handleError() in requestWithRetry(),
+    // after retries are exhausted, so the raw status and headers stay
+    // available when deciding whether to retry.
   }
 
   /**
-   * Get method with automatic retry for rate limiting and caching support
+   * Get method with automatic retry for rate limiting and caching support.
+   * `subject` names the project and repository for URLs that don't, so the
+   * cached response can be invalidated by them.
    */
-  async get<T>(url: string, params?: Record<string, any>): Promise<T> {
+  async get<T>(
+    url: string,
+    params?: Record<string, any>,
+    subject?: CacheSubject
+  ): Promise<T> {
     const fullParams = {
       "api-version": this.apiVersion,
       ...params,
@@ -71,73 +151,79 @@ export class AzureDevOpsClient {
 
     console.log(`🌐 GET ${url}`);
 
-    // Check cache first if enabled
-    if (this.enableCache) {
-      const cached = readCache<T>(url, fullParams);
-      if (cached !== null) {
-        return cached;
-      }
-    }
-
-    // Make API request
-    console.log(`📡 Making API request to Azure DevOps...`);
-    const requestStart = Date.now();
-
-    const response = await this.axiosInstance.get<T>(url, {
+    const request: FixtureRequest = {
+      method: "GET",
+      service: "api",
+      url,
       params: fullParams,
-    });
-
-    const duration = Date.now() - requestStart;
-    console.log(`✅ API response received in ${duration}ms`);
-
-    // Write to cache if enabled
-    if (this.enableCache) {
-      writeCache(url, fullParams, response.data);
-    }
-
-    return response.data;
+    };
+    return this.withCache(url, fullParams, subject, () =>
+      this.withFixture(request, async () => {
+        // Make API request
+        console.log(`📡 Making API request to Azure DevOps...`);
+        const requestStart = Date.now();
+
+        const { response, retries } = await this.requestWithRetry(
+          `GET ${url}`,
+          getApiVersionKey(this.baseUrl, url),
+          fullParams,
+          (params) => this.axiosInstance.get<T>(url, { params })
+        );
+
+        const duration = Date.now() - requestStart;
+        console.log(
+          `✅ API response received in ${duration}ms${formatRetries(retries)}`
+        );
+        return response.data;
+      })
+    );
   }
 
   /**
    * Get method for VSSPS APIs (Identity APIs at vssps.dev.azure.com)
    * The Identities API uses a different base URL than the main Azure DevOps API.
    * See: https://learn.microsoft.com/en-us/rest/api/azure/devops/ims/identities/read-identities
+   *
+   * Azure DevOps Server may not have a separate identities service: when the
+   * identity URL doesn't exist (404 or no such host), the request falls back to
+   * the collection URL, which serves the same API on-prem.
    */
   async getVssps<T>(url: string, params?: Record<string, any>): Promise<T> {
     // Use API version 7.1 for VSSPS APIs as per documentation
     const fullParams = {
-      "api-version": "7.1",
+      "api-version": VSSPS_API_VERSION,
       ...params,
     };
 
     console.log(`🌐 GET (VSSPS) ${url}`);
 
-    // Check cache first if enabled (prefix with vssps: to differentiate)
-    const cacheKey = `vssps:${url}`;
-    if (this.enableCache) {
-      const cached = readCache<T>(cacheKey, fullParams);
-      if (cached !== null) {
-        return cached;
-      }
-    }
-
-    // Make API request to vssps.dev.azure.com
-    console.log(`📡 Making API request to Azure DevOps (VSSPS)...`);
-    const requestStart = Date.now();
-
-    const response = await this.vsspsAxiosInstance.get<T>(url, {
+    // Cached with a vssps: prefix to differentiate
+    const request: FixtureRequest = {
+      method: "GET",
+      service: "vssps",
+      url,
       params: fullParams,
-    });
-
-    const duration = Date.now() - requestStart;
-    console.log(`✅ VSSPS API response received in ${duration}ms`);
-
-    // Write to cache if enabled
-    if (this.enableCache) {
-      writeCache(cacheKey, fullParams, response.data);
-    }
-
-    return response.data;
+    };
+    return this.withCache(`vssps:${url}`, fullParams, undefined, () =>
+      this.withFixture(request, async () => {
+        // Make API request to vssps.dev.azure.com
+        console.log(`📡 Making API request to Azure DevOps (VSSPS)...`);
+        const requestStart = Date.now();
+
+        const { response, retries } = await this.requestIdentities<T>(
+          url,
+          fullParams
+        );
+
+        const duration = Date.now() - requestStart;
+        console.log(
+          `✅ VSSPS API response received in ${duration}ms${formatRetries(
+            retries
+          )}`
+        );
+        return response.data;
+      })
+    );
   }
 
   /**
@@ -156,25 +242,259 @@ export class AzureDevOpsClient {
     // For POST requests, include request body in cache key
     const cacheParams = { ...fullParams, _body: data };
 
-    // Check cache first if enabled
-    if (this.enableCache) {
-      const cached = readCache<T>(url, cacheParams);
-      if (cached !== null) {
-        return cached;
+    const request: FixtureRequest = {
+      method: "POST",
+      service: "api",
+      url,
+      params: fullParams,
+      body: data,
+    };
+    return this.withCache(url, cacheParams, undefined, () =>
+      this.withFixture(request, async () => {
+        const { response, retries } = await this.requestWithRetry(
+          `POST ${url}`,
+          getApiVersionKey(this.baseUrl, url),
+          fullParams,
+          (params) => this.axiosInstance.post<T>(url, data, { params })
+        );
+        if (retries > 0) {
+          console.log(`✅ POST ${url} succeeded${formatRetries(retries)}`);
+        }
+        return response.data;
+      })
+    );
+  }
+
+  /**
+   * Serve a response from the cache when caching is enabled. Fresh entries are
+   * returned as is; stale ones are returned right away while the request
+   * refreshes them in the background (stale-while-revalidate); misses are
+   * requested and written to the cache.
+   */
+  private async withCache<T>(
+    cacheKey: string,
+    cacheParams: Record<string, any>,
+    subject: CacheSubject | undefined,
+    request: () => Promise<T>
+  ): Promise<T> {
+    if (!this.enableCache) {
+      return request();
+    }
+
+    const scope = this.getCacheScope(subject);
+    const cached = await readCacheEntry<T>(cacheKey, cacheParams, scope);
+    if (cached) {
+      if (cached.stale) {
+        revalidateCache(cacheKey, cacheParams, request, scope);
       }
+      return cached.data;
     }
 
-    // Make API request
-    const response = await this.axiosInstance.post<T>(url, data, {
-      params: fullParams,
-    });
+    const data = await request();
+    await writeCache(cacheKey, cacheParams, data, undefined, scope);
+    return data;
+  }
 
-    // Write to cache if enabled
-    if (this.enableCache) {
-      writeCache(url, cacheParams, response.data);
+  /**
+   * Record or replay a request when fixtures are on (see fixtures.ts).
+   * Recording keeps failures too, so a replay takes the same error paths;
+   * replaying never touches the network and throws an
+   * UnrecordedRequestError for anything the bundle doesn't have.
+   */
+  private async withFixture<T>(
+    request: FixtureRequest,
+    send: () => Promise<T>
+  ): Promise<T> {
+    if (this.fixtures.mode === "off") {
+      return send();
+    }
+
+    const bundle = await getFixtureBundle(this.fixtures);
+    if (this.fixtures.mode === "replay") {
+      return bundle.replay<T>(this.organization, request);
+    }
+
+    try {
+      const data = await send();
+      bundle.record(this.organization, request, { data });
+      return data;
+    } catch (error) {
+      bundle.record(this.organization, request, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Send an identities request to the identity URL, or to the collection URL
+   * when the identity URL is missing (see getVssps)
+   */
+  private async requestIdentities<T>(
+    url: string,
+    fullParams: Record<string, any>
+  ): Promise<{ response: AxiosResponse<T>; retries: number }> {
+    const useCollection =
+      this.identityUrl === this.baseUrl ||
+      missingIdentityUrls.has(this.identityUrl);
+
+    if (!useCollection) {
+      try {
+        return await this.requestWithRetry(
+          `GET (VSSPS) ${url}`,
+          getApiVersionKey(this.identityUrl, url),
+          fullParams,
+          (params) => this.vsspsAxiosInstance.get<T>(url, { params }),
+          (error) =>
+            error.response?.status === 404 ||
+            (!error.response && error.code === "ENOTFOUND")
+        );
+      } catch (err) {
+        if (!(err instanceof MissingEndpointError)) {
+          throw err;
+        }
+        console.warn(
+          `⚠️ No identities service at ${this.identityUrl} - using ${this.baseUrl} instead`
+        );
+        missingIdentityUrls.add(this.identityUrl);
+      }
     }
 
-    return response.data;
+    return this.requestWithRetry(
+      `GET (identities) ${url}`,
+      getApiVersionKey(this.baseUrl, url),
+      fullParams,
+      (params) => this.axiosInstance.get<T>(url, { params })
+    );
+  }
+
+  /**
+   * Run a request, retrying throttled (429) and transient (502/503/504)
+   * failures. Waits honor Retry-After and X-RateLimit-Reset when present,
+   * otherwise use exponential backoff with full jitter, capped at
+   * maxRetryDelayMs. Non-retryable errors and the final failure go through
+   * handleError().
+   *
+   * The API version is negotiated per endpoint: when an older server rejects
+   * the requested version, the request is repeated once with the latest
+   * version it supports, which later requests to the same API area reuse.
+   * `isMissing` marks errors meaning the endpoint doesn't exist at all; those
+   * throw a MissingEndpointError so the caller can try elsewhere.
+   *
+   * A 401 with a refreshable credential (a service principal's token may
+   * have been revoked or expired early) is retried once with a fresh token.
+   *
+   * Each attempt holds a slot in the organization's request pool; the slot is
+   * released while waiting to retry so throttled requests don't block others.
+   */
+  private async requestWithRetry<T>(
+    label: string,
+    versionKey: string,
+    params: Record<string, any>,
+    request: (params: Record<string, any>) => Promise<AxiosResponse<T>>,
+    isMissing?: (error: AxiosError) => boolean
+  ): Promise<{ response: AxiosResponse<T>; retries: number }> {
+    let attempt = 0;
+    let versionedParams = applyNegotiatedApiVersion(versionKey, params);
+    let negotiated = false;
+    let reauthenticated = false;
+
+    while (true) {
+      try {
+        const response = await this.requestPool.run(() =>
+          request(versionedParams)
+        );
+        return { response, retries: attempt };
+      } catch (err) {
+        const error = err as AxiosError;
+        const status = error.response?.status;
+
+        if (isMissing?.(error)) {
+          throw new MissingEndpointError(label);
+        }
+
+        if (
+          status === 401 &&
+          this.credential.type === "clientCredentials" &&
+          !reauthenticated
+        ) {
+          console.warn(`🔐 ${label} returned 401 - refreshing access token`);
+          this.credential.invalidate();
+          reauthenticated = true;
+          continue;
+        }
+
+        const supported = getSupportedApiVersion(error);
+        if (supported && !negotiated) {
+          rememberApiVersion(versionKey, supported);
+          const retryParams = applyNegotiatedApiVersion(versionKey, params);
+          if (retryParams["api-version"] !== versionedParams["api-version"]) {
+            console.warn(
+              `↘️ ${label}: server supports API version ${supported} - retrying with ${retryParams["api-version"]}`
+            );
+            versionedParams = retryParams;
+            negotiated = true;
+            continue;
+          }
+        }
+
+        // No response at all (timeout, connection reset) is also worth retrying
+        const isRetryable =
+          status === undefined
+            ? !!error.request
+            : RETRYABLE_STATUS_CODES.includes(status);
+
+        if (!isRetryable || attempt >= this.maxRetries) {
+          if (attempt > 0) {
+            console.error(`❌ ${label} failed after ${attempt} retries`);
+          }
+          return this.handleError(error);
+        }
+
+        attempt++;
+        const delayMs = this.getRetryDelayMs(error, attempt);
+        console.warn(
+          `🔁 ${label} returned ${status ?? "no response"} - retry ${attempt}/${
+            this.maxRetries
+          } in ${Math.round(delayMs)}ms`
+        );
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Work out how long to wait before the next retry attempt
+   */
+  private getRetryDelayMs(error: AxiosError, attempt: number): number {
+    const headers = error.response?.headers || {};
+
+    // Retry-After: either delta-seconds or an HTTP date
+    const retryAfter = headers["retry-after"]?.toString();
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delayMs = !isNaN(seconds)
+        ? seconds * 1000
+        : new Date(retryAfter).getTime() - Date.now();
+      if (!isNaN(delayMs) && delayMs >= 0) {
+        return Math.min(delayMs, this.maxRetryDelayMs);
+      }
+    }
+
+    // X-RateLimit-Reset: epoch seconds when the rate limit window resets.
+    // Only meaningful once the remaining budget has run out.
+    const remaining = headers["x-ratelimit-remaining"];
+    const reset = Number(headers["x-ratelimit-reset"]);
+    if (remaining !== undefined && Number(remaining) <= 0 && !isNaN(reset)) {
+      const delayMs = reset * 1000 - Date.now();
+      if (delayMs >= 0) {
+        return Math.min(delayMs, this.maxRetryDelayMs);
+      }
+    }
+
+    // Exponential backoff with full jitter
+    const exponentialMs = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+    return Math.random() * Math.min(exponentialMs, this.maxRetryDelayMs);
   }
 
   /**
@@ -198,9 +518,15 @@ export class AzureDevOpsClient {
 
       switch (status) {
         case 401:
-          console.error("🔑 Authentication failed - check PAT token");
+          console.error(
+            `🔑 Authentication failed - check ${
+              this.credential.type === "pat" ? "PAT token" : "access token"
+            }`
+          );
           throw new Error(
-            "Authentication failed. Please check your Personal Access Token (PAT)."
+            this.credential.type === "pat"
+              ? "Authentication failed. Please check your Personal Access Token (PAT)."
+              : "Authentication failed. Please check your access token or service principal."
           );
         case 403:
           throw new Error(
@@ -211,7 +537,7 @@ export class AzureDevOpsClient {
             "Resource not found. Please verify your organization, project, and repository names."
           );
         case 429:
-          // Rate limiting - could implement exponential backoff here
+          // Only reached once automatic retries are exhausted
           const retryAfter = error.response.headers["retry-after"] || "60";
           throw new Error(
             `Rate limit exceeded. Please retry after ${retryAfter} seconds.`
@@ -238,11 +564,35 @@ export class AzureDevOpsClient {
     }
   }
 
+  /**
+   * Who this client's cached responses belong to: entries are keyed by the
+   * server, organization and credential, so another caller (or the same
+   * organization name on another server) never gets them. The subject is
+   * only recorded on the entries.
+   */
+  getCacheScope(subject: CacheSubject = {}): CacheScope {
+    return {
+      ...subject,
+      organization: this.organization,
+      baseUrl: this.baseUrl,
+      credential: this.credential.cacheScope,
+    };
+  }
+
   /**
    * Build organization URL for reference
    */
   getOrganizationUrl(): string {
-    return `https://dev.azure.com/${this.organization}`;
+    return this.baseUrl;
+  }
+
+  /**
+   * Build identities URL for reference
+   */
+  getIdentityUrl(): string {
+    return missingIdentityUrls.has(this.identityUrl)
+      ? this.baseUrl
+      : this.identityUrl;
   }
 
   /**
@@ -253,6 +603,25 @@ export class AzureDevOpsClient {
   }
 }
 
+/**
+ * Thrown when an endpoint doesn't exist on the server (see requestWithRetry)
+ */
+class MissingEndpointError extends Error {
+  constructor(label: string) {
+    super(`${label}: endpoint not found`);
+    this.name = "MissingEndpointError";
+  }
+}
+
+/**
+ * Format a retry count suffix for log lines
+ */
+function formatRetries(retries: number): string {
+  return retries > 0
+    ? ` (after ${retries} retr${retries === 1 ? "y" : "ies"})`
+    : "";
+}
+
 /**
  * Create a new Azure DevOps client instance
  */
@@ -1,23 +1,56 @@
 import { AzureDevOpsClient } from "./client";
-import { GitCommit, GitCommitResponse } from "./types";
+import { CredentialProvider } from "./credentials";
+import {
+  GitCommit,
+  GitCommitResponse,
+  GitCommitChanges,
+  GitChange,
+  FileDiffParams,
+  FileDiffResponse,
+  FileDiffsCriteria,
+} from "./types";
+import { fetchDefaultBranch, resolveTargetBranches } from "./repositories";
+import { readCache, writeCache } from "./cache";
+import { isExcludedPath } from "./languages";
+import {
+  COMMIT_CHANGES_PAGE_SIZE,
+  COMMIT_DIFF_BATCH_SIZE,
+  DEFAULT_TIME_ZONE,
+  FILE_DIFFS_API_VERSION,
+  FILE_DIFFS_BATCH_SIZE,
+  MAX_DIFF_LINES_PER_FILE,
+} from "../constants";
+import { toBoundInstant } from "../dateRange";
+import { getZonedParts } from "../timezone";
+
+// Cache keys for computed commit line counts and changed paths (not API URLs)
+const COMMIT_LINES_CACHE_KEY = "commit-lines";
+const COMMIT_PATHS_CACHE_KEY = "commit-paths";
 
 export interface FetchCommitsOptions {
   organization: string;
   project: string;
   repository: string;
-  pat: string;
-  fromDate: string; // ISO 8601 format: YYYY-MM-DD
-  toDate: string; // ISO 8601 format: YYYY-MM-DD
+  pat?: string; // Personal Access Token, unless a credential is given
+  credential?: CredentialProvider; // PAT, bearer token or service principal
+  fromDate: string; // ISO 8601: YYYY-MM-DD (UTC day) or an instant
+  toDate: string; // ISO 8601: YYYY-MM-DD (UTC day, inclusive) or an instant
   userEmail?: string; // Optional: filter by specific user
-  branch?: string; // Branch to filter commits (default: master)
+  aliases?: string[]; // Other author emails or names of the user, queried too
+  defaultBranch?: string; // Repo's default branch, if known (looked up otherwise)
+  extraBranches?: string[]; // Additional branches to include, e.g. release branches
   enableCache?: boolean; // Enable response caching (default: true)
+  onPageFetched?: (page: number, items: number) => void; // Progress hook per page
 }
 
 /**
  * Fetch all commits for a repository within a date range
  *
  * OPTIMIZATION:
- * - Filters to only commits on master branch (not individual PR commits)
+ * - Filters to only commits on the repo's default branch plus any extra
+ *   target branches (not individual PR commits), deduplicated by commit ID
+ * - Queries the user's email and each alias as the author, since the API
+ *   filters on a single author
  * - Uses changeCounts from list response (no per-commit API calls needed)
  * - The API already includes Add/Edit/Delete counts in the list response
  */
@@ -29,75 +62,101 @@ export async function fetchCommits(
     project,
     repository,
     pat,
+    credential,
     fromDate,
     toDate,
     userEmail,
-    branch = "master", // Default to master branch
+    aliases = [],
+    defaultBranch,
+    extraBranches,
     enableCache = true,
+    onPageFetched,
   } = options;
+  // One author query per identity, or a single unfiltered query
+  const authors = userEmail ? [userEmail, ...aliases] : [undefined];
 
   console.log(
     `📜 fetchCommits: Starting for ${organization}/${project}/${repository}`
   );
-  console.log(
-    `📅 Date range: ${fromDate} to ${toDate}, User: ${
-      userEmail || "all"
-    }, Branch: ${branch}`
-  );
 
-  const client = new AzureDevOpsClient({ organization, pat, enableCache });
-  const commits: GitCommit[] = [];
-  let skip = 0;
-  const top = 100; // Azure DevOps API limit per page
-  let pageCount = 0;
+  const client = new AzureDevOpsClient({
+    organization,
+    pat,
+    credential,
+    enableCache,
+  });
 
   try {
-    while (true) {
-      pageCount++;
-      console.log(`📊 Fetching commits page ${pageCount} (skip: ${skip})...`);
-      const url = `/${project}/_apis/git/repositories/${repository}/commits`;
-
-      const params: Record<string, any> = {
-        "searchCriteria.fromDate": fromDate,
-        "searchCriteria.toDate": toDate,
-        "searchCriteria.$top": top,
-        "searchCriteria.$skip": skip,
-        // Filter to only commits on the specified branch (default: master)
-        // This excludes individual commits in feature branches that haven't been merged
-        "searchCriteria.itemVersion.version": branch,
-        "searchCriteria.itemVersion.versionType": "branch",
-      };
-
-      // Add user email filter if provided
-      if (userEmail) {
-        params["searchCriteria.author"] = userEmail;
-      }
-
-      // Note: changeCounts (Add/Edit/Delete) are included by default in the response
-      // No need for includeStatuses or separate per-commit API calls
+    const branches = resolveTargetBranches(
+      defaultBranch ?? (await fetchDefaultBranch(client, project, repository)),
+      extraBranches
+    );
 
-      const response = await client.get<GitCommitResponse>(url, params);
+    console.log(
+      `📅 Date range: ${fromDate} to ${toDate}, User: ${
+        authors.filter(Boolean).join(", ") || "all"
+      }, Branches: ${branches.join(", ") || "(none)"}`
+    );
 
-      if (!response.value || response.value.length === 0) {
-        console.log(`✅ No more commits found (page ${pageCount})`);
-        break; // No more commits
-      }
+    if (branches.length === 0) {
+      console.log(`⚠️ Repository has no default branch (empty repository)`);
+      return [];
+    }
 
-      console.log(
-        `✅ Fetched ${response.value.length} commits on page ${pageCount}`
-      );
+    const commits: GitCommit[] = [];
+    const seenCommitIds = new Set<string>();
+    let pageCount = 0;
 
-      // changeCounts is already included in the list response - no need for per-commit fetches
-      // This dramatically reduces API calls (from N+1 to just pagination calls)
-      commits.push(...response.value);
+    for (const branch of branches) {
+      // A failing alias is skipped; the branch only fails if every alias does
+      let failedAuthors = 0;
+      let lastError: unknown;
+      for (const author of authors) {
+        try {
+          const branchCommits = await fetchCommitsOnBranch(
+            client,
+            project,
+            repository,
+            { fromDate, toDate, author, branch },
+            () => ++pageCount,
+            onPageFetched
+          );
 
-      // Check if we've fetched all commits
-      if (response.value.length < top) {
-        console.log(`✅ Last page reached`);
-        break; // Last page
+          // The same commit is reachable from several branches once merged,
+          // and can match several aliases
+          let added = 0;
+          for (const commit of branchCommits) {
+            if (!seenCommitIds.has(commit.commitId)) {
+              seenCommitIds.add(commit.commitId);
+              commits.push(commit);
+              added++;
+            }
+          }
+          console.log(
+            `✅ Found ${branchCommits.length} commits on branch: ${branch}${
+              author && author !== userEmail ? ` by alias ${author}` : ""
+            } (${added} new)`
+          );
+        } catch (err) {
+          failedAuthors++;
+          lastError = err;
+          if (authors.length > 1) {
+            console.log(
+              `⚠️ Could not fetch commits on '${branch}' by ${author}, skipping this alias: ${err}`
+            );
+          }
+        }
       }
 
-      skip += top;
+      if (failedAuthors === authors.length) {
+        // The default branch must work; extra branches may not exist in every repo
+        if (branch === branches[0]) {
+          throw lastError;
+        }
+        console.log(
+          `⚠️ Could not fetch commits for branch '${branch}': ${lastError}`
+        );
+      }
     }
 
     console.log(
@@ -118,15 +177,377 @@ export async function fetchCommits(
 }
 
 /**
- * Get commit statistics aggregated by date
+ * Page through all commits on a single branch within the date range
  */
-export function groupCommitsByDate(
+async function fetchCommitsOnBranch(
+  client: AzureDevOpsClient,
+  project: string,
+  repository: string,
+  filters: {
+    fromDate: string;
+    toDate: string;
+    author?: string; // Author email or name
+    branch: string;
+  },
+  nextPage: () => number, // Page numbers run across all branches of a repo
+  onPageFetched?: (page: number, items: number) => void
+): Promise<GitCommit[]> {
+  const { fromDate, toDate, author, branch } = filters;
+  const commits: GitCommit[] = [];
+  let skip = 0;
+  const top = 100; // Azure DevOps API limit per page
+
+  while (true) {
+    const pageCount = nextPage();
+    console.log(
+      `📊 Fetching commits page ${pageCount} on ${branch} (skip: ${skip})...`
+    );
+    const url = `/${project}/_apis/git/repositories/${repository}/commits`;
+
+    const params: Record<string, any> = {
+      "searchCriteria.fromDate": toBoundInstant(fromDate, false),
+      "searchCriteria.toDate": toBoundInstant(toDate, true),
+      "searchCriteria.$top": top,
+      "searchCriteria.$skip": skip,
+      // Filter to only commits on the specified branch
+      // This excludes individual commits in feature branches that haven't been merged
+      "searchCriteria.itemVersion.version": branch,
+      "searchCriteria.itemVersion.versionType": "branch",
+    };
+
+    // Add author filter if provided
+    if (author) {
+      params["searchCriteria.author"] = author;
+    }
+
+    // Note: changeCounts (Add/Edit/Delete) are included by default in the response
+    // No need for includeStatuses or separate per-commit API calls
+
+    const response = await client.get<GitCommitResponse>(url, params);
+
+    if (!response.value || response.value.length === 0) {
+      console.log(`✅ No more commits found (page ${pageCount})`);
+      break; // No more commits
+    }
+
+    console.log(
+      `✅ Fetched ${response.value.length} commits on page ${pageCount}`
+    );
+
+    // changeCounts is already included in the list response - no need for per-commit fetches
+    // This dramatically reduces API calls (from N+1 to just pagination calls)
+    commits.push(...response.value);
+    onPageFetched?.(pageCount, response.value.length);
+
+    // Check if we've fetched all commits
+    if (response.value.length < top) {
+      console.log(`✅ Last page reached`);
+      break; // Last page
+    }
+
+    skip += top;
+  }
+
+  return commits;
+}
+
+/**
+ * Lines added and deleted by a commit, computed from its file diffs
+ */
+export interface CommitLineCounts {
+  linesAdded: number;
+  linesDeleted: number;
+  filesSkipped: number; // Generated or oversized files left out of the counts
+}
+
+/**
+ * Fetch the files (not folders) changed by a commit, compared to its parent
+ */
+export async function fetchCommitChanges(
+  client: AzureDevOpsClient,
+  project: string,
+  repository: string,
+  commitId: string
+): Promise<GitChange[]> {
+  const url = `/${project}/_apis/git/repositories/${repository}/commits/${commitId}/changes`;
+  const files: GitChange[] = [];
+  let skip = 0;
+
+  while (true) {
+    const response = await client.get<GitCommitChanges>(url, {
+      top: COMMIT_CHANGES_PAGE_SIZE,
+      skip,
+    });
+    const changes = response.changes || [];
+
+    files.push(
+      ...changes.filter(
+        (change) =>
+          change.item?.path &&
+          !change.item.isFolder &&
+          change.item.gitObjectType !== "tree"
+      )
+    );
+
+    if (changes.length < COMMIT_CHANGES_PAGE_SIZE) {
+      break;
+    }
+    skip += COMMIT_CHANGES_PAGE_SIZE;
+  }
+
+  return files;
+}
+
+/**
+ * Count the lines a commit added and deleted, compared to its parent.
+ *
+ * Reads the commit's changed files, then asks the file diffs API for the
+ * line blocks of each file. Merge commits are skipped (their changes are
+ * already counted on the merged commits, as in `git log --numstat`), and so
+ * are root commits, which have no parent to diff against.
+ */
+export async function fetchCommitLineCounts(
+  client: AzureDevOpsClient,
+  project: string,
+  repository: string,
+  commit: GitCommit,
+  excludePaths: string[] = [] // Globs left out on top of generated files
+): Promise<CommitLineCounts> {
+  const repoUrl = `/${project}/_apis/git/repositories/${repository}`;
+
+  // The commit list doesn't always include parents, so read the commit itself
+  const parents =
+    commit.parents ??
+    (await client.get<GitCommit>(`${repoUrl}/commits/${commit.commitId}`))
+      .parents ??
+    [];
+  if (parents.length !== 1) {
+    return { linesAdded: 0, linesDeleted: 0, filesSkipped: 0 };
+  }
+
+  // Collect the changed files, leaving out generated and excluded ones
+  const files: FileDiffParams[] = [];
+  let excluded = 0;
+  const changes = await fetchCommitChanges(
+    client,
+    project,
+    repository,
+    commit.commitId
+  );
+  for (const change of changes) {
+    const path = change.item!.path;
+    if (isExcludedPath(path, excludePaths)) {
+      excluded++;
+      continue;
+    }
+    files.push({ path, originalPath: change.sourceServerItem || path });
+  }
+
+  const counts = await countFileDiffLines(
+    client,
+    repoUrl,
+    parents[0],
+    commit.commitId,
+    files
+  );
+  return { ...counts, filesSkipped: counts.filesSkipped + excluded };
+}
+
+/**
+ * Count the lines added and deleted in files between two commits, by summing
+ * the line blocks the file diffs API returns for each file. Used for commits
+ * (against their parent) and pull requests (against the merge base).
+ */
+export async function countFileDiffLines(
+  client: AzureDevOpsClient,
+  repoUrl: string, // [/{project}]/_apis/git/repositories/{repository}
+  baseCommit: string,
+  targetCommit: string,
+  files: FileDiffParams[]
+): Promise<CommitLineCounts> {
+  const counts: CommitLineCounts = {
+    linesAdded: 0,
+    linesDeleted: 0,
+    filesSkipped: 0,
+  };
+
+  for (let i = 0; i < files.length; i += FILE_DIFFS_BATCH_SIZE) {
+    const criteria: FileDiffsCriteria = {
+      baseVersionCommit: baseCommit,
+      targetVersionCommit: targetCommit,
+      fileDiffParams: files.slice(i, i + FILE_DIFFS_BATCH_SIZE),
+    };
+    const response = await client.post<FileDiffResponse>(
+      `${repoUrl}/filediffs`,
+      criteria,
+      { "api-version": FILE_DIFFS_API_VERSION }
+    );
+
+    for (const diff of response.value || []) {
+      let added = 0;
+      let deleted = 0;
+      for (const block of diff.lineDiffBlocks || []) {
+        if (block.changeType === "add" || block.changeType === "edit") {
+          added += block.modifiedLinesCount;
+        }
+        if (block.changeType === "delete" || block.changeType === "edit") {
+          deleted += block.originalLinesCount;
+        }
+      }
+
+      // Huge single-file diffs are almost always generated or vendored
+      if (added + deleted > MAX_DIFF_LINES_PER_FILE) {
+        counts.filesSkipped++;
+        continue;
+      }
+      counts.linesAdded += added;
+      counts.linesDeleted += deleted;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Fetch line counts for commits in batches, keyed by commit ID.
+ *
+ * A commit's diff never changes, so counts are cached (without expiry)
+ * by repository, commit ID and excludes when caching is enabled.
+ */
+export async function fetchLineCountsForCommits(
+  client: AzureDevOpsClient,
+  project: string,
+  repository: string,
+  commits: GitCommit[],
+  excludePaths: string[] = []
+): Promise<Record<string, CommitLineCounts>> {
+  const lineCounts: Record<string, CommitLineCounts> = {};
+  let cacheHits = 0;
+
+  for (let i = 0; i < commits.length; i += COMMIT_DIFF_BATCH_SIZE) {
+    const batch = commits.slice(i, i + COMMIT_DIFF_BATCH_SIZE);
+
+    await Promise.all(
+      batch.map(async (commit) => {
+        const cacheParams = {
+          project,
+          repository,
+          commitId: commit.commitId,
+          excludePaths,
+        };
+
+        const cached = await readCache<CommitLineCounts>(
+          COMMIT_LINES_CACHE_KEY,
+          cacheParams,
+          0,
+          client.getCacheScope()
+        );
+        if (cached) {
+          cacheHits++;
+          lineCounts[commit.commitId] = cached;
+          return;
+        }
+
+        const counts = await fetchCommitLineCounts(
+          client,
+          project,
+          repository,
+          commit,
+          excludePaths
+        );
+        lineCounts[commit.commitId] = counts;
+        await writeCache(
+          COMMIT_LINES_CACHE_KEY,
+          cacheParams,
+          counts,
+          0,
+          client.getCacheScope({ project, repository })
+        );
+      })
+    );
+  }
+
+  const skipped = Object.values(lineCounts).reduce(
+    (sum, counts) => sum + counts.filesSkipped,
+    0
+  );
+  console.log(
+    `🧮 Counted lines for ${
+      Object.keys(lineCounts).length
+    } commits in ${project}/${repository} (${cacheHits} from cache, ${skipped} generated files skipped)`
+  );
+  return lineCounts;
+}
+
+/**
+ * Fetch the distinct file paths changed by commits, in batches.
+ *
+ * Paths are cached (without expiry) per commit when caching is enabled;
+ * excludes are applied later, so changing them doesn't invalidate the cache.
+ */
+export async function fetchChangedPathsForCommits(
+  client: AzureDevOpsClient,
+  project: string,
+  repository: string,
   commits: GitCommit[]
+): Promise<string[]> {
+  const paths = new Set<string>();
+  let cacheHits = 0;
+
+  for (let i = 0; i < commits.length; i += COMMIT_DIFF_BATCH_SIZE) {
+    const batch = commits.slice(i, i + COMMIT_DIFF_BATCH_SIZE);
+
+    await Promise.all(
+      batch.map(async (commit) => {
+        const cacheParams = { project, repository, commitId: commit.commitId };
+
+        let commitPaths = await readCache<string[]>(
+          COMMIT_PATHS_CACHE_KEY,
+          cacheParams,
+          0,
+          client.getCacheScope()
+        );
+        if (commitPaths) {
+          cacheHits++;
+        } else {
+          const changes = await fetchCommitChanges(
+            client,
+            project,
+            repository,
+            commit.commitId
+          );
+          commitPaths = changes.map((change) => change.item!.path);
+          await writeCache(
+            COMMIT_PATHS_CACHE_KEY,
+            cacheParams,
+            commitPaths,
+            0,
+            client.getCacheScope({ project, repository })
+          );
+        }
+
+        commitPaths.forEach((path) => paths.add(path));
+      })
+    );
+  }
+
+  console.log(
+    `🗂️ Found ${paths.size} changed files in ${commits.length} commits of ${project}/${repository} (${cacheHits} from cache)`
+  );
+  return Array.from(paths);
+}
+
+/**
+ * Group commits by calendar date (YYYY-MM-DD) in a timezone
+ */
+export function groupCommitsByDate(
+  commits: GitCommit[],
+  timeZone: string = DEFAULT_TIME_ZONE
 ): Map<string, GitCommit[]> {
   const commitsByDate = new Map<string, GitCommit[]>();
 
   for (const commit of commits) {
-    const date = commit.author.date.split("T")[0]; // Extract YYYY-MM-DD
+    const date = getZonedParts(commit.author.date, timeZone).date; // YYYY-MM-DD in the timezone
 
     if (!commitsByDate.has(date)) {
       commitsByDate.set(date, []);
@@ -162,26 +583,27 @@ export function calculateTotalChanges(commits: GitCommit[]): {
 }
 
 /**
- * Extract file extensions from commit changes
+ * Calculate total lines added and deleted from per-commit line counts.
+ * Edits don't exist at line level (a changed line is a deletion plus an addition).
  */
-export function extractFileExtensions(
-  commits: GitCommit[]
-): Map<string, number> {
-  const extensions = new Map<string, number>();
+export function calculateTotalLineChanges(
+  commits: GitCommit[],
+  lineCounts: Record<string, CommitLineCounts>
+): {
+  additions: number;
+  edits: number;
+  deletions: number;
+} {
+  let additions = 0;
+  let deletions = 0;
 
   for (const commit of commits) {
-    if (commit.changes) {
-      for (const change of commit.changes) {
-        if (change.item?.path) {
-          const match = change.item.path.match(/\.([^.]+)$/);
-          if (match) {
-            const ext = match[1].toLowerCase();
-            extensions.set(ext, (extensions.get(ext) || 0) + 1);
-          }
-        }
-      }
+    const counts = lineCounts[commit.commitId];
+    if (counts) {
+      additions += counts.linesAdded;
+      deletions += counts.linesDeleted;
     }
   }
 
-  return extensions;
+  return { additions, edits: 0, deletions };
 }
@@ -0,0 +1,166 @@
+import { DEFAULT_MAX_CONCURRENT_REQUESTS } from "../constants";
+
+/**
+ * Snapshot of a request pool's load, for logging and diagnostics
+ */
+export interface RequestPoolStats {
+  organization: string;
+  limit: number;
+  active: number; // Requests currently in flight
+  queued: number; // Requests waiting for a free slot
+  maxQueueDepth: number; // High-water mark of `queued` since creation
+  totalRequests: number;
+}
+
+/**
+ * FIFO semaphore limiting how many requests run at once.
+ *
+ * One pool is shared by every AzureDevOpsClient for the same organization,
+ * so parallel fetchers (commits, PRs, work items, repositories) can't
+ * collectively flood dev.azure.com and trip rate limits.
+ */
+export class RequestPool {
+  private active = 0;
+  private waiters: Array<() => void> = [];
+  private maxQueueDepth = 0;
+  private totalRequests = 0;
+
+  constructor(
+    private readonly organization: string,
+    private limit: number
+  ) {}
+
+  /**
+   * Run a task once a slot is free, releasing the slot when it settles
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Change the concurrency limit (takes effect as slots free up)
+   */
+  setLimit(limit: number): void {
+    this.limit = Math.max(1, limit);
+    this.drain();
+  }
+
+  getStats(): RequestPoolStats {
+    return {
+      organization: this.organization,
+      limit: this.limit,
+      active: this.active,
+      queued: this.waiters.length,
+      maxQueueDepth: this.maxQueueDepth,
+      totalRequests: this.totalRequests,
+    };
+  }
+
+  private acquire(): Promise<void> {
+    this.totalRequests++;
+
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve) => {
+      this.waiters.push(resolve);
+      this.maxQueueDepth = Math.max(this.maxQueueDepth, this.waiters.length);
+      if (this.waiters.length % 25 === 0) {
+        console.log(
+          `🚦 ${this.organization}: ${this.waiters.length} requests queued (${this.active}/${this.limit} in flight)`
+        );
+      }
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.active < this.limit && this.waiters.length > 0) {
+      this.active++;
+      const next = this.waiters.shift()!;
+      next();
+    }
+  }
+}
+
+// Pools are module-level so they're shared across client instances and requests
+const pools = new Map<string, RequestPool>();
+
+/**
+ * Parse per-organization limits from ADO_ORG_CONCURRENCY.
+ * Format: "org1=4,org2=10" (organization names are case-insensitive)
+ */
+function parseOrgConcurrency(): Map<string, number> {
+  const limits = new Map<string, number>();
+  const envValue = process.env.ADO_ORG_CONCURRENCY;
+
+  if (envValue) {
+    for (const pair of envValue.split(",")) {
+      const [org, value] = pair.split("=").map((part) => part.trim());
+      const limit = parseInt(value, 10);
+      if (org && !isNaN(limit) && limit > 0) {
+        limits.set(org.toLowerCase(), limit);
+      }
+    }
+  }
+
+  return limits;
+}
+
+/**
+ * Resolve the concurrency limit for an organization.
+ * Precedence: ADO_ORG_CONCURRENCY entry > ADO_MAX_CONCURRENT_REQUESTS > default
+ */
+export function getConcurrencyLimit(organization: string): number {
+  const orgLimit = parseOrgConcurrency().get(organization.toLowerCase());
+  if (orgLimit) {
+    return orgLimit;
+  }
+
+  const globalLimit = parseInt(process.env.ADO_MAX_CONCURRENT_REQUESTS || "");
+  return isNaN(globalLimit) || globalLimit < 1
+    ? DEFAULT_MAX_CONCURRENT_REQUESTS
+    : globalLimit;
+}
+
+/**
+ * Get (or create) the shared request pool for an organization.
+ * An explicit limit overrides the configured one for every client of that org.
+ */
+export function getRequestPool(
+  organization: string,
+  limit?: number
+): RequestPool {
+  const key = organization.toLowerCase();
+  let pool = pools.get(key);
+
+  if (!pool) {
+    pool = new RequestPool(
+      organization,
+      limit ?? getConcurrencyLimit(organization)
+    );
+    pools.set(key, pool);
+  } else if (limit !== undefined) {
+    pool.setLimit(limit);
+  }
+
+  return pool;
+}
+
+/**
+ * Get load statistics for every organization's request pool
+ */
+export function getRequestPoolStats(): RequestPoolStats[] {
+  return Array.from(pools.values()).map((pool) => pool.getStats());
+}
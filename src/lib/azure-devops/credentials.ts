@@ -0,0 +1,223 @@
+import * as crypto from "crypto";
+import axios from "axios";
+import type { AppConfig } from "../config";
+import {
+  AZURE_DEVOPS_TOKEN_SCOPE,
+  TOKEN_REFRESH_MARGIN_MS,
+} from "../constants";
+
+/**
+ * How a client authenticates with Azure DevOps
+ */
+export type CredentialType = "pat" | "bearer" | "clientCredentials";
+
+/**
+ * Supplies the Authorization header for Azure DevOps requests.
+ * Headers are requested per request, so tokens can be refreshed as they expire.
+ */
+export interface CredentialProvider {
+  readonly type: CredentialType;
+  readonly cacheScope: string; // Identifies the caller in cache keys (a hash, never the secret)
+  getAuthorizationHeader(): Promise<string>;
+  invalidate(): void; // Forget a cached token (e.g. after a 401) so the next header is fresh
+}
+
+/**
+ * Settings for a service principal using the OAuth client credentials flow
+ */
+export interface ClientCredentialsOptions {
+  clientId: string;
+  clientSecret: string;
+  tenantId?: string; // Used for the default Entra ID token endpoint
+  tokenEndpoint?: string; // Default: https://login.microsoftonline.com/{tenantId}/oauth2/v2.0/token
+  scope?: string; // Default: the Azure DevOps resource (see AZURE_DEVOPS_TOKEN_SCOPE)
+}
+
+/**
+ * Personal Access Token, sent with Basic auth
+ */
+export class PatCredential implements CredentialProvider {
+  readonly type = "pat";
+  readonly cacheScope: string;
+  private readonly header: string;
+
+  constructor(pat: string) {
+    this.header = `Basic ${Buffer.from(`:${pat}`).toString("base64")}`;
+    this.cacheScope = hashCredential(this.type, pat);
+  }
+
+  async getAuthorizationHeader(): Promise<string> {
+    return this.header;
+  }
+
+  invalidate(): void {
+    // A PAT can't be refreshed
+  }
+}
+
+/**
+ * A bearer token obtained elsewhere (e.g. an Entra ID access token from the
+ * browser or `az account get-access-token`). It can't be refreshed here.
+ */
+export class BearerTokenCredential implements CredentialProvider {
+  readonly type = "bearer";
+  readonly cacheScope: string;
+
+  constructor(private readonly token: string) {
+    this.cacheScope = hashCredential(this.type, token);
+  }
+
+  async getAuthorizationHeader(): Promise<string> {
+    return `Bearer ${this.token}`;
+  }
+
+  invalidate(): void {
+    // Nothing to refresh: the caller has to supply a new token
+  }
+}
+
+// Tokens fetched with client credentials, shared by every client using the
+// same service principal so each request doesn't fetch a new one
+const tokenCache = new Map<
+  string,
+  | { token: string; expiresAt: number }
+  | Promise<{ token: string; expiresAt: number }>
+>();
+
+/**
+ * Service principal authenticating with the OAuth client credentials flow.
+ * Tokens are cached until shortly before they expire, then fetched again.
+ */
+export class ClientCredentialsCredential implements CredentialProvider {
+  readonly type = "clientCredentials";
+  readonly cacheScope: string;
+  private readonly tokenEndpoint: string;
+  private readonly scope: string;
+  private readonly cacheKey: string;
+
+  constructor(private readonly options: ClientCredentialsOptions) {
+    this.tokenEndpoint =
+      options.tokenEndpoint ||
+      `https://login.microsoftonline.com/${options.tenantId}/oauth2/v2.0/token`;
+    this.scope = options.scope || AZURE_DEVOPS_TOKEN_SCOPE;
+    this.cacheKey = `${this.tokenEndpoint}|${options.clientId}|${this.scope}`;
+    // The secret is part of the scope: a client ID alone proves nothing
+    this.cacheScope = hashCredential(
+      this.type,
+      this.cacheKey,
+      options.clientSecret
+    );
+  }
+
+  async getAuthorizationHeader(): Promise<string> {
+    let cached = tokenCache.get(this.cacheKey);
+    if (
+      !cached ||
+      (!(cached instanceof Promise) &&
+        cached.expiresAt - TOKEN_REFRESH_MARGIN_MS <= Date.now())
+    ) {
+      // Concurrent requests wait for the same token request
+      cached = this.fetchToken();
+      tokenCache.set(this.cacheKey, cached);
+      cached.then(
+        (token) => tokenCache.set(this.cacheKey, token),
+        () => tokenCache.delete(this.cacheKey)
+      );
+    }
+    const { token } = await cached;
+    return `Bearer ${token}`;
+  }
+
+  invalidate(): void {
+    tokenCache.delete(this.cacheKey);
+  }
+
+  private async fetchToken(): Promise<{ token: string; expiresAt: number }> {
+    console.log(`🔐 Requesting an access token from ${this.tokenEndpoint}...`);
+    try {
+      const response = await axios.post<{
+        access_token: string;
+        expires_in: number | string;
+      }>(
+        this.tokenEndpoint,
+        new URLSearchParams({
+          grant_type: "client_credentials",
+          client_id: this.options.clientId,
+          client_secret: this.options.clientSecret,
+          scope: this.scope,
+        }).toString(),
+        {
+          headers: { "Content-Type": "application/x-www-form-urlencoded" },
+          timeout: 30000,
+        }
+      );
+      const expiresIn = Number(response.data.expires_in) || 3600;
+      console.log(`✅ Access token received (expires in ${expiresIn}s)`);
+      return {
+        token: response.data.access_token,
+        expiresAt: Date.now() + expiresIn * 1000,
+      };
+    } catch (error: any) {
+      const data = error.response?.data;
+      const reason =
+        data?.error_description || data?.error || error.message || "unknown";
+      console.error(`❌ Token request failed: ${reason}`);
+      throw new Error(`Failed to get an access token: ${reason}`);
+    }
+  }
+}
+
+/**
+ * Build a credential from an API request's Authorization header.
+ * "Bearer <token>" carries either a PAT or an Entra ID access token (a JWT);
+ * "Basic base64(:pat)" is accepted too. Returns null without usable credentials.
+ */
+export function getCredentialFromHeader(
+  authHeader: string | null | undefined
+): CredentialProvider | null {
+  const [scheme, value] = (authHeader || "").trim().split(/\s+/, 2);
+  if (!value) return null;
+
+  if (scheme.toLowerCase() === "basic") {
+    const decoded = Buffer.from(value, "base64").toString("utf8");
+    const pat = decoded.slice(decoded.indexOf(":") + 1);
+    return pat ? new PatCredential(pat) : null;
+  }
+  if (scheme.toLowerCase() !== "bearer") return null;
+
+  return isJwt(value)
+    ? new BearerTokenCredential(value)
+    : new PatCredential(value);
+}
+
+/**
+ * Build the server-side credential from .env (ADO_AUTH_METHOD and friends),
+ * or null when the chosen method isn't fully configured
+ */
+export function getConfigCredential(
+  config: AppConfig
+): CredentialProvider | null {
+  switch (config.authMethod) {
+    case "bearer":
+      return config.bearerToken
+        ? new BearerTokenCredential(config.bearerToken)
+        : null;
+    case "clientCredentials":
+      return config.clientCredentials
+        ? new ClientCredentialsCredential(config.clientCredentials)
+        : null;
+    default:
+      return config.pat ? new PatCredential(config.pat) : null;
+  }
+}
+
+// Credentials appear in cache keys only as a hash, so cached entries can't be
+// traced back to a secret
+function hashCredential(...parts: string[]): string {
+  return crypto.createHash("sha256").update(parts.join("\n")).digest("hex");
+}
+
+// Entra ID access tokens are JWTs: three base64url segments, the first a JSON header
+function isJwt(value: string): boolean {
+  return /^eyJ[\w-]*\.[\w-]+\.[\w-]*$/.test(value);
+}
@@ -0,0 +1,548 @@
+import {
+  GitCommit,
+  GitPullRequest,
+  GitRepository,
+  IdentityRef,
+  WorkItem,
+} from "./types";
+import { AggregatorInput, aggregateStats } from "./aggregator";
+import { ChangedFile } from "./languages";
+import { PullRequestSize, ReviewedPullRequest } from "./pullRequests";
+import { resolveDateRange } from "../dateRange";
+import {
+  DEFAULT_DEMO_SEED,
+  DEMO_PERSONAS,
+  DEMO_VOLUME_COMMITS,
+  PR_VOTES,
+} from "../constants";
+import { WrappedStats } from "../../types";
+
+/**
+ * Work habits the demo data is generated with
+ */
+export type DemoPersona = keyof typeof DEMO_PERSONAS;
+
+/**
+ * How much activity the demo year has
+ */
+export type DemoVolume = keyof typeof DEMO_VOLUME_COMMITS;
+
+export const DEMO_VOLUMES = Object.keys(DEMO_VOLUME_COMMITS) as DemoVolume[];
+
+/**
+ * Demo settings, from the demo page's query parameters
+ */
+export interface DemoOptions {
+  persona: DemoPersona;
+  volume: DemoVolume;
+  seed: number; // Same seed, same data
+  year: number; // Calendar year the activity falls in
+}
+
+/**
+ * Synthetic Azure DevOps data, shaped like what the fetchers return, plus the
+ * aggregator config describing it
+ */
+export interface DemoDataset extends AggregatorInput {
+  repositories: GitRepository[];
+  reviewedPullRequests: ReviewedPullRequest[];
+  pullRequestSizes: Record<number, PullRequestSize>;
+  changedFiles: ChangedFile[];
+}
+
+// When a persona works: weights per UTC hour (0-23) and per weekday (Sunday first)
+const PERSONA_SCHEDULES: Record<
+  DemoPersona,
+  { hours: number[]; weekdays: number[] }
+> = {
+  nightOwl: {
+    hours: [
+      6, 5, 3, 2, 1, 0, 0, 0, 0, 0, 1, 1, 1, 1, 1, 2, 2, 2, 3, 4, 6, 8, 9, 8,
+    ],
+    weekdays: [4, 7, 8, 8, 8, 7, 5],
+  },
+  weekendWarrior: {
+    hours: [
+      1, 0, 0, 0, 0, 0, 0, 0, 1, 3, 5, 6, 5, 5, 6, 6, 5, 4, 3, 3, 3, 2, 2, 1,
+    ],
+    weekdays: [10, 2, 2, 2, 2, 3, 10],
+  },
+  nineToFive: {
+    hours: [
+      0, 0, 0, 0, 0, 0, 0, 1, 3, 8, 9, 9, 5, 7, 9, 9, 7, 4, 1, 0, 0, 0, 0, 0,
+    ],
+    weekdays: [0.2, 10, 10, 10, 10, 8, 0.2],
+  },
+};
+
+const ORGANIZATION = "contoso";
+const USER = {
+  displayName: "Sam Rivera",
+  uniqueName: "sam.rivera@contoso.com",
+};
+const TEAMMATES = [
+  { displayName: "Priya Shah", uniqueName: "priya.shah@contoso.com" },
+  { displayName: "Jonas Berg", uniqueName: "jonas.berg@contoso.com" },
+  { displayName: "Mei Chen", uniqueName: "mei.chen@contoso.com" },
+  { displayName: "Diego Alvarez", uniqueName: "diego.alvarez@contoso.com" },
+  { displayName: "Fatima Okafor", uniqueName: "fatima.okafor@contoso.com" },
+];
+
+// Repositories with the files their changes touch (the language breakdown)
+const REPOSITORIES = [
+  {
+    project: "Storefront",
+    name: "web-app",
+    files: [
+      "/src/app/checkout/page.tsx",
+      "/src/components/Cart.tsx",
+      "/src/components/SearchBar.tsx",
+      "/src/lib/api.ts",
+      "/src/lib/featureFlags.ts",
+      "/src/styles/globals.css",
+      "/package.json",
+    ],
+  },
+  {
+    project: "Storefront",
+    name: "mobile-client",
+    files: [
+      "/android/app/src/main/java/CartActivity.kt",
+      "/android/app/src/main/java/LoginViewModel.kt",
+      "/ios/App/CheckoutView.swift",
+      "/ios/App/SessionStore.swift",
+    ],
+  },
+  {
+    project: "Platform",
+    name: "payments-api",
+    files: [
+      "/src/Payments.Api/Controllers/PaymentsController.cs",
+      "/src/Payments.Api/Services/RefundService.cs",
+      "/src/Payments.Api/Webhooks/WebhookHandler.cs",
+      "/tests/Payments.Tests/RefundServiceTests.cs",
+      "/src/Payments.Api/appsettings.json",
+    ],
+  },
+  {
+    project: "Platform",
+    name: "infra",
+    files: [
+      "/terraform/main.tf",
+      "/terraform/modules/aks/main.tf",
+      "/pipelines/deploy.yml",
+      "/scripts/rotate-secrets.sh",
+      "/README.md",
+    ],
+  },
+];
+
+const VERBS = [
+  "Fix",
+  "Add",
+  "Refactor",
+  "Update",
+  "Remove",
+  "Improve",
+  "Simplify",
+  "Speed up",
+  "Document",
+  "Clean up",
+];
+const SUBJECTS = [
+  "checkout flow",
+  "login redirect",
+  "retry logic",
+  "flaky cart test",
+  "feature flags",
+  "payment webhook",
+  "refund validation",
+  "search results",
+  "error handling",
+  "dark mode",
+  "deploy pipeline",
+  "cache invalidation",
+  "user settings page",
+  "API client",
+  "dependency versions",
+];
+
+const WORK_ITEM_TYPES = [
+  { type: "User Story", weight: 35 },
+  { type: "Task", weight: 35 },
+  { type: "Bug", weight: 25 },
+  { type: "Feature", weight: 5 },
+];
+const SEVERITIES = ["1 - Critical", "2 - High", "3 - Medium", "4 - Low"];
+const TAGS = [
+  "frontend",
+  "backend",
+  "tech-debt",
+  "customer",
+  "performance",
+  "security",
+  "accessibility",
+];
+const AREAS = ["Checkout", "Accounts", "Search", "Payments", "Platform"];
+
+// Review votes, most PRs get approved
+const VOTES = [
+  { vote: PR_VOTES.APPROVED, weight: 65 },
+  { vote: PR_VOTES.APPROVED_WITH_SUGGESTIONS, weight: 20 },
+  { vote: PR_VOTES.WAITING_FOR_AUTHOR, weight: 10 },
+  { vote: PR_VOTES.REJECTED, weight: 2 },
+  { vote: PR_VOTES.NO_VOTE, weight: 3 },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Read demo settings from query parameters (persona, volume, seed, year).
+ * Missing values get defaults; invalid ones are kept for validation.
+ */
+export function parseDemoOptions(params: URLSearchParams): DemoOptions {
+  return {
+    persona: (params.get("persona") || "nightOwl") as DemoPersona,
+    volume: (params.get("volume") || "typical") as DemoVolume,
+    seed: parseInt(params.get("seed") || `${DEFAULT_DEMO_SEED}`),
+    // The last full year, so every month has activity
+    year: parseInt(params.get("year") || `${new Date().getFullYear() - 1}`),
+  };
+}
+
+/**
+ * Validate demo settings, returning an error message or null when valid
+ */
+export function validateDemoOptions(options: DemoOptions): string | null {
+  const personas = Object.keys(DEMO_PERSONAS);
+  if (!personas.includes(options.persona)) {
+    return `persona must be one of: ${personas.join(", ")}`;
+  }
+  if (!DEMO_VOLUMES.includes(options.volume)) {
+    return `volume must be one of: ${DEMO_VOLUMES.join(", ")}`;
+  }
+  if (isNaN(options.seed)) {
+    return "seed must be a number";
+  }
+  if (
+    isNaN(options.year) ||
+    options.year < 2010 ||
+    options.year > new Date().getFullYear()
+  ) {
+    return "year must be between 2010 and the current year";
+  }
+  return null;
+}
+
+/**
+ * Generate a year of realistic activity for a persona: commits at the
+ * persona's hours, PRs with reviews and merge times, PRs reviewed for
+ * teammates and resolved work items. The same options always produce the
+ * same data; nothing is fetched from Azure DevOps.
+ */
+export function generateDemoData(options: DemoOptions): DemoDataset {
+  const random = createRandom(options.seed);
+  const schedule = PERSONA_SCHEDULES[options.persona];
+  const dateRange = resolveDateRange({ preset: "calendarYear" }, options.year);
+  const start = Date.parse(`${dateRange.startDate}T00:00:00Z`);
+  // Nothing from the future when the year isn't over
+  const end = Math.min(
+    Date.parse(`${dateRange.endDate}T23:59:59Z`),
+    Date.now()
+  );
+  const dayWeights = getDayWeights(random, schedule.weekdays, start, end);
+
+  const user: IdentityRef = { ...USER, id: randomGuid(random) };
+  const teammates: IdentityRef[] = TEAMMATES.map((teammate) => ({
+    ...teammate,
+    id: randomGuid(random),
+  }));
+  const repositories: GitRepository[] = REPOSITORIES.map((repo) => ({
+    id: randomGuid(random),
+    name: repo.name,
+    url: `https://dev.azure.com/${ORGANIZATION}/${repo.project}/_apis/git/repositories/${repo.name}`,
+    project: { id: randomGuid(random), name: repo.project },
+    defaultBranch: "refs/heads/main",
+  }));
+
+  const clamp = (time: number) => Math.min(time, end);
+  // A timestamp on a weighted day, at one of the persona's hours
+  const randomTime = (): number =>
+    clamp(
+      start +
+        pickWeighted(random, dayWeights) * DAY_MS +
+        pickWeighted(random, schedule.hours) * HOUR_MS +
+        Math.floor(random() * HOUR_MS)
+    );
+  const pickRepository = () => Math.floor(random() * repositories.length);
+  const message = () => `${pick(random, VERBS)} ${pick(random, SUBJECTS)}`;
+
+  // Commits
+  const commitCount = DEMO_VOLUME_COMMITS[options.volume];
+  const commits: GitCommit[] = [];
+  const changedFiles: ChangedFile[] = [];
+  for (let i = 0; i < commitCount; i++) {
+    const repoIndex = pickRepository();
+    const repository = repositories[repoIndex];
+    const date = new Date(randomTime()).toISOString();
+    const commitId = randomHex(random, 40);
+    const author = { name: USER.displayName, email: USER.uniqueName, date };
+    // Mostly small commits, with the occasional big one
+    const big = random() < 0.05;
+    commits.push({
+      commitId,
+      author,
+      committer: author,
+      comment: message(),
+      changeCounts: {
+        Add: randomInt(random, 0, big ? 25 : 2),
+        Edit: randomInt(random, 1, big ? 40 : 6),
+        Delete: randomInt(random, 0, big ? 10 : 1),
+      },
+      url: `${repository.url}/commits/${commitId}`,
+      remoteUrl: `https://dev.azure.com/${ORGANIZATION}/${repository.project!.name}/_git/${repository.name}/commit/${commitId}`,
+    });
+    for (let f = randomInt(random, 1, 3); f > 0; f--) {
+      changedFiles.push({
+        repository: repository.name,
+        path: pick(random, REPOSITORIES[repoIndex].files),
+      });
+    }
+  }
+  commits.sort((a, b) => b.author.date.localeCompare(a.author.date));
+
+  // Pull requests: created by the user or (for reviews) by teammates
+  let nextPullRequestId = 1000 + randomInt(random, 0, 8000);
+  const createPullRequest = (
+    createdBy: IdentityRef,
+    reviewers: IdentityRef[]
+  ): GitPullRequest => {
+    const repository = repositories[pickRepository()];
+    const created = randomTime();
+    // Merge times skew short: most within a day, a few take weeks
+    const closed = created + -Math.log(1 - random()) * 30 * HOUR_MS;
+    const abandoned = random() < 0.07;
+    const open = closed > end;
+    const pullRequestId = nextPullRequestId++;
+    const title = message();
+    return {
+      pullRequestId,
+      codeReviewId: pullRequestId,
+      status: open ? "active" : abandoned ? "abandoned" : "completed",
+      createdBy,
+      creationDate: new Date(created).toISOString(),
+      ...(!open && { closedDate: new Date(clamp(closed)).toISOString() }),
+      title,
+      description: "",
+      sourceRefName: `refs/heads/feature/${title
+        .toLowerCase()
+        .replace(/\s+/g, "-")}`,
+      targetRefName: "refs/heads/main",
+      mergeStatus: "succeeded",
+      isDraft: false,
+      reviewers: reviewers.map((reviewer) => ({
+        ...reviewer,
+        vote: pickWeighted(
+          random,
+          VOTES.map(({ weight }) => weight),
+          VOTES.map(({ vote }) => vote)
+        ),
+      })),
+      url: `${repository.url}/pullRequests/${pullRequestId}`,
+      repository,
+    };
+  };
+  const pickReviewers = (pool: IdentityRef[]) =>
+    pool.filter(() => random() < 0.4).slice(0, 3);
+
+  const pullRequests: GitPullRequest[] = [];
+  const pullRequestSizes: Record<number, PullRequestSize> = {};
+  for (let i = Math.round(commitCount / 8); i > 0; i--) {
+    const pr = createPullRequest(user, pickReviewers(teammates));
+    const repoIndex = repositories.indexOf(pr.repository!);
+    const paths = Array.from(
+      new Set(
+        Array.from({ length: randomInt(random, 1, 12) }, () =>
+          pick(random, REPOSITORIES[repoIndex].files)
+        )
+      )
+    );
+    pullRequests.push(pr);
+    pullRequestSizes[pr.pullRequestId] = { filesChanged: paths.length, paths };
+  }
+
+  const reviewedPullRequests: ReviewedPullRequest[] = [];
+  for (let i = Math.round((commitCount / 8) * 1.3); i > 0; i--) {
+    const author = pick(random, teammates);
+    const pullRequest = createPullRequest(author, [
+      user,
+      ...pickReviewers(teammates.filter((teammate) => teammate !== author)),
+    ]);
+    const firstVote =
+      Date.parse(pullRequest.creationDate) +
+      -Math.log(1 - random()) * 6 * HOUR_MS;
+    reviewedPullRequests.push({
+      pullRequest,
+      reviewerId: user.id,
+      vote: pullRequest.reviewers[0].vote,
+      firstVoteDate: new Date(clamp(firstVote)).toISOString(),
+      threads: [],
+    });
+  }
+
+  // Work items resolved during the year
+  const workItems: WorkItem[] = [];
+  for (let i = Math.round(commitCount / 5); i > 0; i--) {
+    const id = 20000 + randomInt(random, 0, 80000);
+    const type =
+      WORK_ITEM_TYPES[
+        pickWeighted(
+          random,
+          WORK_ITEM_TYPES.map(({ weight }) => weight)
+        )
+      ].type;
+    const resolved = randomTime();
+    const created = resolved - -Math.log(1 - random()) * 5 * DAY_MS;
+    const tags = TAGS.filter(() => random() < 0.2).join("; ");
+    workItems.push({
+      id,
+      rev: randomInt(random, 2, 12),
+      fields: {
+        "System.Id": id,
+        "System.WorkItemType": type,
+        "System.Title": message(),
+        "System.State": type === "Task" ? "Done" : "Closed",
+        "System.AssignedTo": user,
+        "System.CreatedDate": new Date(created).toISOString(),
+        "System.ChangedDate": new Date(resolved).toISOString(),
+        "Microsoft.VSTS.Common.ClosedDate": new Date(resolved).toISOString(),
+        "Microsoft.VSTS.Common.Priority": randomInt(random, 1, 4),
+        ...(type === "Bug" && {
+          "Microsoft.VSTS.Common.Severity": pick(random, SEVERITIES),
+        }),
+        ...(tags && { "System.Tags": tags }),
+        "System.AreaPath": `${pick(random, REPOSITORIES).project}\\${pick(
+          random,
+          AREAS
+        )}`,
+      },
+      url: `https://dev.azure.com/${ORGANIZATION}/_apis/wit/workItems/${id}`,
+    });
+  }
+
+  return {
+    repositories,
+    commits,
+    pullRequests,
+    reviewedPullRequests,
+    pullRequestSizes,
+    workItems,
+    changedFiles,
+    config: {
+      organization: ORGANIZATION,
+      projects: Array.from(new Set(REPOSITORIES.map((repo) => repo.project))),
+      repositories: REPOSITORIES.map((repo) => repo.name),
+      year: options.year,
+      dateRange,
+      timeZone: "UTC", // Persona hours are UTC
+      userEmail: USER.uniqueName,
+    },
+  };
+}
+
+/**
+ * Generate demo data and aggregate it into a Wrapped
+ */
+export function createDemoStats(options: DemoOptions): WrappedStats {
+  console.log(
+    `🎭 Generating demo data: ${options.persona}, ${options.volume} volume, seed ${options.seed}`
+  );
+  return aggregateStats(generateDemoData(options));
+}
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomInt(random: () => number, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+function pick<T>(random: () => number, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Pick an index by weight, or the matching value when values are given
+ */
+function pickWeighted(random: () => number, weights: number[]): number;
+function pickWeighted<T>(
+  random: () => number,
+  weights: number[],
+  values: T[]
+): T;
+function pickWeighted<T>(
+  random: () => number,
+  weights: number[],
+  values?: T[]
+): number | T {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let target = random() * total;
+  let index = 0;
+  while (index < weights.length - 1 && target >= weights[index]) {
+    target -= weights[index];
+    index++;
+  }
+  return values ? values[index] : index;
+}
+
+function randomHex(random: () => number, length: number): string {
+  return Array.from({ length }, () =>
+    Math.floor(random() * 16).toString(16)
+  ).join("");
+}
+
+function randomGuid(random: () => number): string {
+  const hex = randomHex(random, 32);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(
+    12,
+    16
+  )}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * How likely each day of the range is to see activity: the persona's
+ * weekday pattern, busier and quieter stretches, a two-week vacation and a
+ * slow end of December
+ */
+function getDayWeights(
+  random: () => number,
+  weekdays: number[],
+  start: number,
+  end: number
+): number[] {
+  const days = Math.floor((end - start) / DAY_MS) + 1;
+  const vacationStart = randomInt(random, 150, 230);
+  const phase = random() * Math.PI * 2;
+
+  return Array.from({ length: days }, (_, day) => {
+    const date = new Date(start + day * DAY_MS);
+    const season = 1 + 0.5 * Math.sin((day / 365) * Math.PI * 6 + phase);
+    const vacation = day >= vacationStart && day < vacationStart + 14;
+    const holidays = date.getUTCMonth() === 11 && date.getUTCDate() >= 22;
+    return (
+      weekdays[date.getUTCDay()] * season * (vacation || holidays ? 0.05 : 1)
+    );
+  });
+}
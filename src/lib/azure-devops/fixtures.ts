@@ -0,0 +1,320 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import {
+  DEFAULT_FIXTURE_BUNDLE,
+  DEFAULT_FIXTURE_DIRECTORY,
+  FIXTURE_SAVE_DELAY_MS,
+} from "../constants";
+
+/**
+ * Whether clients talk to Azure DevOps normally, record every request and
+ * response into a fixture bundle, or replay a bundle without any network
+ */
+export type FixtureMode = "off" | "record" | "replay";
+
+export const FIXTURE_MODES: FixtureMode[] = ["off", "record", "replay"];
+
+/**
+ * Fixture settings, from ADO_FIXTURE_MODE, ADO_FIXTURE_BUNDLE and ADO_FIXTURE_DIR
+ */
+export interface FixtureOptions {
+  mode: FixtureMode;
+  bundle: string; // Bundle name, stored as <directory>/<bundle>.json
+  directory: string;
+}
+
+/**
+ * One request as the client sends it (the key of a recorded response)
+ */
+export interface FixtureRequest {
+  method: "GET" | "POST";
+  service: "api" | "vssps"; // Organization/collection APIs or identities
+  url: string;
+  params: Record<string, any>;
+  body?: any; // POST body, e.g. a WIQL query
+}
+
+/**
+ * A recorded response: the data, or the error message the request failed with
+ */
+export interface FixtureRecord extends FixtureRequest {
+  organization: string;
+  recordedAt: string;
+  data?: unknown;
+  error?: string;
+}
+
+/**
+ * A named set of recorded requests, saved as one JSON file
+ */
+export interface FixtureBundleFile {
+  version: number;
+  name: string;
+  recordedAt: string; // Last time a request was recorded
+  requests: Record<string, FixtureRecord>;
+}
+
+/**
+ * Thrown in replay mode for a request the bundle doesn't have
+ */
+export class UnrecordedRequestError extends Error {
+  constructor(bundle: string, organization: string, request: FixtureRequest) {
+    super(
+      `Request not recorded in fixture bundle "${bundle}": ${request.method} ${
+        request.service === "vssps" ? "(VSSPS) " : ""
+      }${request.url} in ${organization} ${JSON.stringify(request.params)}${
+        request.body !== undefined
+          ? ` body ${JSON.stringify(request.body)}`
+          : ""
+      }. Record it with ADO_FIXTURE_MODE=record.`
+    );
+    this.name = "UnrecordedRequestError";
+  }
+}
+
+// Bumped when the bundle layout changes
+const FIXTURE_BUNDLE_VERSION = 1;
+
+const BUNDLE_NAME_PATTERN = /^[\w.-]+$/;
+
+// Loaded bundles by mode and file path, shared by every client
+const bundles = new Map<string, Promise<FixtureBundle>>();
+
+/**
+ * Read fixture settings from environment variables
+ * (unknown modes are kept so validation can report them)
+ */
+export function parseFixtureOptions(
+  env: NodeJS.ProcessEnv = process.env
+): FixtureOptions {
+  return {
+    mode: (env.ADO_FIXTURE_MODE?.trim() || "off") as FixtureMode,
+    bundle: env.ADO_FIXTURE_BUNDLE?.trim() || DEFAULT_FIXTURE_BUNDLE,
+    directory: path.resolve(
+      process.cwd(),
+      env.ADO_FIXTURE_DIR || DEFAULT_FIXTURE_DIRECTORY
+    ),
+  };
+}
+
+/**
+ * Validate fixture settings, returning an error message or null when valid
+ */
+export function validateFixtureOptions(options: FixtureOptions): string | null {
+  if (!FIXTURE_MODES.includes(options.mode)) {
+    return `ADO_FIXTURE_MODE must be one of: ${FIXTURE_MODES.join(", ")}`;
+  }
+  if (!BUNDLE_NAME_PATTERN.test(options.bundle)) {
+    return "ADO_FIXTURE_BUNDLE must be a name made of letters, numbers, dots, dashes and underscores";
+  }
+  return null;
+}
+
+/**
+ * Path of a bundle's file
+ */
+export function getFixturePath(options: FixtureOptions): string {
+  return path.join(options.directory, `${options.bundle}.json`);
+}
+
+/**
+ * Deterministic key for a request: the organization, method, service, URL,
+ * sorted params and body
+ */
+export function getFixtureKey(
+  organization: string,
+  request: FixtureRequest
+): string {
+  const params = Object.keys(request.params)
+    .sort()
+    .reduce<Record<string, any>>((acc, key) => {
+      acc[key] = request.params[key];
+      return acc;
+    }, {});
+  return crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify({
+        organization: organization.toLowerCase(),
+        method: request.method,
+        service: request.service,
+        url: request.url,
+        params,
+        body: request.body,
+      })
+    )
+    .digest("hex");
+}
+
+/**
+ * A fixture bundle loaded from disk. Recorded requests are added in memory
+ * and saved shortly after (one write for a burst of requests).
+ */
+export class FixtureBundle {
+  private saveTimer: NodeJS.Timeout | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private unsaved = false; // Recorded since the last save
+
+  private constructor(
+    readonly name: string,
+    readonly filePath: string,
+    private readonly file: FixtureBundleFile
+  ) {}
+
+  /**
+   * Load a bundle. Replay needs the file to exist; recording starts a new
+   * bundle or adds to an existing one.
+   */
+  static async load(
+    name: string,
+    filePath: string,
+    mode: Exclude<FixtureMode, "off">
+  ): Promise<FixtureBundle> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, "utf-8");
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+      if (mode === "replay") {
+        throw new Error(
+          `Fixture bundle "${name}" not found at ${filePath} - record it first with ADO_FIXTURE_MODE=record`
+        );
+      }
+      console.log(`🎙️  Recording a new fixture bundle "${name}" (${filePath})`);
+      return new FixtureBundle(name, filePath, {
+        version: FIXTURE_BUNDLE_VERSION,
+        name,
+        recordedAt: new Date().toISOString(),
+        requests: {},
+      });
+    }
+
+    const file: FixtureBundleFile = JSON.parse(content);
+    if (file.version !== FIXTURE_BUNDLE_VERSION || !file.requests) {
+      throw new Error(
+        `${filePath} is not a fixture bundle (expected version ${FIXTURE_BUNDLE_VERSION})`
+      );
+    }
+    console.log(
+      `${mode === "replay" ? "▶️  Replaying" : "🎙️  Recording into"} fixture bundle "${name}" (${
+        Object.keys(file.requests).length
+      } requests, recorded ${file.recordedAt})`
+    );
+    return new FixtureBundle(name, filePath, file);
+  }
+
+  get size(): number {
+    return Object.keys(this.file.requests).length;
+  }
+
+  /**
+   * Serve a recorded response: its data, or its error thrown again.
+   * Unrecorded requests throw an UnrecordedRequestError (and are logged, in
+   * case the caller swallows errors).
+   */
+  replay<T>(organization: string, request: FixtureRequest): T {
+    const record = this.file.requests[getFixtureKey(organization, request)];
+    if (!record) {
+      const error = new UnrecordedRequestError(
+        this.name,
+        organization,
+        request
+      );
+      console.error(`🚫 ${error.message}`);
+      throw error;
+    }
+
+    console.log(`▶️  REPLAY ${request.method} ${request.url}`);
+    if (record.error !== undefined) {
+      throw new Error(record.error);
+    }
+    return record.data as T;
+  }
+
+  /**
+   * Add a response (or failure) to the bundle and schedule a save
+   */
+  record(
+    organization: string,
+    request: FixtureRequest,
+    outcome: { data: unknown } | { error: string }
+  ): void {
+    const recordedAt = new Date().toISOString();
+    this.file.requests[getFixtureKey(organization, request)] = {
+      ...request,
+      organization,
+      recordedAt,
+      ...outcome,
+    };
+    this.file.recordedAt = recordedAt;
+    this.unsaved = true;
+    console.log(`🎙️  RECORD ${request.method} ${request.url}`);
+
+    if (!this.saveTimer) {
+      this.saveTimer = setTimeout(() => {
+        this.saveTimer = null;
+        this.save().catch((error) =>
+          console.error(
+            `❌ Failed to save fixture bundle "${this.name}":`,
+            error
+          )
+        );
+      }, FIXTURE_SAVE_DELAY_MS);
+    }
+  }
+
+  /**
+   * Write new recordings to disk now (after any save in progress)
+   */
+  save(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.saving = this.saving.then(async () => {
+      if (!this.unsaved) return;
+      this.unsaved = false;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      // Write a temporary file first, so a crash can't leave half a bundle
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(this.file, null, 2), "utf-8");
+      await fs.rename(tempPath, this.filePath);
+      console.log(
+        `💾 Saved fixture bundle "${this.name}" (${this.size} requests)`
+      );
+    });
+    return this.saving;
+  }
+}
+
+/**
+ * Get the shared bundle for fixture settings, loading it on first use
+ */
+export function getFixtureBundle(
+  options: FixtureOptions
+): Promise<FixtureBundle> {
+  const filePath = getFixturePath(options);
+  const mode = options.mode === "replay" ? "replay" : "record";
+  const key = `${mode}:${filePath}`;
+  let bundle = bundles.get(key);
+  if (!bundle) {
+    bundle = FixtureBundle.load(options.bundle, filePath, mode);
+    bundles.set(key, bundle);
+    // Let a failed load (e.g. a missing bundle) be retried
+    bundle.catch(() => bundles.delete(key));
+  }
+  return bundle;
+}
+
+/**
+ * Save every bundle with unsaved recordings (e.g. before a script exits)
+ */
+export async function saveFixtureBundles(): Promise<void> {
+  const loaded = await Promise.allSettled(Array.from(bundles.values()));
+  await Promise.all(
+    loaded.map((result) =>
+      result.status === "fulfilled" ? result.value.save() : undefined
+    )
+  );
+}
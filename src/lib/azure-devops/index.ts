@@ -7,34 +7,96 @@
 export { AzureDevOpsClient, createClient } from "./client";
 export type { AzureDevOpsClientConfig } from "./client";
 
+export {
+  PatCredential,
+  BearerTokenCredential,
+  ClientCredentialsCredential,
+  getCredentialFromHeader,
+  getConfigCredential,
+} from "./credentials";
+export type {
+  CredentialProvider,
+  CredentialType,
+  ClientCredentialsOptions,
+} from "./credentials";
+
+export {
+  RequestPool,
+  getRequestPool,
+  getRequestPoolStats,
+  getConcurrencyLimit,
+} from "./concurrency";
+export type { RequestPoolStats } from "./concurrency";
+
+export { getServerUrls, downgradeApiVersion } from "./server";
+export type { ServerUrls } from "./server";
+
 export {
   fetchCommits,
   groupCommitsByDate,
   calculateTotalChanges,
-  extractFileExtensions,
+  calculateTotalLineChanges,
+  fetchCommitChanges,
+  fetchCommitLineCounts,
+  fetchLineCountsForCommits,
+  fetchChangedPathsForCommits,
 } from "./commits";
-export type { FetchCommitsOptions } from "./commits";
+export type { FetchCommitsOptions, CommitLineCounts } from "./commits";
 
 export {
   fetchPullRequests,
+  fetchReviewedPullRequests,
+  fetchPRThreads,
+  fetchThreadsForPullRequests,
+  fetchPRSizes,
+  fetchPRChangedPaths,
+  findFirstVoteDate,
   calculateAvgDaysToMerge,
   getPRStatsByStatus,
   findLargestPR,
 } from "./pullRequests";
-export type { FetchPullRequestsOptions } from "./pullRequests";
+export type {
+  FetchPullRequestsOptions,
+  ReviewedPullRequest,
+  PullRequestSize,
+} from "./pullRequests";
+
+export {
+  isExcludedPath,
+  getFileExtension,
+  getLanguageForPath,
+} from "./languages";
+export type { ChangedFile } from "./languages";
 
 export { fetchWorkItems } from "./workItems";
 export type { FetchWorkItemsOptions } from "./workItems";
 
+export { fetchBuilds, getBuildDurationMinutes } from "./builds";
+export type { FetchBuildsOptions } from "./builds";
+
 export { fetchProjects } from "./projects";
 
+export {
+  fetchTeamsForProject,
+  fetchTeamMembers,
+  fetchTeamsWithMembers,
+} from "./teams";
+export type { TeamWithMembers } from "./teams";
+
 export {
   fetchRepositoriesForProject,
   fetchRepositoriesForProjects,
+  fetchDefaultBranch,
+  resolveTargetBranches,
+  toBranchName,
 } from "./repositories";
 export type { RepositoryWithProject } from "./repositories";
 
-export { aggregateStats } from "./aggregator";
+export {
+  aggregateStats,
+  aggregateTeamRollup,
+  compareWithYear,
+} from "./aggregator";
 export type { AggregatorInput } from "./aggregator";
 
 export {
@@ -43,7 +105,108 @@ export {
   clearCache,
   getCacheStats,
   isCacheEnabled,
+  createCacheStore,
+  getCacheStore,
+  setCacheStore,
+  closeCache,
+  readCacheEntry,
+  revalidateCache,
+  resetCacheCounters,
+} from "./cache";
+export type {
+  CacheCounters,
+  CacheEntry,
+  CacheScope,
+  CacheSubject,
 } from "./cache";
+export {
+  listCacheEntries,
+  inspectCacheEntries,
+  pruneCache,
+  invalidateCache,
+  exportCache,
+  importCache,
+} from "./cacheManagement";
+export type {
+  CacheBundle,
+  CacheEntryInfo,
+  CacheInvalidationFilter,
+} from "./cacheManagement";
+export {
+  CACHE_TTL_RULES,
+  getCachePolicy,
+  getCacheRule,
+  parseCachePolicySettings,
+  validateCachePolicySettings,
+} from "./cachePolicy";
+export type {
+  CachePolicy,
+  CachePolicySettings,
+  CacheTtlRule,
+} from "./cachePolicy";
+export {
+  CACHE_STORE_TYPES,
+  FileCacheStore,
+  MemoryCacheStore,
+  parseCacheStoreOptions,
+  validateCacheStoreOptions,
+} from "./cacheStore";
+export type {
+  CacheStore,
+  CacheStoreOptions,
+  CacheStoreType,
+} from "./cacheStore";
+export { SqliteCacheStore } from "./sqliteCacheStore";
+export { RedisCacheStore } from "./redisCacheStore";
+export {
+  FIXTURE_MODES,
+  FixtureBundle,
+  UnrecordedRequestError,
+  getFixtureBundle,
+  getFixtureKey,
+  getFixturePath,
+  parseFixtureOptions,
+  saveFixtureBundles,
+  validateFixtureOptions,
+} from "./fixtures";
+export type {
+  FixtureBundleFile,
+  FixtureMode,
+  FixtureOptions,
+  FixtureRecord,
+  FixtureRequest,
+} from "./fixtures";
+export {
+  closeSnapshotStore,
+  createSnapshot,
+  deleteSnapshot,
+  getSnapshot,
+  isSnapshotId,
+  parseSnapshotOptions,
+  pruneExpiredSnapshots,
+  validateSnapshotOptions,
+  validateSnapshotRequest,
+} from "./snapshots";
+export type {
+  CreatedSnapshot,
+  DeleteSnapshotResult,
+  SnapshotOptions,
+  WrappedSnapshot,
+} from "./snapshots";
+
+export {
+  DEMO_VOLUMES,
+  generateDemoData,
+  createDemoStats,
+  parseDemoOptions,
+  validateDemoOptions,
+} from "./demoData";
+export type {
+  DemoDataset,
+  DemoOptions,
+  DemoPersona,
+  DemoVolume,
+} from "./demoData";
 
 export * from "./types";
 
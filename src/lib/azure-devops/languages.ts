@@ -0,0 +1,74 @@
+import {
+  GENERATED_FILE_PATTERNS,
+  LANGUAGE_BY_EXTENSION,
+  LANGUAGE_BY_FILENAME,
+} from "../constants";
+
+/**
+ * A file changed in a repository (by a commit or a pull request)
+ */
+export interface ChangedFile {
+  repository: string; // Repository name or ID, to tell same-named files apart
+  path: string; // e.g. "/src/app/page.tsx"
+}
+
+// Compiled exclude globs, keyed by the glob text
+const globPatterns = new Map<string, RegExp>();
+
+/**
+ * Convert a simple glob to a path-suffix regex: `*` matches within one path
+ * segment, `**` across segments. "dist/**" matches "/web/dist/main.js".
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = globPatterns.get(glob);
+  if (!pattern) {
+    const source = glob
+      .trim()
+      .replace(/^\/+/, "")
+      .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+      .replace(/\*\*/g, "\u0000")
+      .replace(/\*/g, "[^/]*")
+      .replace(/\?/g, "[^/]")
+      .replace(/\u0000/g, ".*");
+    pattern = new RegExp(`(^|/)${source}$`, "i");
+    globPatterns.set(glob, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Whether a path should be left out of line counts and the language breakdown:
+ * built-in generated file patterns (lock files, minified bundles, build output)
+ * plus any configured exclude globs (ADO_EXCLUDE_PATHS)
+ */
+export function isExcludedPath(
+  path: string,
+  excludePaths: string[] = []
+): boolean {
+  return (
+    GENERATED_FILE_PATTERNS.some((pattern) => pattern.test(path)) ||
+    excludePaths.some((glob) => globToRegExp(glob).test(path))
+  );
+}
+
+/**
+ * File extension of a path (lowercase, without the dot), or null if none
+ */
+export function getFileExtension(path: string): string | null {
+  const fileName = path.split("/").pop() || "";
+  const match = fileName.match(/.\.([^.]+)$/);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Language of a file from its name or extension, or null if unknown
+ */
+export function getLanguageForPath(path: string): string | null {
+  const fileName = (path.split("/").pop() || "").toLowerCase();
+  if (LANGUAGE_BY_FILENAME[fileName]) {
+    return LANGUAGE_BY_FILENAME[fileName];
+  }
+
+  const ext = getFileExtension(path);
+  return (ext && LANGUAGE_BY_EXTENSION[ext]) || null;
+}
@@ -0,0 +1,770 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import {
+  GitCommit,
+  GitPullRequest,
+  GitPullRequestCommentThread,
+  GitRepository,
+  IdentityRef,
+  TeamProjectReference,
+  WorkItem,
+} from "./types";
+import { DemoOptions, generateDemoData } from "./demoData";
+import { toBranchName } from "./repositories";
+
+/**
+ * Everything a mock organization holds. Commits are on each repository's
+ * default branch; other branches don't exist.
+ */
+export interface MockAdoDataset {
+  organization: string;
+  projects: TeamProjectReference[];
+  repositories: GitRepository[]; // Each with its project
+  commits: Record<string, GitCommit[]>; // By repository ID
+  pullRequests: GitPullRequest[]; // Each with its repository
+  pullRequestChanges: Record<number, string[]>; // Changed file paths by PR ID
+  pullRequestThreads: Record<number, GitPullRequestCommentThread[]>; // By PR ID
+  identities: IdentityRef[]; // Found by the identities API
+  workItems: WorkItem[]; // Project from System.TeamProject or the area path
+}
+
+/**
+ * Failures served instead of a request's normal response
+ */
+export interface MockErrorRule {
+  path: string | RegExp; // A string matches anywhere in the path (case-insensitive)
+  status: number;
+  method?: "GET" | "POST"; // Any method when omitted
+  times?: number; // Fail this many matching requests, then pass (always when omitted)
+  message?: string;
+}
+
+/**
+ * Throttling and error injection, replaced as a whole with `reset()`
+ */
+export interface MockAdoFaults {
+  throttleEvery?: number; // Every Nth request gets a 429 (0 or omitted = never)
+  retryAfterSeconds?: number; // Retry-After sent with 429s and 503s (default 0)
+  errors?: MockErrorRule[];
+}
+
+export interface MockAdoServerOptions extends MockAdoFaults {
+  dataset: MockAdoDataset;
+  port?: number; // Any free port when omitted
+  pat?: string; // Only accept this PAT (any credential when omitted)
+}
+
+/**
+ * One request the mock received, and the status it answered with
+ */
+export interface MockRequestLog {
+  method: string;
+  path: string; // Without the organization, e.g. /Storefront/_apis/wit/wiql
+  query: Record<string, string>;
+  status: number;
+}
+
+export interface MockAdoServer {
+  url: string; // Use as ADO_BASE_URL; the organization is the collection name
+  port: number;
+  requests: MockRequestLog[];
+  reset(faults?: MockAdoFaults): void; // New faults, empty request log
+  close(): Promise<void>;
+}
+
+interface MockResponse {
+  status: number;
+  body?: unknown;
+}
+
+interface MockRoute {
+  method: "GET" | "POST";
+  pattern: RegExp; // Matched against the path after the organization
+  handle: (params: string[], query: URLSearchParams, body: any) => MockResponse;
+}
+
+// Page size when a request doesn't give $top
+const DEFAULT_TOP = 100;
+
+// What the file diffs API reports for every file: one edited block
+export const MOCK_FILE_DIFF_LINES = { added: 7, deleted: 3 };
+
+// Most work items the work items API returns per request
+const MAX_WORK_ITEM_IDS = 200;
+
+/**
+ * Build a mock organization from the demo data generator: the same persona,
+ * volume and seed always give the same organization.
+ */
+export function createMockDataset(options: DemoOptions): MockAdoDataset {
+  const demo = generateDemoData(options);
+
+  // One project per name, shared by its repositories
+  const projects = new Map<string, TeamProjectReference>();
+  const repositories = demo.repositories.map((repository) => {
+    const name = repository.project!.name;
+    if (!projects.has(name)) projects.set(name, repository.project!);
+    return { ...repository, project: projects.get(name) };
+  });
+
+  const commits: Record<string, GitCommit[]> = {};
+  for (const repository of repositories) {
+    commits[repository.id] = demo.commits.filter((commit) =>
+      commit.remoteUrl?.includes(`/_git/${repository.name}/`)
+    );
+  }
+
+  const pullRequestChanges: Record<number, string[]> = {};
+  for (const [id, size] of Object.entries(demo.pullRequestSizes)) {
+    pullRequestChanges[Number(id)] = size.paths;
+  }
+
+  // The user's first vote on each PR they reviewed, as a vote update thread
+  const pullRequestThreads: Record<number, GitPullRequestCommentThread[]> = {};
+  for (const reviewed of demo.reviewedPullRequests) {
+    const reviewer = reviewed.pullRequest.reviewers.find(
+      ({ id }) => id === reviewed.reviewerId
+    );
+    if (!reviewed.firstVoteDate || !reviewer) continue;
+    pullRequestThreads[reviewed.pullRequest.pullRequestId] = [
+      {
+        id: 1,
+        publishedDate: reviewed.firstVoteDate,
+        lastUpdatedDate: reviewed.firstVoteDate,
+        comments: [],
+        properties: {
+          CodeReviewThreadType: {
+            $type: "System.String",
+            $value: "VoteUpdate",
+          },
+          CodeReviewVoteResult: {
+            $type: "System.Int32",
+            $value: `${reviewed.vote}`,
+          },
+          CodeReviewVotedByIdentity: { $type: "System.String", $value: "1" },
+        },
+        identities: { "1": toIdentityRef(reviewer) },
+        isDeleted: false,
+      },
+    ];
+  }
+
+  const pullRequests = [
+    ...demo.pullRequests,
+    ...demo.reviewedPullRequests.map(({ pullRequest }) => pullRequest),
+  ].map((pr) => ({
+    ...pr,
+    repository: repositories.find(({ id }) => id === pr.repository?.id),
+  }));
+  const identities = new Map<string, IdentityRef>();
+  for (const pr of pullRequests) {
+    for (const identity of [pr.createdBy, ...pr.reviewers]) {
+      identities.set(identity.id, toIdentityRef(identity));
+    }
+  }
+
+  return {
+    organization: demo.config.organization,
+    projects: Array.from(projects.values()),
+    repositories,
+    commits,
+    pullRequests,
+    pullRequestChanges,
+    pullRequestThreads,
+    identities: Array.from(identities.values()),
+    workItems: demo.workItems,
+  };
+}
+
+/**
+ * Start a local server implementing the Azure DevOps REST endpoints the
+ * fetchers call (projects, repositories, commits, pull requests, threads,
+ * iterations, file diffs, identities, WIQL and work items) over a dataset.
+ *
+ * Requests are filtered and paged like the real API. Every request is
+ * logged, and faults can throttle (429) every Nth request or fail the ones
+ * matching a rule.
+ */
+export async function startMockAdoServer(
+  options: MockAdoServerOptions
+): Promise<MockAdoServer> {
+  const { dataset, pat } = options;
+  const routes = createRoutes(dataset);
+  const requests: MockRequestLog[] = [];
+  let faults: MockAdoFaults = options;
+  let requestCount = 0;
+  let errorCounts = new Map<MockErrorRule, number>();
+
+  const respond = (
+    method: string,
+    url: URL,
+    authorization: string | undefined,
+    rawBody: string
+  ): MockResponse => {
+    const [, organization, ...rest] = url.pathname.split("/");
+    const path = `/${rest.join("/")}`;
+
+    if (
+      decodeURIComponent(organization || "").toLowerCase() !==
+      dataset.organization.toLowerCase()
+    ) {
+      return errorResponse(
+        404,
+        `The organization or collection '${organization}' was not found.`
+      );
+    }
+    if (!isAuthorized(authorization, pat)) {
+      return errorResponse(
+        401,
+        "TF400813: The user is not authorized to access this resource."
+      );
+    }
+
+    requestCount++;
+    if (faults.throttleEvery && requestCount % faults.throttleEvery === 0) {
+      return errorResponse(
+        429,
+        "TF400733: The request has been throttled (mock throttling)."
+      );
+    }
+
+    const rule = faults.errors?.find((rule) => {
+      if (rule.method && rule.method !== method) return false;
+      const matches =
+        typeof rule.path === "string"
+          ? path.toLowerCase().includes(rule.path.toLowerCase())
+          : rule.path.test(path);
+      return (
+        matches &&
+        (rule.times === undefined || (errorCounts.get(rule) ?? 0) < rule.times)
+      );
+    });
+    if (rule) {
+      errorCounts.set(rule, (errorCounts.get(rule) ?? 0) + 1);
+      return errorResponse(
+        rule.status,
+        rule.message || `Injected ${rule.status} for ${method} ${path}`
+      );
+    }
+
+    for (const route of routes) {
+      const match = route.method === method && path.match(route.pattern);
+      if (!match) continue;
+      let body: any;
+      try {
+        body = rawBody ? JSON.parse(rawBody) : undefined;
+      } catch {
+        return errorResponse(400, "The request body is not valid JSON.");
+      }
+      return route.handle(
+        match.slice(1).map(decodeURIComponent),
+        url.searchParams,
+        body
+      );
+    }
+    return errorResponse(404, `The resource ${method} ${path} does not exist.`);
+  };
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const method = req.method || "GET";
+      const url = new URL(req.url || "/", "http://localhost");
+      let response: MockResponse;
+      try {
+        response = respond(
+          method,
+          url,
+          req.headers.authorization,
+          Buffer.concat(chunks).toString("utf-8")
+        );
+      } catch (error: any) {
+        response = errorResponse(500, `Mock server error: ${error.message}`);
+      }
+
+      requests.push({
+        method,
+        path: url.pathname.replace(/^\/[^/]*/, ""),
+        query: Object.fromEntries(url.searchParams),
+        status: response.status,
+      });
+
+      const headers: http.OutgoingHttpHeaders = {
+        "Content-Type": "application/json; charset=utf-8",
+      };
+      if (response.status === 429 || response.status === 503) {
+        headers["Retry-After"] = `${faults.retryAfterSeconds ?? 0}`;
+      }
+      res.writeHead(response.status, headers);
+      res.end(JSON.stringify(response.body ?? {}));
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, "127.0.0.1", () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    port,
+    requests,
+    reset(newFaults = {}) {
+      faults = newFaults;
+      requestCount = 0;
+      errorCounts = new Map();
+      requests.length = 0;
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
+
+/**
+ * The endpoints, matched in order against the path after the organization
+ */
+function createRoutes(dataset: MockAdoDataset): MockRoute[] {
+  const findProject = (nameOrId: string) =>
+    dataset.projects.find((project) => matchesNameOrId(project, nameOrId));
+  const findRepository = (nameOrId: string, project?: string) =>
+    dataset.repositories.find(
+      (repository) =>
+        matchesNameOrId(repository, nameOrId) &&
+        (!project || matchesNameOrId(repository.project!, project))
+    );
+  const findPullRequest = (repositoryId: string, pullRequestId: string) => {
+    const repository = findRepository(repositoryId);
+    return dataset.pullRequests.find(
+      (pr) =>
+        pr.repository?.id === repository?.id &&
+        pr.pullRequestId === Number(pullRequestId)
+    );
+  };
+
+  const repositoryNotFound = (nameOrId: string) =>
+    errorResponse(
+      404,
+      `TF401019: The Git repository with name or identifier ${nameOrId} does not exist or you do not have permissions for the operation you are attempting.`
+    );
+  const projectNotFound = (project: string) =>
+    errorResponse(
+      404,
+      `TF200016: The following project does not exist: ${project}.`
+    );
+  const pullRequestNotFound = (pullRequestId: string) =>
+    errorResponse(
+      404,
+      `TF401180: The requested pull request ${pullRequestId} was not found.`
+    );
+
+  return [
+    {
+      method: "GET",
+      pattern: /^\/_apis\/projects$/i,
+      handle: (_, query) => list(paginate(dataset.projects, query, "")),
+    },
+    {
+      method: "GET",
+      pattern: /^\/_apis\/identities$/i,
+      handle: (_, query) => {
+        const value = (query.get("filterValue") || "").toLowerCase();
+        const identities = dataset.identities.filter(
+          (identity) =>
+            identity.uniqueName.toLowerCase() === value ||
+            identity.displayName.toLowerCase() === value
+        );
+        return list(
+          identities.map((identity) => ({
+            id: identity.id,
+            providerDisplayName: identity.displayName,
+            isActive: true,
+            properties: {
+              DisplayName: {
+                $type: "System.String",
+                $value: identity.displayName,
+              },
+              Mail: { $type: "System.String", $value: identity.uniqueName },
+              Account: { $type: "System.String", $value: identity.uniqueName },
+            },
+          }))
+        );
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/([^/]+)\/_apis\/git\/repositories$/i,
+      handle: ([project]) =>
+        findProject(project)
+          ? list(
+              dataset.repositories.filter((repository) =>
+                matchesNameOrId(repository.project!, project)
+              )
+            )
+          : projectNotFound(project),
+    },
+    {
+      method: "GET",
+      pattern: /^\/([^/]+)\/_apis\/git\/repositories\/([^/]+)$/i,
+      handle: ([project, nameOrId]) => {
+        const repository = findRepository(nameOrId, project);
+        return repository
+          ? { status: 200, body: repository }
+          : repositoryNotFound(nameOrId);
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/([^/]+)\/_apis\/git\/repositories\/([^/]+)\/commits$/i,
+      handle: ([project, nameOrId], query) => {
+        const repository = findRepository(nameOrId, project);
+        if (!repository) return repositoryNotFound(nameOrId);
+
+        const branch = query.get("searchCriteria.itemVersion.version");
+        if (
+          branch &&
+          (!repository.defaultBranch ||
+            toBranchName(repository.defaultBranch) !== branch)
+        ) {
+          return errorResponse(
+            404,
+            `TF401175: The version descriptor <Branch: ${branch} > could not be resolved to a version commit.`
+          );
+        }
+
+        const from = parseDate(query.get("searchCriteria.fromDate"), false);
+        const to = parseDate(query.get("searchCriteria.toDate"), true);
+        const author = query.get("searchCriteria.author")?.toLowerCase();
+        const commits = (dataset.commits[repository.id] || []).filter(
+          (commit) => {
+            const date = Date.parse(commit.author.date);
+            return (
+              (from === undefined || date >= from) &&
+              (to === undefined || date <= to) &&
+              (!author ||
+                commit.author.email.toLowerCase().includes(author) ||
+                commit.author.name.toLowerCase().includes(author))
+            );
+          }
+        );
+        return list(paginate(commits, query, "searchCriteria."));
+      },
+    },
+    {
+      method: "GET",
+      pattern:
+        /^(?:\/[^/]+)?\/_apis\/git\/repositories\/([^/]+)\/pullrequests$/i,
+      handle: ([nameOrId], query) => {
+        const repository = findRepository(nameOrId);
+        if (!repository) return repositoryNotFound(nameOrId);
+
+        const status = query.get("searchCriteria.status") || "active";
+        const creatorId = query.get("searchCriteria.creatorId");
+        const reviewerId = query.get("searchCriteria.reviewerId");
+        const targetRefName = query.get("searchCriteria.targetRefName");
+        const pullRequests = dataset.pullRequests
+          .filter(
+            (pr) =>
+              pr.repository?.id === repository.id &&
+              (status === "all" || pr.status === status) &&
+              (!creatorId || pr.createdBy.id === creatorId) &&
+              (!reviewerId ||
+                pr.reviewers.some((reviewer) => reviewer.id === reviewerId)) &&
+              (!targetRefName || pr.targetRefName === targetRefName)
+          )
+          // Newest first, like the real API
+          .sort((a, b) => b.creationDate.localeCompare(a.creationDate));
+        return list(paginate(pullRequests, query, ""));
+      },
+    },
+    {
+      method: "GET",
+      pattern:
+        /^(?:\/[^/]+)?\/_apis\/git\/repositories\/([^/]+)\/pullrequests\/(\d+)\/threads$/i,
+      handle: ([repositoryId, pullRequestId]) =>
+        findPullRequest(repositoryId, pullRequestId)
+          ? list(dataset.pullRequestThreads[Number(pullRequestId)] || [])
+          : pullRequestNotFound(pullRequestId),
+    },
+    {
+      method: "GET",
+      pattern:
+        /^(?:\/[^/]+)?\/_apis\/git\/repositories\/([^/]+)\/pullrequests\/(\d+)\/iterations$/i,
+      handle: ([repositoryId, pullRequestId]) => {
+        const pr = findPullRequest(repositoryId, pullRequestId);
+        if (!pr) return pullRequestNotFound(pullRequestId);
+        // A single iteration: the PR's full diff
+        return list([
+          {
+            id: 1,
+            author: pr.createdBy,
+            createdDate: pr.creationDate,
+            updatedDate: pr.closedDate || pr.creationDate,
+            sourceRefCommit: { commitId: `pr-${pr.pullRequestId}-source` },
+            targetRefCommit: { commitId: `pr-${pr.pullRequestId}-target` },
+            commonRefCommit: { commitId: `pr-${pr.pullRequestId}-base` },
+          },
+        ]);
+      },
+    },
+    {
+      method: "GET",
+      pattern:
+        /^(?:\/[^/]+)?\/_apis\/git\/repositories\/([^/]+)\/pullrequests\/(\d+)\/iterations\/(\d+)\/changes$/i,
+      handle: ([repositoryId, pullRequestId, iterationId], query) => {
+        if (!findPullRequest(repositoryId, pullRequestId)) {
+          return pullRequestNotFound(pullRequestId);
+        }
+        if (iterationId !== "1") {
+          return errorResponse(
+            404,
+            `TF401175: Iteration ${iterationId} of pull request ${pullRequestId} does not exist.`
+          );
+        }
+
+        const paths = dataset.pullRequestChanges[Number(pullRequestId)] || [];
+        const top = parseCount(query.get("$top"), DEFAULT_TOP);
+        const skip = parseCount(query.get("$skip"), 0);
+        const changeEntries = paths
+          .slice(skip, skip + top)
+          .map((path, index) => ({
+            changeTrackingId: skip + index + 1,
+            changeId: skip + index + 1,
+            item: { path, gitObjectType: "blob" },
+            changeType: "edit",
+          }));
+        // nextSkip/nextTop only when there's more to page through
+        return {
+          status: 200,
+          body:
+            skip + top < paths.length
+              ? { changeEntries, nextSkip: skip + top, nextTop: top }
+              : { changeEntries },
+        };
+      },
+    },
+    {
+      method: "POST",
+      pattern: /^(?:\/[^/]+)?\/_apis\/git\/repositories\/([^/]+)\/filediffs$/i,
+      handle: ([nameOrId], _, body) => {
+        if (!findRepository(nameOrId)) return repositoryNotFound(nameOrId);
+        const { added, deleted } = MOCK_FILE_DIFF_LINES;
+        return list(
+          (body?.fileDiffParams || []).map(
+            (file: { path: string; originalPath?: string }) => ({
+              path: file.path,
+              originalPath: file.originalPath,
+              lineDiffBlocks: [
+                {
+                  changeType: "edit",
+                  originalLineNumberStart: 1,
+                  originalLinesCount: deleted,
+                  modifiedLineNumberStart: 1,
+                  modifiedLinesCount: added,
+                },
+              ],
+            })
+          )
+        );
+      },
+    },
+    {
+      method: "POST",
+      pattern: /^\/([^/]+)\/_apis\/wit\/wiql$/i,
+      handle: ([project], _, body) => {
+        if (!findProject(project)) return projectNotFound(project);
+        const criteria =
+          typeof body?.query === "string" ? parseWiql(body.query) : null;
+        if (!criteria) {
+          return errorResponse(
+            400,
+            "VS402336: The WIQL query is missing or uses clauses the mock server doesn't support."
+          );
+        }
+
+        const workItems = dataset.workItems.filter((item) => {
+          const fields = item.fields;
+          const assignedTo = fields["System.AssignedTo"];
+          const changed = Date.parse(fields["System.ChangedDate"]);
+          return (
+            (!criteria.project ||
+              getWorkItemProject(item).toLowerCase() ===
+                criteria.project.toLowerCase()) &&
+            (!criteria.assignedTo ||
+              assignedTo?.uniqueName.toLowerCase() ===
+                criteria.assignedTo.toLowerCase()) &&
+            (!criteria.states ||
+              criteria.states.includes(fields["System.State"])) &&
+            (criteria.from === undefined || changed >= criteria.from) &&
+            (criteria.to === undefined || changed <= criteria.to)
+          );
+        });
+        return {
+          status: 200,
+          body: {
+            queryType: "flat",
+            queryResultType: "workItem",
+            asOf: new Date().toISOString(),
+            columns: [],
+            workItems: workItems.map((item) => ({
+              id: item.id,
+              url: item.url,
+            })),
+          },
+        };
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/([^/]+)\/_apis\/wit\/workitems$/i,
+      handle: ([project], query) => {
+        if (!findProject(project)) return projectNotFound(project);
+        const ids = (query.get("ids") || "")
+          .split(",")
+          .map(Number)
+          .filter((id) => id > 0);
+        if (ids.length === 0) {
+          return errorResponse(400, "VS403494: The ids parameter is required.");
+        }
+        if (ids.length > MAX_WORK_ITEM_IDS) {
+          return errorResponse(
+            400,
+            `VS402337: The number of work items requested exceeds the limit of ${MAX_WORK_ITEM_IDS}.`
+          );
+        }
+
+        const fields = query.get("fields")?.split(",");
+        const workItems = ids
+          .map((id) => dataset.workItems.find((item) => item.id === id))
+          .filter((item): item is WorkItem => !!item)
+          .map((item) =>
+            fields
+              ? {
+                  ...item,
+                  fields: Object.fromEntries(
+                    Object.entries(item.fields).filter(([name]) =>
+                      fields.includes(name)
+                    )
+                  ),
+                }
+              : item
+          );
+        return list(workItems);
+      },
+    },
+  ];
+}
+
+/**
+ * The clauses of a WIQL query the work items fetcher builds
+ */
+function parseWiql(query: string): {
+  project?: string;
+  assignedTo?: string;
+  states?: string[];
+  from?: number;
+  to?: number;
+} | null {
+  if (!/\bFROM\s+WorkItems\b/i.test(query)) return null;
+  const quoted = "'((?:[^']|'')*)'";
+  const value = (pattern: string) => {
+    const match = query.match(new RegExp(pattern, "i"));
+    return match ? match[1].replace(/''/g, "'") : undefined;
+  };
+  const states = query
+    .match(/\[System\.State\]\s+IN\s*\(([^)]*)\)/i)?.[1]
+    .split(",")
+    .map((state) => state.trim().replace(/^'|'$/g, ""));
+
+  return {
+    project: value(`\\[System\\.TeamProject\\]\\s*=\\s*${quoted}`),
+    assignedTo: value(`\\[System\\.AssignedTo\\]\\s*=\\s*${quoted}`),
+    states,
+    from: parseDate(
+      value(`\\[System\\.ChangedDate\\]\\s*>=\\s*${quoted}`),
+      false
+    ),
+    to: parseDate(value(`\\[System\\.ChangedDate\\]\\s*<=\\s*${quoted}`), true),
+  };
+}
+
+/**
+ * A work item's project: System.TeamProject, else the root of its area path
+ */
+function getWorkItemProject(item: WorkItem): string {
+  const project = item.fields["System.TeamProject"];
+  return typeof project === "string"
+    ? project
+    : (item.fields["System.AreaPath"] || "").split("\\")[0];
+}
+
+/**
+ * A page of items per the request's $top and $skip (with a prefix such as
+ * "searchCriteria." for APIs that nest them)
+ */
+function paginate<T>(items: T[], query: URLSearchParams, prefix: string): T[] {
+  const top = parseCount(query.get(`${prefix}$top`), DEFAULT_TOP);
+  const skip = parseCount(query.get(`${prefix}$skip`), 0);
+  return items.slice(skip, skip + top);
+}
+
+function parseCount(value: string | null, fallback: number): number {
+  const count = parseInt(value || "");
+  return isNaN(count) || count < 0 ? fallback : count;
+}
+
+/**
+ * Parse a date criterion; date-only values cover the whole day
+ */
+function parseDate(
+  value: string | null | undefined,
+  endOfDay: boolean
+): number | undefined {
+  if (!value) return undefined;
+  const time = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? Date.parse(`${value}T${endOfDay ? "23:59:59.999" : "00:00:00"}Z`)
+    : Date.parse(value);
+  return isNaN(time) ? undefined : time;
+}
+
+function matchesNameOrId(
+  entity: { id: string; name: string },
+  nameOrId: string
+): boolean {
+  return (
+    entity.id.toLowerCase() === nameOrId.toLowerCase() ||
+    entity.name.toLowerCase() === nameOrId.toLowerCase()
+  );
+}
+
+function isAuthorized(
+  authorization: string | undefined,
+  pat: string | undefined
+): boolean {
+  const [scheme, value] = (authorization || "").trim().split(/\s+/, 2);
+  if (!value) return false;
+  if (!pat) return true;
+  return scheme.toLowerCase() === "basic"
+    ? Buffer.from(value, "base64").toString("utf8").endsWith(`:${pat}`)
+    : value === pat;
+}
+
+function toIdentityRef(identity: IdentityRef): IdentityRef {
+  const { id, displayName, uniqueName } = identity;
+  return { id, displayName, uniqueName };
+}
+
+function list(value: unknown[]): MockResponse {
+  return { status: 200, body: { count: value.length, value } };
+}
+
+function errorResponse(status: number, message: string): MockResponse {
+  return {
+    status,
+    body: { $id: "1", innerException: null, message, errorCode: 0 },
+  };
+}
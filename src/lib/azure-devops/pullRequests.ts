@@ -1,22 +1,54 @@
 import { AzureDevOpsClient } from "./client";
+import { CredentialProvider } from "./credentials";
 import {
   GitPullRequest,
   GitPullRequestResponse,
   PullRequestStatus,
   GitPullRequestIteration,
   GitPullRequestIterationResponse,
+  GitPullRequestCommentThread,
+  GitPullRequestCommentThreadResponse,
+  GitPullRequestIterationChanges,
+  GitPullRequestChange,
+  GitRepository,
+  FileDiffParams,
 } from "./types";
+import { CacheSubject, readCache, writeCache } from "./cache";
+import { countFileDiffLines } from "./commits";
+import { isExcludedPath } from "./languages";
+import { resolveTargetBranches } from "./repositories";
+import { PR_CHANGES_PAGE_SIZE, PR_SIZE_BATCH_SIZE } from "../constants";
+import { toBoundInstant } from "../dateRange";
+import { createIdentityMatcher, isAccountAlias } from "../identity";
+
+// Cache key for computed PR sizes (not an API URL)
+const PR_SIZE_CACHE_KEY = "pr-size";
 
 export interface FetchPullRequestsOptions {
   organization: string;
   project: string;
   repository: string;
-  pat: string;
-  fromDate: string; // ISO 8601 format: YYYY-MM-DD
-  toDate: string; // ISO 8601 format: YYYY-MM-DD
+  pat?: string; // Personal Access Token, unless a credential is given
+  credential?: CredentialProvider; // PAT, bearer token or service principal
+  fromDate: string; // ISO 8601: YYYY-MM-DD (UTC day) or an instant
+  toDate: string; // ISO 8601: YYYY-MM-DD (UTC day, inclusive) or an instant
   userEmail?: string; // Optional: filter by specific user
-  includeReviewed?: boolean; // Include PRs where user was a reviewer
+  aliases?: string[]; // Other identities of the user (emails and unique names are resolved)
+  defaultBranch?: string; // Repo's default branch, if known (looked up otherwise)
+  extraBranches?: string[]; // Additional target branches, e.g. release branches
   enableCache?: boolean; // Enable response caching (default: true)
+  onPageFetched?: (page: number, items: number) => void; // Progress hook per page
+}
+
+/**
+ * A pull request the user reviewed, with their final and first vote
+ */
+export interface ReviewedPullRequest {
+  pullRequest: GitPullRequest;
+  reviewerId: string; // The user's Azure DevOps identity ID (or an alias's)
+  vote: number; // Final vote (see PR_VOTES)
+  firstVoteDate?: string; // When the user first voted, from the PR's threads
+  threads: GitPullRequestCommentThread[]; // Comment and system threads on the PR
 }
 
 /**
@@ -30,11 +62,15 @@ export async function fetchPullRequests(
     project,
     repository,
     pat,
+    credential,
     fromDate,
     toDate,
     userEmail,
-    includeReviewed = true,
+    aliases = [],
+    defaultBranch,
+    extraBranches,
     enableCache = true,
+    onPageFetched,
   } = options;
 
   console.log(
@@ -52,75 +88,88 @@ export async function fetchPullRequests(
     throw new Error(error);
   }
 
-  const client = new AzureDevOpsClient({ organization, pat, enableCache });
+  const client = new AzureDevOpsClient({
+    organization,
+    pat,
+    credential,
+    enableCache,
+  });
   const allPRs: GitPullRequest[] = [];
 
   try {
-    // Get repository ID first
-    console.log(`📦 Fetching repository info...`);
-    const repoUrl = `/${project}/_apis/git/repositories/${repository}`;
-    const repo = await client.get<any>(repoUrl);
-    console.log(`✅ Repository ID: ${repo.id}`);
-    const repositoryId = repo.id;
-
-    // Resolve user email to ID for server-side filtering (REQUIRED)
-    console.log(
-      `🔍 Resolving user email '${userEmail}' to ID for server-side filtering...`
-    );
-    const creatorId = await resolveUserEmailToId(
+    const {
+      repositoryId,
+      userIds: creatorIds,
+      defaultBranch: repoDefaultBranch,
+    } = await resolveRepositoryAndUser(
       client,
       organization,
-      userEmail
+      project,
+      repository,
+      userEmail,
+      aliases
     );
+    const seenPRIds = new Set<number>();
 
-    if (!creatorId) {
-      const error = `Failed to resolve user email '${userEmail}' to Azure DevOps user ID. Cannot proceed without server-side filtering. See detailed error messages above.`;
-      console.error(`❌ ${error}`);
-      throw new Error(error);
-    }
-
-    console.log(`✅ Successfully resolved user ID: ${creatorId}`);
-
-    // Fetch completed PRs to main branches (master, main, dev) created by the specific user
+    // Fetch completed PRs created by the specific user that target the repo's
+    // default branch or one of the configured extra branches
     // Uses server-side filtering by user ID (required for efficiency)
-    // Try multiple target branches in order of preference
-    const branchesToTry = ["master", "main", "dev"];
+    const targetBranches = resolveTargetBranches(
+      defaultBranch ?? repoDefaultBranch,
+      extraBranches
+    );
+    if (targetBranches.length === 0) {
+      console.log(`⚠️ Repository has no default branch (empty repository)`);
+    }
 
-    for (const branch of branchesToTry) {
-      console.log(
-        `📝 Fetching completed PRs to ${branch} branch by user ${userEmail} (ID: ${creatorId})...`
-      );
-      try {
-        const createdPRs = await fetchPRsByStatus(
-          client,
-          repositoryId,
-          fromDate,
-          toDate,
-          "completed", // Only completed PRs
-          `refs/heads/${branch}`, // Target branch
-          creatorId // Server-side filter by creator ID (REQUIRED)
-        );
+    for (const branch of targetBranches) {
+      // One query per identity (the user's account and any aliases); a
+      // failing identity is skipped, but if all fail the repo has failed
+      let failedIdentities = 0;
+      let lastError: unknown;
+      for (const creatorId of creatorIds) {
         console.log(
-          `✅ Found ${createdPRs.length} completed PRs to ${branch} by this user`
+          `📝 Fetching completed PRs to ${branch} branch by user ${userEmail} (ID: ${creatorId})...`
         );
-        allPRs.push(...createdPRs);
-      } catch (err) {
-        console.log(`⚠️ Could not fetch PRs for branch '${branch}': ${err}`);
+        try {
+          const createdPRs = await fetchPRsByStatus(
+            client,
+            repositoryId,
+            { project, repository },
+            fromDate,
+            toDate,
+            "completed", // Only completed PRs
+            `refs/heads/${branch}`, // Target branch
+            { creatorId }, // Server-side filter by creator ID (REQUIRED)
+            onPageFetched
+          );
+          console.log(
+            `✅ Found ${createdPRs.length} completed PRs to ${branch} by this user`
+          );
+          for (const pr of createdPRs) {
+            if (!seenPRIds.has(pr.pullRequestId)) {
+              seenPRIds.add(pr.pullRequestId);
+              allPRs.push(pr);
+            }
+          }
+        } catch (err) {
+          failedIdentities++;
+          lastError = err;
+          console.log(
+            `⚠️ Could not fetch PRs to '${branch}' by ${creatorId}, skipping this identity: ${err}`
+          );
+        }
+      }
+      if (failedIdentities === creatorIds.length) {
+        throw lastError;
       }
     }
 
-    // Skip reviewed PRs fetching - only interested in user's own PRs to main branches
-    // This dramatically reduces data transfer
+    // PRs the user reviewed are fetched separately by fetchReviewedPullRequests
 
     // Filter by date range (Azure DevOps doesn't support date filtering directly)
     console.log(`📅 Filtering PRs by date range...`);
-    const filteredPRs = allPRs.filter((pr) => {
-      const creationDate = new Date(pr.creationDate);
-      const from = new Date(fromDate);
-      const to = new Date(toDate);
-      to.setHours(23, 59, 59, 999); // Include entire end date
-      return creationDate >= from && creationDate <= to;
-    });
+    const filteredPRs = filterPRsByCreationDate(allPRs, fromDate, toDate);
     console.log(
       `✅ ${filteredPRs.length} PRs in date range (filtered ${
         allPRs.length - filteredPRs.length
@@ -144,11 +193,303 @@ export async function fetchPullRequests(
   }
 }
 
+/**
+ * Fetch pull requests in a repository where the user was a reviewer
+ * (excluding their own PRs), created within the date range.
+ *
+ * For each PR we also read its threads to find when the user first voted,
+ * since IdentityRefWithVote only carries the final vote.
+ */
+export async function fetchReviewedPullRequests(
+  options: FetchPullRequestsOptions
+): Promise<ReviewedPullRequest[]> {
+  const {
+    organization,
+    project,
+    repository,
+    pat,
+    credential,
+    fromDate,
+    toDate,
+    userEmail,
+    aliases = [],
+    enableCache = true,
+    onPageFetched,
+  } = options;
+
+  console.log(
+    `👀 fetchReviewedPullRequests: Starting for ${organization}/${project}/${repository}`
+  );
+
+  if (!userEmail) {
+    const error =
+      "userEmail is required to fetch reviewed pull requests. Cannot proceed without a specific user filter.";
+    console.error(`❌ ${error}`);
+    throw new Error(error);
+  }
+
+  const client = new AzureDevOpsClient({
+    organization,
+    pat,
+    credential,
+    enableCache,
+  });
+
+  try {
+    const { repositoryId, userIds } = await resolveRepositoryAndUser(
+      client,
+      organization,
+      project,
+      repository,
+      userEmail,
+      aliases
+    );
+
+    // Any target branch and status - a review counts wherever the PR ended up.
+    // PRs reviewed under several of the user's identities are kept once.
+    const reviewerPRs: GitPullRequest[] = [];
+    const seenPRIds = new Set<number>();
+    for (const reviewerId of userIds) {
+      const prs = await fetchPRsByStatus(
+        client,
+        repositoryId,
+        { project, repository },
+        fromDate,
+        toDate,
+        "all",
+        undefined,
+        { reviewerId },
+        onPageFetched
+      );
+      for (const pr of prs) {
+        if (!seenPRIds.has(pr.pullRequestId)) {
+          seenPRIds.add(pr.pullRequestId);
+          reviewerPRs.push(pr);
+        }
+      }
+    }
+
+    const inRange = filterPRsByCreationDate(
+      reviewerPRs,
+      fromDate,
+      toDate
+    ).filter((pr) => !userIds.includes(pr.createdBy.id));
+
+    console.log(
+      `✅ ${inRange.length} PRs reviewed in date range (of ${reviewerPRs.length} returned)`
+    );
+
+    const reviewed = await Promise.all(
+      inRange.map(async (pr) => {
+        const reviewer = pr.reviewers?.find((r) => userIds.includes(r.id));
+        const reviewerId = reviewer?.id ?? userIds[0];
+        const threads = await fetchPRThreads(
+          client,
+          repositoryId,
+          pr.pullRequestId,
+          { project, repository }
+        );
+        return {
+          pullRequest: pr,
+          reviewerId,
+          vote: reviewer?.vote ?? 0,
+          firstVoteDate: findFirstVoteDate(threads, reviewerId),
+          threads,
+        };
+      })
+    );
+
+    console.log(
+      `🎉 ✓ Fetched ${reviewed.length} reviewed pull requests from ${fromDate} to ${toDate}`
+    );
+    return reviewed;
+  } catch (error) {
+    console.error(
+      `❌ Error fetching reviewed pull requests for ${organization}/${project}/${repository}:`,
+      error
+    );
+    throw new Error(
+      `Failed to fetch reviewed pull requests: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+/**
+ * Look up the repository ID and default branch, and resolve the user's email to
+ * an Azure DevOps ID. The IDs are required for server-side PR filtering, so this
+ * throws if either fails.
+ *
+ * Account aliases (emails and unique names) are resolved too, and their IDs
+ * follow the user's own in `userIds`; aliases that can't be resolved are skipped.
+ */
+async function resolveRepositoryAndUser(
+  client: AzureDevOpsClient,
+  organization: string,
+  project: string,
+  repository: string,
+  userEmail: string,
+  aliases: string[] = []
+): Promise<{
+  repositoryId: string;
+  userIds: string[];
+  defaultBranch?: string;
+}> {
+  // Get repository ID first
+  console.log(`📦 Fetching repository info...`);
+  const repoUrl = `/${project}/_apis/git/repositories/${repository}`;
+  const repo = await client.get<GitRepository>(repoUrl);
+  console.log(
+    `✅ Repository ID: ${repo.id}, default branch: ${
+      repo.defaultBranch || "(none)"
+    }`
+  );
+
+  // Resolve user email to ID for server-side filtering (REQUIRED)
+  console.log(
+    `🔍 Resolving user email '${userEmail}' to ID for server-side filtering...`
+  );
+  const userId = await resolveUserEmailToId(client, organization, userEmail);
+
+  if (!userId) {
+    const error = `Failed to resolve user email '${userEmail}' to Azure DevOps user ID. Cannot proceed without server-side filtering. See detailed error messages above.`;
+    console.error(`❌ ${error}`);
+    throw new Error(error);
+  }
+
+  console.log(`✅ Successfully resolved user ID: ${userId}`);
+
+  const userIds = [userId];
+  for (const alias of aliases.filter(isAccountAlias)) {
+    const aliasId = await resolveUserEmailToId(client, organization, alias);
+    if (!aliasId) {
+      console.warn(
+        `⚠️ Skipping alias '${alias}': could not resolve it to an ID`
+      );
+    } else if (!userIds.includes(aliasId)) {
+      console.log(`✅ Resolved alias '${alias}' to ID: ${aliasId}`);
+      userIds.push(aliasId);
+    }
+  }
+
+  return {
+    repositoryId: repo.id,
+    userIds,
+    defaultBranch: repo.defaultBranch,
+  };
+}
+
+/**
+ * Keep PRs created within the date range
+ * (Azure DevOps doesn't support date filtering directly)
+ */
+function filterPRsByCreationDate(
+  prs: GitPullRequest[],
+  fromDate: string,
+  toDate: string
+): GitPullRequest[] {
+  const from = new Date(toBoundInstant(fromDate, false));
+  const to = new Date(toBoundInstant(toDate, true)); // Include entire end date
+
+  return prs.filter((pr) => {
+    const creationDate = new Date(pr.creationDate);
+    return creationDate >= from && creationDate <= to;
+  });
+}
+
+/**
+ * Fetch all comment threads for a pull request (including system threads
+ * such as vote updates). Returns an empty array on failure.
+ */
+export async function fetchPRThreads(
+  client: AzureDevOpsClient,
+  repositoryId: string,
+  pullRequestId: number,
+  subject?: CacheSubject // Project and repository, recorded on cached threads
+): Promise<GitPullRequestCommentThread[]> {
+  try {
+    const url = `/_apis/git/repositories/${repositoryId}/pullRequests/${pullRequestId}/threads`;
+    const response = await client.get<GitPullRequestCommentThreadResponse>(
+      url,
+      undefined,
+      subject
+    );
+    return response.value || [];
+  } catch (error) {
+    console.warn(`Failed to fetch threads for PR ${pullRequestId}`);
+    return [];
+  }
+}
+
+/**
+ * Fetch comment threads for each pull request, keyed by pull request ID.
+ * Uses the repository reference included in PR list responses.
+ */
+export async function fetchThreadsForPullRequests(
+  client: AzureDevOpsClient,
+  prs: GitPullRequest[]
+): Promise<Record<number, GitPullRequestCommentThread[]>> {
+  const threadsByPR: Record<number, GitPullRequestCommentThread[]> = {};
+
+  await Promise.all(
+    prs.map(async (pr) => {
+      if (!pr.repository?.id) {
+        return;
+      }
+      threadsByPR[pr.pullRequestId] = await fetchPRThreads(
+        client,
+        pr.repository.id,
+        pr.pullRequestId,
+        getPRSubject(pr)
+      );
+    })
+  );
+
+  console.log(
+    `💬 Fetched threads for ${Object.keys(threadsByPR).length} pull requests`
+  );
+  return threadsByPR;
+}
+
+/**
+ * Find when a reviewer first voted, from "VoteUpdate" system threads
+ */
+export function findFirstVoteDate(
+  threads: GitPullRequestCommentThread[],
+  reviewerId: string
+): string | undefined {
+  let firstVoteDate: string | undefined;
+
+  for (const thread of threads) {
+    if (thread.properties?.CodeReviewThreadType?.$value !== "VoteUpdate") {
+      continue;
+    }
+
+    // The voter is referenced by index into thread.identities; fall back to the comment author
+    const voterIndex = thread.properties?.CodeReviewVotedByIdentity?.$value;
+    const voterId =
+      (voterIndex && thread.identities?.[voterIndex]?.id) ||
+      thread.comments?.[0]?.author?.id;
+
+    if (voterId !== reviewerId) {
+      continue;
+    }
+
+    if (!firstVoteDate || thread.publishedDate < firstVoteDate) {
+      firstVoteDate = thread.publishedDate;
+    }
+  }
+
+  return firstVoteDate;
+}
+
 /**
  * Resolve user email to Azure DevOps user ID for server-side filtering
  * REQUIRED for efficient PR fetching - must succeed or we fetch too much data
  *
- * NOTE: The Identities API uses a different base URL (vssps.dev.azure.com)
+ * NOTE: The Identities API uses a different base URL (vssps.dev.azure.com),
+ * or the collection URL on Azure DevOps Server
  * See: https://learn.microsoft.com/en-us/rest/api/azure/devops/ims/identities/read-identities
  */
 async function resolveUserEmailToId(
@@ -158,7 +499,7 @@ async function resolveUserEmailToId(
 ): Promise<string | undefined> {
   console.log(`🔍 Attempting to resolve user email: ${email}`);
   console.log(
-    `   Using Identities API: https://vssps.dev.azure.com/${organization}/_apis/identities`
+    `   Using Identities API: ${client.getIdentityUrl()}/_apis/identities`
   );
 
   try {
@@ -212,7 +553,7 @@ async function resolveUserEmailToId(
       console.error(`   → PAT token lacks required permissions`);
       console.error(`   → Required scope: "Identity (read)" or "vso.identity"`);
       console.error(
-        `   → Go to: https://dev.azure.com/${organization}/_usersSettings/tokens`
+        `   → Go to: ${client.getOrganizationUrl()}/_usersSettings/tokens`
       );
       console.error(`   → Create new token with scope: Identity (read)`);
     } else if (error.response?.status === 404) {
@@ -238,24 +579,34 @@ async function resolveUserEmailToId(
 }
 
 /**
- * Fetch PRs by status with creator ID filter and target branch
- * Uses server-side filtering ONLY - creatorId is required
+ * Fetch PRs by status with an identity filter (creator or reviewer) and optional target branch
+ * Uses server-side filtering ONLY - an identity filter is required
  */
 async function fetchPRsByStatus(
   client: AzureDevOpsClient,
   repositoryId: string,
+  subject: CacheSubject, // Project and repository, recorded on cached pages
   fromDate: string,
   toDate: string,
   status: PullRequestStatus,
-  targetBranch: string, // e.g., "refs/heads/master" - REQUIRED
-  creatorId: string // REQUIRED - user ID for server-side filtering
+  targetBranch: string | undefined, // e.g., "refs/heads/master" (undefined = any branch)
+  identity: { creatorId: string } | { reviewerId: string }, // REQUIRED - user ID for server-side filtering
+  onPageFetched?: (page: number, items: number) => void
 ): Promise<GitPullRequest[]> {
   const prs: GitPullRequest[] = [];
   let skip = 0;
   const top = 100;
+  let pageCount = 0;
+
+  const identityFilter =
+    "creatorId" in identity
+      ? { "searchCriteria.creatorId": identity.creatorId }
+      : { "searchCriteria.reviewerId": identity.reviewerId };
 
   console.log(
-    `🌐 Fetching PRs with server-side filters: status=${status}, branch=${targetBranch}, creatorId=${creatorId}`
+    `🌐 Fetching PRs with server-side filters: status=${status}, branch=${
+      targetBranch || "any"
+    }, ${JSON.stringify(identityFilter)}`
   );
 
   while (true) {
@@ -263,14 +614,20 @@ async function fetchPRsByStatus(
 
     const params: Record<string, any> = {
       "searchCriteria.status": status,
-      "searchCriteria.targetRefName": targetBranch,
-      "searchCriteria.creatorId": creatorId,
+      ...identityFilter,
       $top: top,
       $skip: skip,
     };
+    if (targetBranch) {
+      params["searchCriteria.targetRefName"] = targetBranch;
+    }
 
     console.log(`🌐 API Request: ${url} with skip=${skip}`);
-    const response = await client.get<GitPullRequestResponse>(url, params);
+    const response = await client.get<GitPullRequestResponse>(
+      url,
+      params,
+      subject
+    );
 
     if (!response.value || response.value.length === 0) {
       console.log(
@@ -285,6 +642,7 @@ async function fetchPRsByStatus(
 
     // All filtering is done server-side - no client-side filtering needed
     prs.push(...response.value);
+    onPageFetched?.(++pageCount, response.value.length);
 
     if (response.value.length < top) {
       break;
@@ -297,28 +655,189 @@ async function fetchPRsByStatus(
 }
 
 /**
- * Fetch the number of files changed in a pull request
+ * Size of a pull request, computed from its iteration changes
  */
-export async function fetchPRFileCount(
+export interface PullRequestSize {
+  filesChanged: number; // Files (not folders) changed across all iterations
+  paths: string[]; // Paths of those files, for the language breakdown
+  // With line diffs only: lines of the full diff, leaving out generated files
+  linesAdded?: number;
+  linesDeleted?: number;
+}
+
+/**
+ * Options for sizing pull requests
+ */
+export interface PRSizeOptions {
+  lineDiffs?: boolean; // Also count lines with the file diffs API (extra calls per PR)
+  excludePaths?: string[]; // Globs left out of line counts on top of generated files
+}
+
+// A pull request's full diff: its last iteration and the files it changes
+interface PRDiff {
+  iteration: GitPullRequestIteration;
+  files: GitPullRequestChange[];
+}
+
+/**
+ * Fetch the paths of the files changed in a pull request.
+ *
+ * Uses the changes of the last iteration compared to the base (`$compareTo=0`),
+ * which is the PR's full diff. The iteration list itself doesn't include changes.
+ */
+export async function fetchPRChangedPaths(
   client: AzureDevOpsClient,
   repositoryId: string,
-  pullRequestId: number
-): Promise<number> {
+  pullRequestId: number,
+  subject?: CacheSubject // Project and repository, recorded on cached changes
+): Promise<string[]> {
   try {
-    const url = `/_apis/git/repositories/${repositoryId}/pullRequests/${pullRequestId}/iterations`;
-    const response = await client.get<GitPullRequestIterationResponse>(url);
+    const diff = await fetchPRDiff(
+      client,
+      repositoryId,
+      pullRequestId,
+      subject
+    );
+    return diff ? diff.files.map((change) => change.item!.path) : [];
+  } catch (error) {
+    console.warn(`Failed to fetch changed files for PR ${pullRequestId}`);
+    return [];
+  }
+}
 
-    if (response.value && response.value.length > 0) {
-      // Get the last iteration
-      const lastIteration = response.value[response.value.length - 1];
-      return lastIteration.changeList?.length || 0;
-    }
+/**
+ * Count the lines a pull request adds and deletes, from the merge base to the
+ * source branch of its last iteration (the same diff the PR's Files tab shows)
+ */
+async function countPRLines(
+  client: AzureDevOpsClient,
+  repositoryId: string,
+  diff: PRDiff,
+  excludePaths: string[]
+): Promise<{ linesAdded: number; linesDeleted: number }> {
+  const baseCommit = diff.iteration.commonRefCommit?.commitId;
+  const targetCommit = diff.iteration.sourceRefCommit?.commitId;
+  if (!baseCommit || !targetCommit) {
+    throw new Error("The iteration has no source or merge base commit");
+  }
 
-    return 0;
-  } catch (error) {
-    console.warn(`Failed to fetch file count for PR ${pullRequestId}`);
-    return 0;
+  const files: FileDiffParams[] = diff.files
+    .filter((change) => !isExcludedPath(change.item!.path, excludePaths))
+    .map((change) => ({
+      path: change.item!.path,
+      originalPath: change.originalPath || change.item!.path,
+    }));
+  const { linesAdded, linesDeleted } = await countFileDiffLines(
+    client,
+    `/_apis/git/repositories/${repositoryId}`,
+    baseCommit,
+    targetCommit,
+    files
+  );
+  return { linesAdded, linesDeleted };
+}
+
+/**
+ * Fetch sizes for pull requests in batches, keyed by pull request ID.
+ *
+ * A PR's diff never changes once its source commit is fixed, so sizes are
+ * cached (without expiry) by source commit when caching is enabled.
+ */
+export async function fetchPRSizes(
+  client: AzureDevOpsClient,
+  prs: GitPullRequest[],
+  options: PRSizeOptions = {}
+): Promise<Record<number, PullRequestSize>> {
+  const { lineDiffs = false, excludePaths = [] } = options;
+  const sizes: Record<number, PullRequestSize> = {};
+  const sizable = prs.filter((pr) => pr.repository?.id);
+  let cacheHits = 0;
+
+  for (let i = 0; i < sizable.length; i += PR_SIZE_BATCH_SIZE) {
+    const batch = sizable.slice(i, i + PR_SIZE_BATCH_SIZE);
+
+    await Promise.all(
+      batch.map(async (pr) => {
+        const repositoryId = pr.repository!.id;
+        const cacheParams = {
+          repositoryId,
+          pullRequestId: pr.pullRequestId,
+          sourceCommit: pr.lastMergeSourceCommit?.commitId,
+          // Line counts depend on the excludes; sizes without them don't
+          ...(lineDiffs && { lineDiffs, excludePaths }),
+        };
+
+        const cached = cacheParams.sourceCommit
+          ? await readCache<PullRequestSize>(
+              PR_SIZE_CACHE_KEY,
+              cacheParams,
+              0,
+              client.getCacheScope()
+            )
+          : null;
+        // Sizes cached before paths were recorded are fetched again
+        if (cached?.paths) {
+          cacheHits++;
+          sizes[pr.pullRequestId] = cached;
+          return;
+        }
+
+        let diff: PRDiff | null = null;
+        try {
+          diff = await fetchPRDiff(
+            client,
+            repositoryId,
+            pr.pullRequestId,
+            getPRSubject(pr)
+          );
+        } catch (error) {
+          console.warn(
+            `Failed to fetch changed files for PR ${pr.pullRequestId}`
+          );
+        }
+        const paths = diff ? diff.files.map((change) => change.item!.path) : [];
+        const size: PullRequestSize = { filesChanged: paths.length, paths };
+
+        if (lineDiffs && diff) {
+          try {
+            Object.assign(
+              size,
+              await countPRLines(client, repositoryId, diff, excludePaths)
+            );
+          } catch (error) {
+            console.warn(
+              `Failed to count lines for PR ${pr.pullRequestId}: ${error}`
+            );
+          }
+        }
+        sizes[pr.pullRequestId] = size;
+
+        // Without its line counts the size is fetched again next time
+        if (
+          cacheParams.sourceCommit &&
+          (!lineDiffs || size.linesAdded !== undefined)
+        ) {
+          await writeCache(
+            PR_SIZE_CACHE_KEY,
+            cacheParams,
+            size,
+            0,
+            client.getCacheScope(getPRSubject(pr))
+          );
+        }
+      })
+    );
   }
+
+  const counted = Object.values(sizes).filter(
+    (size) => size.linesAdded !== undefined
+  ).length;
+  console.log(
+    `📏 Sized ${Object.keys(sizes).length} pull requests (${cacheHits} from cache${
+      lineDiffs ? `, lines counted for ${counted}` : ""
+    })`
+  );
+  return sizes;
 }
 
 /**
@@ -344,11 +863,13 @@ export function calculateAvgDaysToMerge(prs: GitPullRequest[]): number {
 }
 
 /**
- * Get PR statistics by status
+ * Get PR statistics by status. PRs created or reviewed under any of the
+ * user's aliases count as the user's.
  */
 export function getPRStatsByStatus(
   prs: GitPullRequest[],
-  userEmail?: string
+  userEmail?: string,
+  aliases: string[] = []
 ): {
   created: number;
   merged: number;
@@ -359,13 +880,11 @@ export function getPRStatsByStatus(
   let merged = 0;
   let abandoned = 0;
   let reviewed = 0;
+  const isUser = createIdentityMatcher(userEmail, aliases);
 
   for (const pr of prs) {
     // Count created PRs
-    if (
-      userEmail &&
-      pr.createdBy.uniqueName.toLowerCase() === userEmail.toLowerCase()
-    ) {
+    if (userEmail && isUser(pr.createdBy.uniqueName)) {
       created++;
 
       if (pr.status === "completed") {
@@ -376,13 +895,9 @@ export function getPRStatsByStatus(
     }
 
     // Count reviewed PRs (where user was a reviewer but not creator)
-    if (
-      userEmail &&
-      pr.createdBy.uniqueName.toLowerCase() !== userEmail.toLowerCase()
-    ) {
-      const wasReviewer = pr.reviewers.some(
-        (reviewer) =>
-          reviewer.uniqueName.toLowerCase() === userEmail.toLowerCase()
+    if (userEmail && !isUser(pr.createdBy.uniqueName)) {
+      const wasReviewer = pr.reviewers.some((reviewer) =>
+        isUser(reviewer.uniqueName)
       );
       if (wasReviewer) {
         reviewed++;
@@ -401,30 +916,103 @@ export function getPRStatsByStatus(
 }
 
 /**
- * Find the largest PR by title/description heuristic
- * (Since we'd need to fetch iterations for accurate file count, we use a simple heuristic)
+ * Find the largest PR by files changed, with its lines when they were counted.
+ * Returns null when no sizes are available, rather than guessing.
  */
-export function findLargestPR(prs: GitPullRequest[]): {
+export function findLargestPR(
+  prs: GitPullRequest[],
+  sizes: Record<number, PullRequestSize> = {}
+): {
   id: number;
   title: string;
   filesChanged: number;
+  linesAdded?: number;
+  linesDeleted?: number;
 } | null {
   if (prs.length === 0) {
     return null;
   }
 
-  // Sort by description length as a proxy for size
-  const sorted = [...prs].sort((a, b) => {
-    const aSize = (a.description?.length || 0) + (a.title?.length || 0);
-    const bSize = (b.description?.length || 0) + (b.title?.length || 0);
-    return bSize - aSize;
-  });
+  let largest: GitPullRequest | null = null;
+  let largestFiles = 0;
 
-  const largest = sorted[0];
+  for (const pr of prs) {
+    const filesChanged = sizes[pr.pullRequestId]?.filesChanged || 0;
+    if (filesChanged > largestFiles) {
+      largest = pr;
+      largestFiles = filesChanged;
+    }
+  }
 
+  if (!largest) {
+    return null;
+  }
+
+  const { linesAdded, linesDeleted } = sizes[largest.pullRequestId];
   return {
     id: largest.pullRequestId,
     title: largest.title,
-    filesChanged: 0, // Would need separate API call to get accurate count
+    filesChanged: largestFiles,
+    ...(linesAdded !== undefined && { linesAdded, linesDeleted }),
+  };
+}
+
+// A pull request's full diff: the changes of its last iteration compared to
+// the base (`$compareTo=0`). The iteration list itself doesn't include changes.
+async function fetchPRDiff(
+  client: AzureDevOpsClient,
+  repositoryId: string,
+  pullRequestId: number,
+  subject?: CacheSubject
+): Promise<PRDiff | null> {
+  const iterationsUrl = `/_apis/git/repositories/${repositoryId}/pullRequests/${pullRequestId}/iterations`;
+  const iterations = await client.get<GitPullRequestIterationResponse>(
+    iterationsUrl,
+    undefined,
+    subject
+  );
+
+  if (!iterations.value || iterations.value.length === 0) {
+    return null;
+  }
+
+  // Get the last iteration
+  const iteration = iterations.value[iterations.value.length - 1];
+  const changesUrl = `${iterationsUrl}/${iteration.id}/changes`;
+
+  const files: GitPullRequestChange[] = [];
+  let skip = 0;
+  while (true) {
+    const response = await client.get<GitPullRequestIterationChanges>(
+      changesUrl,
+      { $compareTo: 0, $top: PR_CHANGES_PAGE_SIZE, $skip: skip },
+      subject
+    );
+
+    for (const change of response.changeEntries || []) {
+      if (
+        change.item?.path &&
+        !change.item.isFolder &&
+        change.item.gitObjectType !== "tree"
+      ) {
+        files.push(change);
+      }
+    }
+
+    // nextSkip is only returned when there are more changes to page through
+    if (!response.nextSkip) {
+      break;
+    }
+    skip = response.nextSkip;
+  }
+
+  return { iteration, files };
+}
+
+// The project and repository a PR list response says a PR belongs to
+function getPRSubject(pr: GitPullRequest): CacheSubject {
+  return {
+    project: pr.repository?.project?.name,
+    repository: pr.repository?.name,
   };
 }
@@ -0,0 +1,282 @@
+import * as net from "net";
+import * as tls from "tls";
+import { REDIS_CONNECT_TIMEOUT_MS, REDIS_KEY_PREFIX } from "../constants";
+import type { CacheStore } from "./cacheStore";
+
+type RedisReply = string | number | null | RedisReply[];
+
+// A reply that couldn't be parsed yet because more bytes are needed
+const INCOMPLETE = Symbol("incomplete");
+
+/**
+ * Minimal RESP (Redis serialization protocol) connection: sends commands in
+ * order and matches replies to them. Works with Redis, Valkey, KeyDB, Garnet
+ * and other servers speaking the protocol.
+ */
+class RedisConnection {
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private buffer = Buffer.alloc(0);
+  private readonly pending: {
+    resolve: (reply: RedisReply) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+
+  constructor(private readonly url: URL) {}
+
+  async command(...args: (string | number)[]): Promise<RedisReply> {
+    const socket = await this.connect();
+    return this.send(socket, args);
+  }
+
+  close(): void {
+    this.socket?.end();
+    // A connection still authenticating is closed once it's ready
+    this.connecting?.then(
+      (socket) => socket.end(),
+      () => {}
+    );
+    this.reset(new Error("Redis connection closed"));
+  }
+
+  private send(
+    socket: net.Socket,
+    args: (string | number)[]
+  ): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      // Keep the process alive only while replies are outstanding
+      socket.ref();
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) return Promise.resolve(this.socket);
+    if (!this.connecting) {
+      this.connecting = this.openSocket().finally(
+        () => (this.connecting = null)
+      );
+    }
+    return this.connecting;
+  }
+
+  private async openSocket(): Promise<net.Socket> {
+    const port = parseInt(this.url.port || "6379");
+    const host = this.url.hostname || "localhost";
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const onConnect = () => {
+        socket.setTimeout(0);
+        socket.off("error", reject);
+        resolve(socket);
+      };
+      const socket =
+        this.url.protocol === "rediss:"
+          ? tls.connect({ host, port, servername: host }, onConnect)
+          : net.connect({ host, port }, onConnect);
+      socket.setTimeout(REDIS_CONNECT_TIMEOUT_MS, () =>
+        socket.destroy(
+          new Error(`Timed out connecting to Redis at ${host}:${port}`)
+        )
+      );
+      socket.once("error", reject);
+    });
+
+    socket.on("data", (chunk) => this.onData(chunk));
+    socket.on("error", (error) => this.reset(error));
+    socket.on("close", () => this.reset(new Error("Redis connection closed")));
+
+    // Authenticate and pick the database before any other command. The socket
+    // is only handed out afterwards: callers arriving meanwhile wait on
+    // `connecting` rather than sending commands to the default database.
+    try {
+      const username = decodeURIComponent(this.url.username);
+      const password = decodeURIComponent(this.url.password);
+      if (password) {
+        await this.send(
+          socket,
+          username ? ["AUTH", username, password] : ["AUTH", password]
+        );
+      }
+      const db = this.url.pathname.replace(/^\//, "");
+      if (db) {
+        await this.send(socket, ["SELECT", db]);
+      }
+    } catch (error) {
+      socket.destroy();
+      throw error;
+    }
+    socket.unref();
+    this.socket = socket;
+    console.log(`🔌 Connected to Redis cache at ${host}:${port}`);
+    return socket;
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (this.pending.length > 0) {
+      const parsed = parseReply(this.buffer, 0);
+      if (parsed === INCOMPLETE) break;
+      this.buffer = this.buffer.subarray(parsed.offset);
+      const { resolve, reject } = this.pending.shift()!;
+      if (parsed.reply instanceof Error) {
+        reject(parsed.reply);
+      } else {
+        resolve(parsed.reply);
+      }
+    }
+    if (this.pending.length === 0) {
+      this.socket?.unref();
+    }
+  }
+
+  // Fail outstanding commands; the next command opens a new connection
+  private reset(error: Error): void {
+    this.socket?.destroy();
+    this.socket = null;
+    this.buffer = Buffer.alloc(0);
+    this.pending.splice(0).forEach(({ reject }) => reject(error));
+  }
+}
+
+function encodeCommand(args: (string | number)[]): Buffer {
+  const parts = args.map((arg) => Buffer.from(String(arg)));
+  return Buffer.concat([
+    Buffer.from(`*${parts.length}\r\n`),
+    ...parts.flatMap((part) => [
+      Buffer.from(`$${part.length}\r\n`),
+      part,
+      Buffer.from("\r\n"),
+    ]),
+  ]);
+}
+
+/**
+ * Parse one reply starting at an offset: simple strings, errors, integers,
+ * bulk strings and arrays (nested as needed)
+ */
+function parseReply(
+  buffer: Buffer,
+  offset: number
+): { reply: RedisReply | Error; offset: number } | typeof INCOMPLETE {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) return INCOMPLETE;
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf-8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { reply: line, offset: next };
+    case "-":
+      return { reply: new Error(`Redis error: ${line}`), offset: next };
+    case ":":
+      return { reply: parseInt(line), offset: next };
+    case "$": {
+      const length = parseInt(line);
+      if (length < 0) return { reply: null, offset: next };
+      if (buffer.length < next + length + 2) return INCOMPLETE;
+      return {
+        reply: buffer.toString("utf-8", next, next + length),
+        offset: next + length + 2,
+      };
+    }
+    case "*": {
+      const count = parseInt(line);
+      if (count < 0) return { reply: null, offset: next };
+      const items: RedisReply[] = [];
+      let itemOffset = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, itemOffset);
+        if (item === INCOMPLETE) return INCOMPLETE;
+        items.push(item.reply instanceof Error ? null : item.reply);
+        itemOffset = item.offset;
+      }
+      return { reply: items, offset: itemOffset };
+    }
+    default:
+      return {
+        reply: new Error(`Unexpected Redis reply type "${type}"`),
+        offset: next,
+      };
+  }
+}
+
+/**
+ * Entries kept on a Redis-protocol server under a key prefix ("ado-cache:" by
+ * default), so a cache can be shared by several app instances (or survive
+ * serverless cold starts)
+ */
+export class RedisCacheStore implements CacheStore {
+  readonly type = "redis";
+  readonly location: string;
+  private readonly connection: RedisConnection;
+
+  constructor(
+    redisUrl: string,
+    private readonly keyPrefix: string = REDIS_KEY_PREFIX
+  ) {
+    const url = new URL(redisUrl);
+    this.connection = new RedisConnection(url);
+    // Leave credentials out of logs and stats
+    this.location = `${url.protocol}//${url.host}${url.pathname}`;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const reply = await this.connection.command("GET", this.keyPrefix + key);
+    return typeof reply === "string" ? reply : null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.connection.command("SET", this.keyPrefix + key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.connection.command("DEL", this.keyPrefix + key);
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = new Set<string>();
+    let cursor = "0";
+    do {
+      // SCAN rather than KEYS, so a big keyspace doesn't block the server
+      const reply = (await this.connection.command(
+        "SCAN",
+        cursor,
+        "MATCH",
+        `${this.keyPrefix}*`,
+        "COUNT",
+        500
+      )) as [string, string[]];
+      cursor = reply[0];
+      reply[1].forEach((key) => keys.add(key.slice(this.keyPrefix.length)));
+    } while (cursor !== "0");
+    return Array.from(keys);
+  }
+
+  async clear(): Promise<number> {
+    const keys = await this.keys();
+    for (let i = 0; i < keys.length; i += 500) {
+      await this.connection.command(
+        "DEL",
+        ...keys.slice(i, i + 500).map((key) => this.keyPrefix + key)
+      );
+    }
+    return keys.length;
+  }
+
+  async stats(): Promise<{ entries: number; totalSize: number }> {
+    const keys = await this.keys();
+    const sizes = await Promise.all(
+      keys.map((key) => this.connection.command("STRLEN", this.keyPrefix + key))
+    );
+    return {
+      entries: keys.length,
+      totalSize: sizes.reduce<number>((sum, size) => sum + Number(size), 0),
+    };
+  }
+
+  async close(): Promise<void> {
+    this.connection.close();
+  }
+}
@@ -21,6 +21,44 @@ export interface RepositoryWithProject {
   webUrl?: string;
 }
 
+/**
+ * Strip the "refs/heads/" prefix from a branch ref, e.g. "refs/heads/main" -> "main"
+ */
+export function toBranchName(ref: string): string {
+  return ref.trim().replace(/^refs\/heads\//, "");
+}
+
+/**
+ * Combine a repository's default branch with any extra target branches
+ * (e.g. release branches) into a deduplicated list of plain branch names.
+ */
+export function resolveTargetBranches(
+  defaultBranch: string | undefined,
+  extraBranches: string[] = []
+): string[] {
+  const branches = [defaultBranch, ...extraBranches]
+    .filter((branch): branch is string => !!branch && !!branch.trim())
+    .map(toBranchName);
+  return Array.from(new Set(branches));
+}
+
+/**
+ * Look up a repository's default branch (plain name, e.g. "develop").
+ * Uses the Git API: GET /{project}/_apis/git/repositories/{repository}
+ *
+ * Returns undefined for empty repositories, which have no default branch yet.
+ */
+export async function fetchDefaultBranch(
+  client: AzureDevOpsClient,
+  project: string,
+  repository: string
+): Promise<string | undefined> {
+  const repo = await client.get<GitRepository>(
+    `/${project}/_apis/git/repositories/${repository}`
+  );
+  return repo.defaultBranch ? toBranchName(repo.defaultBranch) : undefined;
+}
+
 /**
  * Fetch all repositories for a specific project.
  * Uses the Git API: GET /{project}/_apis/git/repositories
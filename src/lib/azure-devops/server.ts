@@ -0,0 +1,116 @@
+import { AxiosError } from "axios";
+import { DEFAULT_BASE_URL, DEFAULT_IDENTITY_URL } from "../constants";
+
+/**
+ * Where an organization (or on-prem collection) and its identities live
+ */
+export interface ServerUrls {
+  baseUrl: string; // e.g. https://dev.azure.com/contoso or https://tfs.corp/DefaultCollection
+  identityUrl: string; // e.g. https://vssps.dev.azure.com/contoso (same as baseUrl on-prem)
+  isHosted: boolean; // Azure DevOps Services rather than Azure DevOps Server
+}
+
+// Versions the server said it supports, by base URL and API area
+// (e.g. "https://tfs.corp/DefaultCollection|git"). Shared by all clients.
+const negotiatedVersions = new Map<string, string>();
+
+const trimSlashes = (url: string) => url.replace(/\/+$/, "");
+
+/**
+ * Resolve the base and identity URLs for an organization.
+ *
+ * ADO_BASE_URL points at an Azure DevOps Server instead of dev.azure.com, with
+ * the organization as the collection name: "https://tfs.corp" serves
+ * "https://tfs.corp/DefaultCollection". Identities come from ADO_IDENTITY_URL,
+ * else vssps.dev.azure.com for Azure DevOps Services or the collection URL on-prem.
+ */
+export function getServerUrls(
+  organization: string,
+  overrides: { baseUrl?: string; identityUrl?: string } = {}
+): ServerUrls {
+  const root = trimSlashes(
+    overrides.baseUrl || process.env.ADO_BASE_URL || DEFAULT_BASE_URL
+  );
+  const isHosted = root.toLowerCase() === DEFAULT_BASE_URL;
+  const identityRoot = trimSlashes(
+    overrides.identityUrl ||
+      process.env.ADO_IDENTITY_URL ||
+      (isHosted ? DEFAULT_IDENTITY_URL : root)
+  );
+  return {
+    baseUrl: `${root}/${organization}`,
+    identityUrl: `${identityRoot}/${organization}`,
+    isHosted,
+  };
+}
+
+/**
+ * Key for remembering a negotiated API version: the base URL plus the API
+ * area of the request ("git", "wit", "identities"...), since on-prem servers
+ * can support different versions per area
+ */
+export function getApiVersionKey(baseUrl: string, url: string): string {
+  const area = url.match(/_apis\/([^/?]+)/)?.[1] || "";
+  return `${baseUrl}|${area.toLowerCase()}`;
+}
+
+/**
+ * The latest API version a server supports, from the error it returns when a
+ * request asks for a newer one (VssVersionOutOfRangeException), or null
+ */
+export function getSupportedApiVersion(error: AxiosError): string | null {
+  if (error.response?.status !== 400) return null;
+  const message = (error.response.data as any)?.message;
+  const match =
+    typeof message === "string" &&
+    message.match(
+      /latest REST API version this server supports is (\d+(?:\.\d+)*)/i
+    );
+  return match ? match[1] : null;
+}
+
+/**
+ * Lower a requested API version to one the server supports, keeping any
+ * preview suffix ("7.1-preview.1" becomes "5.1-preview.1" on a 5.1 server)
+ */
+export function downgradeApiVersion(
+  requested: string,
+  supported: string
+): string {
+  const [version, ...suffix] = requested.split("-");
+  if (compareVersions(version, supported) <= 0) {
+    return requested;
+  }
+  return [supported, ...suffix].join("-");
+}
+
+/**
+ * Apply the version negotiated for an endpoint (if any) to request params
+ */
+export function applyNegotiatedApiVersion(
+  key: string,
+  params: Record<string, any>
+): Record<string, any> {
+  const supported = negotiatedVersions.get(key);
+  const requested = params["api-version"];
+  return supported && requested
+    ? { ...params, "api-version": downgradeApiVersion(requested, supported) }
+    : params;
+}
+
+/**
+ * Remember the version an endpoint supports for later requests
+ */
+export function rememberApiVersion(key: string, supported: string): void {
+  negotiatedVersions.set(key, supported);
+}
+
+function compareVersions(a: string, b: string): number {
+  const partsA = a.split(".").map(Number);
+  const partsB = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
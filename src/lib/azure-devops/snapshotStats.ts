@@ -0,0 +1,488 @@
+/**
+ * Snapshot stats rebuilt field by field from a posted or stored Wrapped, so a
+ * snapshot holds exactly what the stories read: every field has the type the
+ * UI expects, texts and lists are capped, unknown fields are dropped, and the
+ * user's email and aliases are left out of the published meta.
+ */
+
+import { DATE_RANGE_PRESETS } from "../dateRange";
+import {
+  MAX_SNAPSHOT_LIST_LENGTH,
+  MAX_SNAPSHOT_TEXT_LENGTH,
+  PERSONALITY_TYPES,
+} from "../constants";
+import type {
+  BuildStats,
+  ClientCommitStats,
+  ClientPullRequestStats,
+  ClientWrappedStats,
+  DateRange,
+  Insights,
+  MetaInfo,
+  PRCommentStats,
+  PRSizeStats,
+  ReviewStats,
+  StatDelta,
+  WorkItemStats,
+  YearComparison,
+} from "../../types";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Rebuild a Wrapped for a snapshot, throwing an error that names the first
+ * field that isn't what /api/stats returns
+ */
+export function parseSnapshotStats(value: unknown): ClientWrappedStats {
+  const stats = readObject(value, "stats");
+  if ("members" in stats || "rollup" in stats) {
+    throw new Error(
+      "Only an individual Wrapped can be saved, not a Team Wrapped"
+    );
+  }
+
+  return {
+    meta: readMeta(stats.meta, "stats.meta"),
+    commits: readCommits(stats.commits, "stats.commits"),
+    pullRequests: readPullRequests(stats.pullRequests, "stats.pullRequests"),
+    reviews: readReviews(stats.reviews, "stats.reviews"),
+    workItems: readWorkItems(stats.workItems, "stats.workItems"),
+    builds: readBuilds(stats.builds, "stats.builds"),
+    insights: readInsights(stats.insights, "stats.insights"),
+    ...(stats.comparisons !== undefined && {
+      comparisons: readList(
+        stats.comparisons,
+        "stats.comparisons",
+        readComparison
+      ),
+    }),
+  };
+}
+
+// Only what the shared page shows: no userEmail or aliases
+function readMeta(value: unknown, path: string): MetaInfo {
+  const meta = readObject(value, path);
+  return {
+    organization: readText(meta.organization, `${path}.organization`),
+    projects: readList(meta.projects, `${path}.projects`, readText),
+    repositories: readList(meta.repositories, `${path}.repositories`, readText),
+    year: readNumber(meta.year, `${path}.year`),
+    dateRange: readDateRange(meta.dateRange, `${path}.dateRange`),
+    timeZone: readText(meta.timeZone, `${path}.timeZone`),
+    generatedAt: readText(meta.generatedAt, `${path}.generatedAt`),
+  };
+}
+
+function readDateRange(value: unknown, path: string): DateRange {
+  const range = readObject(value, path);
+  return {
+    preset: readOneOf(range.preset, `${path}.preset`, DATE_RANGE_PRESETS),
+    startDate: readDate(range.startDate, `${path}.startDate`),
+    endDate: readDate(range.endDate, `${path}.endDate`),
+    label: readText(range.label, `${path}.label`),
+  };
+}
+
+function readCommits(value: unknown, path: string): ClientCommitStats {
+  const commits = readObject(value, path);
+  return {
+    total: readNumber(commits.total, `${path}.total`),
+    additions: readNumber(commits.additions, `${path}.additions`),
+    deletions: readNumber(commits.deletions, `${path}.deletions`),
+    changeUnit: readOneOf(commits.changeUnit, `${path}.changeUnit`, [
+      "files",
+      "lines",
+    ] as const),
+    byDayOfWeek: readCounts(commits.byDayOfWeek, `${path}.byDayOfWeek`),
+    byHour: readCounts(commits.byHour, `${path}.byHour`),
+    longestStreak: readNumber(commits.longestStreak, `${path}.longestStreak`),
+    commitDates: readList(commits.commitDates, `${path}.commitDates`, readDate),
+  };
+}
+
+function readPullRequests(
+  value: unknown,
+  path: string
+): ClientPullRequestStats {
+  const prs = readObject(value, path);
+  return {
+    created: readNumber(prs.created, `${path}.created`),
+    merged: readNumber(prs.merged, `${path}.merged`),
+    reviewed: readNumber(prs.reviewed, `${path}.reviewed`),
+    avgDaysToMerge: readNumber(prs.avgDaysToMerge, `${path}.avgDaysToMerge`),
+    avgDaysToMergeFormatted: readText(
+      prs.avgDaysToMergeFormatted,
+      `${path}.avgDaysToMergeFormatted`
+    ),
+    largestPR: readNullable(prs.largestPR, `${path}.largestPR`, (pr, p) => {
+      const largest = readObject(pr, p);
+      return {
+        ...readItemRef(largest, p),
+        filesChanged: readNumber(largest.filesChanged, `${p}.filesChanged`),
+        ...(largest.linesAdded !== undefined && {
+          linesAdded: readNumber(largest.linesAdded, `${p}.linesAdded`),
+          linesDeleted: readNumber(largest.linesDeleted, `${p}.linesDeleted`),
+        }),
+      };
+    }),
+    byMonth: readCounts(prs.byMonth, `${path}.byMonth`),
+    byDayOfWeek: readCounts(prs.byDayOfWeek, `${path}.byDayOfWeek`),
+    firstPRDate: readText(prs.firstPRDate, `${path}.firstPRDate`),
+    lastPRDate: readText(prs.lastPRDate, `${path}.lastPRDate`),
+    fastestMerge: readNullable(
+      prs.fastestMerge,
+      `${path}.fastestMerge`,
+      (pr, p) => {
+        const fastest = readObject(pr, p);
+        return {
+          ...readItemRef(fastest, p),
+          hours: readNumber(fastest.hours, `${p}.hours`),
+        };
+      }
+    ),
+    slowestMerge: readNullable(
+      prs.slowestMerge,
+      `${path}.slowestMerge`,
+      (pr, p) => {
+        const slowest = readObject(pr, p);
+        return {
+          ...readItemRef(slowest, p),
+          days: readNumber(slowest.days, `${p}.days`),
+        };
+      }
+    ),
+    comments: readComments(prs.comments, `${path}.comments`),
+    sizes: readSizes(prs.sizes, `${path}.sizes`),
+  };
+}
+
+function readComments(value: unknown, path: string): PRCommentStats {
+  const comments = readObject(value, path);
+  return {
+    total: readNumber(comments.total, `${path}.total`),
+    written: readNumber(comments.written, `${path}.written`),
+    received: readNumber(comments.received, `${path}.received`),
+    threadsResolved: readNumber(
+      comments.threadsResolved,
+      `${path}.threadsResolved`
+    ),
+    threadsActive: readNumber(comments.threadsActive, `${path}.threadsActive`),
+    avgCommentsPerPR: readNumber(
+      comments.avgCommentsPerPR,
+      `${path}.avgCommentsPerPR`
+    ),
+    mostDiscussedPR: readNullable(
+      comments.mostDiscussedPR,
+      `${path}.mostDiscussedPR`,
+      (pr, p) => {
+        const discussed = readObject(pr, p);
+        return {
+          ...readItemRef(discussed, p),
+          comments: readNumber(discussed.comments, `${p}.comments`),
+        };
+      }
+    ),
+  };
+}
+
+function readSizes(value: unknown, path: string): PRSizeStats {
+  const sizes = readObject(value, path);
+  return {
+    buckets: readList(sizes.buckets, `${path}.buckets`, (item, p) => {
+      const bucket = readObject(item, p);
+      return {
+        label: readText(bucket.label, `${p}.label`),
+        maxFiles: readNullable(bucket.maxFiles, `${p}.maxFiles`, readNumber),
+        count: readNumber(bucket.count, `${p}.count`),
+        avgHoursToMerge: readNullable(
+          bucket.avgHoursToMerge,
+          `${p}.avgHoursToMerge`,
+          readNumber
+        ),
+      };
+    }),
+    sizeMergeCorrelation: readNullable(
+      sizes.sizeMergeCorrelation,
+      `${path}.sizeMergeCorrelation`,
+      readNumber
+    ),
+  };
+}
+
+function readReviews(value: unknown, path: string): ReviewStats {
+  const reviews = readObject(value, path);
+  const votes = readObject(reviews.votes, `${path}.votes`);
+  return {
+    total: readNumber(reviews.total, `${path}.total`),
+    votes: {
+      approved: readNumber(votes.approved, `${path}.votes.approved`),
+      approvedWithSuggestions: readNumber(
+        votes.approvedWithSuggestions,
+        `${path}.votes.approvedWithSuggestions`
+      ),
+      waitingForAuthor: readNumber(
+        votes.waitingForAuthor,
+        `${path}.votes.waitingForAuthor`
+      ),
+      rejected: readNumber(votes.rejected, `${path}.votes.rejected`),
+      noVote: readNumber(votes.noVote, `${path}.votes.noVote`),
+    },
+    medianHoursToFirstVote: readNullable(
+      reviews.medianHoursToFirstVote,
+      `${path}.medianHoursToFirstVote`,
+      readNumber
+    ),
+    topAuthors: readList(
+      reviews.topAuthors,
+      `${path}.topAuthors`,
+      (item, p) => {
+        const author = readObject(item, p);
+        return {
+          name: readText(author.name, `${p}.name`),
+          count: readNumber(author.count, `${p}.count`),
+        };
+      }
+    ),
+  };
+}
+
+function readWorkItems(value: unknown, path: string): WorkItemStats {
+  const items = readObject(value, path);
+  return {
+    total: readNumber(items.total, `${path}.total`),
+    byType: readCounts(items.byType, `${path}.byType`),
+    byPriority: readCounts(items.byPriority, `${path}.byPriority`),
+    byMonth: readCounts(items.byMonth, `${path}.byMonth`),
+    bugsFixed: readNumber(items.bugsFixed, `${path}.bugsFixed`),
+    bugsBySeverity: readCounts(items.bugsBySeverity, `${path}.bugsBySeverity`),
+    topTags: readList(items.topTags, `${path}.topTags`, (item, p) => {
+      const tag = readObject(item, p);
+      return {
+        tag: readText(tag.tag, `${p}.tag`),
+        count: readNumber(tag.count, `${p}.count`),
+      };
+    }),
+    avgResolutionDays: readNumber(
+      items.avgResolutionDays,
+      `${path}.avgResolutionDays`
+    ),
+    fastestResolution: readNullable(
+      items.fastestResolution,
+      `${path}.fastestResolution`,
+      (item, p) => {
+        const fastest = readObject(item, p);
+        return {
+          ...readItemRef(fastest, p),
+          hours: readNumber(fastest.hours, `${p}.hours`),
+        };
+      }
+    ),
+    firstResolvedDate: readText(
+      items.firstResolvedDate,
+      `${path}.firstResolvedDate`
+    ),
+    lastResolvedDate: readText(
+      items.lastResolvedDate,
+      `${path}.lastResolvedDate`
+    ),
+    topAreas: readList(items.topAreas, `${path}.topAreas`, (item, p) => {
+      const area = readObject(item, p);
+      return {
+        area: readText(area.area, `${p}.area`),
+        count: readNumber(area.count, `${p}.count`),
+      };
+    }),
+  };
+}
+
+function readBuilds(value: unknown, path: string): BuildStats {
+  const builds = readObject(value, path);
+  return {
+    total: readNumber(builds.total, `${path}.total`),
+    succeeded: readNumber(builds.succeeded, `${path}.succeeded`),
+    failed: readNumber(builds.failed, `${path}.failed`),
+    canceled: readNumber(builds.canceled, `${path}.canceled`),
+    successRate: readNumber(builds.successRate, `${path}.successRate`),
+    avgDurationMinutes: readNumber(
+      builds.avgDurationMinutes,
+      `${path}.avgDurationMinutes`
+    ),
+    longestFailureStreak: readNumber(
+      builds.longestFailureStreak,
+      `${path}.longestFailureStreak`
+    ),
+    topPipelines: readList(
+      builds.topPipelines,
+      `${path}.topPipelines`,
+      (item, p) => {
+        const pipeline = readObject(item, p);
+        return {
+          definitionId: readNumber(pipeline.definitionId, `${p}.definitionId`),
+          name: readText(pipeline.name, `${p}.name`),
+          count: readNumber(pipeline.count, `${p}.count`),
+          successRate: readNumber(pipeline.successRate, `${p}.successRate`),
+        };
+      }
+    ),
+  };
+}
+
+function readInsights(value: unknown, path: string): Insights {
+  const insights = readObject(value, path);
+  return {
+    personality: readOneOf(
+      insights.personality,
+      `${path}.personality`,
+      PERSONALITY_TYPES
+    ),
+    busiestMonth: readText(insights.busiestMonth, `${path}.busiestMonth`),
+    busiestDay: readText(insights.busiestDay, `${path}.busiestDay`),
+    favoriteCommitHour: readNumber(
+      insights.favoriteCommitHour,
+      `${path}.favoriteCommitHour`
+    ),
+    topFileExtensions: readList(
+      insights.topFileExtensions,
+      `${path}.topFileExtensions`,
+      (item, p) => {
+        const extension = readObject(item, p);
+        return {
+          ext: readText(extension.ext, `${p}.ext`),
+          count: readNumber(extension.count, `${p}.count`),
+        };
+      }
+    ),
+    languages: readList(insights.languages, `${path}.languages`, (item, p) => {
+      const language = readObject(item, p);
+      return {
+        language: readText(language.language, `${p}.language`),
+        files: readNumber(language.files, `${p}.files`),
+        percentage: readNumber(language.percentage, `${p}.percentage`),
+      };
+    }),
+  };
+}
+
+function readComparison(value: unknown, path: string): YearComparison {
+  const comparison = readObject(value, path);
+  const readDelta = (delta: unknown, p: string): StatDelta => {
+    const stat = readObject(delta, p);
+    return {
+      previous: readNumber(stat.previous, `${p}.previous`),
+      change: readNumber(stat.change, `${p}.change`),
+      percentChange: readNullable(
+        stat.percentChange,
+        `${p}.percentChange`,
+        readNumber
+      ),
+    };
+  };
+  return {
+    year: readNumber(comparison.year, `${path}.year`),
+    label: readText(comparison.label, `${path}.label`),
+    commits: readDelta(comparison.commits, `${path}.commits`),
+    pullRequestsMerged: readDelta(
+      comparison.pullRequestsMerged,
+      `${path}.pullRequestsMerged`
+    ),
+    avgDaysToMerge: readDelta(
+      comparison.avgDaysToMerge,
+      `${path}.avgDaysToMerge`
+    ),
+    workItemsResolved: readDelta(
+      comparison.workItemsResolved,
+      `${path}.workItemsResolved`
+    ),
+    longestStreak: readDelta(comparison.longestStreak, `${path}.longestStreak`),
+  };
+}
+
+// The id and title of a PR or work item a story names
+function readItemRef(
+  value: Record<string, unknown>,
+  path: string
+): { id: number; title: string } {
+  return {
+    id: readNumber(value.id, `${path}.id`),
+    title: readText(value.title, `${path}.title`),
+  };
+}
+
+function readObject(value: unknown, path: string): Record<string, any> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`${path} must be an object`);
+  }
+  return value as Record<string, any>;
+}
+
+function readNumber(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`${path} must be a number`);
+  }
+  return value;
+}
+
+function readText(value: unknown, path: string): string {
+  if (typeof value !== "string" || value.length > MAX_SNAPSHOT_TEXT_LENGTH) {
+    throw new Error(
+      `${path} must be a string of at most ${MAX_SNAPSHOT_TEXT_LENGTH} characters`
+    );
+  }
+  return value;
+}
+
+function readDate(value: unknown, path: string): string {
+  if (typeof value !== "string" || !DATE_PATTERN.test(value)) {
+    throw new Error(`${path} must be a YYYY-MM-DD date`);
+  }
+  return value;
+}
+
+function readOneOf<T extends string>(
+  value: unknown,
+  path: string,
+  allowed: readonly T[]
+): T {
+  if (!allowed.includes(value as T)) {
+    throw new Error(`${path} must be one of: ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+function readNullable<T>(
+  value: unknown,
+  path: string,
+  read: (value: unknown, path: string) => T
+): T | null {
+  return value === null ? null : read(value, path);
+}
+
+function readList<T>(
+  value: unknown,
+  path: string,
+  read: (value: unknown, path: string) => T
+): T[] {
+  if (!Array.isArray(value) || value.length > MAX_SNAPSHOT_LIST_LENGTH) {
+    throw new Error(
+      `${path} must be a list of at most ${MAX_SNAPSHOT_LIST_LENGTH} items`
+    );
+  }
+  return value.map((item, index) => read(item, `${path}[${index}]`));
+}
+
+// Counts by month, weekday, hour, type, priority or severity
+function readCounts(value: unknown, path: string): Record<string, number> {
+  const counts = readObject(value, path);
+  const keys = Object.keys(counts);
+  if (keys.length > MAX_SNAPSHOT_LIST_LENGTH) {
+    throw new Error(
+      `${path} must have at most ${MAX_SNAPSHOT_LIST_LENGTH} entries`
+    );
+  }
+  const result: Record<string, number> = {};
+  for (const key of keys) {
+    readText(key, `${path} key`);
+    result[key] = readNumber(counts[key], `${path}.${key}`);
+  }
+  return result;
+}
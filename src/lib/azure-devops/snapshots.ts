@@ -0,0 +1,347 @@
+import * as path from "path";
+import * as crypto from "crypto";
+import { createCacheStore } from "./cache";
+import {
+  CACHE_STORE_TYPES,
+  CacheStore,
+  CacheStoreType,
+  parseCacheStoreOptions,
+} from "./cacheStore";
+import { parseSnapshotStats } from "./snapshotStats";
+import {
+  DEFAULT_SNAPSHOT_DIRECTORY,
+  DEFAULT_SNAPSHOT_RATE_LIMIT,
+  DEFAULT_SNAPSHOT_TTL_DAYS,
+  MAX_SNAPSHOT_TTL_DAYS,
+  SNAPSHOT_PRUNE_INTERVAL_MS,
+  SNAPSHOT_RATE_LIMIT_WINDOW_MS,
+  SNAPSHOT_REDIS_KEY_PREFIX,
+} from "../constants";
+import type { ClientWrappedStats } from "../../types";
+
+/**
+ * Snapshot settings, from ADO_SNAPSHOT_STORE, ADO_SNAPSHOT_DIR,
+ * ADO_SNAPSHOT_TTL_DAYS and ADO_SNAPSHOT_RATE_LIMIT
+ */
+export interface SnapshotOptions {
+  store: CacheStoreType; // Same stores as the cache; redis uses ADO_REDIS_URL
+  directory: string; // file: one JSON file per snapshot; sqlite: holds snapshots.sqlite
+  ttlDays: number; // Lifetime when the creator doesn't pick one (0 = never expires)
+  rateLimit: number; // Snapshots a client may save per hour (0 = sharing off)
+}
+
+/**
+ * A saved Wrapped, as anyone with its link sees it
+ */
+export interface WrappedSnapshot {
+  id: string;
+  createdAt: string;
+  expiresAt: string | null; // null = never expires
+  selfReported: true; // Posted by the sharer, not collected by this server
+  stats: ClientWrappedStats;
+}
+
+/**
+ * A new snapshot, with the token its creator needs to delete it (only
+ * returned once; the store keeps a hash)
+ */
+export interface CreatedSnapshot extends WrappedSnapshot {
+  deleteToken: string;
+}
+
+export type DeleteSnapshotResult = "deleted" | "notFound" | "forbidden";
+
+interface StoredSnapshot extends WrappedSnapshot {
+  deleteTokenHash: string;
+}
+
+// 12 random bytes, base64url encoded
+const SNAPSHOT_ID_PATTERN = /^[\w-]{16}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The store selected by ADO_SNAPSHOT_STORE, created on first use
+let snapshotStore: CacheStore | null = null;
+let lastPruneAt = 0;
+
+// When each client saved its snapshots in the last hour, by client address
+// (per instance, so several instances each allow the limit)
+const recentSaves = new Map<string, number[]>();
+
+/**
+ * Read snapshot settings from environment variables
+ * (invalid values are kept so validation can report them)
+ */
+export function parseSnapshotOptions(
+  env: NodeJS.ProcessEnv = process.env
+): SnapshotOptions {
+  return {
+    store: (env.ADO_SNAPSHOT_STORE?.trim() || "file") as CacheStoreType,
+    directory: path.resolve(
+      process.cwd(),
+      env.ADO_SNAPSHOT_DIR || DEFAULT_SNAPSHOT_DIRECTORY
+    ),
+    ttlDays: Number(env.ADO_SNAPSHOT_TTL_DAYS || DEFAULT_SNAPSHOT_TTL_DAYS),
+    rateLimit: Number(
+      env.ADO_SNAPSHOT_RATE_LIMIT ?? DEFAULT_SNAPSHOT_RATE_LIMIT
+    ),
+  };
+}
+
+/**
+ * Validate snapshot settings, returning an error message or null when valid
+ */
+export function validateSnapshotOptions(
+  options: SnapshotOptions
+): string | null {
+  if (!CACHE_STORE_TYPES.includes(options.store)) {
+    return `ADO_SNAPSHOT_STORE must be one of: ${CACHE_STORE_TYPES.join(", ")}`;
+  }
+  if (!isValidTtlDays(options.ttlDays, 0)) {
+    return `ADO_SNAPSHOT_TTL_DAYS must be a whole number of days from 0 (never expire) to ${MAX_SNAPSHOT_TTL_DAYS}`;
+  }
+  if (!Number.isInteger(options.rateLimit) || options.rateLimit < 0) {
+    return "ADO_SNAPSHOT_RATE_LIMIT must be a whole number of snapshots per hour (0 turns sharing off)";
+  }
+  return null;
+}
+
+/**
+ * Validate a snapshot request body ({ stats, expiresInDays? }), returning an
+ * error message or null when valid. Only an individual Wrapped, shaped as
+ * /api/stats returns it, can be saved.
+ */
+export function validateSnapshotRequest(body: any): string | null {
+  if (body?.stats === undefined) {
+    return "stats is required";
+  }
+  try {
+    parseSnapshotStats(body.stats);
+  } catch (error: any) {
+    return error.message;
+  }
+  if (
+    body.expiresInDays !== undefined &&
+    !isValidTtlDays(body.expiresInDays, 1)
+  ) {
+    return `expiresInDays must be a whole number of days from 1 to ${MAX_SNAPSHOT_TTL_DAYS}`;
+  }
+  return null;
+}
+
+export function isSnapshotId(id: string): boolean {
+  return SNAPSHOT_ID_PATTERN.test(id);
+}
+
+/**
+ * Whether new snapshots can be saved (ADO_SNAPSHOT_RATE_LIMIT isn't 0)
+ */
+export function isSharingEnabled(): boolean {
+  return parseSnapshotOptions().rateLimit > 0;
+}
+
+/**
+ * Count a client's snapshot save against ADO_SNAPSHOT_RATE_LIMIT. Returns
+ * null when it may save, or the seconds until it may save again.
+ */
+export function checkSnapshotRateLimit(
+  client: string,
+  now = Date.now()
+): number | null {
+  const { rateLimit } = parseSnapshotOptions();
+
+  // Forget clients whose saves have all left the window
+  Array.from(recentSaves.entries()).forEach(([key, times]) => {
+    if (times[times.length - 1] <= now - SNAPSHOT_RATE_LIMIT_WINDOW_MS) {
+      recentSaves.delete(key);
+    }
+  });
+
+  const times = (recentSaves.get(client) || []).filter(
+    (time) => time > now - SNAPSHOT_RATE_LIMIT_WINDOW_MS
+  );
+  if (times.length >= rateLimit) {
+    return Math.ceil((times[0] + SNAPSHOT_RATE_LIMIT_WINDOW_MS - now) / 1000);
+  }
+  recentSaves.set(client, [...times, now]);
+  return null;
+}
+
+/**
+ * Save a Wrapped as an immutable snapshot. It expires after `expiresInDays`,
+ * or ADO_SNAPSHOT_TTL_DAYS when not given. Only the fields the stories show
+ * are kept; the user's email and aliases are not published.
+ */
+export async function createSnapshot(
+  wrapped: ClientWrappedStats,
+  expiresInDays?: number
+): Promise<CreatedSnapshot> {
+  const store = getSnapshotStore();
+  const stats = parseSnapshotStats(wrapped);
+  const ttlDays = expiresInDays ?? parseSnapshotOptions().ttlDays;
+  const deleteToken = crypto.randomBytes(24).toString("base64url");
+  const now = Date.now();
+  const snapshot: WrappedSnapshot = {
+    id: crypto.randomBytes(12).toString("base64url"),
+    createdAt: new Date(now).toISOString(),
+    expiresAt:
+      ttlDays > 0 ? new Date(now + ttlDays * DAY_MS).toISOString() : null,
+    selfReported: true,
+    stats,
+  };
+
+  const stored: StoredSnapshot = {
+    ...snapshot,
+    deleteTokenHash: hashToken(deleteToken),
+  };
+  await store.set(snapshot.id, JSON.stringify(stored));
+  console.log(
+    `📸 Saved snapshot ${snapshot.id} (${stats.meta.organization}, ${
+      snapshot.expiresAt ? `expires ${snapshot.expiresAt}` : "never expires"
+    })`
+  );
+
+  // Sweep expired snapshots now and then, so unread ones don't pile up
+  if (now - lastPruneAt > SNAPSHOT_PRUNE_INTERVAL_MS) {
+    lastPruneAt = now;
+    pruneExpiredSnapshots().catch((error) =>
+      console.error("❌ Failed to prune expired snapshots:", error)
+    );
+  }
+
+  return { ...snapshot, deleteToken };
+}
+
+/**
+ * Get a snapshot, or null when it doesn't exist or has expired (expired
+ * snapshots are deleted on the way)
+ */
+export async function getSnapshot(id: string): Promise<WrappedSnapshot | null> {
+  const stored = await readSnapshot(id);
+  if (!stored) return null;
+  const { deleteTokenHash, ...snapshot } = stored;
+  return snapshot;
+}
+
+/**
+ * Delete a snapshot with the token returned when it was created
+ */
+export async function deleteSnapshot(
+  id: string,
+  deleteToken: string
+): Promise<DeleteSnapshotResult> {
+  const stored = await readSnapshot(id);
+  if (!stored) return "notFound";
+
+  const expected = Buffer.from(stored.deleteTokenHash, "hex");
+  const actual = Buffer.from(hashToken(deleteToken), "hex");
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return "forbidden";
+  }
+
+  await getSnapshotStore().delete(id);
+  console.log(`🗑️  Deleted snapshot ${id}`);
+  return "deleted";
+}
+
+/**
+ * Delete every expired snapshot, returning how many were removed
+ */
+export async function pruneExpiredSnapshots(): Promise<number> {
+  const store = getSnapshotStore();
+  let removed = 0;
+  for (const id of await store.keys()) {
+    const value = await store.get(id);
+    if (!value) continue;
+    // Unreadable snapshots can't be shown, so they go too
+    const stored = parseStoredSnapshot(id, value);
+    if (!stored || isExpired(stored)) {
+      await store.delete(id);
+      removed++;
+    }
+  }
+  if (removed > 0) {
+    console.log(`🧹 Pruned ${removed} expired snapshots`);
+  }
+  return removed;
+}
+
+/**
+ * Close the snapshot store's connections, so scripts can exit
+ */
+export async function closeSnapshotStore(): Promise<void> {
+  if (snapshotStore) {
+    await snapshotStore.close();
+    snapshotStore = null;
+  }
+}
+
+function getSnapshotStore(): CacheStore {
+  if (!snapshotStore) {
+    const options = parseSnapshotOptions();
+    const error = validateSnapshotOptions(options);
+    if (error) {
+      throw new Error(`Invalid snapshot settings: ${error}`);
+    }
+    // The cache's store types, kept apart from cached responses
+    snapshotStore = createCacheStore({
+      ...parseCacheStoreOptions(),
+      type: options.store,
+      directory: options.directory,
+      sqlitePath: path.join(options.directory, "snapshots.sqlite"),
+      redisKeyPrefix: SNAPSHOT_REDIS_KEY_PREFIX,
+    });
+  }
+  return snapshotStore;
+}
+
+async function readSnapshot(id: string): Promise<StoredSnapshot | null> {
+  if (!isSnapshotId(id)) return null;
+  const value = await getSnapshotStore().get(id);
+  if (!value) return null;
+
+  const stored = parseStoredSnapshot(id, value);
+  if (!stored) return null;
+  if (isExpired(stored)) {
+    await getSnapshotStore().delete(id);
+    console.log(`⏰ Snapshot ${id} expired at ${stored.expiresAt}`);
+    return null;
+  }
+  return stored;
+}
+
+// A stored snapshot, or null (with a warning) when it's corrupt or its stats
+// aren't a Wrapped the stories can show
+function parseStoredSnapshot(id: string, value: string): StoredSnapshot | null {
+  try {
+    const stored = JSON.parse(value);
+    return {
+      ...stored,
+      selfReported: true,
+      stats: parseSnapshotStats(stored.stats),
+    };
+  } catch (error: any) {
+    console.warn(`⚠️ Ignoring unreadable snapshot ${id}: ${error.message}`);
+    return null;
+  }
+}
+
+function isExpired(snapshot: { expiresAt: string | null }): boolean {
+  return !!snapshot.expiresAt && new Date(snapshot.expiresAt) <= new Date();
+}
+
+function isValidTtlDays(value: unknown, min: number): boolean {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= min &&
+    value <= MAX_SNAPSHOT_TTL_DAYS
+  );
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,120 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import type { CacheStore } from "./cacheStore";
+
+// The parts of node:sqlite's DatabaseSync used here (typed locally, since the
+// module ships with Node.js 22.5+ and isn't in older @types/node)
+interface SqliteStatement {
+  get(...params: unknown[]): Record<string, unknown> | undefined;
+  all(...params: unknown[]): Record<string, unknown>[];
+  run(...params: unknown[]): { changes: number | bigint };
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+/**
+ * All entries in one SQLite database file, using Node's built-in node:sqlite
+ * (Node.js 22.13+, or 22.5+ with --experimental-sqlite). Handy when thousands
+ * of small JSON files are slow to list or copy around.
+ *
+ * node:sqlite is synchronous, but each statement is a single indexed lookup
+ * or write on a local file.
+ */
+export class SqliteCacheStore implements CacheStore {
+  readonly type = "sqlite";
+  private database: Promise<SqliteDatabase> | null = null;
+
+  constructor(readonly location: string) {}
+
+  async get(key: string): Promise<string | null> {
+    const db = await this.open();
+    const row = db
+      .prepare("SELECT value FROM cache_entries WHERE key = ?")
+      .get(key);
+    return row ? String(row.value) : null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const db = await this.open();
+    db.prepare(
+      `INSERT INTO cache_entries (key, value, size) VALUES (?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value, size = excluded.size`
+    ).run(key, value, Buffer.byteLength(value));
+  }
+
+  async delete(key: string): Promise<void> {
+    const db = await this.open();
+    db.prepare("DELETE FROM cache_entries WHERE key = ?").run(key);
+  }
+
+  async keys(): Promise<string[]> {
+    const db = await this.open();
+    return db
+      .prepare("SELECT key FROM cache_entries")
+      .all()
+      .map((row) => String(row.key));
+  }
+
+  async clear(): Promise<number> {
+    const db = await this.open();
+    const { changes } = db.prepare("DELETE FROM cache_entries").run();
+    return Number(changes);
+  }
+
+  async stats(): Promise<{ entries: number; totalSize: number }> {
+    const db = await this.open();
+    const row = db
+      .prepare(
+        "SELECT COUNT(*) AS entries, COALESCE(SUM(size), 0) AS totalSize FROM cache_entries"
+      )
+      .get();
+    return {
+      entries: Number(row?.entries || 0),
+      totalSize: Number(row?.totalSize || 0),
+    };
+  }
+
+  async close(): Promise<void> {
+    if (!this.database) return;
+    const database = this.database;
+    this.database = null;
+    (await database).close();
+  }
+
+  private open(): Promise<SqliteDatabase> {
+    if (!this.database) {
+      this.database = this.openDatabase();
+      this.database.catch(() => (this.database = null));
+    }
+    return this.database;
+  }
+
+  private async openDatabase(): Promise<SqliteDatabase> {
+    let sqlite: { DatabaseSync: new (location: string) => SqliteDatabase };
+    try {
+      // Kept out of the bundle: resolved by Node at runtime
+      sqlite = await import(/* webpackIgnore: true */ "node:sqlite" as string);
+    } catch {
+      throw new Error(
+        `The sqlite cache store needs Node.js 22.13+ (or 22.5+ with --experimental-sqlite); this is ${process.version}`
+      );
+    }
+
+    await fs.mkdir(path.dirname(this.location), { recursive: true });
+    const db = new sqlite.DatabaseSync(this.location);
+    db.exec(`
+      PRAGMA journal_mode = WAL;
+      CREATE TABLE IF NOT EXISTS cache_entries (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        size INTEGER NOT NULL
+      );
+    `);
+    console.log(`🗄️  Opened SQLite cache at ${this.location}`);
+    return db;
+  }
+}
@@ -0,0 +1,1056 @@
+import {
+  fetchCommits,
+  fetchLineCountsForCommits,
+  fetchChangedPathsForCommits,
+  CommitLineCounts,
+} from "./commits";
+import { ChangedFile } from "./languages";
+import {
+  fetchPullRequests,
+  fetchReviewedPullRequests,
+  fetchThreadsForPullRequests,
+  fetchPRSizes,
+  ReviewedPullRequest,
+  PullRequestSize,
+} from "./pullRequests";
+import { fetchWorkItems } from "./workItems";
+import { fetchBuilds } from "./builds";
+import {
+  aggregateStats,
+  aggregateTeamRollup,
+  compareWithYear,
+} from "./aggregator";
+import { createClient } from "./client";
+import {
+  CredentialProvider,
+  getConfigCredential,
+  getCredentialFromHeader,
+} from "./credentials";
+import { getRequestPool } from "./concurrency";
+import {
+  GitCommit,
+  GitPullRequest,
+  GitPullRequestCommentThread,
+  WorkItem,
+} from "./types";
+import { loadConfig, validateConfig, parseTeamMembers } from "../config";
+import { MAX_COMPARE_YEARS } from "../constants";
+import {
+  parseDateRangeOptions,
+  resolveDateRange,
+  validateDateRangeOptions,
+} from "../dateRange";
+import {
+  getIdentityAliases,
+  parseIdentityAliases,
+  validateIdentityAliases,
+} from "../identity";
+import { getZonedRangeBounds, isValidTimeZone } from "../timezone";
+import type {
+  DateRange,
+  DateRangeOptions,
+  IdentityAliases,
+  LanguageSource,
+  ProjectRepository,
+  WrappedStats,
+  ClientWrappedStats,
+  ClientTeamWrappedStats,
+  StatsProgressEvent,
+  StatsResource,
+  YearComparison,
+  AzureDevOpsAPI,
+} from "../../types";
+
+/**
+ * Validated parameters for a stats request
+ */
+export interface StatsRequestParams {
+  credential: CredentialProvider; // From the Authorization header or .env
+  organization: string;
+  projects: string[];
+  projectRepos: ProjectRepository[];
+  year: string;
+  dateRangeOptions: DateRangeOptions; // Requested period (re-resolved for prior years)
+  dateRange: DateRange; // Resolved reporting period
+  timeZone: string; // IANA timezone for hours, weekdays and dates
+  compareYears: number; // Prior years to compare against (0 = none)
+  userEmail?: string;
+  teamMembers: string[]; // Team mode when non-empty (userEmail is then ignored)
+  aliases: IdentityAliases; // Other identities of the user or team members
+  includeBuilds: boolean;
+  lineDiffs: boolean; // Count lines from commit diffs instead of files
+  languageSource: LanguageSource; // Where changed file paths come from
+  pullRequestDetails: boolean; // Fetch reviewed PRs, PR threads and PR sizes (prior years don't)
+  excludePaths: string[]; // From ADO_EXCLUDE_PATHS (server-side only)
+}
+
+/**
+ * Result of parsing/collecting: either a value or an HTTP error to return
+ */
+export type StatsResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; status: number; body: Record<string, any> };
+
+export type StatsProgressCallback = (event: StatsProgressEvent) => void;
+
+/**
+ * Filter server-side stats to only include fields used by the client UI.
+ * This reduces the JSON payload sent to the browser.
+ */
+export function filterStatsForClient(stats: WrappedStats): ClientWrappedStats {
+  return {
+    meta: stats.meta,
+    commits: {
+      total: stats.commits.total,
+      additions: stats.commits.additions,
+      deletions: stats.commits.deletions,
+      changeUnit: stats.commits.changeUnit,
+      byDayOfWeek: stats.commits.byDayOfWeek,
+      byHour: stats.commits.byHour,
+      longestStreak: stats.commits.longestStreak,
+      commitDates: stats.commits.commitDates,
+    },
+    pullRequests: {
+      created: stats.pullRequests.created,
+      merged: stats.pullRequests.merged,
+      reviewed: stats.pullRequests.reviewed,
+      avgDaysToMerge: stats.pullRequests.avgDaysToMerge,
+      avgDaysToMergeFormatted: stats.pullRequests.avgDaysToMergeFormatted,
+      largestPR: stats.pullRequests.largestPR,
+      byMonth: stats.pullRequests.byMonth,
+      byDayOfWeek: stats.pullRequests.byDayOfWeek,
+      firstPRDate: stats.pullRequests.firstPRDate,
+      lastPRDate: stats.pullRequests.lastPRDate,
+      fastestMerge: stats.pullRequests.fastestMerge,
+      slowestMerge: stats.pullRequests.slowestMerge,
+      comments: stats.pullRequests.comments,
+      sizes: stats.pullRequests.sizes,
+    },
+    reviews: stats.reviews,
+    workItems: stats.workItems,
+    builds: stats.builds,
+    insights: stats.insights,
+    comparisons: stats.comparisons,
+  };
+}
+
+/**
+ * Parse and validate stats request parameters.
+ * Falls back to server-side config from .env when no parameters are provided.
+ */
+export function parseStatsRequest(
+  searchParams: URLSearchParams,
+  authHeader: string | null,
+  requestId: number
+): StatsResult<StatsRequestParams> {
+  // Get the PAT or Entra ID access token from the Authorization header
+  let credential = getCredentialFromHeader(authHeader);
+
+  // Get parameters from URL search params
+  let organization = searchParams.get("organization");
+  const projectsParam = searchParams.get("projects");
+  // 'repositories' as JSON array of {project, repository} objects
+  const repositoriesParam = searchParams.get("repositories");
+  let year = searchParams.get("year");
+  let userEmail = searchParams.get("userEmail");
+  // Year-over-year: compareYears=N prior years, or ADO_COMPARE_YEARS (capped)
+  const compareYearsParam = parseInt(searchParams.get("compareYears") || "");
+  const compareYears = Math.min(
+    Math.max(
+      isNaN(compareYearsParam)
+        ? loadConfig().compareYears || 0
+        : compareYearsParam,
+      0
+    ),
+    MAX_COMPARE_YEARS
+  );
+  // Reporting period: dateRange=calendarYear|fiscalYear|quarter|lastNDays|custom
+  // (with fiscalYearStartMonth, quarter, days or startDate/endDate), or ADO_DATE_RANGE
+  const dateRangeOptions = searchParams.get("dateRange")
+    ? parseDateRangeOptions({
+        preset: searchParams.get("dateRange"),
+        fiscalYearStartMonth: searchParams.get("fiscalYearStartMonth"),
+        quarter: searchParams.get("quarter"),
+        days: searchParams.get("days"),
+        startDate: searchParams.get("startDate"),
+        endDate: searchParams.get("endDate"),
+      })
+    : loadConfig().dateRange;
+  // Timezone for hours, weekdays and dates: timeZone=America/Los_Angeles or ADO_TIME_ZONE
+  const timeZone = searchParams.get("timeZone") || loadConfig().timeZone;
+  // Team mode: comma-separated member emails
+  let teamMembers = parseTeamMembers(searchParams.get("teamMembers"));
+  // Other identities per person: aliases=alice@contoso.com=alice@old.com|Alice Smith;...
+  // or ADO_USER_ALIASES
+  const aliasesParam = searchParams.get("aliases");
+  const aliases = aliasesParam
+    ? parseIdentityAliases(aliasesParam)
+    : loadConfig().aliases;
+  // Builds are opt-in: enabled per request or via ADO_INCLUDE_BUILDS
+  const includeBuilds =
+    searchParams.get("includeBuilds") === "true" || loadConfig().includeBuilds;
+  // Line-level diffs are opt-in too (file diffs calls per commit and PR): lineDiffs or ADO_LINE_DIFFS
+  const lineDiffs =
+    searchParams.get("lineDiffs") === "true" || loadConfig().lineDiffs;
+  // Changed files for languages: languageSource=commits|pullRequests or ADO_LANGUAGE_SOURCE
+  const languageSourceParam = searchParams.get("languageSource");
+  const languageSource: LanguageSource =
+    languageSourceParam === "commits" || languageSourceParam === "pullRequests"
+      ? languageSourceParam
+      : loadConfig().languageSource;
+
+  // Parse projects array from comma-separated string
+  let projects: string[] = [];
+  if (projectsParam) {
+    projects = projectsParam
+      .split(",")
+      .map((p) => p.trim())
+      .filter(Boolean);
+  }
+
+  // Parse repositories array from JSON
+  let projectRepos: ProjectRepository[] = [];
+  if (repositoriesParam) {
+    try {
+      console.log(
+        `[${requestId}] 📦 Raw repositories param: ${repositoriesParam.substring(
+          0,
+          200
+        )}...`
+      );
+      projectRepos = JSON.parse(repositoriesParam);
+      console.log(
+        `[${requestId}] 📦 Parsed ${projectRepos.length} project-repo combinations:`,
+        projectRepos
+      );
+    } catch (e) {
+      console.error(`[${requestId}] ❌ Failed to parse repositories JSON:`, e);
+      console.error(`[${requestId}] ❌ Raw value: ${repositoriesParam}`);
+      return {
+        ok: false,
+        status: 400,
+        body: {
+          error: "Invalid repositories format",
+          details:
+            "repositories must be a JSON array of {project, repository} objects",
+        },
+      };
+    }
+  }
+
+  // If no parameters provided, try to use server-side config from .env
+  const useServerConfig =
+    !organization &&
+    projects.length === 0 &&
+    projectRepos.length === 0 &&
+    !year;
+  if (useServerConfig) {
+    console.log(`[${requestId}] 📁 Loading server-side config from .env`);
+    const serverConfig = loadConfig();
+    const validation = validateConfig(serverConfig);
+
+    if (validation.valid) {
+      credential = credential || getConfigCredential(serverConfig);
+      organization = serverConfig.organization;
+      // Use repositories directly from config - each repo is only queried in its project
+      projectRepos = serverConfig.repositories;
+      year = serverConfig.year.toString();
+      userEmail = userEmail || serverConfig.userEmail || null;
+      teamMembers =
+        teamMembers.length > 0 ? teamMembers : serverConfig.teamMembers;
+      console.log(`[${requestId}] ✅ Using server config`);
+    } else {
+      console.error(
+        `[${requestId}] ❌ Invalid server config:`,
+        validation.errors
+      );
+    }
+  }
+
+  // Derive unique projects from projectRepos if not explicitly provided
+  if (projects.length === 0 && projectRepos.length > 0) {
+    projects = Array.from(new Set(projectRepos.map((pr) => pr.project)));
+  }
+
+  console.log(
+    `[${requestId}] 🔑 Credential: ${credential ? credential.type : "(none)"}`
+  );
+  console.log(`[${requestId}] 📋 Parameters:`, {
+    organization,
+    projects,
+    repositories: Array.from(new Set(projectRepos.map((pr) => pr.repository))),
+    projectRepoCombos: projectRepos.length,
+    year,
+    dateRange: dateRangeOptions,
+    timeZone,
+    compareYears,
+    userEmail: userEmail || "(none)",
+    teamMembers: teamMembers.length > 0 ? teamMembers : "(none)",
+    aliases,
+    includeBuilds,
+    lineDiffs,
+    languageSource,
+    source: useServerConfig ? "server-config" : "request-params",
+  });
+
+  // Validate required parameters
+  if (!credential || !organization || projectRepos.length === 0 || !year) {
+    console.error(`[${requestId}] ❌ Missing required parameters`);
+    return {
+      ok: false,
+      status: 400,
+      body: {
+        error: "Missing required parameters",
+        required: [
+          "credential (PAT or access token in the Authorization header, or .env)",
+          "organization",
+          "repositories (JSON array of {project, repository})",
+          "year",
+        ],
+      },
+    };
+  }
+
+  const dateRangeError = validateDateRangeOptions(dateRangeOptions);
+  if (dateRangeError) {
+    console.error(`[${requestId}] ❌ Invalid date range: ${dateRangeError}`);
+    return {
+      ok: false,
+      status: 400,
+      body: { error: "Invalid date range", details: dateRangeError },
+    };
+  }
+
+  const aliasesError = validateIdentityAliases(aliases);
+  if (aliasesError) {
+    console.error(`[${requestId}] ❌ Invalid aliases: ${aliasesError}`);
+    return {
+      ok: false,
+      status: 400,
+      body: { error: "Invalid aliases", details: aliasesError },
+    };
+  }
+
+  if (!isValidTimeZone(timeZone)) {
+    console.error(`[${requestId}] ❌ Invalid timezone: ${timeZone}`);
+    return {
+      ok: false,
+      status: 400,
+      body: {
+        error: "Invalid timezone",
+        details: `"${timeZone}" is not an IANA timezone name (e.g. "America/Los_Angeles")`,
+      },
+    };
+  }
+
+  return {
+    ok: true,
+    value: {
+      credential,
+      organization,
+      projects,
+      projectRepos,
+      year,
+      dateRangeOptions,
+      dateRange: resolveDateRange(dateRangeOptions, parseInt(year)),
+      timeZone,
+      compareYears,
+      userEmail: userEmail || undefined,
+      teamMembers,
+      aliases,
+      includeBuilds,
+      lineDiffs,
+      languageSource,
+      pullRequestDetails: true,
+      excludePaths: loadConfig().excludePaths,
+    },
+  };
+}
+
+/**
+ * Fetch data for every project-repo combination and aggregate it into
+ * client stats. Progress is reported through `onProgress` as it happens,
+ * which the streaming route forwards to the browser as Server-Sent Events.
+ */
+export async function collectStats(
+  params: StatsRequestParams,
+  requestId: number,
+  onProgress: StatsProgressCallback = () => {}
+): Promise<StatsResult<ClientWrappedStats>> {
+  const result = await collectWrappedStats(params, requestId, onProgress);
+  if (!result.ok) {
+    return result;
+  }
+  // Filter to only include fields used by the client UI
+  return { ok: true, value: filterStatsForClient(result.value) };
+}
+
+/**
+ * Team mode: collect stats for each member of `params.teamMembers` (all
+ * members in parallel, bounded by the organization's request pool) and roll
+ * them up. Repo progress events are tagged with the member they belong to.
+ *
+ * Members with no data are reported with an error instead of failing the
+ * whole team; the request only fails when no member has any data.
+ */
+export async function collectTeamStats(
+  params: StatsRequestParams,
+  requestId: number,
+  onProgress: StatsProgressCallback = () => {}
+): Promise<StatsResult<ClientTeamWrappedStats>> {
+  const { teamMembers, projectRepos } = params;
+
+  console.log(
+    `[${requestId}] 👥 Team mode: collecting stats for ${teamMembers.length} member(s)`
+  );
+  onProgress({
+    type: "start",
+    totalRepos: projectRepos.length * teamMembers.length,
+  });
+
+  const memberResults = await Promise.all(
+    teamMembers.map(async (member) => {
+      const result = await collectWrappedStats(
+        { ...params, userEmail: member },
+        requestId,
+        (event) => {
+          // Team-level start/aggregating events are sent once, here
+          if (
+            event.type === "repo-start" ||
+            event.type === "page" ||
+            event.type === "repo-done" ||
+            event.type === "repo-failed"
+          ) {
+            onProgress({ ...event, member });
+          }
+        }
+      );
+      if (!result.ok) {
+        console.warn(
+          `[${requestId}] ⚠️ ${member}: ${result.body.error || "No data"}`
+        );
+      }
+      return {
+        email: member,
+        stats: result.ok ? result.value : null,
+        error: result.ok ? undefined : (result.body.error as string),
+      };
+    })
+  );
+
+  const withStats = memberResults.filter((m) => m.stats !== null);
+  if (withStats.length === 0) {
+    console.error(`[${requestId}] ❌ No data found for any team member`);
+    return {
+      ok: false,
+      status: 404,
+      body: {
+        error: "No data found for any team member",
+        details: memberResults.map((m) => `${m.email}: ${m.error}`).join("; "),
+      },
+    };
+  }
+
+  console.log(`[${requestId}] 🔢 Rolling up team statistics...`);
+  onProgress({ type: "aggregating" });
+  const rollup = aggregateTeamRollup(memberResults);
+  const { meta } = withStats[0].stats!;
+
+  return {
+    ok: true,
+    value: {
+      meta: {
+        organization: meta.organization,
+        projects: meta.projects,
+        repositories: meta.repositories,
+        year: meta.year,
+        dateRange: meta.dateRange,
+        timeZone: meta.timeZone,
+        generatedAt: new Date().toISOString(),
+        members: teamMembers,
+      },
+      members: memberResults.map(({ email, stats, error }) => ({
+        email,
+        stats: stats ? filterStatsForClient(stats) : null,
+        ...(error && { error }),
+      })),
+      rollup,
+    },
+  };
+}
+
+/**
+ * Fetch and aggregate server-side stats for one user (or all users when
+ * `userEmail` is unset)
+ */
+async function collectWrappedStats(
+  params: StatsRequestParams,
+  requestId: number,
+  onProgress: StatsProgressCallback
+): Promise<StatsResult<WrappedStats>> {
+  const {
+    credential,
+    organization,
+    projects,
+    projectRepos,
+    year,
+    dateRange,
+    timeZone,
+    userEmail,
+    includeBuilds,
+    lineDiffs,
+    languageSource,
+    pullRequestDetails,
+    excludePaths,
+  } = params;
+  // Commits, PRs and reviews by any of the user's aliases count as theirs
+  const aliases = userEmail
+    ? getIdentityAliases(params.aliases, userEmail)
+    : [];
+
+  // Derive unique repositories for logging
+  const uniqueRepos = Array.from(
+    new Set(projectRepos.map((pr) => pr.repository))
+  );
+
+  const { startDate, endDate } = dateRange;
+  // The range's days start and end at local midnight in the user's timezone.
+  // WIQL only takes dates, so work items are queried for the whole UTC days
+  // around those instants and trimmed to the range when aggregating.
+  const { from, to } = getZonedRangeBounds(dateRange, timeZone);
+  const [workItemsFrom, workItemsTo] = [from, to].map(
+    (instant) => instant.split("T")[0]
+  );
+
+  console.log(
+    `[${requestId}] 📊 Fetching stats for ${organization} - ${projectRepos.length} project-repo combo(s) (${dateRange.label})`
+  );
+  console.log(
+    `[${requestId}] 📅 Date range: ${startDate} to ${endDate} (${timeZone})`
+  );
+  if (aliases.length > 0) {
+    console.log(
+      `[${requestId}] 🪪 Aliases of ${userEmail}: ${aliases.join(", ")}`
+    );
+  }
+
+  // Note: Caching is DISABLED by default (set ADO_CACHE_ENABLED=true to enable)
+  // This avoids disk storage issues in production/serverless environments.
+  // For local development, enable caching in .env for faster iteration.
+
+  console.log(
+    `[${requestId}] 🔄 Starting parallel data fetch for ${projectRepos.length} project-repo combo(s)...`
+  );
+  const fetchStartTime = Date.now();
+  onProgress({ type: "start", totalRepos: projectRepos.length });
+
+  // Create client for work items API
+  const client = createClient({ organization, credential });
+
+  // Fetch data from each project-repository combination
+  // KEY OPTIMIZATION: Each repo is only fetched from its correct project
+  // (no more trying every repo in every project)
+  const seenCommitIds = new Set<string>();
+  const seenPRIds = new Set<string>();
+  const seenReviewedPRIds = new Set<number>();
+  const seenWorkItemIds = new Set<string>();
+  const seenBuildIds = new Set<number>();
+  const allCommits: GitCommit[] = [];
+  const allPullRequests: GitPullRequest[] = [];
+  const allReviewedPullRequests: ReviewedPullRequest[] = [];
+  const allPullRequestThreads: Record<number, GitPullRequestCommentThread[]> =
+    {};
+  const allPullRequestSizes: Record<number, PullRequestSize> = {};
+  const allCommitLineCounts: Record<string, CommitLineCounts> = {};
+  const allChangedFiles: ChangedFile[] = [];
+  // Line counts are only used if every repo's commits could be diffed,
+  // so files and lines never get mixed in one total
+  let lineDiffsComplete = lineDiffs;
+  const allWorkItems: WorkItem[] = [];
+  const allBuilds: AzureDevOpsAPI.Build[] = [];
+  const comboErrors: { project: string; repo: string; error: string }[] = [];
+
+  // Track which projects we've already fetched work items from (work items are per-project, not per-repo)
+  const projectsWithWorkItems = new Set<string>();
+  // Builds are also per-project, so track them the same way
+  const projectsWithBuilds = new Set<string>();
+
+  // Process all project-repo combinations in parallel
+  // Each combo only fetches from its specific project (not all projects)
+  const comboResults = await Promise.all(
+    projectRepos.map(async (projectRepo) => {
+      const { project, repository, defaultBranch, extraBranches } = projectRepo;
+      console.log(
+        `[${requestId}] 📂 Fetching data for ${project}/${repository}`
+      );
+      onProgress({ type: "repo-start", project, repository });
+
+      // Report pages as they arrive, and per-resource failures that we recover from
+      const reportPage =
+        (resource: StatsResource) => (page: number, items: number) =>
+          onProgress({
+            type: "page",
+            project,
+            repository,
+            resource,
+            page,
+            items,
+          });
+      const reportFailure = (resource: StatsResource, error: string) =>
+        onProgress({
+          type: "repo-failed",
+          project,
+          repository,
+          resource,
+          error,
+        });
+
+      try {
+        // Determine if we need to fetch work items for this project
+        // (work items are per-project, so only fetch once per project)
+        const shouldFetchWorkItems = !projectsWithWorkItems.has(project);
+        if (shouldFetchWorkItems) {
+          projectsWithWorkItems.add(project);
+        }
+        const shouldFetchBuilds =
+          includeBuilds && !projectsWithBuilds.has(project);
+        if (shouldFetchBuilds) {
+          projectsWithBuilds.add(project);
+        }
+
+        // Fetch commits and PRs for this specific project-repo combo
+        // Work items only fetched once per project (they're not repo-specific)
+        const fetchPromises: Promise<any>[] = [
+          fetchCommits({
+            organization,
+            project,
+            repository,
+            credential,
+            fromDate: from,
+            toDate: to,
+            userEmail,
+            aliases,
+            defaultBranch,
+            extraBranches,
+            onPageFetched: reportPage("commits"),
+          }).catch((err) => {
+            console.warn(
+              `[${requestId}] ⚠️ ${project}/${repository}: Failed to fetch commits: ${err.message}`
+            );
+            reportFailure("commits", err.message);
+            return [] as GitCommit[];
+          }),
+          fetchPullRequests({
+            organization,
+            project,
+            repository,
+            credential,
+            fromDate: from,
+            toDate: to,
+            userEmail,
+            aliases,
+            defaultBranch,
+            extraBranches,
+            onPageFetched: reportPage("pullRequests"),
+          }).catch((err) => {
+            console.warn(
+              `[${requestId}] ⚠️ ${project}/${repository}: Failed to fetch PRs: ${err.message}`
+            );
+            reportFailure("pullRequests", err.message);
+            return [] as GitPullRequest[];
+          }),
+          pullRequestDetails
+            ? fetchReviewedPullRequests({
+                organization,
+                project,
+                repository,
+                credential,
+                fromDate: from,
+                toDate: to,
+                userEmail,
+                aliases,
+                onPageFetched: reportPage("reviews"),
+              }).catch((err) => {
+                console.warn(
+                  `[${requestId}] ⚠️ ${project}/${repository}: Failed to fetch reviewed PRs: ${err.message}`
+                );
+                reportFailure("reviews", err.message);
+                return [] as ReviewedPullRequest[];
+              })
+            : Promise.resolve([] as ReviewedPullRequest[]),
+        ];
+
+        // Only add work items fetch if this is the first repo from this project
+        if (shouldFetchWorkItems) {
+          fetchPromises.push(
+            fetchWorkItems(client, {
+              project,
+              fromDate: workItemsFrom,
+              toDate: workItemsTo,
+              userEmail,
+              onPageFetched: reportPage("workItems"),
+            }).catch((err) => {
+              console.warn(
+                `[${requestId}] ⚠️ ${project}: Failed to fetch work items: ${err.message}`
+              );
+              reportFailure("workItems", err.message);
+              return [] as WorkItem[];
+            })
+          );
+        }
+
+        // Only add builds fetch if enabled and this is the first repo from this project
+        if (shouldFetchBuilds) {
+          fetchPromises.push(
+            fetchBuilds(client, {
+              project,
+              fromDate: from,
+              toDate: to,
+              userEmail,
+              onPageFetched: reportPage("builds"),
+            }).catch((err) => {
+              console.warn(
+                `[${requestId}] ⚠️ ${project}: Failed to fetch builds: ${err.message}`
+              );
+              reportFailure("builds", err.message);
+              return [] as AzureDevOpsAPI.Build[];
+            })
+          );
+        }
+
+        const results = await Promise.all(fetchPromises);
+        const commitsResult = results[0] as GitCommit[];
+        const pullRequestsResult = results[1] as GitPullRequest[];
+        const reviewedResult = results[2] as ReviewedPullRequest[];
+        const workItemsResult = shouldFetchWorkItems
+          ? (results[3] as WorkItem[])
+          : [];
+        const buildsResult = shouldFetchBuilds
+          ? (results[shouldFetchWorkItems ? 4 : 3] as AzureDevOpsAPI.Build[])
+          : [];
+
+        // Comment threads (reviewed PRs already include theirs), sizes of the
+        // user's own PRs, line counts of commits when line diffs are enabled,
+        // and commit file paths when languages come from commits
+        const [threadsResult, sizesResult, lineCountsResult, commitPaths] =
+          await Promise.all([
+            pullRequestDetails
+              ? fetchThreadsForPullRequests(client, pullRequestsResult)
+              : ({} as Record<number, GitPullRequestCommentThread[]>),
+            pullRequestDetails
+              ? fetchPRSizes(client, pullRequestsResult, {
+                  lineDiffs,
+                  excludePaths,
+                })
+              : ({} as Record<number, PullRequestSize>),
+            lineDiffs
+              ? fetchLineCountsForCommits(
+                  client,
+                  project,
+                  repository,
+                  commitsResult,
+                  excludePaths
+                ).catch((err) => {
+                  console.warn(
+                    `[${requestId}] ⚠️ ${project}/${repository}: Failed to fetch line diffs: ${err.message}`
+                  );
+                  reportFailure(
+                    "commits",
+                    `Line diffs unavailable: ${err.message}`
+                  );
+                  lineDiffsComplete = false;
+                  return {} as Record<string, CommitLineCounts>;
+                })
+              : ({} as Record<string, CommitLineCounts>),
+            languageSource === "commits"
+              ? fetchChangedPathsForCommits(
+                  client,
+                  project,
+                  repository,
+                  commitsResult
+                ).catch((err) => {
+                  console.warn(
+                    `[${requestId}] ⚠️ ${project}/${repository}: Failed to fetch changed files: ${err.message}`
+                  );
+                  reportFailure(
+                    "commits",
+                    `Changed files unavailable: ${err.message}`
+                  );
+                  return [] as string[];
+                })
+              : ([] as string[]),
+          ]);
+
+        console.log(
+          `[${requestId}] 📈 ${project}/${repository}: Commits: ${
+            commitsResult.length
+          }, PRs: ${pullRequestsResult.length}, Reviewed PRs: ${
+            reviewedResult.length
+          }${
+            shouldFetchWorkItems
+              ? `, Work Items: ${workItemsResult.length}`
+              : ""
+          }${shouldFetchBuilds ? `, Builds: ${buildsResult.length}` : ""}`
+        );
+        onProgress({
+          type: "repo-done",
+          project,
+          repository,
+          commits: commitsResult.length,
+          pullRequests: pullRequestsResult.length,
+          reviews: reviewedResult.length,
+          workItems: workItemsResult.length,
+          builds: buildsResult.length,
+        });
+
+        // Files touched, from commits or from the PR changes fetched for sizes
+        const changedFiles: ChangedFile[] =
+          languageSource === "commits"
+            ? commitPaths.map((path) => ({
+                repository: `${project}/${repository}`,
+                path,
+              }))
+            : pullRequestsResult.flatMap((pr) =>
+                (sizesResult[pr.pullRequestId]?.paths || []).map((path) => ({
+                  repository: `${project}/${repository}`,
+                  path,
+                }))
+              );
+
+        return {
+          project,
+          repository,
+          commits: commitsResult,
+          commitLineCounts: lineCountsResult,
+          changedFiles,
+          pullRequests: pullRequestsResult,
+          pullRequestThreads: threadsResult,
+          pullRequestSizes: sizesResult,
+          reviewedPullRequests: reviewedResult,
+          workItems: workItemsResult,
+          builds: buildsResult,
+          success: true,
+        };
+      } catch (err: any) {
+        console.warn(
+          `[${requestId}] ⚠️ ${project}/${repository}: Fetch failed: ${err.message}`
+        );
+        comboErrors.push({ project, repo: repository, error: err.message });
+        onProgress({
+          type: "repo-failed",
+          project,
+          repository,
+          error: err.message,
+        });
+        return {
+          project,
+          repository,
+          commits: [] as GitCommit[],
+          commitLineCounts: {} as Record<string, CommitLineCounts>,
+          changedFiles: [] as ChangedFile[],
+          pullRequests: [] as GitPullRequest[],
+          pullRequestThreads: {} as Record<
+            number,
+            GitPullRequestCommentThread[]
+          >,
+          pullRequestSizes: {} as Record<number, PullRequestSize>,
+          reviewedPullRequests: [] as ReviewedPullRequest[],
+          workItems: [] as WorkItem[],
+          builds: [] as AzureDevOpsAPI.Build[],
+          success: false,
+        };
+      }
+    })
+  );
+
+  // Merge results with deduplication
+  for (const result of comboResults) {
+    for (const commit of result.commits) {
+      if (!seenCommitIds.has(commit.commitId)) {
+        seenCommitIds.add(commit.commitId);
+        allCommits.push(commit);
+      }
+    }
+    for (const pr of result.pullRequests) {
+      const prId = pr.pullRequestId.toString();
+      if (!seenPRIds.has(prId)) {
+        seenPRIds.add(prId);
+        allPullRequests.push(pr);
+      }
+    }
+    Object.assign(allCommitLineCounts, result.commitLineCounts);
+    allChangedFiles.push(...result.changedFiles);
+    Object.assign(allPullRequestThreads, result.pullRequestThreads);
+    Object.assign(allPullRequestSizes, result.pullRequestSizes);
+    for (const reviewed of result.reviewedPullRequests) {
+      const prId = reviewed.pullRequest.pullRequestId;
+      if (!seenReviewedPRIds.has(prId)) {
+        seenReviewedPRIds.add(prId);
+        allReviewedPullRequests.push(reviewed);
+      }
+    }
+    for (const wi of result.workItems) {
+      const wiId = wi.id.toString();
+      if (!seenWorkItemIds.has(wiId)) {
+        seenWorkItemIds.add(wiId);
+        allWorkItems.push(wi);
+      }
+    }
+    for (const build of result.builds) {
+      if (!seenBuildIds.has(build.id)) {
+        seenBuildIds.add(build.id);
+        allBuilds.push(build);
+      }
+    }
+  }
+
+  // Check if we got any data at all
+  const successfulCombos = comboResults.filter((r) => r.success).length;
+  const hasAnyData =
+    allCommits.length > 0 ||
+    allPullRequests.length > 0 ||
+    allReviewedPullRequests.length > 0 ||
+    allWorkItems.length > 0 ||
+    allBuilds.length > 0;
+
+  // Log warnings about failed combos but continue if we have data
+  if (comboErrors.length > 0) {
+    console.warn(
+      `[${requestId}] ⚠️ ${comboErrors.length} project-repo combo(s) had errors:`,
+      comboErrors
+    );
+  }
+
+  // Only fail if ALL combos failed AND we have no data
+  if (successfulCombos === 0 && !hasAnyData) {
+    console.error(
+      `[${requestId}] ❌ All project-repo combos failed to return data`
+    );
+    return {
+      ok: false,
+      status: 404,
+      body: {
+        error: "No data found in any of the selected repositories",
+        details:
+          comboErrors.length > 0
+            ? `Errors: ${comboErrors
+                .map((e) => `${e.project}/${e.repo}: ${e.error}`)
+                .join("; ")}`
+            : "No commits, PRs, or work items found for the specified criteria",
+      },
+    };
+  }
+
+  const fetchDuration = Date.now() - fetchStartTime;
+  console.log(`[${requestId}] ✅ Data fetched in ${fetchDuration}ms`);
+  const poolStats = getRequestPool(organization).getStats();
+  console.log(
+    `[${requestId}] 🚦 Request pool (since server start): ${poolStats.totalRequests} requests, limit ${poolStats.limit}, max queue depth ${poolStats.maxQueueDepth}`
+  );
+  console.log(
+    `[${requestId}] 📈 Total: Commits: ${allCommits.length}, PRs: ${allPullRequests.length}, Reviewed PRs: ${allReviewedPullRequests.length}, Work Items: ${allWorkItems.length}, Builds: ${allBuilds.length}`
+  );
+
+  // Aggregate into stats
+  console.log(`[${requestId}] 🔢 Aggregating statistics...`);
+  onProgress({ type: "aggregating" });
+  const aggregateStartTime = Date.now();
+
+  if (lineDiffs && !lineDiffsComplete) {
+    console.warn(
+      `[${requestId}] ⚠️ Line diffs incomplete - reporting file counts instead`
+    );
+  }
+
+  const stats = aggregateStats({
+    commits: allCommits,
+    commitLineCounts: lineDiffsComplete ? allCommitLineCounts : undefined,
+    pullRequests: allPullRequests,
+    reviewedPullRequests: allReviewedPullRequests,
+    pullRequestThreads: allPullRequestThreads,
+    pullRequestSizes: allPullRequestSizes,
+    workItems: allWorkItems,
+    builds: allBuilds,
+    changedFiles: allChangedFiles,
+    config: {
+      organization,
+      projects,
+      repositories: uniqueRepos,
+      year: parseInt(year),
+      dateRange,
+      timeZone,
+      userEmail,
+      aliases,
+      excludePaths,
+    },
+  });
+
+  const aggregateDuration = Date.now() - aggregateStartTime;
+  console.log(`[${requestId}] ✅ Stats aggregated in ${aggregateDuration}ms`);
+
+  if (params.compareYears > 0) {
+    stats.comparisons = await collectComparisons(
+      params,
+      stats,
+      requestId,
+      onProgress
+    );
+  }
+
+  return { ok: true, value: stats };
+}
+
+/**
+ * Collect the same period's stats in prior years (in parallel) and compare
+ * them with this period's. Prior periods skip reviewed PRs, PR threads and
+ * sizes, line diffs, commit paths and builds, which the comparison doesn't
+ * use, and don't report repo progress.
+ */
+async function collectComparisons(
+  params: StatsRequestParams,
+  current: WrappedStats,
+  requestId: number,
+  onProgress: StatsProgressCallback
+): Promise<YearComparison[]> {
+  const year = parseInt(params.year);
+  const priorRanges = Array.from({ length: params.compareYears }, (_, i) =>
+    resolveDateRange(params.dateRangeOptions, year, i + 1)
+  );
+  const periods = priorRanges.map((range) => range.label);
+
+  console.log(
+    `[${requestId}] 📆 Comparing with prior period(s): ${periods.join(", ")}`
+  );
+  onProgress({ type: "comparing", periods });
+
+  return Promise.all(
+    priorRanges.map(async (priorRange, i) => {
+      const priorYear = year - i - 1;
+      const result = await collectWrappedStats(
+        {
+          ...params,
+          year: priorYear.toString(),
+          dateRange: priorRange,
+          compareYears: 0,
+          includeBuilds: false,
+          lineDiffs: false,
+          languageSource: "pullRequests",
+          pullRequestDetails: false,
+        },
+        requestId,
+        () => {}
+      );
+      if (!result.ok) {
+        console.warn(
+          `[${requestId}] ⚠️ No data for ${priorRange.label}, comparing against zeros`
+        );
+      }
+      return compareWithYear(
+        current,
+        result.ok ? result.value : null,
+        priorYear,
+        priorRange.label
+      );
+    })
+  );
+}
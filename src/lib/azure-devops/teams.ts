@@ -0,0 +1,155 @@
+import { AzureDevOpsClient } from "./client";
+import {
+  IdentityRef,
+  TeamMemberResponse,
+  WebApiTeam,
+  WebApiTeamResponse,
+} from "./types";
+import { PAGINATION_PAGE_SIZE } from "../constants";
+
+/**
+ * Team with its parent project and members
+ */
+export interface TeamWithMembers {
+  id: string;
+  name: string;
+  project: string;
+  description?: string;
+  members: IdentityRef[];
+}
+
+/**
+ * Fetch all teams in a project.
+ * Uses the Core API: GET /_apis/projects/{project}/teams
+ */
+export async function fetchTeamsForProject(
+  client: AzureDevOpsClient,
+  project: string
+): Promise<WebApiTeam[]> {
+  console.log(`\n👥 fetchTeams: Fetching teams for project: ${project}`);
+
+  const teams: WebApiTeam[] = [];
+  const top = PAGINATION_PAGE_SIZE;
+  let skip = 0;
+
+  while (true) {
+    const response = await client.get<WebApiTeamResponse>(
+      `/_apis/projects/${project}/teams`,
+      { $top: top, $skip: skip }
+    );
+    const page = response.value || [];
+    teams.push(...page);
+
+    if (page.length < top) {
+      break;
+    }
+    skip += top;
+  }
+
+  console.log(`✅ Found ${teams.length} teams in ${project}`);
+  return teams;
+}
+
+/**
+ * Fetch the members of a team as identities (display name and unique name,
+ * which is the sign-in email for Azure AD and Microsoft accounts).
+ * Uses the Core API: GET /_apis/projects/{project}/teams/{team}/members
+ *
+ * Nested groups are left out: only people can be reported on.
+ */
+export async function fetchTeamMembers(
+  client: AzureDevOpsClient,
+  project: string,
+  teamId: string
+): Promise<IdentityRef[]> {
+  const members: IdentityRef[] = [];
+  const top = PAGINATION_PAGE_SIZE;
+  let skip = 0;
+
+  while (true) {
+    const response = await client.get<TeamMemberResponse>(
+      `/_apis/projects/${project}/teams/${teamId}/members`,
+      { $top: top, $skip: skip }
+    );
+    const page = response.value || [];
+    for (const { identity } of page) {
+      if (!identity.isContainer) {
+        members.push({
+          id: identity.id,
+          displayName: identity.displayName,
+          uniqueName: identity.uniqueName,
+          imageUrl: identity.imageUrl,
+        });
+      }
+    }
+
+    if (page.length < top) {
+      break;
+    }
+    skip += top;
+  }
+
+  return members;
+}
+
+/**
+ * Fetch the teams of multiple projects with their members.
+ * A project whose teams can't be listed is skipped (with a warning), and a
+ * team whose members can't be listed is returned without members.
+ */
+export async function fetchTeamsWithMembers(
+  client: AzureDevOpsClient,
+  projects: string[]
+): Promise<TeamWithMembers[]> {
+  console.log(
+    `\n👥 fetchTeamsWithMembers: Fetching teams for ${projects.length} project(s)`
+  );
+
+  const results = await Promise.all(
+    projects.map(async (project) => {
+      let teams: WebApiTeam[];
+      try {
+        teams = await fetchTeamsForProject(client, project);
+      } catch (error: any) {
+        console.warn(
+          `⚠️ Failed to fetch teams for project ${project}: ${error.message}`
+        );
+        return [];
+      }
+
+      return Promise.all(
+        teams.map(async (team): Promise<TeamWithMembers> => {
+          let members: IdentityRef[] = [];
+          try {
+            members = await fetchTeamMembers(client, project, team.id);
+          } catch (error: any) {
+            console.warn(
+              `⚠️ Failed to fetch members of team ${project}/${team.name}: ${error.message}`
+            );
+          }
+          return {
+            id: team.id,
+            name: team.name,
+            project: team.projectName || project,
+            description: team.description,
+            members,
+          };
+        })
+      );
+    })
+  );
+
+  // Sort alphabetically by project then by name
+  const teams = results.flat();
+  teams.sort((a, b) => {
+    const projectCompare = a.project.localeCompare(b.project);
+    if (projectCompare !== 0) return projectCompare;
+    return a.name.localeCompare(b.name);
+  });
+
+  console.log(
+    `✅ Total: ${teams.length} teams from ${projects.length} project(s)`
+  );
+
+  return teams;
+}
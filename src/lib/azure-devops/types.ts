@@ -42,11 +42,14 @@ export interface ChangeCountDictionary {
 export interface GitChange {
   item?: GitItem;
   changeType: string;
+  sourceServerItem?: string; // Previous path of a renamed item
 }
 
 export interface GitItem {
   path: string;
   url?: string;
+  isFolder?: boolean;
+  gitObjectType?: "blob" | "tree" | "commit" | "tag";
 }
 
 export interface GitPushRef {
@@ -56,6 +59,45 @@ export interface GitPushRef {
 
 export type GitCommitResponse = ApiCollectionResponse<GitCommit>;
 
+// Response of .../commits/{commitId}/changes (paged via top/skip)
+export interface GitCommitChanges {
+  changeCounts?: ChangeCountDictionary;
+  changes: GitChange[];
+}
+
+// ============================================
+// File Diffs (line-level changes between two commits)
+// ============================================
+
+export interface FileDiffsCriteria {
+  baseVersionCommit: string;
+  targetVersionCommit: string;
+  fileDiffParams: FileDiffParams[];
+}
+
+export interface FileDiffParams {
+  path: string;
+  originalPath?: string;
+}
+
+export interface FileDiff {
+  path: string;
+  originalPath?: string;
+  lineDiffBlocks: LineDiffBlock[];
+}
+
+export interface LineDiffBlock {
+  changeType: LineDiffBlockChangeType;
+  originalLineNumberStart: number;
+  originalLinesCount: number;
+  modifiedLineNumberStart: number;
+  modifiedLinesCount: number;
+}
+
+export type LineDiffBlockChangeType = "none" | "add" | "delete" | "edit";
+
+export type FileDiffResponse = ApiCollectionResponse<FileDiff>;
+
 // ============================================
 // Pull Requests
 // ============================================
@@ -156,6 +198,51 @@ export interface GitPullRequestCompletionOptions {
 
 export type GitPullRequestResponse = ApiCollectionResponse<GitPullRequest>;
 
+// ============================================
+// Pull Request Threads (comments and system events such as votes)
+// ============================================
+
+export interface GitPullRequestCommentThread {
+  id: number;
+  publishedDate: string;
+  lastUpdatedDate: string;
+  comments: PullRequestComment[];
+  status?: CommentThreadStatus;
+  threadContext?: CommentThreadContext | null;
+  // System threads carry metadata here, e.g. CodeReviewThreadType = "VoteUpdate"
+  properties?: Record<string, { $type: string; $value: string }>;
+  // Identities referenced by properties (keyed by index, e.g. "1")
+  identities?: Record<string, IdentityRef> | null;
+  isDeleted: boolean;
+}
+
+export type CommentThreadStatus =
+  | "unknown"
+  | "active"
+  | "fixed"
+  | "wontFix"
+  | "closed"
+  | "byDesign"
+  | "pending";
+
+export interface CommentThreadContext {
+  filePath: string;
+}
+
+export interface PullRequestComment {
+  id: number;
+  parentCommentId: number;
+  author: IdentityRef;
+  content?: string;
+  publishedDate: string;
+  lastUpdatedDate?: string;
+  commentType: "unknown" | "text" | "codeChange" | "system";
+  isDeleted?: boolean;
+}
+
+export type GitPullRequestCommentThreadResponse =
+  ApiCollectionResponse<GitPullRequestCommentThread>;
+
 // ============================================
 // Pull Request Iterations (for file changes)
 // ============================================
@@ -178,11 +265,19 @@ export interface GitPullRequestChange {
   changeId: number;
   item?: GitItem;
   changeType: string;
+  originalPath?: string;
 }
 
 export type GitPullRequestIterationResponse =
   ApiCollectionResponse<GitPullRequestIteration>;
 
+// Response of .../iterations/{iterationId}/changes (paged via nextSkip/nextTop)
+export interface GitPullRequestIterationChanges {
+  changeEntries: GitPullRequestChange[];
+  nextSkip?: number;
+  nextTop?: number;
+}
+
 // ============================================
 // Query Parameters
 // ============================================
@@ -289,3 +384,26 @@ export interface TeamProject {
 }
 
 export type TeamProjectResponse = ApiCollectionResponse<TeamProject>;
+
+// ============================================
+// Teams
+// ============================================
+
+export interface WebApiTeam {
+  id: string;
+  name: string;
+  url: string;
+  description?: string;
+  identityUrl?: string;
+  projectName: string;
+  projectId: string;
+}
+
+export type WebApiTeamResponse = ApiCollectionResponse<WebApiTeam>;
+
+export interface TeamMember {
+  identity: IdentityRef & { isContainer?: boolean }; // Containers are nested groups
+  isTeamAdmin?: boolean;
+}
+
+export type TeamMemberResponse = ApiCollectionResponse<TeamMember>;
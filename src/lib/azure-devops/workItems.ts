@@ -3,39 +3,40 @@ import { WorkItem, WorkItemQueryResult, WorkItemReference } from "./types";
 
 export interface FetchWorkItemsOptions {
   project: string;
-  year: number;
+  fromDate: string; // ISO 8601 format: YYYY-MM-DD
+  toDate: string; // ISO 8601 format: YYYY-MM-DD (inclusive)
   userEmail?: string;
+  onPageFetched?: (page: number, items: number) => void; // Progress hook per batch
 }
 
 /**
- * Fetch work items that the user resolved/closed during the specified year.
+ * Fetch work items that the user resolved/closed during the specified date range.
  * All filtering is done server-side via WIQL query - no client-side filtering.
  *
  * Criteria:
  * - State is Resolved or Closed
  * - Reason does NOT contain "Rejected"
  * - AssignedTo matches the user email
- * - ResolvedDate or ClosedDate falls within the year
+ * - ResolvedDate or ClosedDate falls within the date range
  */
 export async function fetchWorkItems(
   client: AzureDevOpsClient,
   options: FetchWorkItemsOptions
 ): Promise<WorkItem[]> {
-  const { project, year, userEmail } = options;
+  const { project, fromDate, toDate, userEmail, onPageFetched } = options;
 
-  console.log(`\n📋 fetchWorkItems: Starting for ${project}, year ${year}`);
+  console.log(
+    `\n📋 fetchWorkItems: Starting for ${project}, ${fromDate} to ${toDate}`
+  );
 
   if (!userEmail) {
     console.log(`⚠️ No userEmail provided, skipping work items fetch`);
     return [];
   }
 
-  const startDate = `${year}-01-01`;
-  const endDate = `${year}-12-31`;
-
   // Build WIQL query - all filtering happens server-side
   // We use EVER for AssignedTo to capture items assigned to user when resolved
-  const wiqlQuery = buildWiqlQuery(project, userEmail, startDate, endDate);
+  const wiqlQuery = buildWiqlQuery(project, userEmail, fromDate, toDate);
 
   console.log(`🔍 Executing WIQL query for work items...`);
 
@@ -54,7 +55,12 @@ export async function fetchWorkItems(
     }
 
     // Step 2: Fetch full work item details in batches (API limit is 200 per request)
-    const workItems = await fetchWorkItemDetails(client, project, workItemRefs);
+    const workItems = await fetchWorkItemDetails(
+      client,
+      project,
+      workItemRefs,
+      onPageFetched
+    );
 
     console.log(`✅ Fetched ${workItems.length} work items with details`);
     return workItems;
@@ -114,7 +120,8 @@ function buildWiqlQuery(
 async function fetchWorkItemDetails(
   client: AzureDevOpsClient,
   project: string,
-  workItemRefs: WorkItemReference[]
+  workItemRefs: WorkItemReference[],
+  onPageFetched?: (page: number, items: number) => void
 ): Promise<WorkItem[]> {
   const BATCH_SIZE = 200;
   const allWorkItems: WorkItem[] = [];
@@ -153,6 +160,10 @@ async function fetchWorkItemDetails(
     if (response.value) {
       allWorkItems.push(...response.value);
     }
+    onPageFetched?.(
+      Math.floor(i / BATCH_SIZE) + 1,
+      response.value?.length || 0
+    );
   }
 
   return allWorkItems;
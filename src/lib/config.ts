@@ -4,7 +4,45 @@
  */
 
 import { config as loadEnv } from "dotenv";
-import type { ProjectRepository } from "@/types";
+import type {
+  DateRangeOptions,
+  IdentityAliases,
+  LanguageSource,
+  ProjectRepository,
+} from "@/types";
+import { API_VERSION, DEFAULT_TIME_ZONE, MAX_COMPARE_YEARS } from "./constants";
+import {
+  parseDateRangeOptions,
+  resolveDateRange,
+  validateDateRangeOptions,
+} from "./dateRange";
+import { parseIdentityAliases, validateIdentityAliases } from "./identity";
+import { isValidTimeZone } from "./timezone";
+import type {
+  ClientCredentialsOptions,
+  CredentialType,
+} from "./azure-devops/credentials";
+import { isCacheEnabled } from "./azure-devops/cache";
+import {
+  CachePolicySettings,
+  parseCachePolicySettings,
+  validateCachePolicySettings,
+} from "./azure-devops/cachePolicy";
+import {
+  CacheStoreOptions,
+  parseCacheStoreOptions,
+  validateCacheStoreOptions,
+} from "./azure-devops/cacheStore";
+import {
+  FixtureOptions,
+  parseFixtureOptions,
+  validateFixtureOptions,
+} from "./azure-devops/fixtures";
+import {
+  SnapshotOptions,
+  parseSnapshotOptions,
+  validateSnapshotOptions,
+} from "./azure-devops/snapshots";
 
 // Load .env file if it exists
 loadEnv();
@@ -14,25 +52,46 @@ export interface AppConfig {
   organization: string;
   repositories: ProjectRepository[]; // Array of {project, repository} combos
   pat: string;
+  authMethod: CredentialType; // ADO_AUTH_METHOD: pat (default), bearer or clientCredentials
+  bearerToken?: string; // Static access token for the bearer method
+  clientCredentials?: ClientCredentialsOptions; // Service principal for clientCredentials
 
   // Filtering Options
   userEmail?: string;
+  teamMembers: string[]; // Team mode: member emails (empty for a single user)
+  aliases: IdentityAliases; // Other identities per person, keyed by primary email
   year: number;
+  dateRange: DateRangeOptions; // Reporting period within/around the year
+  timeZone: string; // IANA timezone for hours, weekdays and dates
+  compareYears: number; // Prior years to compare against (0 = none)
 
   // Feature Flags
   includeCommits: boolean;
   includePullRequests: boolean;
   includeWorkItems: boolean;
   includeBuilds: boolean;
+  lineDiffs: boolean; // Count lines from commit diffs instead of files
+  languageSource: LanguageSource; // Where changed file paths come from
+  excludePaths: string[]; // Globs left out of line counts and languages
 
   // Application Settings
   port: number;
   apiVersion: string;
+  baseUrl?: string; // Azure DevOps Server root, e.g. https://tfs.corp (default: dev.azure.com)
+  identityUrl?: string; // Identities server root (default: vssps.dev.azure.com, or baseUrl on-prem)
+  cacheEnabled: boolean; // ADO_CACHE_ENABLED
+  cache: CacheStoreOptions; // ADO_CACHE_STORE and the chosen store's settings
+  cachePolicy: CachePolicySettings; // TTL rules and stale window (ADO_CACHE_TTL_HOURS, ADO_CACHE_STALE_HOURS)
+  fixtures: FixtureOptions; // Record/replay (ADO_FIXTURE_MODE, ADO_FIXTURE_BUNDLE, ADO_FIXTURE_DIR)
+  snapshots: SnapshotOptions; // Shared links (ADO_SNAPSHOT_STORE, ADO_SNAPSHOT_DIR, ADO_SNAPSHOT_TTL_DAYS, ADO_SNAPSHOT_RATE_LIMIT)
 }
 
 /**
  * Parse repositories from environment variable.
  * Format: "project1/repo1,project2/repo2" (comma-separated project/repo pairs)
+ *
+ * Extra target branches (besides the repo's default branch) can be appended
+ * after "@", separated by "|": "project1/repo1@release/2024|release/2025"
  */
 function parseRepositories(): ProjectRepository[] {
   const reposEnv = process.env.ADO_REPOSITORIES;
@@ -42,10 +101,19 @@ function parseRepositories(): ProjectRepository[] {
       .split(",")
       .map((pair) => pair.trim())
       .filter(Boolean)
-      .map((pair) => {
+      .map((entry): ProjectRepository => {
+        const [pair, branchList] = entry.split("@");
         const [project, ...repoParts] = pair.split("/");
         const repository = repoParts.join("/"); // Handle repos with / in name
-        return { project: project.trim(), repository: repository.trim() };
+        const extraBranches = (branchList || "")
+          .split("|")
+          .map((b) => b.trim())
+          .filter(Boolean);
+        return {
+          project: project.trim(),
+          repository: repository.trim(),
+          ...(extraBranches.length > 0 && { extraBranches }),
+        };
       })
       .filter((r) => r.project && r.repository);
   }
@@ -53,6 +121,25 @@ function parseRepositories(): ProjectRepository[] {
   return [];
 }
 
+/**
+ * Parse a comma-separated list of team member emails (lowercased, deduplicated).
+ * Used for ADO_TEAM_MEMBERS and the stats API's teamMembers parameter.
+ */
+export function parseTeamMembers(value: string | null | undefined): string[] {
+  const members = (value || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(members));
+}
+
+/**
+ * Parse ADO_AUTH_METHOD (unknown values are kept so validation can report them)
+ */
+function parseAuthMethod(value: string | undefined): CredentialType {
+  return (value?.trim() || "pat") as CredentialType;
+}
+
 /**
  * Load configuration from environment variables
  */
@@ -62,20 +149,60 @@ export function loadConfig(): AppConfig {
     organization: process.env.ADO_ORGANIZATION || "",
     repositories: parseRepositories(),
     pat: process.env.ADO_PAT || "",
+    authMethod: parseAuthMethod(process.env.ADO_AUTH_METHOD),
+    bearerToken: process.env.ADO_BEARER_TOKEN || undefined,
+    clientCredentials:
+      process.env.ADO_CLIENT_ID && process.env.ADO_CLIENT_SECRET
+        ? {
+            clientId: process.env.ADO_CLIENT_ID,
+            clientSecret: process.env.ADO_CLIENT_SECRET,
+            tenantId: process.env.ADO_TENANT_ID || undefined,
+            tokenEndpoint: process.env.ADO_TOKEN_ENDPOINT || undefined,
+            scope: process.env.ADO_TOKEN_SCOPE || undefined,
+          }
+        : undefined,
 
     // Optional filtering
     userEmail: process.env.ADO_USER_EMAIL || undefined,
+    teamMembers: parseTeamMembers(process.env.ADO_TEAM_MEMBERS),
+    aliases: parseIdentityAliases(process.env.ADO_USER_ALIASES),
     year: parseInt(process.env.ADO_YEAR || new Date().getFullYear().toString()),
+    dateRange: parseDateRangeOptions({
+      preset: process.env.ADO_DATE_RANGE,
+      fiscalYearStartMonth: process.env.ADO_FISCAL_YEAR_START_MONTH,
+      quarter: process.env.ADO_QUARTER,
+      days: process.env.ADO_LAST_N_DAYS,
+      startDate: process.env.ADO_START_DATE,
+      endDate: process.env.ADO_END_DATE,
+    }),
+    timeZone: process.env.ADO_TIME_ZONE || DEFAULT_TIME_ZONE,
+    compareYears: parseInt(process.env.ADO_COMPARE_YEARS || "0"),
 
     // Feature flags
     includeCommits: process.env.ADO_INCLUDE_COMMITS !== "false",
     includePullRequests: process.env.ADO_INCLUDE_PULL_REQUESTS !== "false",
     includeWorkItems: process.env.ADO_INCLUDE_WORK_ITEMS === "true",
     includeBuilds: process.env.ADO_INCLUDE_BUILDS === "true",
+    lineDiffs: process.env.ADO_LINE_DIFFS === "true",
+    languageSource:
+      process.env.ADO_LANGUAGE_SOURCE === "commits"
+        ? "commits"
+        : "pullRequests",
+    excludePaths: (process.env.ADO_EXCLUDE_PATHS || "")
+      .split(",")
+      .map((glob) => glob.trim())
+      .filter(Boolean),
 
     // App settings
     port: parseInt(process.env.PORT || "3000"),
-    apiVersion: process.env.ADO_API_VERSION || "7.0",
+    apiVersion: process.env.ADO_API_VERSION || API_VERSION,
+    baseUrl: process.env.ADO_BASE_URL || undefined,
+    identityUrl: process.env.ADO_IDENTITY_URL || undefined,
+    cacheEnabled: isCacheEnabled(),
+    cache: parseCacheStoreOptions(),
+    cachePolicy: parseCachePolicySettings(),
+    fixtures: parseFixtureOptions(),
+    snapshots: parseSnapshotOptions(),
   };
 }
 
@@ -98,7 +225,28 @@ export function validateConfig(config: AppConfig): {
     );
   }
 
-  if (!config.pat) {
+  if (config.authMethod === "bearer") {
+    if (!config.bearerToken) {
+      errors.push("ADO_BEARER_TOKEN is required when ADO_AUTH_METHOD=bearer");
+    }
+  } else if (config.authMethod === "clientCredentials") {
+    if (!config.clientCredentials) {
+      errors.push(
+        "ADO_CLIENT_ID and ADO_CLIENT_SECRET are required when ADO_AUTH_METHOD=clientCredentials"
+      );
+    } else if (
+      !config.clientCredentials.tenantId &&
+      !config.clientCredentials.tokenEndpoint
+    ) {
+      errors.push(
+        "ADO_TENANT_ID or ADO_TOKEN_ENDPOINT is required when ADO_AUTH_METHOD=clientCredentials"
+      );
+    }
+  } else if (config.authMethod !== "pat") {
+    errors.push(
+      "ADO_AUTH_METHOD must be one of: pat, bearer, clientCredentials"
+    );
+  } else if (!config.pat) {
     errors.push("ADO_PAT is required");
   } else if (config.pat === "your-personal-access-token-here") {
     errors.push("ADO_PAT must be set to a valid Personal Access Token");
@@ -108,6 +256,62 @@ export function validateConfig(config: AppConfig): {
     errors.push("ADO_YEAR must be a valid year");
   }
 
+  const dateRangeError = validateDateRangeOptions(config.dateRange);
+  if (dateRangeError) {
+    errors.push(`Invalid date range (ADO_DATE_RANGE): ${dateRangeError}`);
+  }
+
+  const aliasesError = validateIdentityAliases(config.aliases);
+  if (aliasesError) {
+    errors.push(`Invalid ADO_USER_ALIASES: ${aliasesError}`);
+  }
+
+  if (!isValidTimeZone(config.timeZone)) {
+    errors.push(
+      "ADO_TIME_ZONE must be an IANA timezone name (e.g. America/Los_Angeles)"
+    );
+  }
+
+  if (
+    isNaN(config.compareYears) ||
+    config.compareYears < 0 ||
+    config.compareYears > MAX_COMPARE_YEARS
+  ) {
+    errors.push(
+      `ADO_COMPARE_YEARS must be a number from 0 to ${MAX_COMPARE_YEARS}`
+    );
+  }
+
+  if (config.baseUrl && !isHttpUrl(config.baseUrl)) {
+    errors.push("ADO_BASE_URL must be an http(s) URL, e.g. https://tfs.corp");
+  }
+
+  if (config.identityUrl && !isHttpUrl(config.identityUrl)) {
+    errors.push("ADO_IDENTITY_URL must be an http(s) URL");
+  }
+
+  if (!/^\d+\.\d+(-preview(\.\d+)?)?$/.test(config.apiVersion)) {
+    errors.push("ADO_API_VERSION must be a version like 7.0 or 5.1");
+  }
+
+  const cacheError = config.cacheEnabled
+    ? validateCacheStoreOptions(config.cache) ||
+      validateCachePolicySettings(config.cachePolicy)
+    : null;
+  if (cacheError) {
+    errors.push(cacheError);
+  }
+
+  const fixtureError = validateFixtureOptions(config.fixtures);
+  if (fixtureError) {
+    errors.push(fixtureError);
+  }
+
+  const snapshotError = validateSnapshotOptions(config.snapshots);
+  if (snapshotError) {
+    errors.push(snapshotError);
+  }
+
   if (isNaN(config.port) || config.port < 1 || config.port > 65535) {
     errors.push("PORT must be a valid port number (1-65535)");
   }
@@ -118,6 +322,14 @@ export function validateConfig(config: AppConfig): {
   };
 }
 
+function isHttpUrl(value: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Load and validate configuration, or exit with error
  */
@@ -143,18 +355,94 @@ export function loadAndValidateConfig(): AppConfig {
 export function printConfig(config: AppConfig): void {
   console.log("📋 Configuration:");
   console.log(`   Organization: ${config.organization}`);
+  if (config.baseUrl) {
+    console.log(
+      `   Server: ${config.baseUrl} (API version ${config.apiVersion})`
+    );
+  }
+  if (config.identityUrl) {
+    console.log(`   Identities: ${config.identityUrl}`);
+  }
   console.log(`   Repositories: ${config.repositories.length} configured`);
   config.repositories.forEach((r) => {
-    console.log(`      - ${r.project}/${r.repository}`);
+    const branches = r.extraBranches?.length
+      ? ` (+ ${r.extraBranches.join(", ")})`
+      : "";
+    console.log(`      - ${r.project}/${r.repository}${branches}`);
   });
-  console.log(
-    `   PAT: ${config.pat ? "***" + config.pat.slice(-4) : "(not set)"}`
-  );
+  if (config.authMethod === "clientCredentials") {
+    console.log(
+      `   Auth: service principal ${
+        config.clientCredentials?.clientId || "(not set)"
+      }`
+    );
+  } else if (config.authMethod === "bearer") {
+    console.log(
+      `   Auth: bearer token ${
+        config.bearerToken ? "***" + config.bearerToken.slice(-4) : "(not set)"
+      }`
+    );
+  } else {
+    console.log(
+      `   PAT: ${config.pat ? "***" + config.pat.slice(-4) : "(not set)"}`
+    );
+  }
   console.log(`   Year: ${config.year}`);
+  if (
+    config.dateRange.preset !== "calendarYear" &&
+    !validateDateRangeOptions(config.dateRange)
+  ) {
+    const range = resolveDateRange(config.dateRange, config.year);
+    console.log(
+      `   Date Range: ${range.label} (${range.startDate} to ${range.endDate})`
+    );
+  }
+  if (config.compareYears > 0) {
+    console.log(`   Compare With: ${config.compareYears} prior year(s)`);
+  }
+  console.log(`   Time Zone: ${config.timeZone}`);
   console.log(`   User Filter: ${config.userEmail || "All users"}`);
+  if (config.teamMembers.length > 0) {
+    console.log(`   Team Members: ${config.teamMembers.join(", ")}`);
+  }
+  Object.entries(config.aliases).forEach(([email, aliases]) => {
+    console.log(`   Aliases of ${email}: ${aliases.join(", ")}`);
+  });
   console.log(`   Include Commits: ${config.includeCommits}`);
   console.log(`   Include PRs: ${config.includePullRequests}`);
   console.log(`   Include Work Items: ${config.includeWorkItems}`);
   console.log(`   Include Builds: ${config.includeBuilds}`);
+  console.log(`   Line Diffs: ${config.lineDiffs}`);
+  console.log(`   Language Source: ${config.languageSource}`);
+  if (config.excludePaths.length > 0) {
+    console.log(`   Excluded Paths: ${config.excludePaths.join(", ")}`);
+  }
+  if (config.cacheEnabled) {
+    const ttls = Object.entries(config.cachePolicy.ttlHours)
+      .map(([rule, hours]) => `${rule} ${hours > 0 ? `${hours}h` : "forever"}`)
+      .join(", ");
+    console.log(`   Cache: ${config.cache.type} (${ttls})`);
+    if (config.cachePolicy.staleHours > 0) {
+      console.log(
+        `   Cache Stale Window: ${config.cachePolicy.staleHours}h (served while refreshing)`
+      );
+    }
+  }
+  if (config.fixtures.mode !== "off") {
+    console.log(
+      `   Fixtures: ${config.fixtures.mode} "${config.fixtures.bundle}" (${config.fixtures.directory})`
+    );
+  }
+  console.log(
+    config.snapshots.rateLimit > 0
+      ? `   Snapshots: ${config.snapshots.store} (${
+          config.snapshots.directory
+        }), ${
+          config.snapshots.ttlDays > 0
+            ? `expire after ${config.snapshots.ttlDays} days`
+            : "never expire"
+        }, ${config.snapshots.rateLimit} per client per hour`
+      : "   Snapshots: sharing off"
+  );
   console.log();
 }
@@ -6,14 +6,237 @@
 // Azure DevOps API versions
 export const API_VERSION = "7.0";
 export const VSSPS_API_VERSION = "7.1";
+export const FILE_DIFFS_API_VERSION = "7.1-preview.1"; // File diffs API is preview-only
+
+// Azure DevOps Services URLs (ADO_BASE_URL points elsewhere for Azure DevOps Server)
+export const DEFAULT_BASE_URL = "https://dev.azure.com";
+export const DEFAULT_IDENTITY_URL = "https://vssps.dev.azure.com";
+
+// Entra ID (OAuth) authentication: the Azure DevOps resource's default scope,
+// and how long before expiry a cached access token is refreshed
+export const AZURE_DEVOPS_TOKEN_SCOPE =
+  "499b84ac-1321-427f-aa17-267ca6975798/.default";
+export const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
 
 // API client settings
 export const DEFAULT_TIMEOUT_MS = 30000;
 export const PAGINATION_PAGE_SIZE = 100;
 
+// Retry settings for throttled (429) and transient (5xx) responses
+export const DEFAULT_MAX_RETRIES = 3;
+export const RETRY_BASE_DELAY_MS = 1000;
+export const DEFAULT_MAX_RETRY_DELAY_MS = 60000;
+export const RETRYABLE_STATUS_CODES = [429, 502, 503, 504];
+
+// Max simultaneous requests per organization (shared across all fetchers)
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 8;
+
+// Year-over-year comparison: most prior years that can be requested
+export const MAX_COMPARE_YEARS = 5;
+
+// Reporting periods: longest window (a year, so months and the heatmap never
+// wrap around) and the "last N days" choices offered in the form
+export const MAX_DATE_RANGE_DAYS = 366;
+export const LAST_N_DAYS_OPTIONS = [30, 90, 180, 365];
+
+// IANA timezone for hour, weekday and calendar-date stats when none is given
+export const DEFAULT_TIME_ZONE = "UTC";
+
 // Cache settings
 export const DEFAULT_CACHE_TTL_HOURS = 24;
 
+// Cache TTL rules (hours until an entry is stale, 0 = never): history whose
+// date range ended before yesterday can't change, PR lists that can include
+// open PRs change all the time. Override per rule with ADO_CACHE_TTL_HOURS.
+export const CACHE_TTL_RULE_HOURS = {
+  pastDateRange: 0,
+  activePullRequests: 0.25,
+  default: DEFAULT_CACHE_TTL_HOURS,
+};
+
+// How long a stale entry is still served (while it's refreshed in the
+// background) before it counts as expired; 0 turns stale-while-revalidate off
+export const DEFAULT_CACHE_STALE_HOURS = 24;
+
+// Cache stores (ADO_CACHE_STORE): the in-memory store's byte budget, the
+// SQLite file and Redis server used by default, the prefix for Redis keys and
+// how long to wait for a Redis connection
+export const DEFAULT_CACHE_MAX_BYTES = 64 * 1024 * 1024;
+export const DEFAULT_CACHE_SQLITE_PATH = ".ado-cache.sqlite";
+export const DEFAULT_REDIS_URL = "redis://localhost:6379";
+export const REDIS_KEY_PREFIX = "ado-cache:";
+export const REDIS_CONNECT_TIMEOUT_MS = 2000;
+
+// Record/replay fixtures (ADO_FIXTURE_MODE): the bundle and directory used by
+// default, and how long recordings are batched before the bundle is saved
+export const DEFAULT_FIXTURE_BUNDLE = "default";
+export const DEFAULT_FIXTURE_DIRECTORY = ".ado-fixtures";
+export const FIXTURE_SAVE_DELAY_MS = 500;
+
+// Shared snapshots (/wrapped/s/[id]): the store directory (or SQLite file's
+// directory) and Redis prefix, days a snapshot lives by default and at most
+// (ADO_SNAPSHOT_TTL_DAYS, 0 = never), the largest Wrapped accepted and its
+// longest text and list, how many a client may save per hour
+// (ADO_SNAPSHOT_RATE_LIMIT, 0 = sharing off), how often expired snapshots are
+// swept, and where the browser keeps delete tokens
+export const DEFAULT_SNAPSHOT_DIRECTORY = ".ado-snapshots";
+export const SNAPSHOT_REDIS_KEY_PREFIX = "ado-snapshot:";
+export const DEFAULT_SNAPSHOT_TTL_DAYS = 30;
+export const MAX_SNAPSHOT_TTL_DAYS = 365;
+export const MAX_SNAPSHOT_BYTES = 2 * 1024 * 1024;
+export const MAX_SNAPSHOT_TEXT_LENGTH = 500;
+export const MAX_SNAPSHOT_LIST_LENGTH = 1000;
+export const DEFAULT_SNAPSHOT_RATE_LIMIT = 20;
+export const SNAPSHOT_RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+export const SNAPSHOT_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+export const SNAPSHOT_TOKENS_STORAGE_KEY = "ado-wrapped-snapshots";
+
+// Demo mode ("Try demo"): synthetic personas by name, commits generated per
+// volume, and the seed used when none is given (same seed, same Wrapped)
+export const DEMO_PERSONAS = {
+  nightOwl: "Night owl",
+  weekendWarrior: "Weekend warrior",
+  nineToFive: "Nine to five",
+};
+export const DEMO_VOLUME_COMMITS = {
+  light: 150,
+  typical: 450,
+  heavy: 1200,
+};
+export const DEFAULT_DEMO_SEED = 42;
+
+// PR size detection: PRs sized per batch, and max change entries per page
+export const PR_SIZE_BATCH_SIZE = 10;
+export const PR_CHANGES_PAGE_SIZE = 2000;
+
+// Line-level commit diffs: commits diffed per batch, max change entries per
+// page, files per file-diffs request, and the changed-line count above which a
+// single file is treated as generated and left out
+export const COMMIT_DIFF_BATCH_SIZE = 5;
+export const COMMIT_CHANGES_PAGE_SIZE = 1000;
+export const FILE_DIFFS_BATCH_SIZE = 50;
+export const MAX_DIFF_LINES_PER_FILE = 5000;
+
+// Generated files left out of line counts and the language breakdown
+// (lock files, minified bundles, build output); extend with ADO_EXCLUDE_PATHS
+export const GENERATED_FILE_PATTERNS: readonly RegExp[] = [
+  /(^|\/)package-lock\.json$/i,
+  /(^|\/)(yarn|Cargo|Gemfile|composer|poetry|Pipfile)\.lock$/i,
+  /(^|\/)pnpm-lock\.yaml$/i,
+  /\.min\.(js|css)$/i,
+  /\.map$/i,
+  /(^|\/)(dist|build|out|bin|obj|node_modules|vendor)\//i,
+  /\.(g|designer|generated)\.cs$/i,
+  /\.pb\.go$/i,
+  /_pb2\.py$/i,
+  /\.snap$/i,
+];
+
+// Languages by file extension (lowercase, without the dot)
+export const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: "TypeScript",
+  tsx: "TypeScript",
+  mts: "TypeScript",
+  cts: "TypeScript",
+  js: "JavaScript",
+  jsx: "JavaScript",
+  mjs: "JavaScript",
+  cjs: "JavaScript",
+  cs: "C#",
+  csx: "C#",
+  vb: "Visual Basic",
+  fs: "F#",
+  fsx: "F#",
+  java: "Java",
+  kt: "Kotlin",
+  kts: "Kotlin",
+  scala: "Scala",
+  groovy: "Groovy",
+  py: "Python",
+  ipynb: "Jupyter Notebook",
+  rb: "Ruby",
+  php: "PHP",
+  go: "Go",
+  rs: "Rust",
+  c: "C",
+  h: "C",
+  cpp: "C++",
+  cc: "C++",
+  cxx: "C++",
+  hpp: "C++",
+  hh: "C++",
+  m: "Objective-C",
+  mm: "Objective-C",
+  swift: "Swift",
+  dart: "Dart",
+  r: "R",
+  lua: "Lua",
+  pl: "Perl",
+  sh: "Shell",
+  bash: "Shell",
+  zsh: "Shell",
+  ps1: "PowerShell",
+  psm1: "PowerShell",
+  psd1: "PowerShell",
+  bat: "Batchfile",
+  cmd: "Batchfile",
+  sql: "SQL",
+  html: "HTML",
+  htm: "HTML",
+  cshtml: "HTML",
+  razor: "HTML",
+  vue: "Vue",
+  svelte: "Svelte",
+  css: "CSS",
+  scss: "SCSS",
+  sass: "SCSS",
+  less: "Less",
+  json: "JSON",
+  yml: "YAML",
+  yaml: "YAML",
+  xml: "XML",
+  xaml: "XML",
+  csproj: "XML",
+  props: "XML",
+  targets: "XML",
+  md: "Markdown",
+  mdx: "Markdown",
+  tf: "Terraform",
+  bicep: "Bicep",
+  proto: "Protocol Buffers",
+  graphql: "GraphQL",
+  gql: "GraphQL",
+};
+
+// Languages for well-known files without a meaningful extension
+export const LANGUAGE_BY_FILENAME: Record<string, string> = {
+  dockerfile: "Dockerfile",
+  makefile: "Makefile",
+  jenkinsfile: "Groovy",
+  "cmakelists.txt": "CMake",
+};
+
+// Languages shown in the language chart before the rest is grouped as "Other"
+export const LANGUAGE_CHART_LIMIT = 8;
+
+// PR size buckets by number of files changed (upper bound inclusive)
+export const PR_SIZE_BUCKETS = [
+  { label: "XS", maxFiles: 2 },
+  { label: "S", maxFiles: 5 },
+  { label: "M", maxFiles: 15 },
+  { label: "L", maxFiles: 40 },
+  { label: "XL", maxFiles: null }, // No upper bound
+] as const;
+
+// Pull request reviewer vote values (IdentityRefWithVote.vote)
+export const PR_VOTES = {
+  APPROVED: 10,
+  APPROVED_WITH_SUGGESTIONS: 5,
+  NO_VOTE: 0,
+  WAITING_FOR_AUTHOR: -5,
+  REJECTED: -10,
+} as const;
+
 // Time-related constants
 export const DAY_NAMES = [
   "Sunday",
@@ -61,18 +284,31 @@ export const STORY_CARD_TYPES = [
   "languages",
   "streak",
   "pull-requests",
+  "reviews",
   "work-items-total",
   "work-items-types",
   "bugs-fixed",
   "resolution-speed",
   "top-tags",
   "top-areas",
+  "builds",
   "insights",
   "finale",
 ] as const;
 
 export type StoryCardType = (typeof STORY_CARD_TYPES)[number];
 
+// Story card types for Team Wrapped
+export const TEAM_STORY_CARD_TYPES = [
+  "team-welcome",
+  "team-totals",
+  "team-contributors",
+  "team-personalities",
+  "team-finale",
+] as const;
+
+export type TeamStoryCardType = (typeof TEAM_STORY_CARD_TYPES)[number];
+
 // Developer personality types
 export const PERSONALITY_TYPES = [
   "Night Owl",
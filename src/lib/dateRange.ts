@@ -0,0 +1,265 @@
+/**
+ * Reporting periods for Azure DevOps Wrapped
+ * Resolves calendar years, fiscal years, quarters, the last N days and custom
+ * windows into inclusive YYYY-MM-DD date ranges (in UTC)
+ */
+
+import type { DateRange, DateRangeOptions, DateRangePreset } from "@/types";
+import { MAX_DATE_RANGE_DAYS, MONTH_NAMES } from "./constants";
+
+export const DATE_RANGE_PRESETS: DateRangePreset[] = [
+  "calendarYear",
+  "fiscalYear",
+  "quarter",
+  "lastNDays",
+  "custom",
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Parse a YYYY-MM-DD date as UTC midnight (null for invalid dates like Feb 30)
+ */
+function parseDate(value: string | undefined): Date | null {
+  if (!value || !DATE_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return isNaN(date.getTime()) || toDateString(date) !== value ? null : date;
+}
+
+/**
+ * Move a date back by whole years (Feb 29 becomes Feb 28)
+ */
+function subtractYears(date: Date, years: number): Date {
+  const year = date.getUTCFullYear() - years;
+  const month = date.getUTCMonth();
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)));
+}
+
+// "Mar 1, 2024"
+function formatDay(value: string): string {
+  const [year, month, day] = value.split("-").map(Number);
+  return `${MONTH_NAMES[month - 1]} ${day}, ${year}`;
+}
+
+/**
+ * Build a range of whole months starting at a UTC year and month index
+ */
+function monthsRange(
+  preset: DateRangePreset,
+  year: number,
+  monthIndex: number,
+  months: number,
+  label: string
+): DateRange {
+  return {
+    preset,
+    startDate: toDateString(new Date(Date.UTC(year, monthIndex, 1))),
+    endDate: toDateString(new Date(Date.UTC(year, monthIndex + months, 0))),
+    label,
+  };
+}
+
+/**
+ * A fetch bound as an instant (ISO 8601): a YYYY-MM-DD date stands for the
+ * start (or end) of its UTC day, an instant is used as is
+ */
+export function toBoundInstant(value: string, endOfDay: boolean): string {
+  return DATE_PATTERN.test(value)
+    ? `${value}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}Z`
+    : value;
+}
+
+/**
+ * Build date range options from raw strings (query parameters or .env values).
+ * Missing numbers are left unset; call validateDateRangeOptions before use.
+ */
+export function parseDateRangeOptions(values: {
+  preset?: string | null;
+  fiscalYearStartMonth?: string | null;
+  quarter?: string | null;
+  days?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+}): DateRangeOptions {
+  const toNumber = (value?: string | null) =>
+    value ? parseInt(value) : undefined;
+  return {
+    preset: (values.preset || "calendarYear") as DateRangePreset,
+    fiscalYearStartMonth: toNumber(values.fiscalYearStartMonth),
+    quarter: toNumber(values.quarter),
+    days: toNumber(values.days),
+    startDate: values.startDate || undefined,
+    endDate: values.endDate || undefined,
+  };
+}
+
+/**
+ * Validate date range options, returning an error message or null when valid
+ */
+export function validateDateRangeOptions(
+  options: DateRangeOptions
+): string | null {
+  const { preset, fiscalYearStartMonth = 1, quarter, days } = options;
+
+  if (!DATE_RANGE_PRESETS.includes(preset)) {
+    return `Unknown date range "${preset}" (expected one of: ${DATE_RANGE_PRESETS.join(
+      ", "
+    )})`;
+  }
+  if (
+    !Number.isInteger(fiscalYearStartMonth) ||
+    fiscalYearStartMonth < 1 ||
+    fiscalYearStartMonth > 12
+  ) {
+    return "Fiscal year start month must be a month from 1 to 12";
+  }
+  if (
+    preset === "quarter" &&
+    (quarter === undefined ||
+      !Number.isInteger(quarter) ||
+      quarter < 1 ||
+      quarter > 4)
+  ) {
+    return "Quarter must be a number from 1 to 4";
+  }
+  if (
+    preset === "lastNDays" &&
+    (days === undefined ||
+      !Number.isInteger(days) ||
+      days < 1 ||
+      days > MAX_DATE_RANGE_DAYS)
+  ) {
+    return `Days must be a number from 1 to ${MAX_DATE_RANGE_DAYS}`;
+  }
+  if (preset === "custom") {
+    const start = parseDate(options.startDate);
+    const end = parseDate(options.endDate);
+    if (!start || !end) {
+      return "Start and end dates must be valid dates in YYYY-MM-DD format";
+    }
+    if (start > end) {
+      return "Start date must not be after the end date";
+    }
+    if ((end.getTime() - start.getTime()) / DAY_MS + 1 > MAX_DATE_RANGE_DAYS) {
+      return `Custom date ranges can span at most ${MAX_DATE_RANGE_DAYS} days`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve (validated) date range options into start and end dates.
+ *
+ * Years, fiscal years and quarters are taken from `year`; fiscal years are
+ * named after the year they end in, so with a July start FY2025 runs from
+ * 2024-07-01 to 2025-06-30. `yearsBack` resolves the same period that many
+ * years earlier, for year-over-year comparisons.
+ */
+export function resolveDateRange(
+  options: DateRangeOptions,
+  year: number,
+  yearsBack = 0,
+  today: Date = new Date()
+): DateRange {
+  const { preset, fiscalYearStartMonth = 1 } = options;
+  const targetYear = year - yearsBack;
+  // A fiscal year starting in January is just the calendar year
+  const fiscalStartYear =
+    fiscalYearStartMonth === 1 ? targetYear : targetYear - 1;
+  const fiscalStartMonthIndex = fiscalYearStartMonth - 1;
+
+  switch (preset) {
+    case "fiscalYear":
+      return monthsRange(
+        preset,
+        fiscalStartYear,
+        fiscalStartMonthIndex,
+        12,
+        `FY${targetYear}`
+      );
+
+    case "quarter": {
+      const quarter = options.quarter || 1;
+      return monthsRange(
+        preset,
+        fiscalStartYear,
+        fiscalStartMonthIndex + (quarter - 1) * 3,
+        3,
+        fiscalYearStartMonth === 1
+          ? `Q${quarter} ${targetYear}`
+          : `Q${quarter} FY${targetYear}`
+      );
+    }
+
+    case "lastNDays": {
+      const days = options.days || 1;
+      const end = subtractYears(parseDate(toDateString(today))!, yearsBack);
+      const startDate = toDateString(
+        new Date(end.getTime() - (days - 1) * DAY_MS)
+      );
+      const endDate = toDateString(end);
+      return {
+        preset,
+        startDate,
+        endDate,
+        label:
+          yearsBack === 0
+            ? `Last ${days} days`
+            : `${formatDay(startDate)} – ${formatDay(endDate)}`,
+      };
+    }
+
+    case "custom": {
+      const startDate = toDateString(
+        subtractYears(parseDate(options.startDate)!, yearsBack)
+      );
+      const endDate = toDateString(
+        subtractYears(parseDate(options.endDate)!, yearsBack)
+      );
+      return {
+        preset,
+        startDate,
+        endDate,
+        label: `${formatDay(startDate)} – ${formatDay(endDate)}`,
+      };
+    }
+
+    default:
+      return monthsRange("calendarYear", targetYear, 0, 12, `${targetYear}`);
+  }
+}
+
+/**
+ * Month names covered by a date range, in order (e.g. Jul through Jun for a
+ * fiscal year starting in July). A range over 12 calendar months (Jan 15 to
+ * Jan 14 of the next year) labels each month with its year, "Jan 2025", so
+ * its first and last months stay apart.
+ */
+export function getMonthsInRange(
+  range: Pick<DateRange, "startDate" | "endDate">
+): string[] {
+  const [startYear, startMonth] = range.startDate.split("-").map(Number);
+  const [endYear, endMonth] = range.endDate.split("-").map(Number);
+  const count = (endYear - startYear) * 12 + endMonth - startMonth + 1;
+  return Array.from({ length: count }, (_, i) => {
+    const month = startMonth - 1 + i;
+    const name = MONTH_NAMES[month % 12];
+    return count > 12 ? `${name} ${startYear + Math.floor(month / 12)}` : name;
+  });
+}
+
+/**
+ * The month a day (YYYY-MM-DD) counts under, among a range's months from
+ * getMonthsInRange
+ */
+export function getMonthLabel(months: string[], day: string): string {
+  const [year, month] = day.split("-").map(Number);
+  const name = MONTH_NAMES[month - 1];
+  return months.length > 12 ? `${name} ${year}` : name;
+}
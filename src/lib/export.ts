@@ -1,4 +1,10 @@
-import type { ClientWrappedStats } from "@/types";
+import type {
+  ClientWrappedStats,
+  ClientTeamWrappedStats,
+  DateRange,
+  StatDelta,
+} from "@/types";
+import { describeSizeMergeCorrelation, formatYearDelta } from "@/lib/utils";
 
 /**
  * Export stats as JSON file
@@ -6,7 +12,7 @@ import type { ClientWrappedStats } from "@/types";
 export function exportToJSON(stats: ClientWrappedStats): void {
   const json = JSON.stringify(stats, null, 2);
   const blob = new Blob([json], { type: "application/json" });
-  downloadBlob(blob, `ado-wrapped-${stats.meta.year}.json`);
+  downloadBlob(blob, `ado-wrapped-${getFileSuffix(stats.meta.dateRange)}.json`);
 }
 
 /**
@@ -15,14 +21,48 @@ export function exportToJSON(stats: ClientWrappedStats): void {
 export function exportToMarkdown(stats: ClientWrappedStats): void {
   const markdown = generateMarkdown(stats);
   const blob = new Blob([markdown], { type: "text/markdown" });
-  downloadBlob(blob, `ado-wrapped-${stats.meta.year}.md`);
+  downloadBlob(blob, `ado-wrapped-${getFileSuffix(stats.meta.dateRange)}.md`);
+}
+
+/**
+ * Export team stats (rollup plus every member's stats) as JSON file
+ */
+export function exportTeamToJSON(team: ClientTeamWrappedStats): void {
+  const json = JSON.stringify(team, null, 2);
+  const blob = new Blob([json], { type: "application/json" });
+  downloadBlob(
+    blob,
+    `ado-team-wrapped-${getFileSuffix(team.meta.dateRange)}.json`
+  );
+}
+
+/**
+ * Export team stats as Markdown file
+ */
+export function exportTeamToMarkdown(team: ClientTeamWrappedStats): void {
+  const markdown = generateTeamMarkdown(team);
+  const blob = new Blob([markdown], { type: "text/markdown" });
+  downloadBlob(
+    blob,
+    `ado-team-wrapped-${getFileSuffix(team.meta.dateRange)}.md`
+  );
+}
+
+/**
+ * File name suffix for a reporting period: its label for years and quarters
+ * ("2024", "Q3-FY2025"), its dates for day-based windows
+ */
+function getFileSuffix(range: DateRange): string {
+  return range.preset === "lastNDays" || range.preset === "custom"
+    ? `${range.startDate}_${range.endDate}`
+    : range.label.replace(/\s+/g, "-");
 }
 
 /**
  * Generate Markdown content from stats
  */
 function generateMarkdown(stats: ClientWrappedStats): string {
-  const { meta, commits, pullRequests, insights } = stats;
+  const { meta, commits, pullRequests, reviews, builds, insights } = stats;
 
   const projectsDisplay =
     meta.projects.length === 1
@@ -36,24 +76,35 @@ function generateMarkdown(stats: ClientWrappedStats): string {
           ", "
         )})`;
 
-  return `# Azure DevOps Wrapped ${meta.year}
+  const changeUnitLabel = commits.changeUnit === "lines" ? "Lines" : "Files";
+
+  // " (+23% vs 2024)" against the same period a year earlier, when requested
+  const comparison = stats.comparisons?.[0];
+  const vs = (delta: StatDelta | undefined) =>
+    comparison && delta ? ` (${formatYearDelta(delta, comparison.label)})` : "";
+
+  return `# Azure DevOps Wrapped ${meta.dateRange.label}
 
 ## 📊 Overview
 
+- **Period:** ${meta.dateRange.startDate} to ${meta.dateRange.endDate}
 - **Organization:** ${meta.organization}
 - **Projects:** ${projectsDisplay}
 - **Repositories:** ${reposDisplay}
 ${meta.userEmail ? `- **User:** ${meta.userEmail}` : ""}
+${meta.aliases ? `- **Aliases:** ${meta.aliases.join(", ")}` : ""}
 - **Generated:** ${new Date(meta.generatedAt).toLocaleDateString()}
 
 ---
 
 ## 💻 Commits
 
-- **Total Commits:** ${commits.total.toLocaleString()}
-- **Lines Added:** ${commits.additions.toLocaleString()}
-- **Lines Deleted:** ${commits.deletions.toLocaleString()}
-- **Longest Streak:** ${commits.longestStreak} days 🔥
+- **Total Commits:** ${commits.total.toLocaleString()}${vs(comparison?.commits)}
+- **${changeUnitLabel} Added:** ${commits.additions.toLocaleString()}
+- **${changeUnitLabel} Deleted:** ${commits.deletions.toLocaleString()}
+- **Longest Streak:** ${commits.longestStreak} days 🔥${vs(
+    comparison?.longestStreak
+  )}
 
 ### Commits by Day of Week
 
@@ -73,11 +124,13 @@ ${Object.entries(commits.byHour || {})
 ## 🔀 Pull Requests
 
 - **Created:** ${pullRequests.created}
-- **Merged:** ${pullRequests.merged}
+- **Merged:** ${pullRequests.merged}${vs(comparison?.pullRequestsMerged)}
 - **Reviewed:** ${pullRequests.reviewed}
 ${
   pullRequests.avgDaysToMergeFormatted
-    ? `- **Avg Time to Merge:** ${pullRequests.avgDaysToMergeFormatted}`
+    ? `- **Avg Time to Merge:** ${pullRequests.avgDaysToMergeFormatted}${vs(
+        comparison?.avgDaysToMerge
+      )}`
     : ""
 }
 ${
@@ -137,13 +190,139 @@ ${
 ### 🏆 Largest PR
 
 - **Title:** ${pullRequests.largestPR.title}
-- **Files Changed:** ${pullRequests.largestPR.filesChanged}
+- **Files Changed:** ${pullRequests.largestPR.filesChanged}${
+        pullRequests.largestPR.linesAdded !== undefined
+          ? `
+- **Lines:** +${pullRequests.largestPR.linesAdded} / -${pullRequests.largestPR.linesDeleted}`
+          : ""
+      }
+`
+    : ""
+}
+
+${
+  pullRequests.sizes && pullRequests.sizes.buckets.some((b) => b.count > 0)
+    ? `### 📏 PR Sizes (files changed)
+
+${pullRequests.sizes.buckets
+  .map(
+    (b) =>
+      `- ${b.label}: ${b.count}${
+        b.avgHoursToMerge !== null
+          ? ` (avg ${b.avgHoursToMerge}h to merge)`
+          : ""
+      }`
+  )
+  .join("\n")}
+
+${describeSizeMergeCorrelation(pullRequests.sizes.sizeMergeCorrelation)}${
+        pullRequests.sizes.sizeMergeCorrelation !== null
+          ? ` (r = ${pullRequests.sizes.sizeMergeCorrelation})`
+          : ""
+      }
+`
+    : ""
+}
+
+${
+  pullRequests.comments && pullRequests.comments.total > 0
+    ? `### 💬 Discussion
+
+- **Comments Written:** ${pullRequests.comments.written}
+- **Comments Received:** ${pullRequests.comments.received}
+- **Threads Resolved:** ${pullRequests.comments.threadsResolved}
+- **Threads Active:** ${pullRequests.comments.threadsActive}
+- **Avg Comments per PR:** ${pullRequests.comments.avgCommentsPerPR}
+${
+  pullRequests.comments.mostDiscussedPR
+    ? `- **Most Discussed PR:** ${pullRequests.comments.mostDiscussedPR.title} (${pullRequests.comments.mostDiscussedPR.comments} comments)`
+    : ""
+}
 `
     : ""
 }
 
 ---
 
+${
+  reviews && reviews.total > 0
+    ? `## 👀 Code Reviews
+
+- **PRs Reviewed:** ${reviews.total}
+- **Approved:** ${reviews.votes.approved}
+- **Approved with Suggestions:** ${reviews.votes.approvedWithSuggestions}
+- **Waiting for Author:** ${reviews.votes.waitingForAuthor}
+- **Rejected:** ${reviews.votes.rejected}
+- **Median Time to First Vote:** ${
+        reviews.medianHoursToFirstVote !== null
+          ? `${reviews.medianHoursToFirstVote} hours`
+          : "N/A"
+      }
+
+### You Reviewed Most For
+
+${reviews.topAuthors
+  .map((a, idx) => `${idx + 1}. ${a.name} - ${a.count} PRs`)
+  .join("\n")}
+
+---
+`
+    : ""
+}
+
+${
+  builds && builds.total > 0
+    ? `## 🏗️ Builds
+
+- **Total Builds:** ${builds.total}
+- **Success Rate:** ${builds.successRate}%
+- **Avg Duration:** ${builds.avgDurationMinutes} min
+- **Longest Failure Streak:** ${builds.longestFailureStreak}
+
+### Top Pipelines
+
+${builds.topPipelines
+  .map(
+    (p, idx) =>
+      `${idx + 1}. ${p.name} - ${p.count} builds (${p.successRate}% success)`
+  )
+  .join("\n")}
+
+---
+`
+    : ""
+}
+
+${
+  stats.comparisons && stats.comparisons.length > 0
+    ? `## 📆 Year over Year
+
+| Period | Commits | PRs Merged | Avg Days to Merge | Work Items Resolved | Longest Streak |
+| --- | ---: | ---: | ---: | ---: | ---: |
+| ${meta.dateRange.label} | ${commits.total} | ${pullRequests.merged} | ${
+        Math.round(pullRequests.avgDaysToMerge * 10) / 10
+      } | ${stats.workItems.total} | ${commits.longestStreak} |
+${stats.comparisons
+  .map(
+    (c) =>
+      `| ${c.label} | ${c.commits.previous} | ${c.pullRequestsMerged.previous} | ${c.avgDaysToMerge.previous} | ${c.workItemsResolved.previous} | ${c.longestStreak.previous} |`
+  )
+  .join("\n")}
+
+${
+  comparison
+    ? `Work items resolved: ${formatYearDelta(
+        comparison.workItemsResolved,
+        comparison.label
+      )}`
+    : ""
+}
+
+---
+`
+    : ""
+}
+
 ${
   insights
     ? `## 🌟 Insights
@@ -155,11 +334,21 @@ ${
 - **Busiest Day:** ${insights.busiestDay}
 - **Favorite Coding Hour:** ${insights.favoriteCommitHour}:00
 
+### Top Languages (by files touched)
+
+${insights.languages
+  ?.slice(0, 5)
+  .map(
+    (lang, idx) =>
+      `${idx + 1}. ${lang.language} - ${lang.files} files (${lang.percentage}%)`
+  )
+  .join("\n")}
+
 ### Top File Extensions
 
 ${insights.topFileExtensions
   ?.slice(0, 5)
-  .map((ext, idx) => `${idx + 1}. \`${ext.ext}\` - ${ext.count} changes`)
+  .map((ext, idx) => `${idx + 1}. \`${ext.ext}\` - ${ext.count} files`)
   .join("\n")}
 
 ---
@@ -193,6 +382,74 @@ Keep up the great work! 🚀
 `;
 }
 
+/**
+ * Generate Markdown content from team stats
+ */
+function generateTeamMarkdown(team: ClientTeamWrappedStats): string {
+  const { meta, members, rollup } = team;
+
+  return `# Azure DevOps Team Wrapped ${meta.dateRange.label}
+
+## 📊 Overview
+
+- **Period:** ${meta.dateRange.startDate} to ${meta.dateRange.endDate}
+- **Organization:** ${meta.organization}
+- **Projects:** ${meta.projects.join(", ")}
+- **Repositories:** ${meta.repositories.join(", ")}
+- **Members:** ${meta.members.length} (${rollup.activeMembers} active)
+- **Generated:** ${new Date(meta.generatedAt).toLocaleDateString()}
+
+---
+
+## 👥 Team Totals
+
+- **Commits:** ${rollup.commits.toLocaleString()}
+- **PRs Merged:** ${rollup.pullRequestsMerged.toLocaleString()}
+- **Work Items Resolved:** ${rollup.workItemsResolved.toLocaleString()}
+- **PRs Reviewed:** ${rollup.reviews.toLocaleString()}
+
+## 🏆 Busiest Contributors
+
+| Member | Commits | PRs Merged | Work Items | Reviews |
+| --- | ---: | ---: | ---: | ---: |
+${rollup.busiestContributors
+  .map(
+    (c) =>
+      `| ${c.email} | ${c.commits} | ${c.pullRequestsMerged} | ${c.workItemsResolved} | ${c.reviews} |`
+  )
+  .join("\n")}
+
+${
+  Object.keys(rollup.personalities).length > 0
+    ? `## 🎭 Team Personalities
+
+${Object.entries(rollup.personalities)
+  .sort(([, a], [, b]) => b - a)
+  .map(
+    ([personality, count]) =>
+      `- ${getPersonalityEmoji(personality)} ${personality}: ${count}`
+  )
+  .join("\n")}
+`
+    : ""
+}
+${
+  members.some((m) => m.error)
+    ? `## ⚠️ Members Without Data
+
+${members
+  .filter((m) => m.error)
+  .map((m) => `- ${m.email}: ${m.error}`)
+  .join("\n")}
+`
+    : ""
+}
+---
+
+*Generated by ADO Wrapped - Your Team's Year in Code*
+`;
+}
+
 /**
  * Get emoji for personality type
  */
@@ -0,0 +1,104 @@
+/**
+ * Identity aliases for Azure DevOps Wrapped
+ * One person can commit and sign in under several identities (a personal email,
+ * an old alias, a git author name, an AAD unique name like "CONTOSO\alice").
+ * Aliases are keyed by the person's primary email and attributed to it.
+ */
+
+import type { IdentityAliases } from "@/types";
+
+/**
+ * Parse aliases from a query parameter or ADO_USER_ALIASES.
+ * Format: "alice@contoso.com=alice@old.com|Alice Smith;bob@contoso.com=CONTOSO\bob"
+ * (people separated by ";", aliases by "|"). Primary emails are lowercased;
+ * aliases are deduplicated case-insensitively.
+ */
+export function parseIdentityAliases(
+  value: string | null | undefined
+): IdentityAliases {
+  const aliases: IdentityAliases = {};
+  for (const entry of (value || "").split(";")) {
+    const [primary, list = ""] = entry.split("=");
+    const email = primary.trim().toLowerCase();
+    if (!email) continue;
+    aliases[email] = dedupeAliases([
+      ...(aliases[email] || []),
+      ...list.split("|"),
+    ]).filter((alias) => alias.toLowerCase() !== email);
+  }
+  return aliases;
+}
+
+/**
+ * Format aliases back into the "primary=alias|alias;..." syntax
+ */
+export function formatIdentityAliases(aliases: IdentityAliases): string {
+  return Object.entries(aliases)
+    .filter(([, list]) => list.length > 0)
+    .map(([email, list]) => `${email}=${list.join("|")}`)
+    .join(";");
+}
+
+/**
+ * Validate parsed aliases, returning an error message or null when valid
+ */
+export function validateIdentityAliases(
+  aliases: IdentityAliases
+): string | null {
+  for (const [email, list] of Object.entries(aliases)) {
+    if (!email.includes("@")) {
+      return `"${email}" must be the primary email the aliases belong to`;
+    }
+    if (list.length === 0) {
+      return `No aliases listed for ${email} (expected ${email}=alias|alias)`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Aliases of a person, looked up by their primary email (case-insensitive)
+ */
+export function getIdentityAliases(
+  aliases: IdentityAliases,
+  email: string
+): string[] {
+  return aliases[email.toLowerCase()] || [];
+}
+
+/**
+ * Whether an alias names an Azure DevOps account (an email or "DOMAIN\user"
+ * unique name) that can be resolved to an identity ID. Plain git author names
+ * only appear on commits.
+ */
+export function isAccountAlias(alias: string): boolean {
+  return alias.includes("@") || alias.includes("\\");
+}
+
+/**
+ * Build a check for whether an email, unique name or author name belongs to
+ * the person with this primary email and aliases
+ */
+export function createIdentityMatcher(
+  email: string | undefined,
+  aliases: string[] = []
+): (value: string | undefined) => boolean {
+  const names = new Set(
+    [email, ...aliases]
+      .filter((name): name is string => !!name)
+      .map((name) => name.toLowerCase())
+  );
+  return (value) => !!value && names.has(value.toLowerCase());
+}
+
+function dedupeAliases(aliases: string[]): string[] {
+  const seen = new Set<string>();
+  return aliases
+    .map((alias) => alias.trim())
+    .filter((alias) => {
+      const key = alias.toLowerCase();
+      if (!alias || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
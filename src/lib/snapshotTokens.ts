@@ -0,0 +1,32 @@
+import { SNAPSHOT_TOKENS_STORAGE_KEY } from "./constants";
+
+/**
+ * Delete tokens for the snapshots this browser created, by snapshot ID.
+ * Kept in localStorage: whoever holds the token owns the snapshot.
+ */
+function readTokens(): Record<string, string> {
+  try {
+    return JSON.parse(
+      localStorage.getItem(SNAPSHOT_TOKENS_STORAGE_KEY) || "{}"
+    );
+  } catch {
+    return {};
+  }
+}
+
+function writeTokens(tokens: Record<string, string>): void {
+  localStorage.setItem(SNAPSHOT_TOKENS_STORAGE_KEY, JSON.stringify(tokens));
+}
+
+export function getSnapshotDeleteToken(id: string): string | undefined {
+  return readTokens()[id];
+}
+
+export function saveSnapshotDeleteToken(id: string, token: string): void {
+  writeTokens({ ...readTokens(), [id]: token });
+}
+
+export function forgetSnapshotDeleteToken(id: string): void {
+  const { [id]: _removed, ...tokens } = readTokens();
+  writeTokens(tokens);
+}
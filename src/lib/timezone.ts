@@ -0,0 +1,164 @@
+/**
+ * Timezone helpers for Azure DevOps Wrapped
+ * Azure DevOps timestamps are UTC; hours, weekdays and calendar dates are
+ * computed in the user's IANA timezone (e.g. "America/Los_Angeles")
+ */
+
+import type { DateRange } from "@/types";
+import { DEFAULT_TIME_ZONE } from "./constants";
+
+// A timestamp's calendar date and clock time in a timezone
+export interface ZonedDateParts {
+  date: string; // YYYY-MM-DD
+  month: number; // 0-11
+  dayOfWeek: number; // 0 = Sunday
+  hour: number; // 0-23
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Formatters are costly to create, so keep one per timezone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      hourCycle: "h23",
+      weekday: "short",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a timezone is a valid IANA name (or "UTC")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the calendar date, month, weekday and hour of a timestamp in a timezone
+ */
+export function getZonedParts(
+  value: Date | string,
+  timeZone: string = DEFAULT_TIME_ZONE
+): ZonedDateParts {
+  const date = typeof value === "string" ? new Date(value) : value;
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    month: parseInt(parts.month) - 1,
+    dayOfWeek: WEEKDAYS.indexOf(parts.weekday),
+    hour: parseInt(parts.hour) % 24,
+  };
+}
+
+/**
+ * The instant a calendar date (YYYY-MM-DD) begins in a timezone
+ */
+export function getZonedDayStart(
+  date: string,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Date {
+  const utcMidnight = Date.parse(`${date}T00:00:00.000Z`);
+  // The offset at UTC midnight may differ from the one at local midnight
+  // (a DST change in between), so correct once with the second guess
+  const guess = utcMidnight - getOffsetMs(utcMidnight, timeZone);
+  return new Date(utcMidnight - getOffsetMs(guess, timeZone));
+}
+
+/**
+ * The first and last instants (ISO 8601) of a date range's days in a
+ * timezone, for fetching exactly the activity the range covers there
+ */
+export function getZonedRangeBounds(
+  range: Pick<DateRange, "startDate" | "endDate">,
+  timeZone: string = DEFAULT_TIME_ZONE
+): { from: string; to: string } {
+  const dayAfterEnd = new Date(
+    Date.parse(`${range.endDate}T00:00:00.000Z`) + DAY_MS
+  )
+    .toISOString()
+    .split("T")[0];
+  return {
+    from: getZonedDayStart(range.startDate, timeZone).toISOString(),
+    to: new Date(
+      getZonedDayStart(dayAfterEnd, timeZone).getTime() - 1
+    ).toISOString(),
+  };
+}
+
+/**
+ * Check whether a timestamp falls within a date range's days in a timezone
+ */
+export function isInZonedRange(
+  value: Date | string,
+  range: Pick<DateRange, "startDate" | "endDate">,
+  timeZone: string = DEFAULT_TIME_ZONE
+): boolean {
+  const { date } = getZonedParts(value, timeZone);
+  return date >= range.startDate && date <= range.endDate;
+}
+
+/**
+ * The browser's (or server's) timezone, falling back to UTC
+ */
+export function detectTimeZone(): string {
+  try {
+    return (
+      Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE
+    );
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+}
+
+// How far a timezone's clock is ahead of UTC at an instant
+function getOffsetMs(instant: number, timeZone: string): number {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(instant))) {
+    parts[part.type] = parseInt(part.value);
+  }
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour % 24,
+    parts.minute,
+    parts.second
+  );
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
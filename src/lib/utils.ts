@@ -1,6 +1,29 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import type { StatDelta } from "@/types";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * Describe a PR size vs time-to-merge correlation coefficient in plain words
+ */
+export function describeSizeMergeCorrelation(r: number | null): string {
+  if (r === null) return "Not enough merged PRs to compare";
+  if (r >= 0.5) return "Bigger PRs took much longer to merge";
+  if (r >= 0.2) return "Bigger PRs took a bit longer to merge";
+  if (r <= -0.2) return "Bigger PRs actually merged faster";
+  return "PR size barely affected merge time";
+}
+
+/**
+ * Format a year-over-year change against a prior period, e.g. "+23% vs 2024"
+ * or "-5% vs Q3 FY2024"
+ */
+export function formatYearDelta(delta: StatDelta, period: string): string {
+  if (delta.change === 0) return `Same as ${period}`;
+  if (delta.percentChange === null) return `Up from 0 in ${period}`;
+  const sign = delta.percentChange > 0 ? "+" : "";
+  return `${sign}${delta.percentChange}% vs ${period}`;
+}
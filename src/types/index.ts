@@ -3,6 +3,8 @@ export interface ProjectRepository {
   project: string; // Project name, e.g., "Teams"
   repository: string; // Repository name, e.g., "teams-frontend"
   repositoryId?: string; // Optional: repository ID for API calls
+  defaultBranch?: string; // Optional: known default branch (looked up when missing)
+  extraBranches?: string[]; // Optional: extra target branches, e.g. ["release/2024"]
 }
 
 // Configuration input for the application
@@ -12,7 +14,44 @@ export interface WrappedConfig {
   projects: string[]; // Array of project names, e.g., ["Teams", "Office"]
   repositories: ProjectRepository[]; // Array of project-repo combos
   year: number; // e.g., 2024
+  dateRange?: DateRangeOptions; // Optional: reporting period (default: the calendar year)
+  timeZone?: string; // Optional: IANA timezone for hours, weekdays and dates (default: the browser's)
   userEmail?: string; // Optional: filter by specific user
+  teamMembers?: string[]; // Optional: team mode, one Wrapped per member email plus a rollup
+  aliases?: IdentityAliases; // Optional: other identities of the user or team members
+  compareYears?: number; // Optional: prior years to compare against (0 = none)
+  includeBuilds?: boolean; // Optional: fetch pipeline runs for the build stories (default: off)
+}
+
+// Other emails, git author names and AAD unique names ("CONTOSO\alice") a
+// person commits or signs in with, keyed by their primary (lowercased) email
+export type IdentityAliases = Record<string, string[]>;
+
+// Reporting period presets
+export type DateRangePreset =
+  | "calendarYear"
+  | "fiscalYear"
+  | "quarter"
+  | "lastNDays"
+  | "custom";
+
+// Requested reporting period. Years, fiscal years and quarters are resolved
+// against WrappedConfig.year; fiscal years are named after the year they end in
+export interface DateRangeOptions {
+  preset: DateRangePreset;
+  fiscalYearStartMonth?: number; // 1-12, for fiscal years and quarters (default 1 = January)
+  quarter?: number; // 1-4, for quarters
+  days?: number; // For last N days (ending today)
+  startDate?: string; // YYYY-MM-DD, for custom windows
+  endDate?: string; // YYYY-MM-DD, for custom windows
+}
+
+// Resolved reporting period (both ends inclusive)
+export interface DateRange {
+  preset: DateRangePreset;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  label: string; // e.g. "2024", "FY2025", "Q3 FY2025", "Last 90 days"
 }
 
 // Complete stats response (server-side, includes all computed fields)
@@ -20,9 +59,11 @@ export interface WrappedStats {
   meta: MetaInfo;
   commits: CommitStats;
   pullRequests: PullRequestStats;
+  reviews: ReviewStats;
   workItems: WorkItemStats;
   builds: BuildStats;
   insights: Insights;
+  comparisons?: YearComparison[]; // Prior years, most recent first (only when requested)
 }
 
 // Client-side stats (filtered to only include fields used by UI)
@@ -31,8 +72,59 @@ export interface ClientWrappedStats {
   meta: MetaInfo;
   commits: ClientCommitStats;
   pullRequests: ClientPullRequestStats;
+  reviews: ReviewStats;
   workItems: WorkItemStats;
+  builds: BuildStats;
   insights: Insights;
+  comparisons?: YearComparison[];
+}
+
+// Team Wrapped response: per-member client stats plus a team rollup
+export interface ClientTeamWrappedStats {
+  meta: TeamMetaInfo;
+  members: TeamMemberStats[];
+  rollup: TeamRollup;
+}
+
+// Metadata about team stats (members instead of a single userEmail)
+export interface TeamMetaInfo {
+  organization: string;
+  projects: string[];
+  repositories: string[];
+  year: number;
+  dateRange: DateRange;
+  timeZone: string;
+  generatedAt: string;
+  members: string[]; // Member emails, in roster order
+}
+
+// One team member's stats; null when nothing could be fetched for them
+export interface TeamMemberStats {
+  email: string;
+  stats: ClientWrappedStats | null;
+  error?: string;
+}
+
+// Team totals (member activity is disjoint except reviews, where two
+// members reviewing the same PR count as two reviews)
+export interface TeamRollup {
+  commits: number;
+  pullRequestsMerged: number;
+  workItemsResolved: number;
+  reviews: number;
+  activeMembers: number; // Members with any activity
+  personalities: Record<string, number>; // "Night Owl": 2
+  busiestContributors: TeamContributor[]; // Most total activity first
+}
+
+// A member's share of the team totals
+export interface TeamContributor {
+  email: string;
+  commits: number;
+  pullRequestsMerged: number;
+  workItemsResolved: number;
+  reviews: number;
+  total: number; // Sum of the counts above
 }
 
 // Client-side commit stats (excludes unused fields: edits, byMonth, firstCommitDate, lastCommitDate, topCommitMessages)
@@ -40,6 +132,7 @@ export interface ClientCommitStats {
   total: number;
   additions: number;
   deletions: number;
+  changeUnit: CommitChangeUnit;
   byDayOfWeek: Record<string, number>;
   byHour: Record<number, number>;
   longestStreak: number;
@@ -57,6 +150,8 @@ export interface ClientPullRequestStats {
     id: number;
     title: string;
     filesChanged: number;
+    linesAdded?: number; // With line diffs (lineDiffs / ADO_LINE_DIFFS)
+    linesDeleted?: number;
   } | null;
   byMonth: Record<string, number>;
   byDayOfWeek: Record<string, number>;
@@ -64,6 +159,8 @@ export interface ClientPullRequestStats {
   lastPRDate: string;
   fastestMerge: { id: number; title: string; hours: number } | null;
   slowestMerge: { id: number; title: string; days: number } | null;
+  comments: PRCommentStats;
+  sizes: PRSizeStats;
 }
 
 // Metadata about the stats
@@ -72,16 +169,24 @@ export interface MetaInfo {
   projects: string[]; // Array of project names
   repositories: string[]; // Array of repository names
   year: number;
+  dateRange: DateRange; // The reporting period the stats cover
+  timeZone: string; // IANA timezone hours, weekdays and dates are counted in
   generatedAt: string;
   userEmail?: string;
+  aliases?: string[]; // Other identities attributed to userEmail
 }
 
+// What commit additions/edits/deletions count: files from the commits API's
+// changeCounts (default), or lines from file diffs when line diffs are enabled
+export type CommitChangeUnit = "files" | "lines";
+
 // Commit statistics
 export interface CommitStats {
   total: number;
-  additions: number;
-  edits: number;
-  deletions: number;
+  additions: number; // Files added, or lines added (see changeUnit)
+  edits: number; // Files edited; always 0 for lines (an edit is a deletion plus an addition)
+  deletions: number; // Files deleted, or lines deleted (see changeUnit)
+  changeUnit: CommitChangeUnit;
   byMonth: Record<string, number>; // "Jan": 45
   byDayOfWeek: Record<string, number>; // "Monday": 120
   byHour: Record<number, number>; // 14: 89 (2PM)
@@ -104,6 +209,8 @@ export interface PullRequestStats {
     id: number;
     title: string;
     filesChanged: number;
+    linesAdded?: number; // With line diffs (lineDiffs / ADO_LINE_DIFFS)
+    linesDeleted?: number;
   } | null;
   // Time-based distributions
   byMonth: Record<string, number>; // "Jan": 5
@@ -113,9 +220,49 @@ export interface PullRequestStats {
   firstPRDate: string;
   lastPRDate: string;
   // Additional stats
-  totalComments: number;
+  totalComments: number; // Same as comments.total
   fastestMerge: { id: number; title: string; hours: number } | null;
   slowestMerge: { id: number; title: string; days: number } | null;
+  comments: PRCommentStats;
+  sizes: PRSizeStats;
+}
+
+// PR size statistics from iteration changes (sizes count files, not lines)
+export interface PRSizeStats {
+  buckets: Array<{
+    label: string; // "XS" through "XL"
+    maxFiles: number | null; // Inclusive upper bound; null for the largest bucket
+    count: number;
+    avgHoursToMerge: number | null;
+  }>;
+  sizeMergeCorrelation: number | null; // Pearson r of files changed vs hours to merge (-1 to 1)
+}
+
+// PR discussion statistics from comment threads
+// (covers the user's own PRs and the PRs they reviewed; system comments excluded)
+export interface PRCommentStats {
+  total: number;
+  written: number; // Comments the user wrote
+  received: number; // Comments others left on the user's own PRs
+  threadsResolved: number; // Fixed, won't fix, closed or by design
+  threadsActive: number; // Active or pending
+  avgCommentsPerPR: number;
+  mostDiscussedPR: { id: number; title: string; comments: number } | null;
+}
+
+// Code review statistics (PRs where the user was a reviewer, excluding their own)
+export interface ReviewStats {
+  total: number;
+  // Final vote per reviewed PR
+  votes: {
+    approved: number;
+    approvedWithSuggestions: number;
+    waitingForAuthor: number;
+    rejected: number;
+    noVote: number;
+  };
+  medianHoursToFirstVote: number | null; // From PR creation to the user's first vote
+  topAuthors: Array<{ name: string; count: number }>; // Whose PRs the user reviewed most
 }
 
 // Work item statistics
@@ -160,8 +307,16 @@ export interface BuildStats {
   total: number;
   succeeded: number;
   failed: number;
-  successRate: number;
+  canceled: number;
+  successRate: number; // Percentage (0-100) of finished builds that succeeded
   avgDurationMinutes: number;
+  longestFailureStreak: number; // Most consecutive failed builds
+  topPipelines: Array<{
+    definitionId: number;
+    name: string;
+    count: number;
+    successRate: number;
+  }>;
 }
 
 // Generated insights
@@ -172,10 +327,89 @@ export interface Insights {
   favoriteCommitHour: number;
   topFileExtensions: Array<{
     ext: string;
-    count: number;
+    count: number; // Distinct files touched with this extension
   }>;
+  // Share of distinct files touched per language (excluded paths left out)
+  languages: Array<{
+    language: string; // e.g. "TypeScript"; "Other" for unknown extensions
+    files: number;
+    percentage: number; // 0-100
+  }>;
+}
+
+// Change of one stat against the same period a prior year
+export interface StatDelta {
+  previous: number;
+  change: number; // Current minus previous
+  percentChange: number | null; // Rounded percentage; null when previous is 0
 }
 
+// Year-over-year comparison of key stats against the same period one prior
+// year (e.g. Q3 2024 against Q3 2023)
+export interface YearComparison {
+  year: number; // The prior year
+  label: string; // The prior period's label, e.g. "2023" or "Q3 FY2024"
+  commits: StatDelta;
+  pullRequestsMerged: StatDelta;
+  avgDaysToMerge: StatDelta; // Lower is better
+  workItemsResolved: StatDelta;
+  longestStreak: StatDelta;
+}
+
+// Where changed file paths for the language breakdown come from:
+// PR iteration changes (cheap, already fetched to size PRs) or per-commit changes
+export type LanguageSource = "pullRequests" | "commits";
+
+// Data sources fetched per project-repo combo
+export type StatsResource =
+  "commits" | "pullRequests" | "reviews" | "workItems" | "builds";
+
+// Progress events streamed from /api/stats/stream (Server-Sent Events).
+// In team mode, repo events carry the member they were fetched for (totalRepos
+// counts every member's repos) and the stream ends with `team-complete`
+export type StatsProgressEvent =
+  | { type: "start"; totalRepos: number }
+  | {
+      type: "repo-start";
+      member?: string;
+      project: string;
+      repository: string;
+    }
+  | {
+      type: "page";
+      member?: string;
+      project: string;
+      repository: string;
+      resource: StatsResource;
+      page: number;
+      items: number;
+    }
+  | {
+      type: "repo-done";
+      member?: string;
+      project: string;
+      repository: string;
+      commits: number;
+      pullRequests: number;
+      reviews: number;
+      workItems: number;
+      builds: number;
+    }
+  | {
+      // `resource` is set when a single data source failed but the repo continued
+      type: "repo-failed";
+      member?: string;
+      project: string;
+      repository: string;
+      resource?: StatsResource;
+      error: string;
+    }
+  | { type: "aggregating" }
+  | { type: "comparing"; periods: string[] } // Fetching prior periods' labels (compareYears)
+  | { type: "complete"; stats: ClientWrappedStats }
+  | { type: "team-complete"; team: ClientTeamWrappedStats }
+  | { type: "error"; status: number; error: string; details?: string };
+
 // Azure DevOps API response types
 export namespace AzureDevOpsAPI {
   // Commit response
@@ -289,8 +523,8 @@ export namespace AzureDevOpsAPI {
     status: string;
     result: string;
     queueTime: string;
-    startTime: string;
-    finishTime: string;
+    startTime?: string; // Missing for builds canceled before they started
+    finishTime?: string;
     definition: {
       id: number;
       name: string;
@@ -19,11 +19,25 @@ import fs from "fs";
 import path from "path";
 import {
   fetchCommits,
+  fetchLineCountsForCommits,
+  fetchChangedPathsForCommits,
   fetchPullRequests,
+  fetchReviewedPullRequests,
+  fetchThreadsForPullRequests,
+  fetchPRSizes,
   fetchWorkItems,
   aggregateStats,
   createClient,
+  getConfigCredential,
 } from "./src/lib/azure-devops";
+import {
+  collectStats,
+  collectTeamStats,
+  parseStatsRequest,
+} from "./src/lib/azure-devops/statsCollector";
+import { formatYearDelta } from "./src/lib/utils";
+import { resolveDateRange } from "./src/lib/dateRange";
+import { getIdentityAliases } from "./src/lib/identity";
 import { loadAndValidateConfig, printConfig } from "./src/lib/config";
 import type { WrappedConfig } from "./src/types";
 
@@ -46,56 +60,118 @@ async function testAPIIntegration() {
     repositories: appConfig.repositories,
     pat: appConfig.pat,
     year: appConfig.year,
+    dateRange: appConfig.dateRange,
     userEmail: appConfig.userEmail,
+    aliases: appConfig.aliases,
   };
 
+  // PAT, bearer token or service principal, per ADO_AUTH_METHOD
+  const credential = getConfigCredential(appConfig)!;
+
+  // Commits, PRs and reviews under ADO_USER_ALIASES count as the user's
+  const aliases = config.userEmail
+    ? getIdentityAliases(appConfig.aliases, config.userEmail)
+    : [];
+
   try {
-    // Define date range
-    const fromDate = `${config.year}-01-01`;
-    const toDate = `${config.year}-12-31`;
+    // Define date range (ADO_DATE_RANGE, the calendar year by default)
+    const dateRange = resolveDateRange(appConfig.dateRange, config.year);
+    const { startDate: fromDate, endDate: toDate } = dateRange;
+    console.log(`📅 ${dateRange.label}: ${fromDate} to ${toDate}`);
 
     console.log("📥 Fetching data from Azure DevOps...\n");
 
     // Use first project-repo combo for single-repo test
     const firstRepo = config.repositories[0];
 
-    // Fetch commits (only from master branch)
-    console.log("1️⃣  Fetching commits from master branch...");
+    // Fetch commits (default branch plus any configured extra branches)
+    console.log("1️⃣  Fetching commits from the default branch...");
     const commits = await fetchCommits({
       organization: config.organization,
       project: firstRepo.project,
       repository: firstRepo.repository,
-      pat: config.pat,
+      credential,
       fromDate,
       toDate,
       userEmail: config.userEmail,
-      branch: "master",
+      aliases,
+      extraBranches: firstRepo.extraBranches,
     });
 
-    // Fetch pull requests (only completed PRs to master)
-    console.log("2️⃣  Fetching pull requests merged to master...");
+    // Fetch pull requests (only completed PRs to the default/extra branches)
+    console.log("2️⃣  Fetching pull requests merged to the default branch...");
     const pullRequests = await fetchPullRequests({
       organization: config.organization,
       project: firstRepo.project,
       repository: firstRepo.repository,
-      pat: config.pat,
+      credential,
       fromDate,
       toDate,
       userEmail: config.userEmail,
-      includeReviewed: true,
+      aliases,
+      extraBranches: firstRepo.extraBranches,
+    });
+
+    // Fetch PRs the user reviewed (any target branch)
+    console.log("   ...and pull requests reviewed by you...");
+    const reviewedPullRequests = await fetchReviewedPullRequests({
+      organization: config.organization,
+      project: firstRepo.project,
+      repository: firstRepo.repository,
+      credential,
+      fromDate,
+      toDate,
+      userEmail: config.userEmail,
+      aliases,
     });
 
     // Fetch work items (resolved/closed assigned to user)
     console.log("3️⃣  Fetching work items...");
     const client = createClient({
       organization: config.organization,
-      pat: config.pat,
+      credential,
     });
+    // Fetch comment threads on your PRs for discussion stats
+    const pullRequestThreads = await fetchThreadsForPullRequests(
+      client,
+      pullRequests
+    );
+
+    // Size your PRs from their iteration changes
+    const pullRequestSizes = await fetchPRSizes(client, pullRequests);
+
+    // Count real lines from commit diffs when ADO_LINE_DIFFS=true
+    const commitLineCounts = appConfig.lineDiffs
+      ? await fetchLineCountsForCommits(
+          client,
+          firstRepo.project,
+          firstRepo.repository,
+          commits,
+          appConfig.excludePaths
+        )
+      : undefined;
+
+    // Files touched for the language breakdown (PR changes unless ADO_LANGUAGE_SOURCE=commits)
+    const changedPaths =
+      appConfig.languageSource === "commits"
+        ? await fetchChangedPathsForCommits(
+            client,
+            firstRepo.project,
+            firstRepo.repository,
+            commits
+          )
+        : Object.values(pullRequestSizes).flatMap((size) => size.paths);
+    const changedFiles = changedPaths.map((path) => ({
+      repository: firstRepo.repository,
+      path,
+    }));
+
     // Use first project for work items test
     const firstProject = projects[0];
     const workItems = await fetchWorkItems(client, {
       project: firstProject,
-      year: config.year,
+      fromDate,
+      toDate,
       userEmail: config.userEmail,
     });
 
@@ -103,14 +179,23 @@ async function testAPIIntegration() {
     console.log("4️⃣  Aggregating statistics...\n");
     const stats = aggregateStats({
       commits,
+      commitLineCounts,
       pullRequests,
+      reviewedPullRequests,
+      pullRequestThreads,
+      pullRequestSizes,
       workItems,
+      changedFiles,
       config: {
         organization: config.organization,
         projects: config.projects,
         repositories: config.repositories.map((r) => r.repository),
         year: config.year,
+        dateRange,
+        timeZone: appConfig.timeZone,
         userEmail: config.userEmail,
+        aliases,
+        excludePaths: appConfig.excludePaths,
       },
     });
 
@@ -120,9 +205,12 @@ async function testAPIIntegration() {
     console.log("📊 COMMIT STATISTICS");
     console.log("═══════════════════════════════════════════════════════════");
     console.log(`Total Commits: ${stats.commits.total}`);
-    console.log(`Lines Added: ${stats.commits.additions}`);
-    console.log(`Lines Edited: ${stats.commits.edits}`);
-    console.log(`Lines Deleted: ${stats.commits.deletions}`);
+    const changeUnit = stats.commits.changeUnit === "lines" ? "Lines" : "Files";
+    console.log(`${changeUnit} Added: ${stats.commits.additions}`);
+    if (stats.commits.changeUnit === "files") {
+      console.log(`Files Edited: ${stats.commits.edits}`);
+    }
+    console.log(`${changeUnit} Deleted: ${stats.commits.deletions}`);
     console.log(`Longest Streak: ${stats.commits.longestStreak} days`);
     console.log(`First Commit: ${stats.commits.firstCommitDate}`);
     console.log(`Last Commit: ${stats.commits.lastCommitDate}`);
@@ -181,8 +269,59 @@ async function testAPIIntegration() {
     if (stats.pullRequests.largestPR) {
       console.log(`\n🏆 Largest PR: #${stats.pullRequests.largestPR.id}`);
       console.log(`   Title: ${stats.pullRequests.largestPR.title}`);
+      console.log(
+        `   Files Changed: ${stats.pullRequests.largestPR.filesChanged}`
+      );
+    }
+
+    console.log("\n📏 PR Sizes:");
+    stats.pullRequests.sizes.buckets.forEach((bucket) => {
+      console.log(
+        `   ${bucket.label.padEnd(2)} ${"█".repeat(Math.min(bucket.count, 50))} ${
+          bucket.count
+        }${
+          bucket.avgHoursToMerge !== null
+            ? ` (avg ${bucket.avgHoursToMerge}h to merge)`
+            : ""
+        }`
+      );
+    });
+    console.log(
+      `   Size vs Merge Time Correlation: ${
+        stats.pullRequests.sizes.sizeMergeCorrelation ?? "N/A"
+      }`
+    );
+
+    const { comments } = stats.pullRequests;
+    console.log("\n💬 Discussion:");
+    console.log(
+      `   Comments: ${comments.written} written, ${comments.received} received (${comments.avgCommentsPerPR} per PR)`
+    );
+    console.log(
+      `   Threads: ${comments.threadsResolved} resolved, ${comments.threadsActive} active`
+    );
+    if (comments.mostDiscussedPR) {
+      console.log(
+        `   Most Discussed: #${comments.mostDiscussedPR.id} ${comments.mostDiscussedPR.title} (${comments.mostDiscussedPR.comments} comments)`
+      );
     }
 
+    console.log("\n👀 Code Reviews:");
+    console.log(`   Reviewed: ${stats.reviews.total}`);
+    console.log(
+      `   Votes: ✅ ${stats.reviews.votes.approved} approved, 💡 ${stats.reviews.votes.approvedWithSuggestions} with suggestions, ⏳ ${stats.reviews.votes.waitingForAuthor} waiting, ❌ ${stats.reviews.votes.rejected} rejected`
+    );
+    console.log(
+      `   Median Time to First Vote: ${
+        stats.reviews.medianHoursToFirstVote !== null
+          ? `${stats.reviews.medianHoursToFirstVote} hours`
+          : "N/A"
+      }`
+    );
+    stats.reviews.topAuthors.forEach((author, i) => {
+      console.log(`   ${i + 1}. ${author.name} (${author.count} PRs)`);
+    });
+
     console.log(
       "\n═══════════════════════════════════════════════════════════"
     );
@@ -195,10 +334,17 @@ async function testAPIIntegration() {
       `Favorite Commit Hour: ${stats.insights.favoriteCommitHour}:00`
     );
 
+    console.log("\n🧑‍💻 Top Languages (by files touched):");
+    stats.insights.languages.slice(0, 5).forEach((lang, i) => {
+      console.log(
+        `   ${i + 1}. ${lang.language} - ${lang.files} files (${lang.percentage}%)`
+      );
+    });
+
     console.log("\n📁 Top File Types:");
     stats.insights.topFileExtensions.forEach(
       ({ ext, count }: { ext: string; count: number }, i: number) => {
-        console.log(`   ${i + 1}. .${ext} - ${count} changes`);
+        console.log(`   ${i + 1}. .${ext} - ${count} files`);
       }
     );
 
@@ -206,6 +352,95 @@ async function testAPIIntegration() {
       "\n═══════════════════════════════════════════════════════════\n"
     );
 
+    // Team mode (ADO_TEAM_MEMBERS): collect every member across all repos
+    if (appConfig.teamMembers.length > 0) {
+      console.log("5️⃣  Collecting team stats...\n");
+      const requestId = Date.now();
+      const parsed = parseStatsRequest(new URLSearchParams(), null, requestId);
+      if (!parsed.ok) {
+        throw new Error(parsed.body.error);
+      }
+      const team = await collectTeamStats(parsed.value, requestId);
+      if (!team.ok) {
+        throw new Error(team.body.error);
+      }
+      const { rollup } = team.value;
+
+      console.log(
+        "═══════════════════════════════════════════════════════════"
+      );
+      console.log("👥 TEAM ROLLUP");
+      console.log(
+        "═══════════════════════════════════════════════════════════"
+      );
+      console.log(
+        `Members: ${team.value.meta.members.length} (${rollup.activeMembers} active)`
+      );
+      console.log(`Commits: ${rollup.commits}`);
+      console.log(`PRs Merged: ${rollup.pullRequestsMerged}`);
+      console.log(`Work Items Resolved: ${rollup.workItemsResolved}`);
+      console.log(`PRs Reviewed: ${rollup.reviews}`);
+      console.log("\n🏆 Busiest Contributors:");
+      rollup.busiestContributors.forEach((c, i) => {
+        console.log(
+          `   ${i + 1}. ${c.email} - ${c.commits} commits, ${c.pullRequestsMerged} PRs merged, ${c.workItemsResolved} work items, ${c.reviews} reviews`
+        );
+      });
+      team.value.members
+        .filter((m) => m.error)
+        .forEach((m) => console.log(`   ⚠️ ${m.email}: ${m.error}`));
+      console.log(
+        "\n═══════════════════════════════════════════════════════════\n"
+      );
+    }
+
+    // Year over year (ADO_COMPARE_YEARS): all repos, this period vs the same period in prior years
+    if (appConfig.compareYears > 0) {
+      console.log("6️⃣  Comparing with prior years...\n");
+      const requestId = Date.now();
+      const parsed = parseStatsRequest(new URLSearchParams(), null, requestId);
+      if (!parsed.ok) {
+        throw new Error(parsed.body.error);
+      }
+      const yearStats = await collectStats(
+        { ...parsed.value, teamMembers: [] },
+        requestId
+      );
+      if (!yearStats.ok) {
+        throw new Error(yearStats.body.error);
+      }
+
+      console.log(
+        "═══════════════════════════════════════════════════════════"
+      );
+      console.log("📆 YEAR OVER YEAR");
+      console.log(
+        "═══════════════════════════════════════════════════════════"
+      );
+      (yearStats.value.comparisons || []).forEach((c) => {
+        console.log(`vs ${c.label}:`);
+        console.log(`   Commits: ${formatYearDelta(c.commits, c.label)}`);
+        console.log(
+          `   PRs Merged: ${formatYearDelta(c.pullRequestsMerged, c.label)}`
+        );
+        console.log(
+          `   Avg Days to Merge: ${formatYearDelta(c.avgDaysToMerge, c.label)}`
+        );
+        console.log(
+          `   Work Items Resolved: ${formatYearDelta(
+            c.workItemsResolved,
+            c.label
+          )}`
+        );
+        console.log(
+          `   Longest Streak: ${formatYearDelta(c.longestStreak, c.label)}`
+        );
+      });
+      console.log(
+        "\n═══════════════════════════════════════════════════════════\n"
+      );
+    }
+
     // Save results to file
     const outputPath = path.join(process.cwd(), `wrapped-${config.year}.json`);
     fs.writeFileSync(outputPath, JSON.stringify(stats, null, 2));
@@ -0,0 +1,940 @@
+/**
+ * Integration tests: /api/stats end to end against a mock Azure DevOps
+ *
+ * Starts the mock server (src/lib/azure-devops/mockServer.ts) on a free port
+ * with a seeded demo organization, points ADO_BASE_URL at it and calls the
+ * stats route the way Next.js would. Each case sets the server's faults
+ * (throttling, injected errors) and checks the Wrapped against the dataset;
+ * edge cases the dataset can't produce go straight to the aggregator.
+ *
+ * Usage: npm run test:integration [-- --verbose]
+ *
+ * No PAT or network access needed. Caching and fixtures are turned off, so
+ * every run talks to the mock (except the cases that check caching, which
+ * use an in-memory store). Shared snapshots go to a temporary directory.
+ * The Redis store case runs against ADO_REDIS_URL (default
+ * redis://localhost:6379) when a server is listening there, using database 15,
+ * and is skipped otherwise.
+ */
+
+import assert from "assert";
+import * as fs from "fs/promises";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import { NextRequest } from "next/server";
+import { GET as getStats } from "./src/app/api/stats/route";
+import { GET as getStatsStream } from "./src/app/api/stats/stream/route";
+import { POST as postSnapshot } from "./src/app/api/snapshots/route";
+import { GET as getSnapshot } from "./src/app/api/snapshots/[id]/route";
+import { aggregateStats } from "./src/lib/azure-devops/aggregator";
+import { closeCache, setCacheStore } from "./src/lib/azure-devops/cache";
+import {
+  invalidateCache,
+  listCacheEntries,
+} from "./src/lib/azure-devops/cacheManagement";
+import { MemoryCacheStore } from "./src/lib/azure-devops/cacheStore";
+import { AzureDevOpsClient } from "./src/lib/azure-devops/client";
+import { isExcludedPath } from "./src/lib/azure-devops/languages";
+import {
+  PullRequestSize,
+  fetchPRSizes,
+  findLargestPR,
+} from "./src/lib/azure-devops/pullRequests";
+import { RedisCacheStore } from "./src/lib/azure-devops/redisCacheStore";
+import {
+  closeSnapshotStore,
+  pruneExpiredSnapshots,
+} from "./src/lib/azure-devops/snapshots";
+import type { GitCommit } from "./src/lib/azure-devops/types";
+import { DEFAULT_REDIS_URL } from "./src/lib/constants";
+import { resolveDateRange } from "./src/lib/dateRange";
+import { getZonedParts } from "./src/lib/timezone";
+import { DemoOptions, generateDemoData } from "./src/lib/azure-devops/demoData";
+import {
+  MOCK_FILE_DIFF_LINES,
+  MockAdoServer,
+  createMockDataset,
+  startMockAdoServer,
+} from "./src/lib/azure-devops/mockServer";
+import type { ClientWrappedStats, StatsProgressEvent } from "./src/types";
+
+const PAT = "mock-pat";
+
+const DEMO_OPTIONS: DemoOptions = {
+  persona: "nineToFive",
+  volume: "typical",
+  seed: 7,
+  year: new Date().getFullYear() - 1,
+};
+
+const verbose = process.argv.includes("--verbose");
+
+interface TestCase {
+  name: string;
+  // Returns why the case can't run here, if it can't
+  skip?: () => Promise<string | null>;
+  run: (server: MockAdoServer) => Promise<void>;
+}
+
+// Read before the run clears ADO_* settings
+const redisUrl = new URL(process.env.ADO_REDIS_URL || DEFAULT_REDIS_URL);
+redisUrl.pathname = "/15";
+
+// What the Wrapped should show, straight from the generator
+const demo = generateDemoData(DEMO_OPTIONS);
+const dataset = createMockDataset(DEMO_OPTIONS);
+const allRepositories = demo.repositories.map((repository) => ({
+  project: repository.project!.name,
+  repository: repository.name,
+}));
+const expected = {
+  commits: demo.commits.length,
+  // Only completed PRs into the default branch count as created
+  pullRequests: demo.pullRequests.filter((pr) => pr.status === "completed")
+    .length,
+  reviews: demo.reviewedPullRequests.length,
+  workItems: demo.workItems.length,
+};
+
+let baseline: ClientWrappedStats;
+
+/**
+ * Call GET /api/stats for the demo user, returning the status and JSON body.
+ * `extraParams` adds query parameters (date range, timezone...).
+ */
+async function requestStats(
+  repositories = allRepositories,
+  token = PAT,
+  extraParams: Record<string, string> = {}
+): Promise<{ status: number; body: any }> {
+  const params = new URLSearchParams({
+    organization: dataset.organization,
+    repositories: JSON.stringify(repositories),
+    year: `${DEMO_OPTIONS.year}`,
+    userEmail: demo.config.userEmail!,
+    ...extraParams,
+  });
+  const request = new NextRequest(`http://localhost/api/stats?${params}`, {
+    headers: { authorization: `Bearer ${token}` },
+  });
+
+  const restore = verbose ? () => {} : silenceConsole();
+  try {
+    const response = await getStats(request);
+    return { status: response.status, body: await response.json() };
+  } finally {
+    restore();
+  }
+}
+
+/**
+ * Call GET /api/stats/stream for the demo user and read every event
+ */
+async function requestStatsStream(
+  repositories = allRepositories
+): Promise<StatsProgressEvent[]> {
+  const params = new URLSearchParams({
+    organization: dataset.organization,
+    repositories: JSON.stringify(repositories),
+    year: `${DEMO_OPTIONS.year}`,
+    userEmail: demo.config.userEmail!,
+  });
+  const request = new NextRequest(
+    `http://localhost/api/stats/stream?${params}`,
+    { headers: { authorization: `Bearer ${PAT}` } }
+  );
+
+  const restore = verbose ? () => {} : silenceConsole();
+  try {
+    const response = await getStatsStream(request);
+    const text = await response.text();
+    return text
+      .split("\n\n")
+      .map((message) =>
+        message.split("\n").find((line) => line.startsWith("data: "))
+      )
+      .filter((line): line is string => line !== undefined)
+      .map((line) => JSON.parse(line.slice("data: ".length)));
+  } finally {
+    restore();
+  }
+}
+
+/**
+ * Call POST /api/snapshots with a body (JSON-encoded unless a string)
+ */
+async function requestSnapshot(
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<{ status: number; body: any }> {
+  const request = new NextRequest("http://localhost/api/snapshots", {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+  const restore = verbose ? () => {} : silenceConsole();
+  try {
+    const response = await postSnapshot(request);
+    return { status: response.status, body: await response.json() };
+  } finally {
+    restore();
+  }
+}
+
+/**
+ * Stats without the parts that differ between runs
+ */
+function comparable(stats: ClientWrappedStats) {
+  return { ...stats, meta: { ...stats.meta, generatedAt: undefined } };
+}
+
+const testCases: TestCase[] = [
+  {
+    name: "collects the dataset's activity end to end",
+    run: async (server) => {
+      const { status, body } = await requestStats();
+      assert.strictEqual(status, 200, JSON.stringify(body));
+      const stats = body as ClientWrappedStats;
+
+      assert.strictEqual(stats.commits.total, expected.commits);
+      assert.strictEqual(stats.pullRequests.created, expected.pullRequests);
+      assert.strictEqual(stats.pullRequests.merged, expected.pullRequests);
+      assert.strictEqual(stats.reviews.total, expected.reviews);
+      assert.notStrictEqual(stats.reviews.medianHoursToFirstVote, null);
+      assert.strictEqual(stats.workItems.total, expected.workItems);
+      assert.ok(
+        (stats.pullRequests.largestPR?.filesChanged ?? 0) > 0,
+        "PR sizes come from iteration changes"
+      );
+
+      // More than 100 commits in a repository takes a second page
+      assert.ok(
+        server.requests.some(
+          (request) =>
+            request.path.endsWith("/commits") &&
+            request.query["searchCriteria.$skip"] === "100"
+        ),
+        "commits are paged"
+      );
+      baseline = stats;
+    },
+  },
+  {
+    name: "compares with a prior year without fetching its PR details",
+    run: async (server) => {
+      // Reviewer queries, threads and iterations are only needed this year
+      const detailRequests = () =>
+        server.requests.filter(
+          (request) =>
+            "searchCriteria.reviewerId" in request.query ||
+            /\/(threads|iterations)(\/|$)/i.test(request.path)
+        ).length;
+
+      server.reset();
+      const single = await requestStats();
+      assert.strictEqual(single.status, 200, JSON.stringify(single.body));
+      const expectedDetailRequests = detailRequests();
+      assert.ok(expectedDetailRequests > 0);
+
+      server.reset();
+      const { status, body } = await requestStats(allRepositories, PAT, {
+        compareYears: "1",
+      });
+      assert.strictEqual(status, 200, JSON.stringify(body));
+      assert.strictEqual(body.comparisons?.length, 1);
+      assert.strictEqual(detailRequests(), expectedDetailRequests);
+    },
+  },
+  {
+    name: "retries throttled requests",
+    run: async (server) => {
+      server.reset({ throttleEvery: 5 });
+      const { status, body } = await requestStats();
+      assert.strictEqual(status, 200, JSON.stringify(body));
+      assert.deepStrictEqual(comparable(body), comparable(baseline));
+      assert.ok(
+        server.requests.some((request) => request.status === 429),
+        "requests were throttled"
+      );
+    },
+  },
+  {
+    name: "retries transient server errors",
+    run: async (server) => {
+      server.reset({
+        errors: [{ path: "/_apis/identities", status: 503, times: 2 }],
+      });
+      const { status, body } = await requestStats();
+      assert.strictEqual(status, 200, JSON.stringify(body));
+      assert.deepStrictEqual(comparable(body), comparable(baseline));
+      assert.strictEqual(
+        server.requests.filter((request) => request.status === 503).length,
+        2
+      );
+    },
+  },
+  {
+    name: "keeps the rest of the Wrapped when work items fail",
+    run: async (server) => {
+      server.reset({
+        errors: [{ path: "/_apis/wit/wiql", method: "POST", status: 500 }],
+      });
+      const { status, body } = await requestStats();
+      assert.strictEqual(status, 200, JSON.stringify(body));
+      assert.strictEqual(body.workItems.total, 0);
+      assert.strictEqual(body.commits.total, expected.commits);
+      assert.strictEqual(body.reviews.total, expected.reviews);
+    },
+  },
+  {
+    name: "leaves out commits of a repository that fails",
+    run: async (server) => {
+      const failing = demo.repositories[0];
+      server.reset({
+        errors: [
+          {
+            path: `/_apis/git/repositories/${failing.name}/commits`,
+            status: 403,
+          },
+        ],
+      });
+      const { status, body } = await requestStats();
+      assert.strictEqual(status, 200, JSON.stringify(body));
+      assert.strictEqual(
+        body.commits.total,
+        expected.commits - dataset.commits[failing.id].length
+      );
+      assert.strictEqual(body.pullRequests.created, expected.pullRequests);
+    },
+  },
+  {
+    name: "reports a repository whose PR queries fail",
+    run: async (server) => {
+      const failing = dataset.repositories[0];
+      server.reset({
+        errors: [
+          {
+            path: new RegExp(`/repositories/${failing.id}/pullrequests$`, "i"),
+            method: "GET",
+            status: 403,
+          },
+        ],
+      });
+      const events = await requestStatsStream();
+      const failures = events.filter(
+        (event) =>
+          event.type === "repo-failed" &&
+          event.repository === failing.name &&
+          event.resource === "pullRequests"
+      );
+      assert.strictEqual(failures.length, 1, "the PR failure was reported");
+      const complete = events.find((event) => event.type === "complete");
+      assert.ok(complete && complete.type === "complete");
+      assert.ok(complete.stats.pullRequests.created < expected.pullRequests);
+    },
+  },
+  {
+    name: "counts PR lines from file diffs only with line diffs on",
+    run: async (server) => {
+      server.reset();
+      const client = new AzureDevOpsClient({
+        organization: dataset.organization,
+        pat: PAT,
+        enableCache: false,
+      });
+      const prs = dataset.pullRequests.filter(
+        (pr) => (dataset.pullRequestChanges[pr.pullRequestId] || []).length > 0
+      );
+      assert.ok(prs.length > 0, "the dataset has PRs with changes");
+
+      const restore = verbose ? () => {} : silenceConsole();
+      let sizes: Record<number, PullRequestSize>;
+      let lineSizes: Record<number, PullRequestSize>;
+      try {
+        sizes = await fetchPRSizes(client, prs);
+        assert.ok(
+          !server.requests.some((request) =>
+            request.path.endsWith("/filediffs")
+          ),
+          "no file diffs without line diffs"
+        );
+        lineSizes = await fetchPRSizes(client, prs, { lineDiffs: true });
+      } finally {
+        restore();
+      }
+
+      for (const pr of prs) {
+        const size = lineSizes[pr.pullRequestId];
+        assert.strictEqual(sizes[pr.pullRequestId].linesAdded, undefined);
+        // Generated files are changed but not counted
+        const counted = size.paths.filter(
+          (path) => !isExcludedPath(path)
+        ).length;
+        assert.strictEqual(
+          size.linesAdded,
+          counted * MOCK_FILE_DIFF_LINES.added
+        );
+        assert.strictEqual(
+          size.linesDeleted,
+          counted * MOCK_FILE_DIFF_LINES.deleted
+        );
+      }
+
+      const largest = findLargestPR(prs, lineSizes);
+      assert.ok(largest);
+      assert.strictEqual(
+        largest.linesAdded,
+        lineSizes[largest.id].linesAdded,
+        "the largest PR carries its lines"
+      );
+    },
+  },
+  {
+    name: "returns an empty Wrapped for a project that doesn't exist",
+    run: async (server) => {
+      server.reset();
+      // Each resource's failure is reported and skipped, not fatal
+      const { status, body } = await requestStats([
+        { project: "NoSuchProject", repository: allRepositories[0].repository },
+      ]);
+      assert.strictEqual(status, 200, JSON.stringify(body));
+      assert.strictEqual(body.commits.total, 0);
+      assert.strictEqual(body.pullRequests.created, 0);
+      assert.strictEqual(body.workItems.total, 0);
+      assert.ok(
+        server.requests.some((request) => request.status === 404),
+        "the mock reported the missing project"
+      );
+    },
+  },
+  {
+    name: "counts a date range's activity in the user's timezone",
+    run: async (server) => {
+      server.reset();
+      // UTC afternoons are already the next day in Kiritimati (UTC+14), so
+      // end the range on a February day with afternoon commits: those fall
+      // outside it there, and the previous day's fall inside
+      const timeZone = "Pacific/Kiritimati";
+      const isInRange = (date: string) =>
+        date >= range.startDate && date <= range.endDate;
+      const endDate = demo.commits
+        .map((commit) => commit.author.date)
+        .filter(
+          (date) =>
+            date.slice(5, 7) === "02" &&
+            getZonedParts(date, timeZone).date !== date.split("T")[0]
+        )
+        .sort()[0]
+        .split("T")[0];
+      const range = { startDate: `${DEMO_OPTIONS.year}-01-01`, endDate };
+
+      const inRange = demo.commits.filter((commit) =>
+        isInRange(getZonedParts(commit.author.date, timeZone).date)
+      );
+      const inUtcRange = demo.commits.filter((commit) =>
+        isInRange(commit.author.date.split("T")[0])
+      );
+      assert.notStrictEqual(
+        inRange.length,
+        inUtcRange.length,
+        "the dataset has commits across the range's end"
+      );
+
+      const { status, body } = await requestStats(allRepositories, PAT, {
+        dateRange: "custom",
+        ...range,
+        timeZone,
+      });
+      assert.strictEqual(status, 200, JSON.stringify(body));
+      assert.strictEqual(body.commits.total, inRange.length);
+      for (const byMonth of [
+        body.pullRequests.byMonth,
+        body.workItems.byMonth,
+      ]) {
+        assert.deepStrictEqual(
+          byMonth && Object.keys(byMonth),
+          ["Jan", "Feb"],
+          `byMonth lists other months: ${JSON.stringify(byMonth)}`
+        );
+        assert.ok(
+          Object.values(byMonth).every(Number.isInteger),
+          `byMonth has a non-count: ${JSON.stringify(byMonth)}`
+        );
+      }
+      assert.ok(
+        body.commits.commitDates.every(isInRange),
+        "heatmap dates stay in the range"
+      );
+    },
+  },
+  {
+    name: "leaves out activity just outside the range in the user's timezone",
+    run: async () => {
+      // Jan 1 03:00 UTC is still Dec 31 in Los Angeles
+      const range = resolveDateRange({ preset: "quarter", quarter: 1 }, 2025);
+      const commit = {
+        commitId: "boundary",
+        author: {
+          name: "Dev",
+          email: "dev@contoso.com",
+          date: "2025-01-01T03:00:00Z",
+        },
+        committer: {
+          name: "Dev",
+          email: "dev@contoso.com",
+          date: "2025-01-01T03:00:00Z",
+        },
+        comment: "Happy new year",
+        changeCounts: { Add: 1, Edit: 0, Delete: 0 },
+        url: "",
+        remoteUrl: "",
+      } as GitCommit;
+
+      const restore = verbose ? () => {} : silenceConsole();
+      let stats;
+      try {
+        stats = aggregateStats({
+          commits: [commit],
+          pullRequests: [],
+          workItems: [],
+          config: {
+            organization: dataset.organization,
+            projects: [],
+            repositories: [],
+            year: 2025,
+            dateRange: range,
+            timeZone: "America/Los_Angeles",
+          },
+        });
+      } finally {
+        restore();
+      }
+
+      assert.strictEqual(stats.commits.total, 0);
+      assert.deepStrictEqual(stats.commits.byMonth, { Jan: 0, Feb: 0, Mar: 0 });
+      assert.deepStrictEqual(stats.commits.commitDates, []);
+    },
+  },
+  {
+    name: "keeps the first and last month of a 13-month range apart",
+    run: async () => {
+      // 366 days from Jan 15 take in parts of two Januaries
+      const range = resolveDateRange(
+        { preset: "custom", startDate: "2024-01-15", endDate: "2025-01-14" },
+        2024
+      );
+      const commits = ["2024-01-20T12:00:00Z", "2025-01-10T12:00:00Z"].map(
+        (date, i) =>
+          ({
+            commitId: `january-${i}`,
+            author: { name: "Dev", email: "dev@contoso.com", date },
+            committer: { name: "Dev", email: "dev@contoso.com", date },
+            comment: "New year",
+            changeCounts: { Add: 1, Edit: 0, Delete: 0 },
+            url: "",
+            remoteUrl: "",
+          }) as GitCommit
+      );
+
+      const restore = verbose ? () => {} : silenceConsole();
+      let stats;
+      try {
+        stats = aggregateStats({
+          commits,
+          pullRequests: [],
+          workItems: [],
+          config: {
+            organization: dataset.organization,
+            projects: [],
+            repositories: [],
+            year: 2024,
+            dateRange: range,
+            timeZone: "UTC",
+          },
+        });
+      } finally {
+        restore();
+      }
+
+      assert.strictEqual(stats.commits.total, 2);
+      const months = Object.keys(stats.commits.byMonth);
+      assert.strictEqual(months.length, 13);
+      assert.strictEqual(months[0], "Jan 2024");
+      assert.strictEqual(months[12], "Jan 2025");
+      assert.strictEqual(stats.commits.byMonth["Jan 2024"], 1);
+      assert.strictEqual(stats.commits.byMonth["Jan 2025"], 1);
+    },
+  },
+  {
+    name: "doesn't serve cached responses to another credential",
+    run: async (server) => {
+      server.reset();
+      process.env.ADO_CACHE_ENABLED = "true";
+      await setCacheStore(new MemoryCacheStore(64 * 1024 * 1024));
+      try {
+        const first = await requestStats();
+        assert.strictEqual(first.status, 200, JSON.stringify(first.body));
+
+        // Same credential: served from the cache
+        server.reset();
+        const cached = await requestStats();
+        assert.deepStrictEqual(comparable(cached.body), comparable(baseline));
+        const cachedRunRequests = server.requests.length;
+
+        // Another token: every request goes to the server, which rejects it
+        server.reset();
+        const other = await requestStats(allRepositories, "someone-else");
+        assert.ok(
+          other.status !== 200 || other.body.commits.total === 0,
+          "another credential got cached commits"
+        );
+        assert.ok(
+          server.requests.length > cachedRunRequests &&
+            server.requests.every((request) => request.status === 401),
+          "another credential was answered from the cache"
+        );
+      } finally {
+        process.env.ADO_CACHE_ENABLED = "false";
+        await closeCache();
+      }
+    },
+  },
+  {
+    name: "caches PR lists that can include open PRs briefly",
+    run: async (server) => {
+      server.reset();
+      process.env.ADO_CACHE_ENABLED = "true";
+      await setCacheStore(new MemoryCacheStore(64 * 1024 * 1024));
+      try {
+        const { status, body } = await requestStats();
+        assert.strictEqual(status, 200, JSON.stringify(body));
+
+        // The PR lists as the collector requested them
+        const prLists = (await listCacheEntries()).filter((entry) =>
+          /\/pullrequests$/i.test(entry.url)
+        );
+        const statuses = prLists.map(
+          (entry) => entry.params?.["searchCriteria.status"]
+        );
+        assert.ok(
+          statuses.includes("all") && statuses.includes("completed"),
+          `expected reviewer (all) and creator (completed) lists, got ${statuses}`
+        );
+        for (const entry of prLists) {
+          const status = entry.params?.["searchCriteria.status"];
+          assert.strictEqual(
+            entry.rule === "activePullRequests",
+            status !== "completed" && status !== "abandoned",
+            `status=${status} list cached with the ${entry.rule} rule`
+          );
+        }
+      } finally {
+        process.env.ADO_CACHE_ENABLED = "false";
+        await closeCache();
+      }
+    },
+  },
+  {
+    name: "invalidates everything cached for a project or organization",
+    run: async () => {
+      process.env.ADO_CACHE_ENABLED = "true";
+      await setCacheStore(new MemoryCacheStore(64 * 1024 * 1024));
+      try {
+        const { status, body } = await requestStats();
+        assert.strictEqual(status, 200, JSON.stringify(body));
+
+        // What belongs to the project, judged by what each entry was for:
+        // its URL or params name the project or one of its repositories
+        const project = allRepositories[0].project;
+        const repositories = dataset.repositories.filter(
+          (repository) => repository.project?.name === project
+        );
+        const names = [
+          project,
+          ...repositories.flatMap((repository) => [
+            repository.id,
+            repository.name,
+          ]),
+        ];
+        const belongsToProject = (entry: { url: string; params?: object }) =>
+          names.some(
+            (name) =>
+              entry.url.split("/").includes(name) ||
+              Object.values(entry.params || {}).includes(name)
+          );
+
+        // Computed sizes are only cached for PRs with a source commit, which
+        // the mock's PRs don't have
+        const client = new AzureDevOpsClient({
+          organization: dataset.organization,
+          pat: PAT,
+          enableCache: true,
+        });
+        const restore = verbose ? () => {} : silenceConsole();
+        try {
+          await fetchPRSizes(
+            client,
+            dataset.pullRequests
+              .filter((pr) => pr.repository?.project?.name === project)
+              .slice(0, 2)
+              .map((pr) => ({
+                ...pr,
+                lastMergeSourceCommit: {
+                  commitId: `source-${pr.pullRequestId}`,
+                },
+              }))
+          );
+        } finally {
+          restore();
+        }
+
+        const before = (await listCacheEntries()).filter(belongsToProject);
+        for (const kind of [
+          /\/pullrequests$/i,
+          /\/threads$/i,
+          /\/iterations$/i,
+          /^pr-size$/,
+        ]) {
+          assert.ok(
+            before.some((entry) => kind.test(entry.url)),
+            `no ${kind} entry cached for ${project}`
+          );
+        }
+
+        const removed = await invalidateCache({ project });
+        const left = (await listCacheEntries()).filter(belongsToProject);
+        assert.deepStrictEqual(
+          left.map((entry) => entry.url),
+          [],
+          `invalidating ${project} left entries behind`
+        );
+        assert.strictEqual(removed, before.length);
+
+        await invalidateCache({ organization: dataset.organization });
+        assert.deepStrictEqual(await listCacheEntries(), []);
+      } finally {
+        process.env.ADO_CACHE_ENABLED = "false";
+        await closeCache();
+      }
+    },
+  },
+  {
+    name: "shares only a well-formed Wrapped, without the user's email",
+    run: async () => {
+      const directory = await fs.mkdtemp(
+        path.join(os.tmpdir(), "ado-snapshots-")
+      );
+      process.env.ADO_SNAPSHOT_STORE = "file";
+      process.env.ADO_SNAPSHOT_DIR = directory;
+      process.env.ADO_SNAPSHOT_RATE_LIMIT = "3";
+      try {
+        const wrapped = {
+          ...baseline,
+          meta: { ...baseline.meta, aliases: ["alias@contoso.com"] },
+        };
+        // Behind our proxy, which appends the address it saw; the hops
+        // before it are the client's to make up
+        const forwardedFor = (spoofed: number) => ({
+          "x-forwarded-for": `203.0.113.${spoofed}, 198.51.100.7`,
+        });
+        const created = await requestSnapshot(
+          { stats: wrapped },
+          forwardedFor(1)
+        );
+        assert.strictEqual(created.status, 201, JSON.stringify(created.body));
+
+        const response = await getSnapshot(
+          new NextRequest(`http://localhost${created.body.url}`),
+          { params: { id: created.body.id } }
+        );
+        const { stats, selfReported } = await response.json();
+        assert.strictEqual(selfReported, true);
+        const { userEmail, aliases, ...publicMeta } = wrapped.meta;
+        assert.deepStrictEqual(stats, { ...baseline, meta: publicMeta });
+
+        // Nested fields the stories read are checked, not just the sections
+        const { byDayOfWeek, ...commits } = baseline.commits;
+        const malformed = await requestSnapshot(
+          { stats: { ...baseline, commits } },
+          forwardedFor(2)
+        );
+        assert.strictEqual(malformed.status, 400);
+        assert.match(malformed.body.details, /stats\.commits\.byDayOfWeek/);
+
+        // A declared length over the limit is refused unread
+        const tooLarge = await requestSnapshot("{}", {
+          "content-length": `${10 * 1024 * 1024}`,
+        });
+        assert.strictEqual(tooLarge.status, 413);
+
+        // Every attempt read counts: the fourth within the hour is over
+        // ADO_SNAPSHOT_RATE_LIMIT, whatever the client puts in front
+        const second = await requestSnapshot(
+          { stats: baseline },
+          forwardedFor(3)
+        );
+        assert.strictEqual(second.status, 201);
+        const third = await requestSnapshot(
+          { stats: baseline },
+          forwardedFor(4)
+        );
+        assert.strictEqual(third.status, 429);
+
+        // A corrupt snapshot reads as missing and is pruned
+        await fs.writeFile(
+          path.join(directory, `${second.body.id}.json`),
+          "{not json"
+        );
+        const restore = verbose ? () => {} : silenceConsole();
+        try {
+          const corrupt = await getSnapshot(
+            new NextRequest(`http://localhost${second.body.url}`),
+            { params: { id: second.body.id } }
+          );
+          assert.strictEqual(corrupt.status, 404);
+          assert.strictEqual(await pruneExpiredSnapshots(), 1);
+        } finally {
+          restore();
+        }
+      } finally {
+        delete process.env.ADO_SNAPSHOT_STORE;
+        delete process.env.ADO_SNAPSHOT_DIR;
+        delete process.env.ADO_SNAPSHOT_RATE_LIMIT;
+        await closeSnapshotStore();
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    },
+  },
+  {
+    name: "keeps Redis store commands in the selected database",
+    skip: async () =>
+      (await canConnect(redisUrl))
+        ? null
+        : `no Redis server at ${redisUrl.host}`,
+    run: async () => {
+      const prefix = `ado-test-${process.pid}:`;
+      const store = new RedisCacheStore(redisUrl.href, prefix);
+      const defaultDb = new URL(redisUrl.href);
+      defaultDb.pathname = "";
+      const defaultStore = new RedisCacheStore(defaultDb.href, prefix);
+      const restore = verbose ? () => {} : silenceConsole();
+      try {
+        // Keep writing until the first command is answered, so some writes
+        // arrive while the connection is still selecting the database. They
+        // must go out after the first command, on the selected database.
+        let answered = false;
+        const first = store.get("a").finally(() => (answered = true));
+        const writes: Promise<void>[] = [];
+        while (!answered && writes.length < 1000) {
+          await new Promise((resolve) => setImmediate(resolve));
+          writes.push(store.set("a", `${writes.length}`));
+        }
+        await Promise.all(writes);
+        assert.ok(writes.length > 0, "no command was sent while connecting");
+        assert.strictEqual(await first, null, "a later write overtook it");
+        assert.deepStrictEqual(
+          await defaultStore.keys(),
+          [],
+          "commands ran on database 0"
+        );
+
+        await store.set("b", "xy");
+        assert.deepStrictEqual((await store.keys()).sort(), ["a", "b"]);
+        assert.deepStrictEqual(await store.stats(), {
+          entries: 2,
+          totalSize: `${writes.length - 1}`.length + 2,
+        });
+        await store.delete("a");
+        assert.strictEqual(await store.get("a"), null);
+        assert.strictEqual(await store.clear(), 1);
+      } finally {
+        await store.clear().catch(() => {});
+        await store.close();
+        await defaultStore.close();
+        restore();
+      }
+    },
+  },
+];
+
+async function runIntegrationTests() {
+  console.log("🧪 Running /api/stats against a mock Azure DevOps\n");
+
+  const server = await startMockAdoServer({ dataset, pat: PAT });
+  console.log(
+    `🧩 Mock organization "${dataset.organization}" at ${server.url}: ${expected.commits} commits, ${expected.pullRequests} completed PRs, ${expected.reviews} reviews, ${expected.workItems} work items\n`
+  );
+
+  // Talk only to the mock: no .env settings, cache or fixtures
+  for (const key of Object.keys(process.env)) {
+    if (key.startsWith("ADO_")) delete process.env[key];
+  }
+  process.env.ADO_BASE_URL = server.url;
+  process.env.ADO_CACHE_ENABLED = "false";
+
+  let failed = 0;
+  let skipped = 0;
+  try {
+    for (const testCase of testCases) {
+      const skipReason = await testCase.skip?.();
+      if (skipReason) {
+        skipped++;
+        console.log(`⏭️  ${testCase.name} (skipped: ${skipReason})`);
+        continue;
+      }
+      const start = Date.now();
+      try {
+        await testCase.run(server);
+        console.log(`✅ ${testCase.name} (${Date.now() - start}ms)`);
+      } catch (error: any) {
+        failed++;
+        console.error(`❌ ${testCase.name}\n   ${error.message}`);
+      }
+    }
+  } finally {
+    await server.close();
+  }
+
+  console.log(
+    `\n${failed === 0 ? "🎉" : "💥"} ${
+      testCases.length - failed - skipped
+    }/${testCases.length - skipped} passed${
+      skipped > 0 ? `, ${skipped} skipped` : ""
+    }`
+  );
+  process.exitCode = failed === 0 ? 0 : 1;
+}
+
+/**
+ * Whether a server accepts connections at a URL's host and port
+ */
+function canConnect(url: URL): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({
+      host: url.hostname,
+      port: parseInt(url.port || "6379"),
+    });
+    socket.setTimeout(1000, () => socket.destroy());
+    socket.once("connect", () => {
+      socket.end();
+      resolve(true);
+    });
+    socket.once("error", () => {}); // Reported as a close
+    socket.once("close", () => resolve(false));
+  });
+}
+
+/**
+ * Silence the fetchers' logging, returning a function that restores it
+ */
+function silenceConsole(): () => void {
+  const { log, info, warn, error } = console;
+  console.log = console.info = console.warn = console.error = () => {};
+  return () => Object.assign(console, { log, info, warn, error });
+}
+
+runIntegrationTests().catch((error) => {
+  console.error("❌ Integration tests failed to run:", error);
+  process.exitCode = 1;
+});